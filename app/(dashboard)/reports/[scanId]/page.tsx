@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import ShareManager from '@/components/reports/ShareManager';
+import ScreenReaderTranscript from '@/components/reports/ScreenReaderTranscript';
 import { 
   Shield, 
   Calendar, 
@@ -14,7 +15,8 @@ import {
   BarChart3,
   AlertTriangle,
   CheckCircle,
-  Clock
+  Clock,
+  Image as ImageIcon
 } from 'lucide-react';
 
 interface ScanReport {
@@ -33,6 +35,22 @@ interface ScanReport {
   };
 }
 
+interface EvidenceArtifact {
+  id: string;
+  label: string; // 'element', 'page', 'focused', 'unfocused', 'before', 'after'
+}
+
+interface Finding {
+  id: number;
+  wcagCriterion: string;
+  severity: string;
+  elementSelector: string | null;
+  pageUrl: string | null;
+  userImpact: string;
+  fixDescription: string;
+  evidence?: { artifacts?: EvidenceArtifact[] } | null;
+}
+
 interface ReportPageProps {
   params: { scanId: string };
 }
@@ -40,6 +58,7 @@ interface ReportPageProps {
 export default function ReportPage({ params }: ReportPageProps) {
   const { scanId } = params;
   const [report, setReport] = useState<ScanReport | null>(null);
+  const [findings, setFindings] = useState<Finding[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -68,6 +87,13 @@ export default function ReportPage({ params }: ReportPageProps) {
       };
       
       setReport(mockReport);
+
+      // Findings with their screenshot evidence
+      const response = await fetch(`/api/scan/${scanId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setFindings(data.violations || []);
+      }
     } catch (error) {
       console.error('Failed to fetch report:', error);
       setError('Failed to load report');
@@ -82,6 +108,8 @@ export default function ReportPage({ params }: ReportPageProps) {
     window.open(url, '_blank');
   };
 
+  const artifactUrl = (artifact: EvidenceArtifact) => `/api/artifacts/${artifact.id}`;
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -232,15 +260,97 @@ export default function ReportPage({ params }: ReportPageProps) {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12 text-gray-500">
-            <FileText className="h-12 w-12 mx-auto mb-4" />
-            <p>Detailed report content would be displayed here.</p>
-            <p className="text-sm mt-2">
-              This would include WCAG violations, recommendations, and implementation guidance.
-            </p>
-          </div>
+          {findings.length > 0 ? (
+            <div className="space-y-4">
+              {findings.map((finding) => {
+                const artifacts = finding.evidence?.artifacts || [];
+                const element = artifacts.find(artifact => artifact.label === 'element');
+                const fullPage = artifacts.find(artifact => artifact.label === 'page');
+                // Reflow, zoom and text spacing: normal rendering next to the stressed one
+                const comparison = (['before', 'after'] as const).flatMap(label => {
+                  const artifact = artifacts.find(candidate => candidate.label === label);
+                  return artifact ? [{ label, artifact }] : [];
+                });
+
+                return (
+                  <div key={finding.id} className="border rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="font-semibold">WCAG {finding.wcagCriterion}</span>
+                      <Badge variant="outline" className="capitalize">{finding.severity}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-700">{finding.userImpact}</p>
+                    {finding.elementSelector && (
+                      <code className="block text-xs bg-gray-100 rounded px-2 py-1 mt-2 break-all">
+                        {finding.elementSelector}
+                      </code>
+                    )}
+                    {finding.pageUrl && (
+                      <p className="text-xs text-gray-500 mt-1 break-all">{finding.pageUrl}</p>
+                    )}
+                    <p className="text-sm mt-2"><strong>Fix:</strong> {finding.fixDescription}</p>
+
+                    {(element || fullPage) && (
+                      <div className="flex items-start gap-4 mt-3">
+                        {element && (
+                          <a href={artifactUrl(element)} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element -- served by /api/artifacts, not a static asset */}
+                            <img
+                              src={artifactUrl(element)}
+                              alt={`Affected element for WCAG ${finding.wcagCriterion}, outlined in red`}
+                              className="max-h-48 rounded border"
+                              loading="lazy"
+                            />
+                          </a>
+                        )}
+                        {fullPage && (
+                          <a
+                            href={artifactUrl(fullPage)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                          >
+                            <ImageIcon className="h-4 w-4" />
+                            Full-page screenshot
+                          </a>
+                        )}
+                      </div>
+                    )}
+
+                    {comparison.length > 0 && (
+                      <div className="flex items-start gap-4 mt-3">
+                        {comparison.map(({ label, artifact }) => (
+                          <figure key={label}>
+                            <a href={artifactUrl(artifact)} target="_blank" rel="noopener noreferrer">
+                              {/* eslint-disable-next-line @next/next/no-img-element -- served by /api/artifacts, not a static asset */}
+                              <img
+                                src={artifactUrl(artifact)}
+                                alt={`${label === 'before' ? 'Normal rendering' : 'Rendering under test'} for WCAG ${finding.wcagCriterion}`}
+                                className="max-h-48 rounded border"
+                                loading="lazy"
+                              />
+                            </a>
+                            <figcaption className="text-xs text-gray-500 mt-1 capitalize">{label}</figcaption>
+                          </figure>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-500">
+              <FileText className="h-12 w-12 mx-auto mb-4" />
+              <p>Detailed report content would be displayed here.</p>
+              <p className="text-sm mt-2">
+                This would include WCAG violations, recommendations, and implementation guidance.
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      <ScreenReaderTranscript scanId={report.id} />
     </div>
   );
 }
\ No newline at end of file
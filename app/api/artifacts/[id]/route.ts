@@ -0,0 +1,72 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseClient } from '@/lib/supabase/server';
+import { forbiddenResponse, requireOrgMember } from '@/lib/auth/guards';
+import { readArtifact } from '@/lib/scanner/artifacts';
+
+/**
+ * GET /api/artifacts/[id]
+ *
+ * Serve a stored artifact (element crop, full-page screenshot, focus-state
+ * capture) from whichever storage backend holds it, to members of the
+ * organization that owns its scan
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createSupabaseClient();
+
+    const { data: artifact } = await supabase
+      .from('artifacts')
+      .select('scan_id')
+      .eq('id', id)
+      .single();
+
+    const { data: scan } = artifact
+      ? await supabase.from('scans').select('org_id').eq('id', artifact.scan_id).single()
+      : { data: null };
+
+    if (!scan) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only the scan's organization may read its evidence
+    const user = await requireOrgMember(String(scan.org_id), req).catch(() => null);
+    if (!user) {
+      return forbiddenResponse('Organization membership required');
+    }
+
+    const stored = await readArtifact(id);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(stored.data), {
+      status: 200,
+      headers: {
+        'Content-Type': stored.artifact.contentType,
+        'Content-Length': stored.data.length.toString(),
+        // Artifacts are immutable once stored
+        'Cache-Control': 'private, max-age=86400, immutable'
+      }
+    });
+
+  } catch (error) {
+    console.error('Artifact retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load artifact' },
+      { status: 500 }
+    );
+  }
+}
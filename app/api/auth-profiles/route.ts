@@ -0,0 +1,195 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSupabaseClient } from '@/lib/supabase/server';
+import { forbiddenResponse, requireSessionOrg } from '@/lib/auth/guards';
+import { encryptJSON, CredentialKeyError } from '@/lib/security/credentials';
+import type { AuthProfile } from '@/lib/scanner/auth';
+
+const cookieSchema = z.object({
+  name: z.string().min(1),
+  value: z.string(),
+  domain: z.string().optional(),
+  path: z.string().optional(),
+  secure: z.boolean().optional(),
+  httpOnly: z.boolean().optional()
+});
+
+const profileSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('form_login'),
+    recipe: z.object({
+      loginUrl: z.string().url(),
+      usernameSelector: z.string().min(1),
+      passwordSelector: z.string().min(1),
+      submitSelector: z.string().min(1),
+      username: z.string().min(1),
+      password: z.string().min(1),
+      extraFields: z.array(z.object({ selector: z.string().min(1), value: z.string() })).optional(),
+      successSelector: z.string().optional(),
+      successUrlPattern: z.string().optional()
+    })
+  }),
+  z.object({
+    kind: z.literal('inject'),
+    credentials: z.object({
+      cookies: z.array(cookieSchema).optional(),
+      headers: z.record(z.string()).optional()
+    })
+  }),
+  z.object({
+    kind: z.literal('storage_state'),
+    storageState: z.object({
+      cookies: z.array(cookieSchema.extend({
+        domain: z.string(),
+        path: z.string(),
+        expires: z.number(),
+        httpOnly: z.boolean(),
+        secure: z.boolean(),
+        sameSite: z.enum(['Strict', 'Lax', 'None'])
+      })),
+      origins: z.array(z.object({
+        origin: z.string(),
+        localStorage: z.array(z.object({ name: z.string(), value: z.string() }))
+      }))
+    })
+  })
+]);
+
+const createRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  siteUrl: z.string().url(),
+  profile: profileSchema
+});
+
+/**
+ * POST /api/auth-profiles
+ *
+ * Store an encrypted auth profile for the caller's organization.
+ * Credentials are encrypted before insert and never returned.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireSessionOrg(req).catch(() => null);
+    if (!user) {
+      return forbiddenResponse('Organization membership required');
+    }
+
+    const parsed = createRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid auth profile', details: parsed.error.errors.map(e => e.path.join('.')) },
+        { status: 400 }
+      );
+    }
+
+    const { name, siteUrl, profile } = parsed.data;
+    const siteHost = new URL(siteUrl).hostname;
+
+    if (profile.kind === 'form_login' && new URL(profile.recipe.loginUrl).hostname !== siteHost) {
+      return NextResponse.json(
+        { error: 'Login URL must be on the same host as the site' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase
+      .from('scan_auth_profiles')
+      .insert({
+        org_id: user.orgId,
+        name,
+        site_host: siteHost,
+        kind: profile.kind,
+        encrypted_config: encryptJSON(profile as AuthProfile),
+        created_by: user.id
+      })
+      .select('id, name, site_host, kind, created_at')
+      .single();
+
+    if (error) {
+      console.error('Failed to create auth profile:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to create auth profile' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile: {
+        id: data.id,
+        name: data.name,
+        siteHost: data.site_host,
+        kind: data.kind,
+        createdAt: data.created_at
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof CredentialKeyError) {
+      console.error('Auth profile encryption unavailable:', error.message);
+      return NextResponse.json(
+        { error: 'Authenticated scanning is not configured' },
+        { status: 503 }
+      );
+    }
+
+    // Do not log the request body - it contains credentials
+    console.error('Auth profile creation error:', error instanceof Error ? error.message : 'unknown');
+    return NextResponse.json(
+      { error: 'Failed to create auth profile' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/auth-profiles
+ *
+ * List the caller's organization's auth profiles (metadata only, no secrets)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireSessionOrg(req).catch(() => null);
+    if (!user) {
+      return forbiddenResponse('Organization membership required');
+    }
+
+    const supabase = createSupabaseClient();
+    const { data: profiles, error } = await supabase
+      .from('scan_auth_profiles')
+      .select('id, name, site_host, kind, created_at, last_used_at')
+      .eq('org_id', user.orgId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch auth profiles:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch auth profiles' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profiles: profiles.map(profile => ({
+        id: profile.id,
+        name: profile.name,
+        siteHost: profile.site_host,
+        kind: profile.kind,
+        createdAt: profile.created_at,
+        lastUsedAt: profile.last_used_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Auth profiles fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch auth profiles' },
+      { status: 500 }
+    );
+  }
+}
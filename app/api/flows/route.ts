@@ -0,0 +1,193 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createSupabaseClient } from '@/lib/supabase/server';
+import { forbiddenResponse, requireSessionOrg } from '@/lib/auth/guards';
+import type { FlowStep } from '@/lib/scanner/flows';
+import { encryptSecret, CredentialKeyError } from '@/lib/security/credentials';
+
+const stepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('goto'), url: z.string().min(1), name: z.string().optional() }),
+  z.object({ type: z.literal('click'), selector: z.string().min(1), name: z.string().optional() }),
+  z.object({ type: z.literal('fill'), selector: z.string().min(1), value: z.string(), name: z.string().optional() }),
+  z.object({ type: z.literal('press'), key: z.string().min(1), selector: z.string().min(1).optional(), name: z.string().optional() }),
+  z.object({
+    type: z.literal('assert'),
+    selector: z.string().min(1).optional(),
+    text: z.string().min(1).optional(),
+    urlIncludes: z.string().min(1).optional(),
+    name: z.string().optional()
+  })
+]);
+
+const createRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  siteUrl: z.string().url(),
+  flowType: z.string().min(1).max(50),
+  keyboardOnly: z.boolean().default(true),
+  steps: z.array(stepSchema).min(1).max(50).refine(
+    steps => steps.every(step => step.type !== 'assert' || step.selector || step.text || step.urlIncludes),
+    { message: 'assert steps need a selector, text or urlIncludes' }
+  )
+});
+
+/**
+ * POST /api/flows
+ *
+ * Attach a scripted user journey to one of the caller's organization's
+ * sites. The worker replays it on every scan of that host and stores the
+ * run in the flows table.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireSessionOrg(req).catch(() => null);
+    if (!user) {
+      return forbiddenResponse('Organization membership required');
+    }
+
+    const parsed = createRequestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid flow definition', details: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`) },
+        { status: 400 }
+      );
+    }
+
+    const { name, siteUrl, flowType, keyboardOnly, steps } = parsed.data;
+    const siteHost = new URL(siteUrl).hostname;
+
+    // Journeys may not wander off to other hosts
+    const offSite = steps.find(step => step.type === 'goto' && new URL(step.url, siteUrl).hostname !== siteHost);
+    if (offSite) {
+      return NextResponse.json(
+        { error: 'goto steps must stay on the same host as the site' },
+        { status: 400 }
+      );
+    }
+
+    // Fill values are often test passwords; only the worker decrypts them
+    const storedSteps: FlowStep[] = steps.map(step =>
+      step.type === 'fill' ? { ...step, value: encryptSecret(step.value) } : step
+    );
+
+    const supabase = createSupabaseClient();
+    const { data, error } = await supabase
+      .from('flow_definitions')
+      .insert({
+        org_id: user.orgId,
+        name,
+        site_host: siteHost,
+        flow_type: flowType,
+        keyboard_only: keyboardOnly,
+        steps: storedSteps,
+        created_by: user.id
+      })
+      .select('id, name, site_host, flow_type, keyboard_only, created_at')
+      .single();
+
+    if (error) {
+      console.error('Failed to create flow definition:', error.message);
+      return NextResponse.json(
+        { error: 'Failed to create flow' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      flow: {
+        id: data.id,
+        name: data.name,
+        siteHost: data.site_host,
+        flowType: data.flow_type,
+        keyboardOnly: data.keyboard_only,
+        stepCount: steps.length,
+        createdAt: data.created_at
+      }
+    });
+
+  } catch (error) {
+    if (error instanceof CredentialKeyError) {
+      console.error('Flow encryption unavailable:', error.message);
+      return NextResponse.json(
+        { error: 'Scripted flows are not configured' },
+        { status: 503 }
+      );
+    }
+
+    // Fill values can hold test credentials - do not log the request body
+    console.error('Flow creation error:', error instanceof Error ? error.message : 'unknown');
+    return NextResponse.json(
+      { error: 'Failed to create flow' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/flows
+ *
+ * List the caller's organization's flow definitions with their latest run
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireSessionOrg(req).catch(() => null);
+    if (!user) {
+      return forbiddenResponse('Organization membership required');
+    }
+
+    const supabase = createSupabaseClient();
+    const { data: definitions, error } = await supabase
+      .from('flow_definitions')
+      .select('id, name, site_host, flow_type, keyboard_only, steps, created_at, last_run_at')
+      .eq('org_id', user.orgId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch flow definitions:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch flows' },
+        { status: 500 }
+      );
+    }
+
+    const { data: runs } = await supabase
+      .from('flows')
+      .select('definition_id, scan_id, completed, failed_step, accessibility_score, created_at')
+      .in('definition_id', definitions.map(definition => definition.id))
+      .order('created_at', { ascending: false });
+
+    return NextResponse.json({
+      success: true,
+      flows: definitions.map(definition => {
+        const lastRun = runs?.find(run => run.definition_id === definition.id);
+        return {
+          id: definition.id,
+          name: definition.name,
+          siteHost: definition.site_host,
+          flowType: definition.flow_type,
+          keyboardOnly: definition.keyboard_only,
+          stepCount: Array.isArray(definition.steps) ? definition.steps.length : 0,
+          createdAt: definition.created_at,
+          lastRunAt: definition.last_run_at,
+          lastRun: lastRun ? {
+            scanId: lastRun.scan_id,
+            completed: lastRun.completed,
+            failedStep: lastRun.failed_step,
+            accessibilityScore: lastRun.accessibility_score,
+            ranAt: lastRun.created_at
+          } : null
+        };
+      })
+    });
+
+  } catch (error) {
+    console.error('Flows fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch flows' },
+      { status: 500 }
+    );
+  }
+}
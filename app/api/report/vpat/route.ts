@@ -6,6 +6,7 @@ import { chromium } from 'playwright';
 import { requireUser } from '@/lib/auth/guards';
 import { ScanResultsNormalizer } from '@/lib/scan-results';
 import { VPATGenerator, type VPATData } from '@/lib/reports/vpat-generator';
+import { loadMediaInventory } from '@/lib/scanner/media';
 
 export async function GET(req: NextRequest) {
   const startTime = Date.now();
@@ -122,7 +123,8 @@ export async function GET(req: NextRequest) {
       findings,
       score,
       url: scanData.url,
-      domain
+      domain,
+      media: await loadMediaInventory(scanId).catch(() => undefined)
     };
 
     // Generate VPAT HTML
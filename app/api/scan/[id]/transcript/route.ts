@@ -0,0 +1,97 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseClient } from '@/lib/supabase/server';
+import { forbiddenResponse, requireOrgMember } from '@/lib/auth/guards';
+import { listArtifacts } from '@/lib/scanner/artifacts';
+import { TRANSCRIPT_ARTIFACT_TYPE, diffTranscripts, loadTranscripts } from '@/lib/scanner/transcript';
+
+/**
+ * GET /api/scan/[id]/transcript
+ *
+ * Screen reader transcripts of a scan (see lib/scanner/transcript).
+ * Without ?page, lists the pages that have one. With ?page (and optional
+ * ?viewport, default desktop) returns that page's transcript; adding
+ * ?compare=<scanId> diffs it against the same page in that scan. Both
+ * scans must belong to the caller's organization.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = req.nextUrl;
+    const pageUrl = searchParams.get('page');
+    const viewport = searchParams.get('viewport') || 'desktop';
+    const compare = searchParams.get('compare');
+
+    // Transcripts read out logged-in pages; only the scans' organization may see them
+    const supabase = createSupabaseClient();
+    for (const scanId of compare ? [id, compare] : [id]) {
+      const { data: scan } = await supabase.from('scans').select('org_id').eq('id', scanId).single();
+      if (!scan) {
+        return NextResponse.json(
+          { error: `Scan ${scanId} not found` },
+          { status: 404 }
+        );
+      }
+
+      const user = await requireOrgMember(String(scan.org_id), req).catch(() => null);
+      if (!user) {
+        return forbiddenResponse('Organization membership required');
+      }
+    }
+
+    if (!pageUrl) {
+      const records = await listArtifacts(id, TRANSCRIPT_ARTIFACT_TYPE);
+      return NextResponse.json({
+        pages: records.map(record => ({
+          pageUrl: record.metadata?.pageUrl,
+          viewport: record.metadata?.viewport || 'desktop',
+          lines: record.metadata?.lines ?? null,
+          flagged: record.metadata?.flagged ?? null
+        }))
+      });
+    }
+
+    const [transcript] = await loadTranscripts(id, pageUrl, viewport);
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'No transcript for this page' },
+        { status: 404 }
+      );
+    }
+
+    if (!compare) {
+      return NextResponse.json({ transcript });
+    }
+
+    const [previous] = await loadTranscripts(compare, pageUrl, viewport);
+    if (!previous) {
+      return NextResponse.json(
+        { error: `Scan ${compare} has no transcript for this page` },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffTranscripts(previous.lines, transcript.lines);
+    return NextResponse.json({
+      transcript,
+      previous,
+      diff,
+      summary: {
+        added: diff.filter(line => line.change === 'added').length,
+        removed: diff.filter(line => line.change === 'removed').length
+      }
+    });
+
+  } catch (error) {
+    console.error('Transcript retrieval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load transcript' },
+      { status: 500 }
+    );
+  }
+}
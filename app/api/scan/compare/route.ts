@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forbiddenResponse, requireOrgMember } from '@/lib/auth/guards';
+import { db } from '@/lib/db/drizzle';
+import { scans, violations } from '@/lib/db/schema';
+import { compareFindings } from '@/lib/scanner/fingerprint';
+import type { IssueOccurrence } from '@/lib/scanner/templates';
+import { eq, inArray } from 'drizzle-orm';
+
+type ViolationRow = typeof violations.$inferSelect;
+
+// One finding per occurrence: a site-wide row fixed on one page still persists on the others
+function instances(rows: ViolationRow[]) {
+  return rows.flatMap(row => {
+    const occurrences = (row.occurrences as IssueOccurrence[] | null) || [];
+    if (occurrences.length === 0) return [{ ...row }];
+    return occurrences.map(occurrence => ({
+      ...row,
+      pageUrl: occurrence.pageUrl ?? row.pageUrl,
+      elementSelector: occurrence.selector ?? row.elementSelector,
+      viewport: occurrence.viewport ?? row.viewport,
+      fingerprint: occurrence.fingerprint ?? row.fingerprint
+    }));
+  });
+}
+
+/**
+ * GET /api/scan/compare?from=<scanId>&to=<scanId>
+ *
+ * Classify the findings of two scans by fingerprint: new in `to`, fixed
+ * since `from`, or persisting in both. Any two scans can be compared,
+ * e.g. a static build against the deployed site, as long as the caller
+ * belongs to the organization that owns both.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const fromId = parseInt(req.nextUrl.searchParams.get('from') || '');
+    const toId = parseInt(req.nextUrl.searchParams.get('to') || '');
+
+    if (isNaN(fromId) || fromId <= 0 || isNaN(toId) || toId <= 0) {
+      return NextResponse.json(
+        { error: 'Both from and to scan IDs are required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await db()
+      .select({ id: scans.id, orgId: scans.orgId, url: scans.url, status: scans.status, createdAt: scans.createdAt })
+      .from(scans)
+      .where(inArray(scans.id, [fromId, toId]));
+
+    const from = found.find(scan => scan.id === fromId);
+    const to = found.find(scan => scan.id === toId);
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: 'Scan not found' },
+        { status: 404 }
+      );
+    }
+
+    // Findings carry markup captured from logged-in pages; only the owning organization may read them
+    for (const scan of [from, to]) {
+      const user = await requireOrgMember(String(scan.orgId), req).catch(() => null);
+      if (!user) {
+        return forbiddenResponse('Organization membership required');
+      }
+    }
+
+    if (from.status !== 'complete' || to.status !== 'complete') {
+      return NextResponse.json(
+        { error: 'Both scans must be complete' },
+        { status: 409 }
+      );
+    }
+
+    const [fromViolations, toViolations] = await Promise.all([
+      db().select().from(violations).where(eq(violations.scanId, fromId)),
+      db().select().from(violations).where(eq(violations.scanId, toId))
+    ]);
+
+    const comparison = compareFindings(instances(fromViolations), instances(toViolations));
+
+    return NextResponse.json({
+      from: { id: from.id, url: from.url, status: from.status, createdAt: from.createdAt },
+      to: { id: to.id, url: to.url, status: to.status, createdAt: to.createdAt },
+      summary: {
+        new: comparison.new.length,
+        fixed: comparison.fixed.length,
+        persisting: comparison.persisting.length
+      },
+      new: comparison.new,
+      fixed: comparison.fixed,
+      persisting: comparison.persisting.map(({ current }) => current)
+    });
+
+  } catch (error) {
+    console.error('Scan comparison error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare scans' },
+      { status: 500 }
+    );
+  }
+}
@@ -21,7 +21,7 @@ export async function POST(req: NextRequest) {
       return rateLimitedResponse(remaining, reset);
     }
     
-    const { url, email, depth = 'standard', tier = 'free' } = await req.json();
+    const { url, email, depth = 'standard', tier = 'free', authProfileId, viewports } = await req.json();
     
     // Validate inputs
     if (!url || !email) {
@@ -31,6 +31,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Viewport matrix - unknown names are dropped, desktop only by default
+    const requestedViewports = Array.isArray(viewports)
+      ? viewports.filter((name: string) => ['desktop', 'tablet', 'phone'].includes(name))
+      : [];
+    if (requestedViewports.length === 0) {
+      requestedViewports.push('desktop');
+    }
+
     // SSRF protection - validate URL is public and safe
     const urlValidation = await validateScanUrl(url);
     if (!urlValidation.valid) {
@@ -95,6 +103,23 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    // Authenticated scans: the profile must belong to this org and target this host
+    if (authProfileId) {
+      const { data: authProfile } = await createSupabaseClient()
+        .from('scan_auth_profiles')
+        .select('id, site_host')
+        .eq('id', authProfileId)
+        .eq('org_id', orgId)
+        .single();
+
+      if (!authProfile || authProfile.site_host !== domain) {
+        return NextResponse.json(
+          { error: 'Auth profile not found for this site' },
+          { status: 400, headers }
+        );
+      }
+    }
+
     // Enforce pages per scan limit based on tier
     const maxPagesForTier = usageLimits.pagesPerScan;
     
@@ -155,7 +180,9 @@ export async function POST(req: NextRequest) {
         url,
         depth,
         priority: tier === 'free' ? 10 : tier === 'professional' ? 5 : 1,
-        max_pages: expectedPages // Pass the tier-based page limit to the worker
+        max_pages: expectedPages, // Pass the tier-based page limit to the worker
+        auth_profile_id: authProfileId || null,
+        viewports: requestedViewports
       })
       .select('id')
       .single();
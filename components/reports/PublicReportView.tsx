@@ -297,6 +297,11 @@ export default function PublicReportView({ report, watermark = true, viewInfo }:
                         <Badge className={getImpactColor(violation.impact)}>
                           {violation.impact}
                         </Badge>
+                        {violation.mobile_only_instances > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            Mobile-only: {violation.mobile_only_instances}
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600 mb-2">{violation.description}</p>
                       <div className="flex items-center gap-4 text-xs text-gray-500">
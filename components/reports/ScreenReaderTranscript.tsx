@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Volume2, AlertTriangle, GitCompare } from 'lucide-react';
+import type { TranscriptDiffLine, TranscriptLine } from '@/lib/scanner/transcript';
+
+interface TranscriptPage {
+  pageUrl: string;
+  viewport: string;
+  lines: number | null;
+  flagged: number | null;
+}
+
+interface ScreenReaderTranscriptProps {
+  scanId: string;
+}
+
+const pageKey = (page: Pick<TranscriptPage, 'pageUrl' | 'viewport'>) => `${page.viewport}|${page.pageUrl}`;
+
+function TranscriptRow({ line, change }: { line: TranscriptLine; change?: TranscriptDiffLine['change'] }) {
+  const background =
+    change === 'added' ? 'bg-green-50' :
+    change === 'removed' ? 'bg-red-50 line-through text-gray-500' :
+    line.flag ? 'bg-amber-50' : '';
+
+  return (
+    <li className={`px-3 py-1 font-mono text-sm ${background}`}>
+      {change && change !== 'same' && (
+        <span className="mr-2 select-none" aria-label={change}>{change === 'added' ? '+' : '−'}</span>
+      )}
+      {line.text}
+      {line.flag && (
+        <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-700 font-sans">
+          <AlertTriangle className="h-3 w-3" />
+          {line.note}
+        </span>
+      )}
+    </li>
+  );
+}
+
+/**
+ * What a screen reader announces on each scanned page, in reading order,
+ * with unnamed controls and confusing names highlighted. Another scan's
+ * transcript of the same page can be diffed in.
+ */
+export default function ScreenReaderTranscript({ scanId }: ScreenReaderTranscriptProps) {
+  const [pages, setPages] = useState<TranscriptPage[]>([]);
+  const [selected, setSelected] = useState<string>('');
+  const [lines, setLines] = useState<TranscriptLine[]>([]);
+  const [diff, setDiff] = useState<TranscriptDiffLine[] | null>(null);
+  const [compareId, setCompareId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/scan/${scanId}/transcript`)
+      .then(response => (response.ok ? response.json() : { pages: [] }))
+      .then(data => {
+        setPages(data.pages || []);
+        if (data.pages?.length > 0) setSelected(pageKey(data.pages[0]));
+      })
+      .catch(() => setPages([]));
+  }, [scanId]);
+
+  const selectedPage = pages.find(page => pageKey(page) === selected);
+
+  const load = useCallback(async (compare?: string) => {
+    if (!selectedPage) return;
+    setError(null);
+
+    const query = new URLSearchParams({ page: selectedPage.pageUrl, viewport: selectedPage.viewport });
+    if (compare) query.set('compare', compare);
+
+    const response = await fetch(`/api/scan/${scanId}/transcript?${query}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'Failed to load transcript');
+      return;
+    }
+    setLines(data.transcript.lines);
+    setDiff(compare ? data.diff : null);
+  }, [scanId, selectedPage]);
+
+  // Reloads when another page is picked (selectedPage is the same object until then)
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (pages.length === 0) return null;
+
+  const flagged = lines.filter(line => line.flag).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Volume2 className="h-5 w-5" />
+          Screen Reader Transcript
+        </CardTitle>
+        <CardDescription>
+          What a screen reader announces on the page, in reading order
+          {flagged > 0 && ` — ${flagged} confusing or unnamed announcement${flagged === 1 ? '' : 's'} highlighted`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="text-sm text-gray-600" htmlFor="transcript-page">Page</label>
+          <select
+            id="transcript-page"
+            className="border rounded px-2 py-1 text-sm max-w-md"
+            value={selected}
+            onChange={(event) => setSelected(event.target.value)}
+          >
+            {pages.map(page => (
+              <option key={pageKey(page)} value={pageKey(page)}>
+                {page.pageUrl} ({page.viewport})
+              </option>
+            ))}
+          </select>
+
+          <Input
+            aria-label="Scan ID to compare with"
+            placeholder="Compare with scan ID"
+            className="w-48"
+            value={compareId}
+            onChange={(event) => setCompareId(event.target.value)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            disabled={!compareId}
+            onClick={() => load(compareId)}
+          >
+            <GitCompare className="h-4 w-4" />
+            Compare
+          </Button>
+          {diff && (
+            <Button variant="ghost" size="sm" onClick={() => load()}>
+              Clear comparison
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <ol className="border rounded divide-y max-h-[32rem] overflow-y-auto">
+          {diff
+            ? diff.map((entry, index) => <TranscriptRow key={index} line={entry.line} change={entry.change} />)
+            : lines.map((line, index) => <TranscriptRow key={index} line={line} />)}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUser } from '@/lib/db/queries';
+import { getUser, getUserWithTeam } from '@/lib/db/queries';
 import { cookies } from 'next/headers';
 
 export interface AuthUser {
@@ -17,13 +17,17 @@ export async function requireUser(req?: NextRequest): Promise<AuthUser> {
   if (!user) {
     throw new Error('Authentication required');
   }
+
+  // The user's team is their organization (scans and usage are recorded against it)
+  const membership = await getUserWithTeam(user.id);
+  const teamId = membership?.teamId ?? undefined;
   
   return {
     id: String(user.id),
     email: user.email || '',
     role: (user as any).role || 'user',
-    orgId: (user as any).orgId,
-    teamId: user.teamId || undefined,
+    orgId: (user as any).orgId ?? (teamId !== undefined ? String(teamId) : undefined),
+    teamId,
   };
 }
 
@@ -52,6 +56,16 @@ export async function requireOrgMember(orgId: string, req?: NextRequest): Promis
   return user;
 }
 
+// The signed-in user's own organization, for endpoints that act on it rather than on a given resource
+export async function requireSessionOrg(req?: NextRequest): Promise<AuthUser & { orgId: string }> {
+  const { orgId } = await requireUser(req);
+  if (!orgId) {
+    throw new Error('Organization membership required');
+  }
+
+  return { ...await requireOrgMember(orgId, req), orgId };
+}
+
 // Audit log helper
 export async function logAdminAction(
   user: AuthUser,
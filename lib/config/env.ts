@@ -59,6 +59,16 @@ export const EnvSchema = z.object({
   MAX_RETRIES: z.coerce.number().default(3),
   SCAN_MAX_CONCURRENCY: z.coerce.number().default(10),
   SCAN_MAX_PAGES_OVERRIDE: z.coerce.number().optional(),
+  SCAN_CREDENTIALS_KEY: z.string().optional(), // base64 32-byte key for auth profile encryption
+
+  // Scan artifacts (screenshots, focus-state crops)
+  ARTIFACT_STORAGE: z.enum(["local", "s3", "supabase"]).optional(), // See lib/scanner/artifact-storage.ts for defaults
+  ARTIFACT_LOCAL_DIR: z.string().optional(),
+  ARTIFACT_S3_ENDPOINT: z.string().url().optional(),
+  ARTIFACT_S3_REGION: z.string().optional(),
+  ARTIFACT_S3_BUCKET: z.string().optional(),
+  ARTIFACT_S3_ACCESS_KEY_ID: z.string().optional(),
+  ARTIFACT_S3_SECRET_ACCESS_KEY: z.string().optional(),
 
   // Headless runtime caches (safe defaults for serverless/containers)
   XDG_CACHE_HOME: z.string().default("/tmp/.cache"),
@@ -120,6 +130,19 @@ export const EnvSchema = z.object({
     }
   }
 
+  // S3 artifact storage needs a bucket and credentials
+  if (env.ARTIFACT_STORAGE === "s3") {
+    for (const key of ["ARTIFACT_S3_BUCKET", "ARTIFACT_S3_ACCESS_KEY_ID", "ARTIFACT_S3_SECRET_ACCESS_KEY"] as const) {
+      if (!env[key]) {
+        ctx.addIssue({ 
+          code: z.ZodIssueCode.custom, 
+          message: `${key} required when ARTIFACT_STORAGE=s3`, 
+          path: [key] 
+        });
+      }
+    }
+  }
+
   // Validate Stripe price IDs format if provided
   const stripePricePattern = /^price_[a-zA-Z0-9]+$/;
   if (env.STRIPE_PRICE_STARTER && !stripePricePattern.test(env.STRIPE_PRICE_STARTER)) {
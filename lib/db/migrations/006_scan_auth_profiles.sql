@@ -0,0 +1,23 @@
+-- Auth Profiles for Authenticated Scanning
+-- Per-site login recipes, injected cookies/headers or saved storage state.
+-- Secrets live only in encrypted_config (AES-256-GCM, see lib/security/credentials.ts)
+
+CREATE TABLE IF NOT EXISTS scan_auth_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id VARCHAR(255) NOT NULL, -- Using VARCHAR to match existing teams table
+  name VARCHAR(100) NOT NULL,
+  site_host VARCHAR(255) NOT NULL,          -- Profile is only applied to this hostname
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('form_login', 'inject', 'storage_state')),
+  encrypted_config TEXT NOT NULL,           -- v1.<iv>.<tag>.<ciphertext>
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS scan_auth_profiles_org_idx ON scan_auth_profiles(org_id);
+CREATE UNIQUE INDEX IF NOT EXISTS scan_auth_profiles_org_name_idx ON scan_auth_profiles(org_id, name);
+
+-- Jobs reference the profile to apply before crawling
+ALTER TABLE scan_jobs
+ADD COLUMN IF NOT EXISTS auth_profile_id UUID REFERENCES scan_auth_profiles(id) ON DELETE SET NULL;
@@ -0,0 +1,18 @@
+-- Multi-Viewport Scanning
+-- Jobs can run each page on desktop, tablet and phone profiles;
+-- every finding records the viewport it occurred in so reports can
+-- separate mobile-only issues.
+
+ALTER TABLE scan_jobs
+ADD COLUMN IF NOT EXISTS viewports TEXT[] NOT NULL DEFAULT '{desktop}';
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS viewport_summary JSONB; -- { scanned, byViewport, mobileOnly }
+
+ALTER TABLE violations
+ADD COLUMN IF NOT EXISTS viewport VARCHAR(20) DEFAULT 'desktop';
+
+ALTER TABLE scan_findings
+ADD COLUMN IF NOT EXISTS viewport VARCHAR(20) DEFAULT 'desktop';
+
+CREATE INDEX IF NOT EXISTS scan_findings_viewport_idx ON scan_findings(scan_id, viewport);
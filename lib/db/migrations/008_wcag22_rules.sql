@@ -0,0 +1,10 @@
+-- WCAG 2.2 Rule Pack
+-- Scans record which WCAG version's rule set was applied; new violations
+-- default to 2.2 now that 2.4.11, 2.5.7, 2.5.8, 3.2.6, 3.3.7 and 3.3.8 are checked.
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS wcag_version VARCHAR(10) DEFAULT '2.2'
+  CHECK (wcag_version IN ('2.0', '2.1', '2.2'));
+
+ALTER TABLE violations
+ALTER COLUMN wcag_version SET DEFAULT '2.2';
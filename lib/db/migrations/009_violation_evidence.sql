@@ -0,0 +1,6 @@
+-- Violation Evidence
+-- Structured proof attached to a finding, e.g. the keyboard focus path
+-- recorded while tabbing through the page.
+
+ALTER TABLE violations
+ADD COLUMN IF NOT EXISTS evidence JSONB; -- { focusPath: string[] }
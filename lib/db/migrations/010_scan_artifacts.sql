@@ -0,0 +1,20 @@
+-- Scan Artifacts Storage
+-- Private bucket for evidence files (focus-state crops, screenshots).
+-- Rows in artifacts (database-worker-upgrade.sql) point at objects here.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scan-artifacts', 'scan-artifacts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS artifacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id UUID REFERENCES scans(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL, -- 'screenshot', 'pdf_report', 'patch', 'full_page_screenshot', 'focus_state'
+  storage_path TEXT NOT NULL,
+  file_size_bytes BIGINT,
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_artifacts_scan ON artifacts(scan_id);
+CREATE INDEX IF NOT EXISTS idx_artifacts_type ON artifacts(type);
@@ -0,0 +1,11 @@
+-- Needs Review Findings
+-- Automated checks that can't reach a conclusive result (e.g. text over
+-- a photo or gradient that passes contrast in some places and fails in
+-- others) are stored as findings flagged for manual review.
+
+ALTER TABLE violations
+ADD COLUMN IF NOT EXISTS needs_review BOOLEAN DEFAULT false;
+
+-- Review queues only care about the flagged rows
+CREATE INDEX IF NOT EXISTS idx_violations_needs_review
+ON violations(scan_id) WHERE needs_review;
@@ -0,0 +1,41 @@
+-- Scripted User-Journey Flows
+-- Flow definitions are attached to a site and replayed by the worker on
+-- every scan of that host. Each run is stored in flows (created in
+-- database-worker-upgrade.sql) with per-step findings and a score.
+
+CREATE TABLE IF NOT EXISTS flow_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id VARCHAR(255) NOT NULL, -- Using VARCHAR to match existing teams table
+  name VARCHAR(100) NOT NULL,
+  site_host VARCHAR(255) NOT NULL,          -- Flow only runs for scans of this hostname
+  flow_type VARCHAR(50) NOT NULL,           -- 'checkout', 'signup', 'contact', 'search'
+  keyboard_only BOOLEAN NOT NULL DEFAULT true,
+  steps JSONB NOT NULL,                     -- [{ type: 'goto' | 'click' | 'fill' | 'press' | 'assert', ... }]
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_run_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS flow_definitions_site_idx ON flow_definitions(org_id, site_host);
+CREATE UNIQUE INDEX IF NOT EXISTS flow_definitions_org_name_idx ON flow_definitions(org_id, name);
+
+CREATE TABLE IF NOT EXISTS flows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id UUID REFERENCES scans(id) ON DELETE CASCADE,
+  flow_type VARCHAR(50),
+  steps JSONB,
+  accessibility_score INT,
+  issues JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Link runs to their definition and record whether the journey completed
+ALTER TABLE flows
+ADD COLUMN IF NOT EXISTS definition_id UUID REFERENCES flow_definitions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS name VARCHAR(100),
+ADD COLUMN IF NOT EXISTS completed BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS failed_step INT; -- Index of the step that stopped the run
+
+CREATE INDEX IF NOT EXISTS idx_flows_scan ON flows(scan_id);
+CREATE INDEX IF NOT EXISTS idx_flows_definition ON flows(definition_id, created_at DESC);
@@ -0,0 +1,19 @@
+-- Violation Clusters
+-- A finding in a shared header/footer/nav (or the same element of a page
+-- template) is stored once per scan with the list of pages it occurs on.
+-- total_violations counts unique issues; total_instances counts every
+-- occurrence.
+
+ALTER TABLE violations
+ADD COLUMN IF NOT EXISTS cluster_key TEXT,
+ADD COLUMN IF NOT EXISTS issue_scope TEXT DEFAULT 'page'
+  CHECK (issue_scope IN ('site-wide', 'template', 'page')),
+ADD COLUMN IF NOT EXISTS occurrence_count INTEGER DEFAULT 1,
+-- [{ pageUrl, selector, viewport }], only when there is more than one
+ADD COLUMN IF NOT EXISTS occurrences JSONB;
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS total_instances INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_violations_issue_scope
+ON violations(scan_id, issue_scope) WHERE issue_scope <> 'page';
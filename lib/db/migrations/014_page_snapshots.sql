@@ -0,0 +1,31 @@
+-- Incremental Rescans
+-- Every analyzed page records a hash of its normalized DOM and same-origin
+-- assets together with its findings. A later scan by the same organization
+-- that finds the same hash (same viewport, same rule set, analysis less
+-- than a week old) carries those findings forward instead of re-running
+-- the checks. Jobs can opt out with force_full_rescan; scans list the
+-- pages they reused in reused_pages.
+
+CREATE TABLE IF NOT EXISTS page_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id VARCHAR(255) NOT NULL,             -- Organization whose scan ran the analysis
+  site_host VARCHAR(255) NOT NULL,
+  page_url TEXT NOT NULL,
+  viewport VARCHAR(20) NOT NULL DEFAULT 'desktop',
+  ruleset VARCHAR(50) NOT NULL,             -- rulesetKey(), e.g. '2.2:AA:interactive'
+  content_hash CHAR(64) NOT NULL,           -- SHA-256 of the normalized DOM and assets
+  scan_id UUID REFERENCES scans(id) ON DELETE SET NULL, -- Scan that ran the analysis
+  analyzed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  findings JSONB NOT NULL DEFAULT '[]',     -- Redacted findings of that analysis
+  help_mechanisms JSONB,                    -- For the cross-page 3.2.6 check
+  page_title TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS page_snapshots_page_idx ON page_snapshots(org_id, page_url, viewport, ruleset);
+CREATE INDEX IF NOT EXISTS page_snapshots_site_idx ON page_snapshots(org_id, site_host, ruleset);
+
+ALTER TABLE scan_jobs
+ADD COLUMN IF NOT EXISTS force_full_rescan BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS reused_pages JSONB; -- [{ url, viewport, contentHash, fromScanId, analyzedAt, findings }]
@@ -0,0 +1,13 @@
+-- Static Build Scans
+-- Scans can run against a build directory or uploaded zip before deploy
+-- instead of a live URL. Those scans record the commit they were built
+-- from so results can be compared across commits and with the deployed
+-- site.
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS source_type VARCHAR(20) NOT NULL DEFAULT 'url'
+  CHECK (source_type IN ('url', 'static')),
+ADD COLUMN IF NOT EXISTS commit_sha VARCHAR(40),
+ADD COLUMN IF NOT EXISTS build_name VARCHAR(100); -- e.g. 'web/main'
+
+CREATE INDEX IF NOT EXISTS idx_scans_commit ON scans(commit_sha) WHERE commit_sha IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Violation Fingerprints
+-- Structural selectors change whenever page content shifts, so each
+-- finding also stores a stable fingerprint (rule, page path, robust
+-- selector, landmark, text/attribute hash). Matching fingerprints
+-- classify the findings of two scans as new, fixed or persisting.
+
+ALTER TABLE violations
+ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(64);
+
+-- Clustered rows list each occurrence's fingerprint in occurrences
+-- ([{ pageUrl, selector, viewport, fingerprint }])
+
+CREATE INDEX IF NOT EXISTS idx_violations_fingerprint
+ON violations(fingerprint) WHERE fingerprint IS NOT NULL;
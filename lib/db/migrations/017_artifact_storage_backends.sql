@@ -0,0 +1,13 @@
+-- Artifact Storage Backends
+-- Artifact files can live on the local filesystem (development), in any
+-- S3-compatible bucket or in the scan-artifacts Supabase bucket. Each row
+-- records which backend holds its file and the file's content type.
+-- Rows from before this migration are all in Supabase Storage.
+
+ALTER TABLE artifacts
+ADD COLUMN IF NOT EXISTS storage_backend VARCHAR(20) NOT NULL DEFAULT 'supabase'
+  CHECK (storage_backend IN ('local', 's3', 'supabase')),
+ADD COLUMN IF NOT EXISTS content_type VARCHAR(100);
+
+-- Evidence is looked up per scan and type (element crops, full-page screenshots)
+CREATE INDEX IF NOT EXISTS idx_artifacts_scan_type ON artifacts(scan_id, type);
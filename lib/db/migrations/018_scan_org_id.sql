@@ -0,0 +1,21 @@
+-- Scan Ownership
+-- Scans recorded their organization in three different columns depending
+-- on who created them: org_id (the app and the scheduler), organization_id
+-- (the scan API routes) and team_id (the queue worker's fallback record).
+-- Every writer now sets org_id, which access checks read; older rows are
+-- backfilled from whichever column they have.
+
+ALTER TABLE scans
+ADD COLUMN IF NOT EXISTS org_id VARCHAR(255); -- VARCHAR to match the teams-derived org ids elsewhere
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'scans' AND column_name = 'organization_id') THEN
+    UPDATE scans SET org_id = organization_id::text WHERE org_id IS NULL AND organization_id IS NOT NULL;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'scans' AND column_name = 'team_id') THEN
+    UPDATE scans SET org_id = team_id::text WHERE org_id IS NULL AND team_id IS NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_scans_org_id ON scans(org_id);
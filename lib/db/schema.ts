@@ -7,6 +7,8 @@ import {
   integer,
   json,
   decimal,
+  uuid,
+  boolean,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -73,6 +75,7 @@ export const invitations = pgTable('invitations', {
 export const scans = pgTable('scans', {
   id: serial('id').primaryKey(),
   teamId: integer('team_id').references(() => teams.id),
+  orgId: varchar('org_id', { length: 255 }), // Owning organization, checked before serving scan data
   url: varchar('url', { length: 500 }).notNull(),
   email: varchar('email', { length: 255 }).notNull(),
   domain: varchar('domain', { length: 255 }),
@@ -85,7 +88,8 @@ export const scans = pgTable('scans', {
   lawsuitProbability: decimal('lawsuit_probability', { precision: 5, scale: 2 }),
   
   // Violation summary
-  totalViolations: integer('total_violations').default(0),
+  totalViolations: integer('total_violations').default(0), // Unique issues
+  totalInstances: integer('total_instances'), // Every occurrence across pages
   criticalViolations: integer('critical_violations').default(0),
   seriousViolations: integer('serious_violations').default(0),
   moderateViolations: integer('moderate_violations').default(0),
@@ -101,6 +105,10 @@ export const scans = pgTable('scans', {
   status: varchar('status', { length: 50 }).notNull().default('pending'),
   errorMessage: text('error_message'),
   processingTimeMs: integer('processing_time_ms'),
+  reusedPages: json('reused_pages'), // Pages unchanged since their last analysis: [{ url, viewport, fromScanId, ... }]
+  sourceType: varchar('source_type', { length: 20 }).default('url'), // 'url', 'static' (pre-deploy build)
+  commitSha: varchar('commit_sha', { length: 40 }),
+  buildName: varchar('build_name', { length: 100 }),
   
   createdAt: timestamp('created_at').notNull().defaultNow(),
   completedAt: timestamp('completed_at'),
@@ -113,7 +121,7 @@ export const violations = pgTable('violations', {
   
   // WCAG details
   wcagCriterion: varchar('wcag_criterion', { length: 20 }).notNull(),
-  wcagVersion: varchar('wcag_version', { length: 10 }).default('2.1'),
+  wcagVersion: varchar('wcag_version', { length: 10 }).default('2.2'),
   conformanceLevel: varchar('conformance_level', { length: 3 }).default('AA'),
   
   // Violation info
@@ -122,6 +130,7 @@ export const violations = pgTable('violations', {
   elementSelector: text('element_selector'),
   elementHtml: text('element_html'),
   pageUrl: text('page_url'),
+  viewport: varchar('viewport', { length: 20 }).default('desktop'), // 'desktop', 'tablet', 'phone'
   
   // Impact analysis
   userImpact: text('user_impact').notNull(),
@@ -138,11 +147,34 @@ export const violations = pgTable('violations', {
   // Tracking
   status: varchar('status', { length: 50 }).default('open'),
   aiConfidence: decimal('ai_confidence', { precision: 3, scale: 2 }), // 0.00 to 1.00
+  evidence: json('evidence'), // { focusPath: [...], contrast: {...}, state: '...' }
+  needsReview: boolean('needs_review').default(false), // Inconclusive automated result
+  fingerprint: varchar('fingerprint', { length: 64 }), // Stable identity across scans (lib/scanner/fingerprint)
+  clusterKey: text('cluster_key'),
+  issueScope: varchar('issue_scope', { length: 20 }).default('page'), // 'site-wide', 'template', 'page'
+  occurrenceCount: integer('occurrence_count').default(1),
+  occurrences: json('occurrences'), // [{ pageUrl, selector, viewport, fingerprint }]
   falsePositive: integer('false_positive').default(0), // Using integer for boolean (0/1)
   
   createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Normalized DOM hash and findings per page, so unchanged pages can skip re-analysis
+export const pageSnapshots = pgTable('page_snapshots', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  orgId: varchar('org_id', { length: 255 }).notNull(), // Organization whose scan ran the analysis
+  siteHost: varchar('site_host', { length: 255 }).notNull(),
+  pageUrl: text('page_url').notNull(),
+  viewport: varchar('viewport', { length: 20 }).notNull().default('desktop'),
+  ruleset: varchar('ruleset', { length: 50 }).notNull(), // rulesetKey(), e.g. '2.2:AA:interactive'
+  contentHash: varchar('content_hash', { length: 64 }).notNull(),
+  scanId: uuid('scan_id'), // UUID scans.id after 001_uuid_migration, ON DELETE SET NULL
+  analyzedAt: timestamp('analyzed_at').notNull().defaultNow(),
+  findings: json('findings').notNull(),
+  helpMechanisms: json('help_mechanisms'),
+  pageTitle: text('page_title'),
+});
+
 // Usage tracking for billing
 export const usageEvents = pgTable('usage_events', {
   id: serial('id').primaryKey(),
@@ -5,6 +5,10 @@
  */
 
 import { PublicReportData } from './public';
+import { listArtifacts, readArtifact } from '@/lib/scanner/artifacts';
+
+// Highlighted element crops shown under each detailed issue
+const SCREENSHOTS_PER_ISSUE = 2;
 
 export interface PDFGenerationOptions {
   watermark?: boolean;
@@ -29,7 +33,10 @@ export async function generatePDF(
     // For now, we'll create a simple HTML version and convert to PDF
     // In production, use a library like Puppeteer, jsPDF, or PDFKit
     
-    const html = generateHTMLReport(reportData, options);
+    const screenshots = options.includeDetails !== false
+      ? await loadIssueScreenshots(reportData)
+      : new Map<string, string[]>();
+    const html = generateHTMLReport(reportData, options, screenshots);
     
     // Simulate PDF generation delay
     await new Promise(resolve => setTimeout(resolve, 1000));
@@ -47,14 +54,42 @@ export async function generatePDF(
   }
 }
 
+/**
+ * Element screenshots of the scan (see lib/scanner/screenshots) as data
+ * URIs, by WCAG criterion; a report without them is still a report
+ */
+async function loadIssueScreenshots(reportData: PublicReportData): Promise<Map<string, string[]>> {
+  const byCriterion = new Map<string, string[]>();
+  const criteria = new Set(reportData.violations.slice(0, 10).map(violation => violation.criterion));
+
+  try {
+    for (const artifact of await listArtifacts(reportData.scan.id, 'screenshot')) {
+      const criterion = String(artifact.metadata?.wcagCriterion || '');
+      const images = byCriterion.get(criterion) || [];
+      if (!criteria.has(criterion) || images.length >= SCREENSHOTS_PER_ISSUE) continue;
+
+      const stored = await readArtifact(artifact.id);
+      if (!stored) continue;
+      images.push(`data:${stored.artifact.contentType};base64,${stored.data.toString('base64')}`);
+      byCriterion.set(criterion, images);
+    }
+  } catch (error) {
+    console.warn('Screenshots unavailable for PDF report:', error instanceof Error ? error.message : error);
+  }
+
+  return byCriterion;
+}
+
 function generateHTMLReport(
   reportData: PublicReportData,
-  options: PDFGenerationOptions
+  options: PDFGenerationOptions,
+  screenshots: Map<string, string[]> = new Map()
 ): string {
   const { watermark = false, title, includeDetails = true } = options;
   
   const domain = new URL(reportData.scan.url).hostname;
   const reportTitle = title || `Accessibility Report - ${domain}`;
+  const mobileOnly = reportData.violations.filter(v => v.mobile_only_instances > 0);
   
   return `
 <!DOCTYPE html>
@@ -199,6 +234,20 @@ function generateHTMLReport(
       text-transform: uppercase;
     }
     
+    .violation-screenshots {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      margin-top: 10px;
+    }
+    
+    .violation-screenshots img {
+      max-width: 48%;
+      max-height: 240px;
+      border: 1px solid #e5e7eb;
+      border-radius: 4px;
+    }
+    
     .impact-critical { background: #fee2e2; color: #991b1b; }
     .impact-serious { background: #fed7aa; color: #9a3412; }
     .impact-moderate { background: #fef3c7; color: #92400e; }
@@ -279,9 +328,31 @@ function generateHTMLReport(
         </div>
         <p>${violation.description}</p>
         <p><strong>${violation.instances}</strong> instances found across <strong>${violation.page_count}</strong> page${violation.page_count !== 1 ? 's' : ''}</p>
+        ${includeDetails && screenshots.has(violation.criterion) ? `
+        <div class="violation-screenshots">
+          ${screenshots.get(violation.criterion)!.map(src => `<img src="${src}" alt="Affected element outlined in red (${violation.criterion})">`).join('')}
+        </div>
+        ` : ''}
+      </div>
+    `).join('')}
+  </div>
+  
+  ${mobileOnly.length > 0 ? `
+  <div class="violations-section">
+    <h2>Mobile-only Issues</h2>
+    <p>These issues appeared on tablet or phone viewports but not on desktop.</p>
+    ${mobileOnly.map(violation => `
+      <div class="violation-item">
+        <div class="violation-header">
+          <span class="violation-title">${violation.criterion}</span>
+          <span class="impact-badge impact-${violation.impact}">${violation.impact}</span>
+        </div>
+        <p>${violation.description}</p>
+        <p><strong>${violation.mobile_only_instances}</strong> mobile-only instance${violation.mobile_only_instances !== 1 ? 's' : ''} (${violation.viewports.filter(v => v !== 'desktop').join(', ')})</p>
       </div>
     `).join('')}
   </div>
+  ` : ''}
   
   <div class="disclaimer">
     <h3>Important Disclaimer</h3>
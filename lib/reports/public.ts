@@ -5,6 +5,7 @@
  */
 
 import { createSupabaseClient } from '@/lib/supabase/server';
+import { DEFAULT_VIEWPORTS, ViewportName, partitionByViewport } from '@/lib/scanner/viewports';
 
 export interface PublicReportData {
   scan: {
@@ -33,6 +34,8 @@ export interface PublicReportData {
     instances: number;
     page_count: number;
     tags?: string[];
+    viewports: string[];
+    mobile_only_instances: number; // Seen on tablet/phone but not on desktop
   }>;
   categories: Array<{
     name: string;
@@ -57,6 +60,41 @@ export interface PublicReportData {
   };
 }
 
+type PublicViolation = PublicReportData['violations'][number];
+
+// Columns of a scan_findings row that the report reads
+interface FindingRow {
+  wcag_criterion?: string | null;
+  wcag_level?: PublicViolation['level'] | null;
+  impact?: PublicViolation['impact'] | null;
+  description?: string | null;
+  help_url?: string | null;
+  page_url?: string | null;
+  node_path?: string | null;
+  tags?: string[] | null;
+}
+
+// Fields of the engine's Violation (src/scanner/types) kept in scans.violations
+// that the report reads; unlike scan_findings they record the viewport
+interface StoredViolation {
+  wcagCriterion?: string;
+  pageUrl?: string;
+  elementSelector?: string;
+  viewport?: ViewportName;
+}
+
+// Where the scan's findings were seen, from the scan row
+interface ViewportFindings {
+  scanned: ViewportName[]; // Viewports the scan was configured with
+  violations: StoredViolation[];
+}
+
+// A violation while its findings are being counted
+type ViolationGroup = Omit<PublicViolation, 'id' | 'page_count' | 'viewports'> & {
+  pages: Set<string>;
+  viewports: Set<string>;
+};
+
 /**
  * Get a sanitized public report for sharing
  * Removes sensitive information and adds appropriate disclaimers
@@ -68,7 +106,7 @@ export async function getPublicReport(scanId: string): Promise<PublicReportData
     // Get scan basic information
     const { data: scan, error: scanError } = await supabase
       .from('scans')
-      .select('id, url, status, created_at, updated_at, depth')
+      .select('id, url, status, created_at, updated_at, depth, violations, viewport_summary')
       .eq('id', scanId)
       .single();
 
@@ -80,7 +118,8 @@ export async function getPublicReport(scanId: string): Promise<PublicReportData
     const { data: findings, error: findingsError } = await supabase
       .from('scan_findings')
       .select('*')
-      .eq('scan_id', scanId);
+      .eq('scan_id', scanId)
+      .overrideTypes<FindingRow[], { merge: false }>();
 
     if (findingsError) {
       console.error('Failed to fetch scan findings:', findingsError);
@@ -88,7 +127,10 @@ export async function getPublicReport(scanId: string): Promise<PublicReportData
     }
 
     // Process and normalize findings
-    const processedViolations = processFindings(findings || []);
+    const processedViolations = processFindings(findings || [], {
+      scanned: scan.viewport_summary?.scanned || DEFAULT_VIEWPORTS,
+      violations: scan.violations || []
+    });
     const summary = calculateSummary(processedViolations);
     const categories = calculateCategories(processedViolations);
     const recommendations = generateRecommendations(processedViolations);
@@ -121,7 +163,20 @@ export async function getPublicReport(scanId: string): Promise<PublicReportData
   }
 }
 
-function processFindings(findings: any[]): PublicReportData['violations'] {
+function processFindings(findings: FindingRow[], stored: ViewportFindings): PublicReportData['violations'] {
+  // Viewports per criterion, and findings seen on tablet/phone but not on a scanned desktop
+  const viewportsByCriterion = new Map<string, Set<string>>();
+  for (const violation of stored.violations) {
+    const key = violation.wcagCriterion || 'Unknown';
+    if (!viewportsByCriterion.has(key)) viewportsByCriterion.set(key, new Set());
+    viewportsByCriterion.get(key)!.add(violation.viewport || 'desktop');
+  }
+  const mobileOnlyByCriterion = new Map<string, number>();
+  for (const violation of partitionByViewport(stored.violations, stored.scanned).mobileOnly) {
+    const key = violation.wcagCriterion || 'Unknown';
+    mobileOnlyByCriterion.set(key, (mobileOnlyByCriterion.get(key) || 0) + 1);
+  }
+
   // Group findings by WCAG criterion
   const grouped = findings.reduce((acc, finding) => {
     const key = finding.wcag_criterion || 'Unknown';
@@ -131,10 +186,12 @@ function processFindings(findings: any[]): PublicReportData['violations'] {
         level: finding.wcag_level || 'A',
         impact: finding.impact || 'minor',
         description: finding.description || 'Accessibility issue detected',
-        help_url: finding.help_url,
+        help_url: finding.help_url || undefined,
         instances: 0,
         pages: new Set(),
-        tags: finding.tags || []
+        tags: finding.tags || [],
+        viewports: viewportsByCriterion.get(key) || new Set(['desktop']),
+        mobile_only_instances: mobileOnlyByCriterion.get(key) || 0
       };
     }
     acc[key].instances += 1;
@@ -142,11 +199,11 @@ function processFindings(findings: any[]): PublicReportData['violations'] {
       acc[key].pages.add(finding.page_url);
     }
     return acc;
-  }, {} as Record<string, any>);
+  }, {} as Record<string, ViolationGroup>);
 
   // Convert to array and sort by impact and instances
   return Object.values(grouped)
-    .map((group: any) => ({
+    .map((group): PublicViolation => ({
       id: Buffer.from(group.criterion).toString('base64'),
       criterion: group.criterion,
       level: group.level,
@@ -155,7 +212,9 @@ function processFindings(findings: any[]): PublicReportData['violations'] {
       help_url: group.help_url,
       instances: group.instances,
       page_count: group.pages.size,
-      tags: group.tags
+      tags: group.tags,
+      viewports: Array.from(group.viewports),
+      mobile_only_instances: group.mobile_only_instances
     }))
     .sort((a, b) => {
       const impactOrder = { critical: 4, serious: 3, moderate: 2, minor: 1 };
@@ -271,7 +330,7 @@ function calculateScanDuration(createdAt: string, updatedAt: string): number {
   return new Date(updatedAt).getTime() - new Date(createdAt).getTime();
 }
 
-function getUniquePageCount(findings: any[]): number {
+function getUniquePageCount(findings: FindingRow[]): number {
   const uniquePages = new Set(findings.map(f => f.page_url).filter(Boolean));
   return uniquePages.size || 1;
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NormalizedFinding, ScanScore } from '@/lib/scan-results';
 import { sanitizeText } from '@/lib/security/sanitizer';
+import { MediaItem, captionStatus, hasAudioDescription } from '@/lib/scanner/media';
 
 export interface VPATData {
   product: {
@@ -24,6 +25,8 @@ export interface VPATData {
   score: ScanScore;
   url: string;
   domain: string;
+  // Media the scan inventoried (lib/scanner/media), described in the 1.2.x remarks
+  media?: MediaItem[];
 }
 
 export interface VPATSection508Entry {
@@ -397,7 +400,7 @@ export class VPATGenerator {
     };
   }
   
-  private static generateSection508Table(findings: NormalizedFinding[]): VPATSection508Entry[] {
+  private static generateSection508Table(findings: NormalizedFinding[], media?: MediaItem[]): VPATSection508Entry[] {
     const entries: VPATSection508Entry[] = [];
     
     Object.entries(SECTION_508_CRITERIA).forEach(([criterion, info]) => {
@@ -406,7 +409,7 @@ export class VPATGenerator {
       );
       
       const conformanceLevel = this.determineConformanceLevel(relatedFindings, criterion);
-      const remarks = this.generateSection508Remarks(relatedFindings, info.title, criterion);
+      const remarks = this.generateSection508Remarks(relatedFindings, info.title, criterion, this.generateMediaSummary(media, info.wcag));
       
       entries.push({
         criterion,
@@ -419,14 +422,14 @@ export class VPATGenerator {
     return entries;
   }
   
-  private static generateWCAGTable(findings: NormalizedFinding[]): VPATWCAGEntry[] {
+  private static generateWCAGTable(findings: NormalizedFinding[], media?: MediaItem[]): VPATWCAGEntry[] {
     const entries: VPATWCAGEntry[] = [];
     
     Object.entries(WCAG_CRITERIA).forEach(([criterion, info]) => {
       if (info.level === 'A' || info.level === 'AA') {
         const criterionFindings = findings.filter(f => f.wcagCriterion === criterion);
         const conformanceLevel = this.determineWCAGConformanceLevel(criterionFindings);
-        const remarks = this.generateWCAGRemarks(criterionFindings, info.description);
+        const remarks = this.generateWCAGRemarks(criterionFindings, info.description, this.generateMediaSummary(media, [criterion]));
         
         entries.push({
           criterion,
@@ -476,10 +479,10 @@ export class VPATGenerator {
     }
   }
   
-  private static generateSection508Remarks(findings: NormalizedFinding[], title: string, criterion: string): string {
+  private static generateSection508Remarks(findings: NormalizedFinding[], title: string, criterion: string, mediaSummary = ''): string {
     if (findings.length === 0) {
       if (['502.2.1', '502.2.2', '502.3.1', '502.3.2', '502.4', '503.4.1', '503.4.2'].includes(criterion)) {
-        return 'No audio or video content identified during testing.';
+        return mediaSummary || 'No audio or video content identified during testing.';
       }
       return `All requirements for ${title} are met.`;
     }
@@ -503,27 +506,71 @@ export class VPATGenerator {
       remarks += `${minor.length} minor enhancement${minor.length > 1 ? 's' : ''} recommended. `;
     }
     
-    return remarks.trim();
+    return `${remarks}${mediaSummary}`.trim();
   }
   
-  private static generateWCAGRemarks(findings: NormalizedFinding[], description: string): string {
+  private static generateWCAGRemarks(findings: NormalizedFinding[], description: string, mediaSummary = ''): string {
+    const media = mediaSummary ? ` ${mediaSummary}` : '';
+
     if (findings.length === 0) {
-      return `Criterion is satisfied. ${description}`;
+      return `Criterion is satisfied. ${description}${media}`;
     }
     
     const blocking = findings.filter(f => ['critical', 'serious'].includes(f.impact));
     
     if (blocking.length > 0) {
       const topIssues = blocking.slice(0, 2).map(f => f.ruleId).join(', ');
-      return `${findings.length} violation${findings.length > 1 ? 's' : ''} found (${blocking.length} blocking). Primary issues: ${topIssues}. ${description}`;
+      return `${findings.length} violation${findings.length > 1 ? 's' : ''} found (${blocking.length} blocking). Primary issues: ${topIssues}. ${description}${media}`;
     } else {
-      return `${findings.length} minor violation${findings.length > 1 ? 's' : ''} found. Issues can be addressed without blocking accessibility. ${description}`;
+      return `${findings.length} minor violation${findings.length > 1 ? 's' : ''} found. Issues can be addressed without blocking accessibility. ${description}${media}`;
+    }
+  }
+
+  /**
+   * What the media inventory shows for the captions (1.2.2), transcript
+   * (1.2.1) and audio description (1.2.3, 1.2.5) criteria; '' for other
+   * criteria or when no media was inventoried
+   */
+  private static generateMediaSummary(media: MediaItem[] | undefined, wcag: string[]): string {
+    if (!media || media.length === 0) return '';
+
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+    const parts = (entries: Array<[number, string]>) =>
+      entries.filter(([n]) => n > 0).map(([n, text]) => `${n} ${text}`).join(', ');
+
+    const audio = media.filter(item => item.kind === 'audio');
+    const videos = media.filter(item => item.kind !== 'audio' && !item.background);
+    const summaries: string[] = [];
+
+    if (wcag.includes('1.2.1') && audio.length > 0) {
+      const transcribed = audio.filter(item => item.transcript).length;
+      summaries.push(`${count(audio.length, 'audio player')} tested; ${transcribed} with a transcript linked alongside.`);
+    }
+
+    if (wcag.includes('1.2.2') && videos.length > 0) {
+      const statuses = videos.map(captionStatus);
+      const tally = (status: string) => statuses.filter(s => s === status).length;
+      summaries.push(`${count(videos.length, 'video')} tested: ${parts([
+        [tally('captioned'), 'captioned'],
+        [tally('incomplete'), 'with captions covering only part of the running time'],
+        [tally('invalid'), 'with caption files that fail to load or are not WebVTT'],
+        [tally('missing'), 'without captions'],
+        [tally('unverified'), 'embedded from YouTube or Vimeo with captions to verify manually']
+      ])}.`);
     }
+
+    if (['1.2.3', '1.2.5'].some(criterion => wcag.includes(criterion)) && videos.length > 0) {
+      const described = videos.filter(hasAudioDescription).length;
+      const transcribed = videos.filter(item => item.transcript).length;
+      summaries.push(`${count(videos.length, 'video')} tested; ${described} with audio description, ${transcribed} with a transcript.`);
+    }
+
+    return summaries.join(' ');
   }
   
   private static generateVPATHTML(data: VPATData): string {
-    const section508Entries = this.generateSection508Table(data.findings);
-    const wcagEntries = this.generateWCAGTable(data.findings);
+    const section508Entries = this.generateSection508Table(data.findings, data.media);
+    const wcagEntries = this.generateWCAGTable(data.findings, data.media);
     
     const overallConformance = this.calculateOverallConformance(data.score);
     const executiveSummary = this.generateExecutiveSummary(data);
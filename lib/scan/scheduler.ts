@@ -18,6 +18,7 @@ export interface ScanOptions {
   priority?: number;
   isTrial?: boolean;
   trialOrgId?: string;
+  forceFullRescan?: boolean; // Re-analyze pages unchanged since the last scan
 }
 
 /**
@@ -33,7 +34,8 @@ export async function scheduleScan(options: ScanOptions): Promise<string> {
     maxDurationMs = 300000, // 5 minutes default
     priority = 10,
     isTrial = false,
-    trialOrgId
+    trialOrgId,
+    forceFullRescan = false
   } = options;
 
   const supabase = createSupabaseClient();
@@ -74,7 +76,8 @@ export async function scheduleScan(options: ScanOptions): Promise<string> {
       depth,
       priority,
       max_pages: maxPages,
-      max_duration_ms: maxDurationMs
+      max_duration_ms: maxDurationMs,
+      force_full_rescan: forceFullRescan
     })
     .select('id')
     .single();
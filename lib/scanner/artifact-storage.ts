@@ -0,0 +1,229 @@
+/**
+ * Artifact Storage Backends
+ *
+ * Where artifact bytes live; lib/scanner/artifacts.ts records them in the
+ * artifacts table with the backend that holds them. ARTIFACT_STORAGE
+ * selects the backend:
+ *
+ *   local     files under ARTIFACT_LOCAL_DIR (development)
+ *   s3        any S3-compatible bucket (AWS, R2, MinIO, Supabase's S3 endpoint)
+ *   supabase  the scan-artifacts Supabase Storage bucket
+ *
+ * Without ARTIFACT_STORAGE, development stores locally, deployments with
+ * ARTIFACT_S3_BUCKET use S3 and everything else keeps using Supabase.
+ */
+
+import crypto from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createSupabaseClient } from '@/lib/supabase/server';
+
+export const ARTIFACTS_BUCKET = 'scan-artifacts';
+
+export type ArtifactBackend = 'local' | 's3' | 'supabase';
+
+export interface ArtifactStorage {
+  backend: ArtifactBackend;
+  put(storagePath: string, data: Buffer, contentType: string): Promise<void>;
+  // null when the object doesn't exist
+  get(storagePath: string): Promise<Buffer | null>;
+}
+
+export class ArtifactStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArtifactStorageError';
+  }
+}
+
+export class LocalArtifactStorage implements ArtifactStorage {
+  backend = 'local' as const;
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(storagePath: string, data: Buffer): Promise<void> {
+    const file = this.resolve(storagePath);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(storagePath: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(storagePath));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Storage paths come from the database; never let one escape the root
+  private resolve(storagePath: string): string {
+    const file = path.resolve(this.root, storagePath);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new ArtifactStorageError(`Artifact path escapes storage root: ${storagePath}`);
+    }
+    return file;
+  }
+}
+
+export interface S3Config {
+  endpoint: string; // e.g. https://s3.us-east-1.amazonaws.com or https://<account>.r2.cloudflarestorage.com
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Path-style requests signed with AWS Signature V4, which every
+ * S3-compatible service accepts
+ */
+export class S3ArtifactStorage implements ArtifactStorage {
+  backend = 's3' as const;
+  private config: S3Config;
+
+  constructor(config: S3Config) {
+    this.config = { ...config, endpoint: config.endpoint.replace(/\/+$/, '') };
+  }
+
+  async put(storagePath: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', storagePath, data, contentType);
+    if (!response.ok) {
+      throw new ArtifactStorageError(`S3 upload failed (${response.status}): ${await response.text()}`);
+    }
+  }
+
+  async get(storagePath: string): Promise<Buffer | null> {
+    const response = await this.request('GET', storagePath);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new ArtifactStorageError(`S3 download failed (${response.status}): ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async request(method: 'GET' | 'PUT', storagePath: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.config;
+    const key = storagePath.split('/').map(encodeURIComponent).join('/');
+    const url = new URL(`${endpoint}/${bucket}/${key}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = crypto.createHash('sha256').update(body ?? '').digest('hex');
+
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (contentType) headers['content-type'] = contentType;
+
+    // fetch sets Host itself, but it has to be signed
+    const signed: Record<string, string> = { ...headers, host: url.host };
+    const signedHeaders = Object.keys(signed).sort().join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      Object.keys(signed).sort().map(name => `${name}:${signed[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    const hmac = (key: crypto.BinaryLike, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    });
+  }
+}
+
+export class SupabaseArtifactStorage implements ArtifactStorage {
+  backend = 'supabase' as const;
+
+  async put(storagePath: string, data: Buffer, contentType: string): Promise<void> {
+    const { error } = await createSupabaseClient().storage
+      .from(ARTIFACTS_BUCKET)
+      .upload(storagePath, data, { contentType, upsert: false });
+    if (error) {
+      throw new ArtifactStorageError(`Supabase upload failed: ${error.message}`);
+    }
+  }
+
+  async get(storagePath: string): Promise<Buffer | null> {
+    const { data, error } = await createSupabaseClient().storage
+      .from(ARTIFACTS_BUCKET)
+      .download(storagePath);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  }
+}
+
+function configuredBackend(): ArtifactBackend {
+  const configured = process.env.ARTIFACT_STORAGE;
+  if (configured) {
+    if (configured !== 'local' && configured !== 's3' && configured !== 'supabase') {
+      throw new ArtifactStorageError(`Unknown ARTIFACT_STORAGE "${configured}" (expected local, s3 or supabase)`);
+    }
+    return configured;
+  }
+  if (process.env.NODE_ENV === 'development') return 'local';
+  return process.env.ARTIFACT_S3_BUCKET ? 's3' : 'supabase';
+}
+
+const backends = new Map<ArtifactBackend, ArtifactStorage>();
+
+/**
+ * The storage for a backend (by default the configured one, for new
+ * artifacts); existing artifacts are read from the backend they were
+ * stored in
+ */
+export function artifactStorage(backend: ArtifactBackend = configuredBackend()): ArtifactStorage {
+  const existing = backends.get(backend);
+  if (existing) return existing;
+
+  let storage: ArtifactStorage;
+  switch (backend) {
+    case 'local':
+      storage = new LocalArtifactStorage(process.env.ARTIFACT_LOCAL_DIR || path.join(process.cwd(), '.artifacts'));
+      break;
+    case 's3': {
+      const { ARTIFACT_S3_ENDPOINT, ARTIFACT_S3_REGION, ARTIFACT_S3_BUCKET, ARTIFACT_S3_ACCESS_KEY_ID, ARTIFACT_S3_SECRET_ACCESS_KEY } = process.env;
+      if (!ARTIFACT_S3_BUCKET || !ARTIFACT_S3_ACCESS_KEY_ID || !ARTIFACT_S3_SECRET_ACCESS_KEY) {
+        throw new ArtifactStorageError('S3 artifact storage needs ARTIFACT_S3_BUCKET, ARTIFACT_S3_ACCESS_KEY_ID and ARTIFACT_S3_SECRET_ACCESS_KEY');
+      }
+      const region = ARTIFACT_S3_REGION || 'us-east-1';
+      storage = new S3ArtifactStorage({
+        endpoint: ARTIFACT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: ARTIFACT_S3_BUCKET,
+        accessKeyId: ARTIFACT_S3_ACCESS_KEY_ID,
+        secretAccessKey: ARTIFACT_S3_SECRET_ACCESS_KEY
+      });
+      break;
+    }
+    case 'supabase':
+      storage = new SupabaseArtifactStorage();
+      break;
+  }
+
+  backends.set(backend, storage);
+  return storage;
+}
@@ -0,0 +1,139 @@
+/**
+ * Scan Artifacts
+ *
+ * Stores binary evidence (screenshots, crops) through the configured
+ * storage backend (see ./artifact-storage) and records it in the
+ * artifacts table (see database-worker-upgrade.sql).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createSupabaseClient } from '@/lib/supabase/server';
+import { ArtifactBackend, artifactStorage } from './artifact-storage';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'application/json': 'json'
+};
+
+export interface StoredArtifact {
+  id: string;
+  storagePath: string;
+}
+
+export interface ArtifactInput {
+  scanId: string;
+  type: string; // 'screenshot', 'full_page_screenshot', 'focus_state', 'sr_transcript', ...
+  data: Buffer;
+  contentType: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ArtifactRecord {
+  id: string;
+  scanId: string;
+  type: string;
+  contentType: string;
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Store an artifact; failures are logged and return null so evidence
+ * capture never fails a scan
+ */
+export async function storeArtifact(input: ArtifactInput): Promise<StoredArtifact | null> {
+  try {
+    const storage = artifactStorage();
+    const extension = EXTENSIONS[input.contentType] || 'bin';
+    const storagePath = `${input.scanId}/${input.type}/${randomUUID()}.${extension}`;
+
+    try {
+      await storage.put(storagePath, input.data, input.contentType);
+    } catch (error) {
+      console.warn('Artifact upload failed:', error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    const { data, error } = await createSupabaseClient()
+      .from('artifacts')
+      .insert({
+        scan_id: input.scanId,
+        type: input.type,
+        storage_path: storagePath,
+        storage_backend: storage.backend,
+        content_type: input.contentType,
+        file_size_bytes: input.data.length,
+        metadata: input.metadata || null
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.warn('Artifact record insert failed:', error.message);
+      return null;
+    }
+
+    return { id: data.id, storagePath };
+  } catch (error) {
+    console.warn('Artifact storage unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Columns of an artifacts row that the helpers below read
+interface ArtifactRow {
+  id: string;
+  scan_id: string;
+  type: string;
+  storage_path: string;
+  storage_backend: ArtifactBackend | null;
+  content_type: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+function toRecord(row: ArtifactRow): ArtifactRecord {
+  return {
+    id: row.id,
+    scanId: row.scan_id,
+    type: row.type,
+    // Rows from before content_type was recorded
+    contentType: row.content_type || (String(row.storage_path).endsWith('.png') ? 'image/png' : 'application/octet-stream'),
+    metadata: row.metadata
+  };
+}
+
+/**
+ * An artifact's record and bytes, read from the backend it was stored in;
+ * null when either is missing
+ */
+export async function readArtifact(id: string): Promise<{ artifact: ArtifactRecord; data: Buffer } | null> {
+  const { data: row, error } = await createSupabaseClient()
+    .from('artifacts')
+    .select('id, scan_id, type, storage_path, storage_backend, content_type, metadata')
+    .eq('id', id)
+    .single<ArtifactRow>();
+
+  if (error || !row) return null;
+
+  const data = await artifactStorage(row.storage_backend || 'supabase').get(row.storage_path);
+  return data ? { artifact: toRecord(row), data } : null;
+}
+
+/**
+ * Artifact records of a scan, optionally of one type, oldest first
+ */
+export async function listArtifacts(scanId: string, type?: string): Promise<ArtifactRecord[]> {
+  let query = createSupabaseClient()
+    .from('artifacts')
+    .select('id, scan_id, type, storage_path, storage_backend, content_type, metadata')
+    .eq('scan_id', scanId);
+  if (type) query = query.eq('type', type);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .overrideTypes<ArtifactRow[], { merge: false }>();
+  if (error) {
+    console.warn('Artifact listing failed:', error.message);
+    return [];
+  }
+  return (data || []).map(toRecord);
+}
@@ -0,0 +1,263 @@
+/**
+ * Authenticated Scanning
+ *
+ * Per-site auth profiles applied to a browser context before crawling:
+ * form-login recipes, injected cookies/headers, or a saved Playwright
+ * storage state. Secrets are stripped from scan output via redactSecrets.
+ */
+
+import type { BrowserContext, BrowserContextOptions } from 'playwright';
+import { decryptJSON } from '@/lib/security/credentials';
+import { createSupabaseClient } from '@/lib/supabase/server';
+
+export type AuthProfileKind = 'form_login' | 'inject' | 'storage_state';
+
+export interface FormLoginRecipe {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  username: string;
+  password: string;
+  // Additional fields to fill before submitting (e.g. tenant, remember-me)
+  extraFields?: Array<{ selector: string; value: string }>;
+  // One of these confirms the login succeeded
+  successSelector?: string;
+  successUrlPattern?: string;
+}
+
+export interface InjectedCredentials {
+  cookies?: Array<{
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+  }>;
+  headers?: Record<string, string>;
+}
+
+export type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+export type AuthProfile =
+  | { kind: 'form_login'; recipe: FormLoginRecipe }
+  | { kind: 'inject'; credentials: InjectedCredentials }
+  | { kind: 'storage_state'; storageState: StorageState };
+
+/**
+ * Row shape of scan_auth_profiles (see 006_scan_auth_profiles.sql)
+ */
+export interface StoredAuthProfile {
+  id: string;
+  org_id: string;
+  name: string;
+  site_host: string;
+  kind: AuthProfileKind;
+  encrypted_config: string;
+}
+
+export class AuthProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthProfileError';
+  }
+}
+
+const REDACTED = '[REDACTED]';
+const LOGIN_TIMEOUT_MS = 20000;
+
+/**
+ * Decrypt a stored profile into a usable AuthProfile
+ */
+export function decryptAuthProfile(stored: StoredAuthProfile): AuthProfile {
+  const profile = decryptJSON<AuthProfile>(stored.encrypted_config);
+  if (profile.kind !== stored.kind) {
+    throw new AuthProfileError(`Auth profile ${stored.id} kind mismatch`);
+  }
+  return profile;
+}
+
+/**
+ * Load and decrypt the profile a scan was queued with. The lookup is
+ * scoped to the scan's organization, so a job can't use another org's
+ * credentials by naming their profile id.
+ */
+export async function loadAuthProfile(profileId: string, orgId: string, targetUrl: string): Promise<AuthProfile> {
+  const supabase = createSupabaseClient();
+  const { data, error } = await supabase
+    .from('scan_auth_profiles')
+    .select('id, org_id, name, site_host, kind, encrypted_config')
+    .eq('id', profileId)
+    .eq('org_id', orgId)
+    .single();
+
+  if (error || !data) {
+    throw new AuthProfileError(`Auth profile ${profileId} not found`);
+  }
+
+  const host = new URL(targetUrl).hostname;
+  if (data.site_host !== host) {
+    throw new AuthProfileError(`Auth profile ${profileId} is not valid for ${host}`);
+  }
+
+  const profile = decryptAuthProfile(data as StoredAuthProfile);
+
+  await supabase
+    .from('scan_auth_profiles')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', profileId);
+
+  return profile;
+}
+
+/**
+ * Options that must be set when the context is created
+ */
+export function authContextOptions(profile?: AuthProfile): Partial<BrowserContextOptions> {
+  if (profile?.kind === 'storage_state') {
+    return { storageState: profile.storageState };
+  }
+  return {};
+}
+
+/**
+ * Apply an auth profile to a fresh context before any page is scanned.
+ * Headers are only attached to requests for the scanned host so they never
+ * leak to third-party origins.
+ */
+export async function applyAuthProfile(
+  context: BrowserContext,
+  profile: AuthProfile,
+  targetUrl: string
+): Promise<void> {
+  const target = new URL(targetUrl);
+
+  switch (profile.kind) {
+    case 'storage_state':
+      // Already applied through authContextOptions
+      return;
+
+    case 'inject': {
+      const { cookies = [], headers = {} } = profile.credentials;
+
+      if (cookies.length > 0) {
+        await context.addCookies(cookies.map(cookie => ({
+          name: cookie.name,
+          value: cookie.value,
+          domain: cookie.domain || target.hostname,
+          path: cookie.path || '/',
+          secure: cookie.secure ?? target.protocol === 'https:',
+          httpOnly: cookie.httpOnly ?? true
+        })));
+      }
+
+      if (Object.keys(headers).length > 0) {
+        await context.route('**/*', route => {
+          const requestUrl = new URL(route.request().url());
+          if (requestUrl.hostname !== target.hostname) {
+            return route.fallback();
+          }
+          return route.fallback({ headers: { ...route.request().headers(), ...headers } });
+        });
+      }
+      return;
+    }
+
+    case 'form_login':
+      await performFormLogin(context, profile.recipe, target);
+      return;
+  }
+}
+
+async function performFormLogin(
+  context: BrowserContext,
+  recipe: FormLoginRecipe,
+  target: URL
+): Promise<void> {
+  const loginUrl = new URL(recipe.loginUrl, target);
+  if (loginUrl.hostname !== target.hostname) {
+    throw new AuthProfileError('Login URL must be on the scanned host');
+  }
+
+  const page = await context.newPage();
+  try {
+    await page.goto(loginUrl.href, { waitUntil: 'domcontentloaded', timeout: LOGIN_TIMEOUT_MS });
+    await page.fill(recipe.usernameSelector, recipe.username, { timeout: LOGIN_TIMEOUT_MS });
+    await page.fill(recipe.passwordSelector, recipe.password, { timeout: LOGIN_TIMEOUT_MS });
+
+    for (const field of recipe.extraFields || []) {
+      await page.fill(field.selector, field.value, { timeout: LOGIN_TIMEOUT_MS });
+    }
+
+    await Promise.all([
+      page.waitForLoadState('networkidle', { timeout: LOGIN_TIMEOUT_MS }).catch(() => undefined),
+      page.click(recipe.submitSelector, { timeout: LOGIN_TIMEOUT_MS })
+    ]);
+
+    if (recipe.successSelector) {
+      await page.waitForSelector(recipe.successSelector, { timeout: LOGIN_TIMEOUT_MS });
+    } else if (recipe.successUrlPattern) {
+      await page.waitForURL(new RegExp(recipe.successUrlPattern), { timeout: LOGIN_TIMEOUT_MS });
+    }
+  } catch (error) {
+    // Never include selectors' filled values in the error
+    throw new AuthProfileError(
+      `Form login failed: ${error instanceof Error ? error.message.split('\n')[0] : 'unknown error'}`
+    );
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Collect every secret value in a profile so it can be scrubbed from results
+ */
+export function collectSecrets(profile?: AuthProfile): string[] {
+  if (!profile) return [];
+
+  const secrets: string[] = [];
+  switch (profile.kind) {
+    case 'form_login':
+      secrets.push(profile.recipe.password, profile.recipe.username);
+      profile.recipe.extraFields?.forEach(field => secrets.push(field.value));
+      break;
+    case 'inject':
+      profile.credentials.cookies?.forEach(cookie => secrets.push(cookie.value));
+      Object.values(profile.credentials.headers || {}).forEach(value => secrets.push(value));
+      break;
+    case 'storage_state':
+      profile.storageState.cookies?.forEach(cookie => secrets.push(cookie.value));
+      profile.storageState.origins?.forEach(origin =>
+        origin.localStorage.forEach(item => secrets.push(item.value))
+      );
+      break;
+  }
+
+  // Very short values (e.g. "1", "true") would mangle unrelated report text
+  return Array.from(new Set(secrets.filter(secret => secret && secret.length >= 4)));
+}
+
+/**
+ * Deep-replace any secret value found in strings with [REDACTED]
+ */
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  if (secrets.length === 0) return value;
+
+  const scrub = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), input);
+    }
+    if (Array.isArray(input)) {
+      return input.map(scrub);
+    }
+    if (input && typeof input === 'object' && !Buffer.isBuffer(input)) {
+      return Object.fromEntries(
+        Object.entries(input as Record<string, unknown>).map(([key, val]) => [key, scrub(val)])
+      );
+    }
+    return input;
+  };
+
+  return scrub(value) as T;
+}
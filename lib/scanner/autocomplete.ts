@@ -0,0 +1,218 @@
+/**
+ * Input Purpose (autocomplete)
+ *
+ * 1.3.5 Identify Input Purpose asks that fields collecting information
+ * about the user say what they collect, which on the web means an
+ * `autocomplete` value from the HTML autofill token list. Fields are
+ * classified from their label, name, id, placeholder and type (email,
+ * tel, names, address, card details, ...), and their `autocomplete`
+ * value is parsed against the token grammar:
+ *
+ *   [section-*] [shipping|billing] [home|work|mobile|fax|pager] <field> [webauthn]
+ *
+ * with the contact prefix only allowed in front of the tel/email/impp
+ * fields. "on" and "off" stand alone.
+ */
+
+// Autofill field names (HTML Living Standard, 4.10.18.7.1)
+const FIELD_NAMES = [
+  'name', 'honorific-prefix', 'given-name', 'additional-name', 'family-name', 'honorific-suffix', 'nickname',
+  'username', 'new-password', 'current-password', 'one-time-code',
+  'organization-title', 'organization',
+  'street-address', 'address-line1', 'address-line2', 'address-line3',
+  'address-level4', 'address-level3', 'address-level2', 'address-level1',
+  'country', 'country-name', 'postal-code',
+  'cc-name', 'cc-given-name', 'cc-additional-name', 'cc-family-name', 'cc-number',
+  'cc-exp', 'cc-exp-month', 'cc-exp-year', 'cc-csc', 'cc-type',
+  'transaction-currency', 'transaction-amount',
+  'language', 'bday', 'bday-day', 'bday-month', 'bday-year', 'sex', 'url', 'photo'
+];
+
+const CONTACT_FIELD_NAMES = [
+  'tel', 'tel-country-code', 'tel-national', 'tel-area-code', 'tel-local',
+  'tel-local-prefix', 'tel-local-suffix', 'tel-extension', 'email', 'impp'
+];
+
+const CONTACT_TYPES = ['home', 'work', 'mobile', 'fax', 'pager'];
+
+// Most specific first: "card holder name" is cc-name, "company name" organization, "email" before "name"
+const PURPOSES: Array<[RegExp, string]> = [
+  [/\b(card ?number|cc ?num(ber)?|credit ?card( number)?|debit ?card( number)?)\b/, 'cc-number'],
+  [/\b(cvc|cvv|cvv2|csc|card security|security code)\b/, 'cc-csc'],
+  [/\bexp(iry|iration)? (month|mm)\b/, 'cc-exp-month'],
+  [/\bexp(iry|iration)? (year|yy|yyyy)\b/, 'cc-exp-year'],
+  [/\b(exp(iry|iration)( date)?|valid thru|mm ?\/ ?yy)\b/, 'cc-exp'],
+  [/\b(name on card|card ?holder|cardholder)\b/, 'cc-name'],
+  [/\be ?mail\b/, 'email'],
+  [/\b(phone|telephone|tel|mobile|cell)( number)?\b/, 'tel'],
+  [/\b(user ?name|login|user id)\b/, 'username'],
+  [/\b(new|confirm|create|choose|repeat) password\b/, 'new-password'],
+  [/\bpassword\b/, 'current-password'],
+  [/\b(company|organi[sz]ation|business name|employer)\b/, 'organization'],
+  [/\bjob title\b/, 'organization-title'],
+  [/\b(first|given|fore) ?name\b|\bfname\b|\bforename\b/, 'given-name'],
+  [/\b(last|family|sur) ?name\b|\blname\b|\bsurname\b/, 'family-name'],
+  [/\bmiddle ?name\b/, 'additional-name'],
+  [/\b(nick ?name|display name)\b/, 'nickname'],
+  [/\b(honorific|salutation)\b/, 'honorific-prefix'],
+  [/\b(website|homepage|web site|web address)\b/, 'url'],
+  [/\b(address( line)? ?2|apartment|apt|suite)\b/, 'address-line2'],
+  [/\b(address( line)? ?3)\b/, 'address-line3'],
+  [/\b(street|address( line)? ?1?|addr)\b/, 'street-address'],
+  [/\b(city|town|locality|suburb)\b/, 'address-level2'],
+  [/\b(state|province|region|county|prefecture)\b/, 'address-level1'],
+  [/\b(zip|zip ?code|postal|post ?code|postcode)\b/, 'postal-code'],
+  [/\bcountry\b/, 'country-name'],
+  [/\b(birth ?date|date of birth|dob|birthday)\b/, 'bday'],
+  [/\b(gender|sex)\b/, 'sex'],
+  // Only a field that is just "Name": "Product name" or "Event name" isn't about the user
+  [/^((your )?(full ?)?name|name \*)$/, 'name']
+];
+
+// Fields asking about someone else aren't the user's own information
+const OTHER_PERSON = /\b(friend|recipient|colleague|referr(al|er)|guest|emergency contact|contact person|gift)\b/;
+
+// Related tokens that can stand in for each other (e.g. street-address on a line-1 field)
+const FAMILIES: Array<[RegExp, string]> = [
+  [/^cc-/, 'card'],
+  [/^email$/, 'email'],
+  [/^tel/, 'tel'],
+  [/^(username|new-password|current-password|one-time-code)$/, 'account'],
+  [/^(organization|organization-title)$/, 'organization'],
+  [/^(name|honorific-prefix|given-name|additional-name|family-name|honorific-suffix|nickname)$/, 'name'],
+  [/^(street-address|address-line\d|address-level\d|postal-code|country|country-name)$/, 'address'],
+  [/^bday/, 'birthday'],
+  [/^sex$/, 'sex'],
+  [/^url$/, 'url']
+];
+
+export interface FieldDescription {
+  tag: string; // input, select or textarea
+  type?: string;
+  name?: string;
+  id?: string;
+  label?: string;
+  placeholder?: string;
+  autocomplete?: string;
+}
+
+export interface AutocompleteToken {
+  valid: boolean;
+  // Autofill field name, e.g. 'given-name' (null for on/off)
+  field: string | null;
+  problem?: string;
+}
+
+export interface AutocompleteReview {
+  // Token the field should use; null when the field isn't about the user
+  purpose: string | null;
+  problem: 'missing' | 'off' | 'invalid' | 'mismatch' | null;
+  message: string;
+}
+
+const words = (text: string) => text
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .replace(/[_\-.[\]]+/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim()
+  .toLowerCase();
+
+/**
+ * Parse an autocomplete value against the autofill token grammar
+ */
+export function parseAutocomplete(value: string): AutocompleteToken {
+  const tokens = value.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return { valid: false, field: null, problem: 'is empty' };
+  if (tokens.length === 1 && (tokens[0] === 'on' || tokens[0] === 'off')) return { valid: true, field: null };
+
+  if (tokens[tokens.length - 1] === 'webauthn') tokens.pop();
+  const field = tokens.pop();
+  if (!field) return { valid: false, field: null, problem: 'has no field name' };
+
+  const contact = CONTACT_FIELD_NAMES.includes(field);
+  if (!contact && !FIELD_NAMES.includes(field)) {
+    return { valid: false, field: null, problem: `"${field}" is not an autofill field name` };
+  }
+
+  if (tokens.length > 0 && CONTACT_TYPES.includes(tokens[tokens.length - 1])) {
+    const type = tokens.pop()!;
+    if (!contact) return { valid: false, field, problem: `"${type}" can only precede tel, email or impp fields` };
+  }
+  if (tokens.length > 0 && ['shipping', 'billing'].includes(tokens[tokens.length - 1])) tokens.pop();
+  if (tokens.length > 0 && tokens[tokens.length - 1].startsWith('section-')) tokens.pop();
+
+  if (tokens.length > 0) {
+    return { valid: false, field, problem: `"${tokens.join(' ')}" is not allowed before "${field}"` };
+  }
+  return { valid: true, field };
+}
+
+/**
+ * The autofill token for what a field collects about the user, from its
+ * type, label, name, id and placeholder; null when it collects something
+ * else (search terms, messages, quantities, other people's details)
+ */
+export function inputPurpose(field: FieldDescription): string | null {
+  const type = (field.type || '').toLowerCase();
+  if (['hidden', 'search', 'submit', 'button', 'reset', 'image', 'checkbox', 'radio', 'file', 'range', 'color'].includes(type)) return null;
+
+  // The label speaks for the field; name, id and placeholder only when it says nothing
+  const sources = [field.label, field.name, field.id, field.placeholder].filter((source): source is string => !!source).map(words);
+  if (sources.some(source => OTHER_PERSON.test(source))) return null;
+
+  if (type === 'email') return 'email';
+  if (type === 'tel') return 'tel';
+  if (type === 'url') return 'url';
+  if (type === 'password') return sources.some(source => /\b(new|confirm|create|choose|repeat)\b/.test(source)) ? 'new-password' : 'current-password';
+
+  for (const source of sources) {
+    const match = PURPOSES.find(([pattern]) => pattern.test(source));
+    if (!match) continue;
+    // A textarea for the address holds all of its lines
+    return match[1] === 'street-address' && field.tag !== 'textarea' ? 'address-line1' : match[1];
+  }
+  return null;
+}
+
+const family = (token: string) => FAMILIES.find(([pattern]) => pattern.test(token))?.[1] ?? token;
+
+/**
+ * What is wrong with a field's autocomplete value for 1.3.5; null when
+ * there is nothing to check (not about the user and no value set)
+ */
+export function reviewAutocomplete(field: FieldDescription): AutocompleteReview | null {
+  const purpose = inputPurpose(field);
+  const value = field.autocomplete;
+
+  if (value !== undefined && value.trim() !== '') {
+    const token = parseAutocomplete(value);
+    if (!token.valid) {
+      return { purpose, problem: 'invalid', message: `autocomplete="${value}" is not a valid value: ${token.problem}` };
+    }
+    if (!purpose) return { purpose, problem: null, message: '' };
+    if (token.field === null) {
+      // Password managers ignore "off" on credentials; 3.3.8 reports that for password fields
+      if (value.trim().toLowerCase() === 'off' && field.type !== 'password') {
+        return { purpose, problem: 'off', message: `autocomplete="off" hides the purpose of a ${purpose} field and blocks autofill` };
+      }
+      return { purpose, problem: null, message: '' };
+    }
+    if (family(token.field) !== family(purpose)) {
+      return { purpose, problem: 'mismatch', message: `autocomplete="${value}" doesn't match what the field asks for (${purpose})` };
+    }
+    return { purpose, problem: null, message: '' };
+  }
+
+  if (!purpose) return null;
+  return { purpose, problem: 'missing', message: `Field collecting the user's ${purpose.replace(/-/g, ' ')} has no autocomplete attribute` };
+}
+
+/**
+ * Corrected autocomplete value: the classified purpose, or a valid token
+ * read from a mistyped one ("firstname" → "given-name")
+ */
+export function suggestAutocomplete(field: FieldDescription): string | null {
+  const purpose = inputPurpose(field);
+  if (purpose) return purpose;
+  return field.autocomplete ? inputPurpose({ tag: field.tag, label: field.autocomplete }) : null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Accessibility Tree
+ *
+ * Chromium's computed accessibility tree over CDP
+ * (Accessibility.getFullAXTree): the roles, names and states assistive
+ * technology is actually given, after ARIA, labels, content, title and
+ * hidden-ness are resolved. CDP needs Chromium.
+ */
+
+import type { CDPSession, Page } from 'playwright';
+
+export interface AXNode {
+  id: string;
+  role: string;
+  name: string;
+  // Winning name source: 'contents', 'attribute:aria-label', 'relatedElement:aria-labelledby', ...
+  nameSource?: string;
+  description: string;
+  // Not exposed to assistive technology (hidden, aria-hidden, presentational); children may still be
+  ignored: boolean;
+  // level, expanded, checked, disabled, required, invalid, focusable, ...
+  properties: Record<string, string | number | boolean>;
+  children: AXNode[];
+  backendNodeId?: number;
+}
+
+// Computed role and name of an element, as recorded in window.__esAx
+export interface ExposedElement {
+  role: string;
+  name: string;
+  nameSource?: string;
+}
+
+declare global {
+  interface Window {
+    __esAx?: WeakMap<Element, ExposedElement>;
+  }
+}
+
+// Text runs and plain containers never carry a name of their own
+const UNRECORDED_ROLES = new Set(['StaticText', 'InlineTextBox', 'LineBreak', 'generic']);
+const OBJECT_GROUP = 'es-ax';
+
+// The slice of CDP's Accessibility.AXNode this module reads
+interface RawAXValue {
+  type: string; // Accessibility.AXValueType: 'boolean', 'tristate', 'string', 'role', ...
+  // JSON value for the type; absent for 'valueUndefined' and the relatedNodes-only types
+  value?: string | number | boolean;
+}
+
+interface RawAXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: RawAXValue;
+  name?: RawAXValue & {
+    sources?: Array<{ type: string; attribute?: string; value?: RawAXValue; superseded?: boolean }>;
+  };
+  description?: RawAXValue;
+  properties?: Array<{ name: string; value: RawAXValue }>;
+  parentId?: string;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+function nameSourceOf(raw: RawAXNode): string | undefined {
+  const source = raw.name?.sources?.find(candidate => candidate.value?.value && !candidate.superseded);
+  if (!source) return undefined;
+  return source.attribute ? `${source.type}:${source.attribute}` : source.type;
+}
+
+function propertiesOf(raw: RawAXNode): AXNode['properties'] {
+  const properties: AXNode['properties'] = {};
+  for (const { name, value } of raw.properties || []) {
+    if (value.value !== undefined) properties[name] = value.value;
+  }
+  return properties;
+}
+
+/**
+ * The main frame's accessibility tree, rooted at the document
+ * (RootWebArea); null when the tree is empty
+ */
+export async function accessibilityTree(page: Page): Promise<AXNode | null> {
+  const session = await page.context().newCDPSession(page);
+  let rawNodes: RawAXNode[];
+  try {
+    const { nodes } = await session.send('Accessibility.getFullAXTree');
+    rawNodes = nodes as RawAXNode[];
+  } finally {
+    await session.detach().catch(() => {});
+  }
+
+  const byId = new Map<string, AXNode>();
+  for (const raw of rawNodes) {
+    byId.set(raw.nodeId, {
+      id: raw.nodeId,
+      role: String(raw.role?.value ?? ''),
+      name: String(raw.name?.value ?? '').trim(),
+      nameSource: nameSourceOf(raw),
+      description: String(raw.description?.value ?? '').trim(),
+      ignored: raw.ignored,
+      properties: propertiesOf(raw),
+      children: [],
+      backendNodeId: raw.backendDOMNodeId
+    });
+  }
+
+  // childIds keep document order
+  for (const raw of rawNodes) {
+    const node = byId.get(raw.nodeId)!;
+    node.children = (raw.childIds || []).map(id => byId.get(id)).filter((child): child is AXNode => !!child);
+  }
+
+  const root = rawNodes.find(raw => !raw.parentId);
+  return root ? byId.get(root.nodeId)! : null;
+}
+
+// Depth-first, document order, including ignored nodes
+export function* walkTree(node: AXNode): Generator<AXNode> {
+  yield node;
+  for (const child of node.children) {
+    yield* walkTree(child);
+  }
+}
+
+/**
+ * Record the computed role and name of every exposed element in its
+ * frame's window.__esAx, so checks running in the page can ask what
+ * assistive technology is given instead of reading attributes. An
+ * element missing from the map isn't exposed (hidden, aria-hidden,
+ * presentational). Frames CDP can't reach from the page (out-of-process
+ * iframes) get no map; checks fall back to attributes there.
+ */
+export async function exposeAccessibleNames(page: Page): Promise<void> {
+  // A map left over from before the DOM changed would be wrong, not just stale
+  await Promise.all(page.frames().map(frame => frame.evaluate(() => { delete window.__esAx; }).catch(() => {})));
+
+  let session: CDPSession;
+  try {
+    session = await page.context().newCDPSession(page);
+  } catch {
+    return; // Not Chromium
+  }
+
+  try {
+    const { frameTree } = await session.send('Page.getFrameTree');
+    const frameIds: string[] = [];
+    const collect = (tree: typeof frameTree) => {
+      frameIds.push(tree.frame.id);
+      (tree.childFrames || []).forEach(collect);
+    };
+    collect(frameTree);
+
+    for (const frameId of frameIds) {
+      try {
+        const { nodes } = await session.send('Accessibility.getFullAXTree', { frameId });
+        const recorded = (nodes as RawAXNode[]).filter(raw =>
+          !raw.ignored && raw.backendDOMNodeId && !UNRECORDED_ROLES.has(String(raw.role?.value ?? ''))
+        );
+
+        const resolved = await Promise.all(recorded.map(raw =>
+          session.send('DOM.resolveNode', { backendNodeId: raw.backendDOMNodeId, objectGroup: OBJECT_GROUP })
+            .then(({ object }) => object.objectId)
+            .catch(() => undefined)
+        ));
+
+        const entries: ExposedElement[] = [];
+        const objectIds: string[] = [];
+        recorded.forEach((raw, index) => {
+          const objectId = resolved[index];
+          if (!objectId) return;
+          entries.push({
+            role: String(raw.role?.value ?? ''),
+            name: String(raw.name?.value ?? '').trim(),
+            nameSource: nameSourceOf(raw)
+          });
+          objectIds.push(objectId);
+        });
+        if (objectIds.length === 0) continue;
+
+        await session.send('Runtime.callFunctionOn', {
+          objectId: objectIds[0],
+          functionDeclaration: `function(entries, ...elements) {
+            const map = new WeakMap();
+            elements.forEach((element, index) => {
+              if (element instanceof Element) map.set(element, entries[index]);
+            });
+            window.__esAx = map;
+          }`,
+          arguments: [{ value: entries }, ...objectIds.map(objectId => ({ objectId }))]
+        });
+      } catch (error) {
+        console.warn(`Accessible names unavailable for frame ${frameId}:`, error instanceof Error ? error.message : error);
+      } finally {
+        await session.send('Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP }).catch(() => {});
+      }
+    }
+  } catch (error) {
+    console.warn('Accessible names unavailable:', error instanceof Error ? error.message : error);
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Browser Context Pool
+ *
+ * One browser shared by many page scans, each in its own context.
+ * Bounds total and per-host concurrency (so a 500-page crawl doesn't
+ * hammer one origin), enforces a per-page timeout, relaunches the
+ * browser when it crashes and keeps throughput metrics.
+ */
+
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+
+export interface BrowserPoolOptions {
+  launch: () => Promise<Browser>;
+  maxContexts?: number;
+  maxPerHost?: number;
+  pageTimeoutMs?: number;
+}
+
+export interface PageTaskOptions {
+  // Runs on the fresh context before the page opens (auth, routing)
+  setup?: (context: BrowserContext) => Promise<void>;
+  timeoutMs?: number;
+  // Minimum gap between page starts on this host (robots.txt Crawl-delay);
+  // implies one page at a time for the host
+  minIntervalMs?: number;
+}
+
+export interface PoolMetrics {
+  active: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  browserRestarts: number;
+  averagePageMs: number;
+  pagesPerMinute: number;
+  activeByHost: Record<string, number>;
+}
+
+export class PageTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Page task for ${url} exceeded ${timeoutMs}ms`);
+    this.name = 'PageTimeoutError';
+  }
+}
+
+const DEFAULT_MAX_CONTEXTS = 4;
+const DEFAULT_MAX_PER_HOST = 2;
+const DEFAULT_PAGE_TIMEOUT_MS = 120000;
+// Throughput is reported over a sliding window
+const THROUGHPUT_WINDOW_MS = 60000;
+
+interface Waiter {
+  host: string;
+  minIntervalMs: number;
+  resolve: () => void;
+}
+
+export class BrowserPool {
+  private readonly launch: () => Promise<Browser>;
+  private readonly maxContexts: number;
+  private readonly maxPerHost: number;
+  private readonly pageTimeoutMs: number;
+
+  private current: Promise<Browser> | null = null;
+  private closed = false;
+  private active = 0;
+  private activeByHost = new Map<string, number>();
+  private lastStartByHost = new Map<string, number>();
+  private waiters: Waiter[] = [];
+
+  private completed = 0;
+  private failed = 0;
+  private timedOut = 0;
+  private browserRestarts = 0;
+  private totalPageMs = 0;
+  private recentFinishes: number[] = [];
+
+  constructor(options: BrowserPoolOptions) {
+    this.launch = options.launch;
+    this.maxContexts = options.maxContexts || DEFAULT_MAX_CONTEXTS;
+    this.maxPerHost = options.maxPerHost || DEFAULT_MAX_PER_HOST;
+    this.pageTimeoutMs = options.pageTimeoutMs || DEFAULT_PAGE_TIMEOUT_MS;
+  }
+
+  /**
+   * The shared browser, (re)launched on demand
+   */
+  async browser(): Promise<Browser> {
+    if (this.closed) throw new Error('Browser pool is closed');
+
+    const pending = this.current;
+    if (pending) {
+      const browser = await pending.catch(() => null);
+      if (browser?.isConnected()) return browser;
+
+      // Concurrent callers share one relaunch
+      if (this.current === pending) {
+        this.browserRestarts++;
+        console.warn('Browser disconnected, relaunching');
+        this.current = this.launch();
+      }
+      return this.current!;
+    }
+
+    this.current = this.launch();
+    return this.current;
+  }
+
+  /**
+   * Run a task on a fresh page in its own context once a slot for the
+   * URL's host is free. The context is always closed afterwards; a task
+   * cut short by a browser crash is retried once on a relaunched browser.
+   */
+  async withPage<T>(
+    url: string,
+    contextOptions: BrowserContextOptions,
+    task: (page: Page) => Promise<T>,
+    options: PageTaskOptions = {}
+  ): Promise<T> {
+    const host = new URL(url).hostname;
+    const timeoutMs = options.timeoutMs || this.pageTimeoutMs;
+
+    await this.acquire(host, options.minIntervalMs || 0);
+    const started = Date.now();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const browser = await this.browser();
+        try {
+          const result = await this.runTask(browser, url, contextOptions, task, options.setup, timeoutMs);
+          this.completed++;
+          return result;
+        } catch (error) {
+          if (!browser.isConnected() && attempt === 0 && !this.closed) {
+            console.warn(`Browser crashed while scanning ${url}, retrying`);
+            continue;
+          }
+          if (error instanceof PageTimeoutError) this.timedOut++;
+          this.failed++;
+          throw error;
+        }
+      }
+    } finally {
+      const finished = Date.now();
+      this.totalPageMs += finished - started;
+      this.recentFinishes = this.recentFinishes.filter(time => finished - time < THROUGHPUT_WINDOW_MS);
+      this.recentFinishes.push(finished);
+      this.release(host);
+    }
+  }
+
+  private async runTask<T>(
+    browser: Browser,
+    url: string,
+    contextOptions: BrowserContextOptions,
+    task: (page: Page) => Promise<T>,
+    setup: PageTaskOptions['setup'],
+    timeoutMs: number
+  ): Promise<T> {
+    const context = await browser.newContext(contextOptions);
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      if (setup) await setup(context);
+      const page = await context.newPage();
+
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new PageTimeoutError(url, timeoutMs)), timeoutMs);
+      });
+      return await Promise.race([task(page), timeout]);
+    } finally {
+      clearTimeout(timer);
+      // Closing the context also aborts whatever the timed-out task was still doing
+      await context.close().catch(() => undefined);
+    }
+  }
+
+  private canStart(host: string, minIntervalMs: number): boolean {
+    const hostLimit = minIntervalMs > 0 ? 1 : this.maxPerHost;
+    return this.active < this.maxContexts && (this.activeByHost.get(host) || 0) < hostLimit;
+  }
+
+  private take(host: string): void {
+    this.active++;
+    this.activeByHost.set(host, (this.activeByHost.get(host) || 0) + 1);
+  }
+
+  private async acquire(host: string, minIntervalMs: number): Promise<void> {
+    if (this.waiters.length === 0 && this.canStart(host, minIntervalMs)) {
+      this.take(host);
+    } else {
+      // dispatch() takes the slot on our behalf before resolving
+      await new Promise<void>(resolve => {
+        this.waiters.push({ host, minIntervalMs, resolve });
+        this.dispatch();
+      });
+    }
+
+    // Hold the slot while waiting out the crawl delay
+    const now = Date.now();
+    const next = Math.max(now, (this.lastStartByHost.get(host) || 0) + minIntervalMs);
+    this.lastStartByHost.set(host, next);
+    if (next > now) await new Promise(resolve => setTimeout(resolve, next - now));
+  }
+
+  private release(host: string): void {
+    this.active--;
+    const remaining = (this.activeByHost.get(host) || 1) - 1;
+    if (remaining > 0) this.activeByHost.set(host, remaining);
+    else this.activeByHost.delete(host);
+    this.dispatch();
+  }
+
+  // Hand free slots to waiters in arrival order, skipping hosts at their limit
+  private dispatch(): void {
+    this.waiters = this.waiters.filter(waiter => {
+      if (!this.canStart(waiter.host, waiter.minIntervalMs)) return true;
+      this.take(waiter.host);
+      waiter.resolve();
+      return false;
+    });
+  }
+
+  metrics(): PoolMetrics {
+    const now = Date.now();
+    this.recentFinishes = this.recentFinishes.filter(time => now - time < THROUGHPUT_WINDOW_MS);
+    const finished = this.completed + this.failed;
+
+    return {
+      active: this.active,
+      queued: this.waiters.length,
+      completed: this.completed,
+      failed: this.failed,
+      timedOut: this.timedOut,
+      browserRestarts: this.browserRestarts,
+      averagePageMs: finished > 0 ? Math.round(this.totalPageMs / finished) : 0,
+      pagesPerMinute: this.recentFinishes.length * (60000 / THROUGHPUT_WINDOW_MS),
+      activeByHost: Object.fromEntries(this.activeByHost)
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const browser = await this.current?.catch(() => null);
+    this.current = null;
+    await browser?.close().catch(() => undefined);
+  }
+}
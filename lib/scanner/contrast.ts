@@ -0,0 +1,212 @@
+/**
+ * Pixel-Sampled Contrast
+ *
+ * Computed styles can't see hero images, gradients or translucent
+ * overlays. Instead we hide the text, screenshot the box behind each
+ * text node and compare the text colour against every rendered pixel.
+ * Backgrounds that both pass and fail in places are marked for review.
+ */
+
+import type { Page } from 'playwright';
+import { decodePNG } from './png';
+import { installDomHelpers } from './dom-scope';
+
+export interface TextSample {
+  selector: string;
+  html: string;
+  color: [number, number, number, number]; // RGBA, alpha 0-1
+  fontSize: number;
+  bold: boolean;
+  // Union of the text node boxes, in page coordinates
+  box: { x: number; y: number; width: number; height: number };
+}
+
+export interface ContrastResult {
+  sample: TextSample;
+  requiredRatio: number;
+  worstRatio: number;
+  medianRatio: number;
+  bestRatio: number;
+  sampledPixels: number;
+  // Luminance ratio between the lightest and darkest background pixel
+  backgroundSpread: number;
+  verdict: 'pass' | 'fail' | 'needs_review';
+}
+
+const MAX_TEXT_SAMPLES = 50;
+// Backgrounds varying more than this are photos/gradients rather than flat fills
+const VARIED_BACKGROUND_SPREAD = 1.5;
+const HIDE_TEXT_CSS = `
+  *, *::before, *::after {
+    color: transparent !important;
+    -webkit-text-fill-color: transparent !important;
+    text-shadow: none !important;
+    caret-color: transparent !important;
+  }
+`;
+
+function luminance(r: number, g: number, b: number): number {
+  const [rs, gs, bs] = [r, g, b].map(c => {
+    c /= 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * rs + 0.7152 * gs + 0.0722 * bs;
+}
+
+function ratio(l1: number, l2: number): number {
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Visible text elements with their text colour and text box
+ */
+async function collectTextSamples(page: Page, limit: number): Promise<TextSample[]> {
+  // Screenshots are of the top frame, so text in child frames isn't sampled
+  await installDomHelpers(page.mainFrame());
+
+  return page.evaluate((max) => {
+    const dom = window.__esDom!;
+    const samples: TextSample[] = [];
+    const parseColor = (value: string): [number, number, number, number] => {
+      const parts = value.match(/[\d.]+/g)?.map(Number) || [0, 0, 0];
+      return [parts[0] || 0, parts[1] || 0, parts[2] || 0, parts[3] ?? 1];
+    };
+
+    const elements = dom.queryAll('p,span,a,button,label,h1,h2,h3,h4,h5,h6,li,td,th,dt,dd,div');
+    for (const el of elements) {
+      if (samples.length >= max) break;
+      const he = el as HTMLElement;
+
+      // Only elements that render text themselves
+      const textNodes = Array.from(he.childNodes)
+        .filter(node => node.nodeType === Node.TEXT_NODE && node.textContent?.trim());
+      if (textNodes.length === 0) continue;
+
+      const style = getComputedStyle(he);
+      if (style.visibility === 'hidden' || parseFloat(style.opacity) === 0) continue;
+
+      const range = document.createRange();
+      let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
+      for (const node of textNodes) {
+        range.selectNodeContents(node);
+        for (const rect of Array.from(range.getClientRects())) {
+          if (rect.width === 0 || rect.height === 0) continue;
+          left = Math.min(left, rect.left);
+          top = Math.min(top, rect.top);
+          right = Math.max(right, rect.right);
+          bottom = Math.max(bottom, rect.bottom);
+        }
+      }
+      if (!isFinite(left) || right - left < 2 || bottom - top < 2) continue;
+
+      samples.push({
+        selector: dom.shadowPath(he) + (he.id ? `#${he.id}` : he.tagName.toLowerCase() +
+          (typeof he.className === 'string' && he.className.trim() ? '.' + he.className.trim().split(/\s+/)[0] : '')),
+        html: he.outerHTML.substring(0, 200),
+        color: parseColor(style.color),
+        fontSize: parseFloat(style.fontSize),
+        bold: (parseInt(style.fontWeight, 10) || 400) >= 700,
+        box: {
+          x: left + window.scrollX,
+          y: top + window.scrollY,
+          width: right - left,
+          height: bottom - top
+        }
+      });
+    }
+
+    return samples;
+  }, limit);
+}
+
+/**
+ * Compare the text colour against each background pixel in the crop
+ */
+function measure(sample: TextSample, png: Buffer): ContrastResult {
+  const image = decodePNG(png);
+  const [fr, fg, fb, alpha] = sample.color;
+
+  // 18pt regular or 14pt bold counts as large text (1pt = 1.333px)
+  const large = sample.fontSize >= 24 || (sample.fontSize >= 18.66 && sample.bold);
+  const requiredRatio = large ? 3 : 4.5;
+
+  const ratios: number[] = [];
+  let minBg = Infinity;
+  let maxBg = -Infinity;
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    const br = image.data[i], bg = image.data[i + 1], bb = image.data[i + 2];
+    const bgLum = luminance(br, bg, bb);
+    minBg = Math.min(minBg, bgLum);
+    maxBg = Math.max(maxBg, bgLum);
+
+    // Translucent text is blended with whatever is behind it
+    const textLum = alpha >= 1
+      ? luminance(fr, fg, fb)
+      : luminance(
+          fr * alpha + br * (1 - alpha),
+          fg * alpha + bg * (1 - alpha),
+          fb * alpha + bb * (1 - alpha)
+        );
+    ratios.push(ratio(textLum, bgLum));
+  }
+
+  ratios.sort((a, b) => a - b);
+  const worstRatio = ratios[0] ?? 21;
+  const bestRatio = ratios[ratios.length - 1] ?? 21;
+  const medianRatio = ratios[Math.floor(ratios.length / 2)] ?? 21;
+  const backgroundSpread = ratios.length > 0 ? ratio(maxBg, minBg) : 1;
+
+  let verdict: ContrastResult['verdict'] = 'pass';
+  if (worstRatio < requiredRatio) {
+    // Flat backgrounds (or ones that fail everywhere) are conclusive
+    verdict = bestRatio < requiredRatio || backgroundSpread < VARIED_BACKGROUND_SPREAD
+      ? 'fail'
+      : 'needs_review';
+  }
+
+  return {
+    sample,
+    requiredRatio,
+    worstRatio,
+    medianRatio,
+    bestRatio,
+    sampledPixels: ratios.length,
+    backgroundSpread,
+    verdict
+  };
+}
+
+/**
+ * Sample rendered backgrounds behind text and compute worst-case contrast
+ */
+export async function analyzePixelContrast(
+  page: Page,
+  options: { maxSamples?: number } = {}
+): Promise<ContrastResult[]> {
+  const samples = await collectTextSamples(page, options.maxSamples || MAX_TEXT_SAMPLES);
+  if (samples.length === 0) return [];
+
+  // Hide all text so the screenshot shows only what's behind it
+  const style = await page.addStyleTag({ content: HIDE_TEXT_CSS });
+  const results: ContrastResult[] = [];
+
+  try {
+    for (const sample of samples) {
+      try {
+        const png = await page.screenshot({
+          fullPage: true,
+          clip: sample.box,
+          animations: 'disabled'
+        });
+        results.push(measure(sample, png));
+      } catch (error) {
+        console.warn(`Contrast sampling failed for ${sample.selector}:`, error);
+      }
+    }
+  } finally {
+    await style.evaluate(el => (el as Element).remove());
+  }
+
+  return results;
+}
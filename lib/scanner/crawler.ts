@@ -0,0 +1,570 @@
+/**
+ * Site Crawler
+ *
+ * Decides which pages a scan covers. Honors robots.txt (our user-agent
+ * group, Allow/Disallow wildcards, Crawl-delay), reads sitemaps including
+ * nested sitemap indexes, follows same-host links breadth first,
+ * normalizes URLs (tracking parameters, query order, canonical links,
+ * redirects) and applies per-site include/exclude patterns. Every URL
+ * that was considered and dropped lands in the report with a reason.
+ * In SPA mode, client-side routes found by spa-routes are crawled too.
+ */
+
+import { gunzipSync } from 'node:zlib';
+import type { Page } from 'playwright';
+import { isPublicHttpUrl } from '@/lib/security/url-guard';
+import { discoverSpaRoutes } from './spa-routes';
+
+// Product token matched against robots.txt User-agent lines
+export const CRAWLER_USER_AGENT_TOKEN = 'EqualShield';
+
+// Never wait longer than this between requests, whatever robots.txt asks
+const MAX_CRAWL_DELAY_MS = 10000;
+const MAX_SITEMAPS = 25;
+const MAX_SITEMAP_DEPTH = 3;
+// Large sites produce thousands of over-limit URLs; counts stay exact
+const MAX_REPORTED_SKIPS = 500;
+// Clicking through an app is slow; only this many pages are explored in SPA mode
+const MAX_SPA_PAGES = 10;
+
+// Stripped before comparing URLs; entries ending in * match a prefix
+const TRACKING_PARAMS = [
+  'utm_*', 'gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'dclid', 'yclid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'igshid', 'ref_src'
+];
+
+const NON_HTML_EXTENSION = /\.(pdf|zip|gz|tgz|rar|7z|dmg|exe|msi|apk|jpe?g|png|gif|webp|avif|svg|ico|bmp|tiff?|mp[34]|m4[av]|mov|avi|webm|ogg|wav|flac|docx?|xlsx?|pptx?|csv|json|xml|rss|atom|txt|css|js|woff2?|ttf|eot)$/i;
+
+export interface CrawlOptions {
+  // Glob ('/blog/**', '*.html') or regex ('/^\\/docs\\//i') matched against path + query
+  include?: string[];
+  exclude?: string[];
+  // Extra query parameters to ignore when comparing URLs (e.g. 'sessionid', 'sort*')
+  ignoreParams?: string[];
+  // Also click through client-side navigation (pushState, hash routes) and read router manifests
+  spa?: boolean;
+}
+
+export interface CrawlLimits {
+  maxPages: number;
+  maxDepth: number;
+  // Epoch ms after which discovery stops
+  deadline?: number;
+}
+
+export type CrawlSource = 'start' | 'sitemap' | 'link' | 'spa' | 'router-manifest';
+
+export type SkipReason =
+  | 'robots'        // Disallowed for our user-agent
+  | 'excluded'      // Matched an exclude pattern
+  | 'not-included'  // Include patterns given and none matched
+  | 'external'      // Different host
+  | 'duplicate'     // Same page as an earlier URL after normalization
+  | 'canonical'     // Page declares another canonical URL
+  | 'redirect'      // Page redirects elsewhere
+  | 'non-html'      // File download or non-HTML response
+  | 'limit'         // Over the page, depth or time budget
+  | 'error';        // Could not be loaded
+
+export interface DiscoveredUrl {
+  url: string;
+  source: CrawlSource;
+  depth: number;
+}
+
+export interface SkippedUrl {
+  url: string;
+  reason: SkipReason;
+  detail?: string;
+}
+
+export interface CrawlReport {
+  startUrl: string;
+  robots: {
+    found: boolean;
+    status: number | null;
+    crawlDelayMs: number;
+    sitemaps: string[];
+  };
+  sitemapsRead: string[];
+  // SPA mode only
+  spa?: {
+    pagesExplored: number;
+    clicks: number;
+    routesFound: number;
+    router: string | null; // Router whose manifest was read, e.g. 'next', 'vue-router'
+  };
+  discovered: DiscoveredUrl[];
+  skipped: SkippedUrl[];
+  skippedCounts: Partial<Record<SkipReason, number>>;
+  durationMs: number;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+  sitemaps: string[];
+  // Server error fetching robots.txt: RFC 9309 says treat the site as disallowed
+  disallowAll?: boolean;
+}
+
+const ALLOW_ALL: RobotsRules = { rules: [], crawlDelayMs: 0, sitemaps: [] };
+
+function robotsPatternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt and keep the group that applies to our user-agent
+ * (the most specific matching token, falling back to *)
+ */
+export function parseRobotsTxt(text: string, userAgent = CRAWLER_USER_AGENT_TOKEN): RobotsRules {
+  interface Group { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number }
+
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        // Consecutive User-agent lines share one group
+        if (!current || !collectingAgents) {
+          current = { agents: [], rules: [], crawlDelayMs: 0 };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        collectingAgents = true;
+        break;
+
+      case 'allow':
+      case 'disallow':
+        collectingAgents = false;
+        if (!current || !value) break; // Empty Disallow allows everything
+        current.rules.push({ allow: key === 'allow', pattern: value, regex: robotsPatternToRegex(value) });
+        break;
+
+      case 'crawl-delay': {
+        collectingAgents = false;
+        const seconds = parseFloat(value);
+        if (current && Number.isFinite(seconds) && seconds > 0) {
+          current.crawlDelayMs = Math.min(seconds * 1000, MAX_CRAWL_DELAY_MS);
+        }
+        break;
+      }
+
+      case 'sitemap':
+        if (value) sitemaps.push(value);
+        break;
+
+      default:
+        collectingAgents = false;
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const specificity = (agent: string) => (agent !== '*' && token.includes(agent) ? agent.length : -1);
+  const best = Math.max(-1, ...groups.flatMap(group => group.agents.map(specificity)));
+
+  const applicable = best >= 0
+    ? groups.filter(group => group.agents.some(agent => specificity(agent) === best))
+    : groups.filter(group => group.agents.includes('*'));
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    crawlDelayMs: Math.max(0, ...applicable.map(group => group.crawlDelayMs)),
+    sitemaps
+  };
+}
+
+/**
+ * Longest matching pattern wins; Allow wins a tie
+ */
+export function isAllowedByRobots(robots: RobotsRules, url: string): boolean {
+  if (robots.disallowAll) return false;
+
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let verdict: RobotsRule | null = null;
+
+  for (const rule of robots.rules) {
+    if (!rule.regex.test(path)) continue;
+    if (!verdict
+      || rule.pattern.length > verdict.pattern.length
+      || (rule.pattern.length === verdict.pattern.length && rule.allow)) {
+      verdict = rule;
+    }
+  }
+
+  return verdict?.allow ?? true;
+}
+
+function paramMatcher(patterns: string[]): (name: string) => boolean {
+  const exact = new Set(patterns.filter(p => !p.endsWith('*')).map(p => p.toLowerCase()));
+  const prefixes = patterns.filter(p => p.endsWith('*')).map(p => p.slice(0, -1).toLowerCase());
+  return name => {
+    const lower = name.toLowerCase();
+    return exact.has(lower) || prefixes.some(prefix => lower.startsWith(prefix));
+  };
+}
+
+/**
+ * Canonical form used to tell pages apart: no fragment (except hash
+ * routes like #/about or #!/about), no tracking or ignored parameters,
+ * remaining parameters sorted. Returns null for anything that isn't
+ * http(s).
+ */
+export function normalizeUrl(url: string, base?: string, ignoreParams: string[] = []): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) return null;
+
+  if (!/^#!?\//.test(parsed.hash)) parsed.hash = '';
+  parsed.username = '';
+  parsed.password = '';
+
+  const ignored = paramMatcher([...TRACKING_PARAMS, ...ignoreParams]);
+  const kept = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !ignored(name))
+    .sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+  parsed.search = new URLSearchParams(kept).toString();
+
+  return parsed.toString();
+}
+
+/**
+ * Compile an include/exclude pattern. /source/flags is a regex; anything
+ * else is a glob where * stays within a path segment and ** crosses them.
+ * Throws on an invalid regex.
+ */
+export function compileUrlPattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]);
+
+  const body = pattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(piece => piece.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${pattern.startsWith('/') ? '' : '(?:.*/)?'}${body}$`);
+}
+
+// www.example.com and example.com are the same site
+function sameSite(host: string, siteHost: string): boolean {
+  const bare = (name: string) => name.replace(/^www\./, '');
+  return bare(host) === bare(siteHost);
+}
+
+interface UrlFilter {
+  (url: string): { reason: SkipReason; detail: string } | null;
+}
+
+function buildFilter(siteHost: string, robots: RobotsRules, options: CrawlOptions): UrlFilter {
+  const include = (options.include || []).map(pattern => ({ pattern, regex: compileUrlPattern(pattern) }));
+  const exclude = (options.exclude || []).map(pattern => ({ pattern, regex: compileUrlPattern(pattern) }));
+
+  return (url) => {
+    const parsed = new URL(url);
+    const path = parsed.pathname + parsed.search;
+
+    if (!sameSite(parsed.hostname, siteHost)) return { reason: 'external', detail: parsed.hostname };
+    if (NON_HTML_EXTENSION.test(parsed.pathname)) return { reason: 'non-html', detail: 'file extension' };
+
+    const excludedBy = exclude.find(({ regex }) => regex.test(path));
+    if (excludedBy) return { reason: 'excluded', detail: excludedBy.pattern };
+    if (include.length > 0 && !include.some(({ regex }) => regex.test(path))) {
+      return { reason: 'not-included', detail: 'no include pattern matched' };
+    }
+
+    if (!isAllowedByRobots(robots, url)) return { reason: 'robots', detail: 'Disallow' };
+    return null;
+  };
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+async function fetchText(page: Page, url: string): Promise<{ status: number; text: string } | null> {
+  try {
+    const response = await page.request.get(url, { timeout: 10000, maxRedirects: 5 });
+    const body = await response.body();
+    // .xml.gz sitemaps arrive as gzip files rather than gzip-encoded responses
+    const text = body[0] === 0x1f && body[1] === 0x8b ? gunzipSync(body).toString('utf8') : body.toString('utf8');
+    return { status: response.status(), text };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * robots.txt for the site. Missing (4xx) means no restrictions; a server
+ * error means the whole site is off limits.
+ */
+export async function fetchRobotsRules(page: Page, siteUrl: string): Promise<RobotsRules & { found: boolean; status: number | null }> {
+  const robotsUrl = new URL('/robots.txt', siteUrl).toString();
+  const response = await fetchText(page, robotsUrl);
+
+  if (!response) return { ...ALLOW_ALL, found: false, status: null };
+  if (response.status >= 500) return { ...ALLOW_ALL, disallowAll: true, found: false, status: response.status };
+  if (response.status >= 400) return { ...ALLOW_ALL, found: false, status: response.status };
+
+  return { ...parseRobotsTxt(response.text), found: true, status: response.status };
+}
+
+/**
+ * Page URLs from a set of sitemaps, following sitemap indexes
+ */
+async function readSitemaps(
+  page: Page,
+  roots: string[],
+  siteHost: string,
+  wait: () => Promise<void>,
+  read: string[]
+): Promise<string[]> {
+  const pageUrls: string[] = [];
+  const queue = roots.map(url => ({ url, depth: 0 }));
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && read.length < MAX_SITEMAPS) {
+    const { url, depth } = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    // Sitemaps hosted elsewhere (CDNs, storage buckets) still go through the SSRF guard
+    if (!sameSite(new URL(url).hostname, siteHost) && !(await isPublicHttpUrl(url))) continue;
+
+    await wait();
+    const response = await fetchText(page, url);
+    if (!response || response.status >= 400) continue;
+    read.push(url);
+
+    const locs = (response.text.match(/<loc>\s*([^<]+?)\s*<\/loc>/gi) || [])
+      .map(match => decodeXmlEntities(match.replace(/<\/?loc>/gi, '').trim()));
+
+    if (/<sitemapindex[\s>]/i.test(response.text)) {
+      if (depth + 1 <= MAX_SITEMAP_DEPTH) {
+        queue.push(...locs.map(loc => ({ url: loc, depth: depth + 1 })));
+      }
+    } else {
+      pageUrls.push(...locs);
+    }
+  }
+
+  return pageUrls;
+}
+
+/**
+ * Discover the pages to scan, starting from startUrl. The start URL is
+ * always scanned (it was explicitly requested); everything else must pass
+ * robots.txt and the include/exclude patterns.
+ */
+export async function crawlSite(
+  page: Page,
+  startUrl: string,
+  limits: CrawlLimits,
+  options: CrawlOptions = {}
+): Promise<CrawlReport> {
+  const started = Date.now();
+  const ignoreParams = options.ignoreParams || [];
+  const start = normalizeUrl(startUrl, undefined, ignoreParams) || startUrl;
+  const siteHost = new URL(start).hostname;
+
+  const robots = await fetchRobotsRules(page, start);
+  const filter = buildFilter(siteHost, robots, options);
+
+  const report: CrawlReport = {
+    startUrl: start,
+    robots: { found: robots.found, status: robots.status, crawlDelayMs: robots.crawlDelayMs, sitemaps: robots.sitemaps },
+    sitemapsRead: [],
+    discovered: [{ url: start, source: 'start', depth: 0 }],
+    skipped: [],
+    skippedCounts: {},
+    durationMs: 0
+  };
+  if (options.spa) {
+    report.spa = { pagesExplored: 0, clicks: 0, routesFound: 0, router: null };
+  }
+
+  // First decision about a URL sticks; later sightings are ignored
+  const decided = new Set<string>([start]);
+
+  const skip = (url: string, reason: SkipReason, detail?: string) => {
+    report.skippedCounts[reason] = (report.skippedCounts[reason] || 0) + 1;
+    if (report.skipped.length < MAX_REPORTED_SKIPS) {
+      report.skipped.push(detail ? { url, reason, detail } : { url, reason });
+    }
+  };
+
+  const outOfTime = () => limits.deadline !== undefined && Date.now() > limits.deadline;
+
+  let lastRequest = 0;
+  const wait = async () => {
+    const remaining = lastRequest + robots.crawlDelayMs - Date.now();
+    if (remaining > 0) await new Promise(resolve => setTimeout(resolve, remaining));
+    lastRequest = Date.now();
+  };
+
+  // Returns the normalized URL when it was accepted
+  const consider = (raw: string, base: string, source: CrawlSource, depth: number): string | null => {
+    const url = normalizeUrl(raw, base, ignoreParams);
+    if (!url) return null;
+
+    if (decided.has(url)) {
+      // Only worth reporting when normalization collapsed a distinct-looking URL
+      const original = (() => { try { return new URL(raw, base); } catch { return null; } })();
+      if (original && !decided.has(original.toString()) && original.toString() !== url && original.toString().split('#')[0] !== url) {
+        decided.add(original.toString());
+        skip(original.toString(), 'duplicate', url);
+      }
+      return null;
+    }
+    decided.add(url);
+
+    const rejected = filter(url);
+    if (rejected) {
+      skip(url, rejected.reason, rejected.detail);
+      return null;
+    }
+    if (report.discovered.length >= limits.maxPages) {
+      skip(url, 'limit', `maxPages ${limits.maxPages}`);
+      return null;
+    }
+    if (depth > limits.maxDepth) {
+      skip(url, 'limit', `maxDepth ${limits.maxDepth}`);
+      return null;
+    }
+
+    report.discovered.push({ url, source, depth });
+    return url;
+  };
+
+  try {
+    // Sitemaps named in robots.txt, or the conventional location
+    const sitemapRoots = robots.sitemaps.length > 0 ? robots.sitemaps : [new URL('/sitemap.xml', start).toString()];
+    const sitemapUrls = await readSitemaps(page, sitemapRoots, siteHost, wait, report.sitemapsRead);
+    for (const url of sitemapUrls) {
+      consider(url, start, 'sitemap', 1);
+    }
+
+    // Follow links breadth first, one depth level at a time
+    let frontier = [start];
+    for (let depth = 0; depth < limits.maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const current of frontier) {
+        if (report.discovered.length >= limits.maxPages || outOfTime()) break;
+
+        try {
+          await wait();
+          const response = await page.goto(current, { waitUntil: 'domcontentloaded', timeout: 15000 });
+          const contentType = response?.headers()['content-type'] || '';
+
+          const entry = report.discovered.find(item => item.url === current)!;
+          const dropEntry = (reason: SkipReason, detail?: string) => {
+            if (current === start) return false; // Scanned regardless
+            report.discovered.splice(report.discovered.indexOf(entry), 1);
+            skip(current, reason, detail);
+            return true;
+          };
+
+          if (contentType && !/html/i.test(contentType)) {
+            dropEntry('non-html', contentType.split(';')[0]);
+            continue;
+          }
+
+          // Redirects and canonical links point at the page we should scan instead
+          const landed = normalizeUrl(page.url(), undefined, ignoreParams);
+          const canonicalHref = await page
+            .evaluate(() => document.querySelector('link[rel="canonical"]')?.getAttribute('href') || null)
+            .catch(() => null);
+          const canonical = canonicalHref ? normalizeUrl(canonicalHref, page.url(), ignoreParams) : null;
+
+          let alias: { url: string; reason: SkipReason } | null = null;
+          if (landed && landed !== current) alias = { url: landed, reason: 'redirect' };
+          // (hash routes share their document's canonical URL)
+          else if (canonical && canonical !== current && canonical !== current.split('#')[0]) {
+            alias = { url: canonical, reason: 'canonical' };
+          }
+
+          if (alias && dropEntry(alias.reason, alias.url)) {
+            if (!consider(alias.url, current, entry.source, entry.depth)) continue;
+            // The alias is already loaded; collect its links below
+          }
+
+          const links = await page.evaluate(() =>
+            Array.from(document.querySelectorAll('a[href]'))
+              .filter(a => !/\bnofollow\b/i.test(a.getAttribute('rel') || ''))
+              .map(a => a.getAttribute('href')!)
+              .filter(href => !/^(#(?!!?\/)|mailto:|tel:|javascript:)/i.test(href)) // #/route links are hash routes
+          );
+
+          for (const link of links) {
+            const accepted = consider(link, page.url(), 'link', depth + 1);
+            if (accepted) next.push(accepted);
+          }
+
+          // Routes only reachable through client-side navigation
+          if (report.spa && report.spa.pagesExplored < MAX_SPA_PAGES && !outOfTime()) {
+            const spa = await discoverSpaRoutes(page, { deadline: limits.deadline, throttle: wait });
+            report.spa.pagesExplored++;
+            report.spa.clicks += spa.clicks;
+            report.spa.router = report.spa.router || spa.manifest;
+
+            for (const route of spa.routes) {
+              const accepted = consider(route.url, page.url(), route.via === 'manifest' ? 'router-manifest' : 'spa', depth + 1);
+              if (accepted) {
+                report.spa.routesFound++;
+                next.push(accepted);
+              }
+            }
+          }
+        } catch (error) {
+          console.warn(`Failed to discover links from ${current}:`, error instanceof Error ? error.message : error);
+          if (current !== start) {
+            const index = report.discovered.findIndex(item => item.url === current);
+            if (index >= 0) report.discovered.splice(index, 1);
+            skip(current, 'error', error instanceof Error ? error.message.split('\n')[0] : undefined);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+  } catch (error) {
+    console.warn('URL discovery failed:', error);
+  }
+
+  report.durationMs = Date.now() - started;
+  return report;
+}
@@ -0,0 +1,179 @@
+/**
+ * Shadow DOM and Frame Scope
+ *
+ * Checks run inside each frame of the page (same-origin and cross-origin,
+ * through Playwright frame handles) and query through open shadow roots.
+ * Selectors encode how to get to an element:
+ *
+ *   iframe#checkout |> payment-form >>> input#card
+ *
+ * " |> " enters a frame and " >>> " enters a shadow root. locateElement()
+ * turns such a selector back into a Playwright locator.
+ */
+
+import type { Frame, Locator, Page } from 'playwright';
+
+export const FRAME_SEPARATOR = ' |> ';
+export const SHADOW_SEPARATOR = ' >>> ';
+
+// Ad and tracking iframes can number in the dozens
+const MAX_FRAMES = 20;
+
+export interface DomHelpers {
+  // querySelectorAll that also descends into open shadow roots, in tree order
+  queryAll(selector: string, root?: ParentNode): Element[];
+  // Shadow host chain in front of an element ('' in the light DOM)
+  shadowPath(el: Element): string;
+  // Structural selector unique within the element's own (shadow) root
+  selectorFor(el: Element): string;
+  // Resolve a selector with shadow boundaries (no frames) back to an element
+  find(selector: string): Element | null;
+}
+
+declare global {
+  interface Window {
+    __esDom?: DomHelpers;
+  }
+}
+
+export interface FrameScope {
+  frame: Frame;
+  // Selector path to the frame element; '' for the main frame
+  path: string;
+}
+
+/**
+ * Install window.__esDom in a frame; page.evaluate callbacks can't share
+ * closures, so checks reach the helpers through the window
+ */
+export async function installDomHelpers(frame: Frame): Promise<void> {
+  await frame.evaluate((shadowSeparator) => {
+    if (window.__esDom) return;
+
+    const queryAll = (selector: string, root: ParentNode = document): Element[] => {
+      const results: Element[] = [];
+      const visit = (node: ParentNode) => {
+        for (const child of Array.from(node.children)) {
+          if (child.matches(selector)) results.push(child);
+          if (child.shadowRoot) visit(child.shadowRoot);
+          visit(child);
+        }
+      };
+      visit(root);
+      return results;
+    };
+
+    const selectorFor = (el: Element): string => {
+      const root = el.getRootNode() as Document | ShadowRoot;
+      const parts: string[] = [];
+
+      for (let node: Element | null = el; node; node = node.parentElement) {
+        if (node.id && root.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1) {
+          parts.unshift(`#${CSS.escape(node.id)}`);
+          break;
+        }
+        const tag = node.tagName.toLowerCase();
+        const parent: Element | null = node.parentElement;
+        const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === node!.tagName) : [];
+        parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+        if (tag === 'body') break;
+      }
+
+      return parts.join(' > ');
+    };
+
+    const shadowPath = (el: Element): string => {
+      const hosts: string[] = [];
+      for (let root = el.getRootNode(); root instanceof ShadowRoot; root = root.host.getRootNode()) {
+        hosts.unshift(selectorFor(root.host));
+      }
+      return hosts.map(host => host + shadowSeparator).join('');
+    };
+
+    const find = (selector: string): Element | null => {
+      let root: ParentNode = document;
+      let found: Element | null = null;
+      for (const part of selector.split(shadowSeparator)) {
+        found = root.querySelector(part);
+        if (!found) return null;
+        root = found.shadowRoot || found;
+      }
+      return found;
+    };
+
+    window.__esDom = { queryAll, shadowPath, selectorFor, find };
+  }, SHADOW_SEPARATOR);
+}
+
+/**
+ * Main frame plus child frames (breadth first), with helpers installed
+ * and each frame's selector path resolved
+ */
+export async function frameScopes(page: Page, maxFrames = MAX_FRAMES): Promise<FrameScope[]> {
+  const scopes: FrameScope[] = [];
+  const queue: FrameScope[] = [{ frame: page.mainFrame(), path: '' }];
+
+  while (queue.length > 0 && scopes.length < maxFrames) {
+    const scope = queue.shift()!;
+    try {
+      await installDomHelpers(scope.frame);
+    } catch {
+      continue; // Detached or navigating
+    }
+    scopes.push(scope);
+
+    for (const child of scope.frame.childFrames()) {
+      try {
+        const element = await child.frameElement();
+        const selector = await element.evaluate(el => {
+          const dom = window.__esDom!;
+          return dom.shadowPath(el as Element) + dom.selectorFor(el as Element);
+        });
+        await element.dispose();
+        queue.push({ frame: child, path: scopedSelector(scope.path, selector) });
+      } catch {
+        // Frame went away while we were resolving it
+      }
+    }
+  }
+
+  return scopes;
+}
+
+/**
+ * Run a collector in every frame; a frame that fails (navigated, detached,
+ * sandboxed) is skipped instead of failing the page
+ */
+export async function collectFromFrames<T>(
+  page: Page,
+  collect: (scope: FrameScope) => Promise<T[]>
+): Promise<T[]> {
+  const results: T[] = [];
+  for (const scope of await frameScopes(page)) {
+    try {
+      results.push(...await collect(scope));
+    } catch (error) {
+      console.warn(`Skipping frame ${scope.path || '(main)'}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return results;
+}
+
+export function scopedSelector(framePath: string, selector: string): string {
+  return framePath ? `${framePath}${FRAME_SEPARATOR}${selector}` : selector;
+}
+
+/**
+ * Resolve a scoped selector to a locator. Playwright's CSS engine already
+ * pierces open shadow roots, so shadow boundaries become descendant combinators.
+ */
+export function locateElement(page: Page, selector: string): Locator {
+  const segments = selector.split(FRAME_SEPARATOR).map(segment => segment.split(SHADOW_SEPARATOR).join(' '));
+  const target = segments.pop()!;
+
+  let frame = null as ReturnType<Page['frameLocator']> | null;
+  for (const segment of segments) {
+    frame = frame ? frame.frameLocator(segment) : page.frameLocator(segment);
+  }
+  return frame ? frame.locator(target) : page.locator(target);
+}
@@ -1,744 +0,0 @@
-import { chromium, Browser, Page } from 'playwright';
-import OpenAI from 'openai';
-
-async function launchBrowser(): Promise<Browser> {
-  const ws = process.env.BROWSERLESS_WS_URL; // wss://chrome.browserless.io/playwright?token=...
-  if (ws) {
-    // Remote browser (stable in serverless)
-    console.log('🔗 Connecting to remote Browserless...');
-    return await chromium.connectOverCDP(ws);
-  }
-  // Local dev
-  console.log('🚀 Launching local Chromium...');
-  return await chromium.launch({
-    headless: true,
-    args: [
-      '--disable-blink-features=AutomationControlled',
-      '--disable-dev-shm-usage',
-      '--no-sandbox'
-    ]
-  });
-}
-
-export interface ScanConfig {
-  url: string;
-  depth: 'quick' | 'standard' | 'deep';
-  includeSubpages: boolean;
-  maxPages: number;
-  tier: 'free' | 'starter' | 'professional' | 'enterprise';
-}
-
-export interface Violation {
-  wcagCriterion: string;
-  severity: 'critical' | 'serious' | 'moderate' | 'minor';
-  elementType: string;
-  elementSelector: string;
-  elementHtml: string;
-  pageUrl: string;
-  userImpact: string;
-  businessImpact?: string;
-  legalRiskLevel: 'high' | 'medium' | 'low';
-  lawsuitCases?: any[];
-  fixDescription: string;
-  fixCode: string;
-  fixEffort: 'trivial' | 'easy' | 'moderate' | 'complex';
-  estimatedFixTime: string;
-  aiConfidence?: number;
-}
-
-export interface ComplianceSummary {
-  totalViolations: number;
-  bySeverity: {
-    critical: number;
-    serious: number;
-    moderate: number;
-    minor: number;
-  };
-  byWCAGCriterion: Record<string, number>;
-  estimatedFixTime: string;
-  topIssues: string[];
-}
-
-export interface AIAnalysis {
-  executiveSummary: string;
-  legalRiskAssessment: {
-    riskLevel: 'HIGH' | 'MEDIUM' | 'LOW';
-    similarLawsuits: Array<{
-      defendant: string;
-      year: number;
-      settlement: string;
-      similarViolations: string[];
-    }>;
-    recommendedActions: string[];
-  };
-  businessImpact: {
-    potentialLostCustomers: string;
-    seoImpact: string;
-    brandRisk: string;
-  };
-  prioritizedFixes: Array<{
-    violation: string;
-    description: string;
-    estimatedTime: string;
-    businessValue: 'HIGH' | 'MEDIUM' | 'LOW';
-  }>;
-}
-
-export interface ScanResult {
-  wcagScore: number;
-  adaRiskScore: number;
-  lawsuitProbability: number;
-  violations: Violation[];
-  summary: ComplianceSummary;
-  aiAnalysis?: AIAnalysis;
-}
-
-export class ComplianceScanner {
-  private browser: Browser | null = null;
-  private openai: OpenAI | null = null;
-
-  constructor() {
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY
-      });
-    }
-  }
-
-  async scanWebsite(config: ScanConfig): Promise<ScanResult> {
-    try {
-      // Launch browser (local or remote)
-      this.browser = await launchBrowser();
-
-      const page = await this.browser.newPage();
-      
-      // Set realistic viewport
-      await page.setViewportSize({ width: 1920, height: 1080 });
-      
-      // Navigate and wait for load
-      await page.goto(config.url, { 
-        waitUntil: 'networkidle',
-        timeout: 30000 
-      });
-
-      // Run comprehensive scans
-      const [
-        customChecks,
-        interactiveTests,
-        colorContrast,
-        semanticStructure
-      ] = await Promise.all([
-        this.runCustomWCAGChecks(page, config.url),
-        this.testKeyboardNavigation(page, config.url),
-        this.analyzeColorContrast(page, config.url),
-        this.checkSemanticStructure(page, config.url)
-      ]);
-
-      // Combine all violations
-      const allViolations = [
-        ...customChecks,
-        ...interactiveTests,
-        ...colorContrast,
-        ...semanticStructure
-      ];
-
-      // Calculate scores
-      const wcagScore = this.calculateWCAGScore(allViolations);
-      const adaRiskScore = this.calculateADARisk(allViolations);
-      const lawsuitProbability = this.calculateLawsuitProbability(allViolations);
-
-      // Get GPT-5 analysis for professional/enterprise tiers
-      let aiAnalysis;
-      if (['professional', 'enterprise'].includes(config.tier) && this.openai) {
-        aiAnalysis = await this.getGPT5Analysis(allViolations, config.url);
-      }
-
-      return {
-        wcagScore,
-        adaRiskScore,
-        lawsuitProbability,
-        violations: allViolations,
-        summary: this.generateSummary(allViolations),
-        aiAnalysis
-      };
-
-    } finally {
-      if (this.browser) {
-        await this.browser.close();
-      }
-    }
-  }
-
-  private async runCustomWCAGChecks(page: Page, url: string): Promise<Violation[]> {
-    return await page.evaluate((pageUrl) => {
-      const violations: any[] = [];
-
-      const isHidden = (el: Element) => {
-        const s = window.getComputedStyle(el as HTMLElement);
-        return s.display === 'none' || s.visibility === 'hidden' || (el as HTMLElement).offsetParent === null;
-      };
-
-      // 1) Images: Enhanced alt rules with decorative & aria-hidden allowances
-      document.querySelectorAll('img, [role="img"], svg').forEach((el, idx) => {
-        if (isHidden(el)) return;
-        
-        const img = el as HTMLElement;
-        const ariaHidden = img.getAttribute('aria-hidden') === 'true';
-        const role = img.getAttribute('role');
-        const alt = (img as HTMLImageElement).alt ?? null;
-
-        const decorative = 
-          role === 'presentation' ||
-          alt === '' ||
-          ariaHidden;
-
-        if (!decorative) {
-          const hasName = 
-            !!alt ||
-            !!img.getAttribute('aria-label') ||
-            !!img.getAttribute('aria-labelledby') ||
-            (img.tagName.toLowerCase() === 'svg' && !!img.querySelector('title'));
-
-          if (!hasName) {
-            violations.push({
-              wcagCriterion: '1.1.1',
-              severity: 'critical',
-              elementType: 'image',
-              elementSelector: img.id ? `#${img.id}` : `:nth-image(${idx+1})`,
-              elementHtml: img.outerHTML.slice(0, 200),
-              pageUrl: pageUrl,
-              userImpact: 'Screen reader users cannot access image information',
-              legalRiskLevel: 'high',
-              fixDescription: 'Provide a text alternative (alt or accessible name).',
-              fixCode: img.tagName === 'IMG'
-                ? `<img alt="[Describe image]" ${img.outerHTML.slice(4)}`
-                : `<svg role="img"><title>[Describe graphic]</title>…</svg>`,
-              fixEffort: 'trivial',
-              estimatedFixTime: '2 minutes',
-              aiConfidence: 0.95
-            });
-          }
-        }
-      });
-
-      // 2) Form labels: ignore hidden/aria-hidden, handle wrapper <label>
-      document.querySelectorAll('input, select, textarea').forEach((inputEl) => {
-        const el = inputEl as HTMLElement;
-        if (isHidden(el) || el.getAttribute('aria-hidden') === 'true' || (el as HTMLInputElement).type === 'hidden') return;
-
-        const id = el.id;
-        const hasExplicit = !!(id && document.querySelector(`label[for="${id}"]`));
-        const wrapped = !!el.closest('label');
-        const hasAria = !!el.getAttribute('aria-label') || !!el.getAttribute('aria-labelledby');
-
-        if (!hasExplicit && !wrapped && !hasAria) {
-          violations.push({
-            wcagCriterion: '3.3.2',
-            severity: 'serious',
-            elementType: 'form',
-            elementSelector: id ? `#${id}` : el.tagName.toLowerCase(),
-            elementHtml: el.outerHTML.slice(0, 200),
-            pageUrl: pageUrl,
-            userImpact: 'Users cannot determine purpose of the input field',
-            businessImpact: 'Reduced form completion rates, legal compliance risk',
-            legalRiskLevel: 'high',
-            fixDescription: 'Associate a visible label or aria-label/aria-labelledby.',
-            fixCode: id
-              ? `<label for="${id}">[Label]</label>\\n${el.outerHTML}`
-              : `<label>[Label]\\n  ${el.outerHTML}\\n</label>`,
-            fixEffort: 'easy',
-            estimatedFixTime: '5 minutes',
-            aiConfidence: 0.90
-          });
-        }
-      });
-
-      // 3) Keyboard: non-native interactive with missing key handlers
-      document.querySelectorAll('[role="button"], .button, [onclick]').forEach((el) => {
-        if (isHidden(el)) return;
-        
-        const he = el as HTMLElement;
-        const tag = he.tagName.toLowerCase();
-        const isNative = tag === 'button' || (tag === 'a' && (he as HTMLAnchorElement).href);
-
-        if (!isNative) {
-          const tabbable = he.getAttribute('tabindex') !== '-1';
-          const hasKeyHandlers = !!(
-            he.getAttribute('onkeydown') || 
-            he.getAttribute('onkeypress') || 
-            he.getAttribute('onkeyup')
-          );
-
-          if (!tabbable || !hasKeyHandlers) {
-            violations.push({
-              wcagCriterion: '2.1.1',
-              severity: 'critical',
-              elementType: 'interactive',
-              elementSelector: he.id ? `#${he.id}` : (he.className || tag),
-              elementHtml: he.outerHTML.slice(0, 200),
-              pageUrl: pageUrl,
-              userImpact: 'Keyboard-only users cannot activate this control',
-              businessImpact: 'Users with motor disabilities excluded from key functionality',
-              legalRiskLevel: 'high',
-              fixDescription: 'Use a <button> or add tabindex="0" and Enter/Space key handlers.',
-              fixCode: `<button>${he.textContent?.trim() || 'Action'}</button>`,
-              fixEffort: 'easy',
-              estimatedFixTime: '10 minutes',
-              aiConfidence: 0.88
-            });
-          }
-        }
-      });
-
-      // 4) Buttons without accessible names
-      document.querySelectorAll('button:not([aria-label]):not([aria-labelledby])').forEach((button) => {
-        if (isHidden(button)) return;
-        
-        if (!button.textContent?.trim()) {
-          violations.push({
-            wcagCriterion: '4.1.2',
-            severity: 'critical',
-            elementType: 'button',
-            elementSelector: button.id ? `#${button.id}` : (button.className ? `.${button.className.split(' ')[0]}` : 'button'),
-            elementHtml: button.outerHTML.substring(0, 200),
-            pageUrl: pageUrl,
-            userImpact: 'Screen reader users don\'t know button purpose',
-            businessImpact: 'Critical actions inaccessible to screen reader users',
-            legalRiskLevel: 'high',
-            fixDescription: 'Add accessible name to button',
-            fixCode: `<button aria-label="[Describe button action]">${button.innerHTML}</button>`,
-            fixEffort: 'easy',
-            estimatedFixTime: '3 minutes',
-            aiConfidence: 0.92
-          });
-        }
-      });
-
-      // 5) Links without accessible names  
-      document.querySelectorAll('a[href]:not([aria-label]):not([aria-labelledby])').forEach((link) => {
-        if (isHidden(link)) return;
-        
-        if (!link.textContent?.trim()) {
-          violations.push({
-            wcagCriterion: '2.4.4',
-            severity: 'serious',
-            elementType: 'link',
-            elementSelector: link.id ? `#${link.id}` : 'a[href]',
-            elementHtml: link.outerHTML.substring(0, 200),
-            pageUrl: pageUrl,
-            userImpact: 'Screen reader users don\'t know link destination',
-            businessImpact: 'Navigation inaccessible, users cannot complete user journeys',
-            legalRiskLevel: 'medium',
-            fixDescription: 'Add descriptive text to link',
-            fixCode: `<a href="${(link as HTMLAnchorElement).href}">[Descriptive link text]</a>`,
-            fixEffort: 'easy',
-            estimatedFixTime: '3 minutes',
-            aiConfidence: 0.88
-          });
-        }
-      });
-
-      return violations;
-    }, url);
-  }
-
-  private async testKeyboardNavigation(page: Page, url: string): Promise<Violation[]> {
-    const violations: Violation[] = [];
-    
-    try {
-      // Test basic tab navigation
-      const focusableElements = await page.locator('a, button, input, select, textarea, [tabindex]:not([tabindex="-1"])').all();
-      
-      for (let i = 0; i < Math.min(focusableElements.length, 10); i++) {
-        const element = focusableElements[i];
-        const tagName = await element.evaluate(el => el.tagName);
-        const tabIndex = await element.getAttribute('tabindex');
-        
-        // Check for positive tabindex (anti-pattern)
-        if (tabIndex && parseInt(tabIndex) > 0) {
-          violations.push({
-            wcagCriterion: '2.4.3',
-            severity: 'moderate',
-            elementType: tagName.toLowerCase(),
-            elementSelector: await this.getElementSelector(element),
-            elementHtml: await element.evaluate(el => el.outerHTML.substring(0, 200)),
-            pageUrl: url,
-            userImpact: 'Confusing tab order for keyboard users',
-            legalRiskLevel: 'medium',
-            fixDescription: 'Remove positive tabindex values',
-            fixCode: 'Remove tabindex attribute or set to 0',
-            fixEffort: 'easy',
-            estimatedFixTime: '2 minutes',
-            aiConfidence: 0.85
-          });
-        }
-      }
-    } catch (error) {
-      console.warn('Keyboard navigation test failed:', error);
-    }
-
-    return violations;
-  }
-
-  private async analyzeColorContrast(page: Page, url: string): Promise<Violation[]> {
-    return await page.evaluate((pageUrl) => {
-      const violations: any[] = [];
-      
-      const relLum = (c: string) => {
-        const m = c.match(/\\d+/g)?.map(Number) || [0,0,0];
-        const [r,g,b] = m.map(v => {
-          v /= 255;
-          return v <= 0.03928 ? v/12.92 : Math.pow((v+0.055)/1.055, 2.4);
-        });
-        return 0.2126*r + 0.7152*g + 0.0722*b;
-      };
-      
-      const contrast = (fg: string, bg: string) => {
-        const L1 = relLum(fg), L2 = relLum(bg);
-        const [hi, lo] = [Math.max(L1, L2), Math.min(L1, L2)];
-        return (hi + 0.05) / (lo + 0.05);
-      };
-      
-      const getEffectiveBG = (el: HTMLElement): string => {
-        let node: HTMLElement | null = el;
-        while (node) {
-          const bg = getComputedStyle(node).backgroundColor;
-          if (bg && !bg.startsWith('rgba(0, 0, 0, 0)')) return bg;
-          node = node.parentElement;
-        }
-        return 'rgb(255, 255, 255)';
-      };
-
-      // Check text contrast with real background calculation
-      document.querySelectorAll('p,span,div,a,button,h1,h2,h3,h4,h5,h6,li,td,th').forEach((el, idx) => {
-        if (idx > 50) return; // Limit for performance
-        
-        const he = el as HTMLElement;
-        const s = getComputedStyle(he);
-        
-        // Skip if no visible text
-        if (!he.textContent?.trim()) return;
-        
-        const fg = s.color; 
-        const bg = getEffectiveBG(he);
-        if (!fg) return;
-        
-        const ratio = contrast(fg, bg);
-        const size = parseFloat(s.fontSize);
-        const isBold = (parseInt(s.fontWeight,10) || 400) >= 700;
-        const large = size >= 18 || (size >= 14 && isBold);
-        const required = large ? 3 : 4.5;
-
-        if (ratio < required) {
-          violations.push({
-            wcagCriterion: '1.4.3',
-            severity: 'serious',
-            elementType: 'text',
-            elementSelector: he.id ? `#${he.id}` : he.tagName.toLowerCase(),
-            elementHtml: he.outerHTML.substring(0, 200),
-            pageUrl: pageUrl,
-            userImpact: `Insufficient contrast (${ratio.toFixed(2)}:1; needs ${required}:1)`,
-            businessImpact: 'Content inaccessible to users with low vision, colorblindness',
-            legalRiskLevel: 'high',
-            fixDescription: `Increase contrast to at least ${required}:1`,
-            fixCode: `/* Example contrast fix */\\ncolor: #000000; /* dark text */\\n/* or */\\nbackground-color: #FFFFFF; /* light background */`,
-            fixEffort: 'easy',
-            estimatedFixTime: '15 minutes',
-            aiConfidence: 0.85
-          });
-        }
-      });
-      
-      return violations;
-    }, url);
-  }
-
-  private async checkSemanticStructure(page: Page, url: string): Promise<Violation[]> {
-    return await page.evaluate((pageUrl) => {
-      const violations: any[] = [];
-
-      // Check heading hierarchy (WCAG 1.3.1)
-      const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
-      let lastLevel = 0;
-      
-      headings.forEach((heading, index) => {
-        const level = parseInt(heading.tagName[1]);
-        if (index === 0 && level !== 1) {
-          violations.push({
-            wcagCriterion: '1.3.1',
-            severity: 'moderate',
-            elementType: 'heading',
-            elementSelector: heading.id ? `#${heading.id}` : heading.tagName.toLowerCase(),
-            elementHtml: heading.outerHTML.substring(0, 100),
-            pageUrl: pageUrl,
-            userImpact: 'Page should start with H1 for proper document structure',
-            legalRiskLevel: 'low',
-            fixDescription: 'Use H1 for main page heading',
-            fixCode: `<h1>${heading.textContent}</h1>`,
-            fixEffort: 'easy',
-            estimatedFixTime: '5 minutes',
-            aiConfidence: 0.75
-          });
-        }
-        
-        if (level - lastLevel > 1) {
-          violations.push({
-            wcagCriterion: '1.3.1',
-            severity: 'moderate',
-            elementType: 'heading',
-            elementSelector: heading.id ? `#${heading.id}` : heading.tagName.toLowerCase(),
-            elementHtml: heading.outerHTML.substring(0, 100),
-            pageUrl: pageUrl,
-            userImpact: 'Confusing document structure for screen readers',
-            legalRiskLevel: 'medium',
-            fixDescription: `Heading jumps from H${lastLevel} to H${level}`,
-            fixCode: `Use H${lastLevel + 1} instead of H${level}`,
-            fixEffort: 'easy',
-            estimatedFixTime: '5 minutes',
-            aiConfidence: 0.70
-          });
-        }
-        lastLevel = level;
-      });
-
-      return violations;
-    }, url);
-  }
-
-  private async getGPT5Analysis(violations: Violation[], url: string): Promise<AIAnalysis> {
-    if (!this.openai) {
-      throw new Error('OpenAI not configured');
-    }
-
-    const prompt = `You are a legal accessibility expert analyzing WCAG violations for potential ADA lawsuit risk.
-
-Website: ${url}
-Total Violations: ${violations.length}
-
-Violations by severity:
-- Critical: ${violations.filter(v => v.severity === 'critical').length}
-- Serious: ${violations.filter(v => v.severity === 'serious').length}
-- Moderate: ${violations.filter(v => v.severity === 'moderate').length}
-- Minor: ${violations.filter(v => v.severity === 'minor').length}
-
-Key violation types found:
-${violations.slice(0, 10).map(v => `- ${v.wcagCriterion}: ${v.userImpact}`).join('\\n')}
-
-Provide a comprehensive analysis including:
-1. Executive summary of legal risk
-2. Similar lawsuit cases and settlements
-3. Business impact assessment
-4. Prioritized remediation plan
-
-Focus on actual legal precedents and business consequences.`;
-
-    try {
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-5-2025-08-07",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert ADA compliance consultant who has analyzed thousands of accessibility lawsuits. Provide specific, actionable legal and business analysis."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_completion_tokens: 1000
-      });
-
-      const analysis = completion.choices[0]?.message?.content || '';
-
-      // Parse and structure the AI response
-      return {
-        executiveSummary: analysis.substring(0, 500) + '...',
-        legalRiskAssessment: {
-          riskLevel: violations.filter(v => v.severity === 'critical').length > 0 ? 'HIGH' : 
-                    violations.filter(v => v.severity === 'serious').length > 2 ? 'MEDIUM' : 'LOW',
-          similarLawsuits: [
-            {
-              defendant: 'Target Corporation',
-              year: 2019,
-              settlement: '$50,000',
-              similarViolations: ['Missing alt text', 'Inaccessible forms']
-            },
-            {
-              defendant: 'Domino\'s Pizza',
-              year: 2019,
-              settlement: '$75,000',
-              similarViolations: ['Screen reader incompatibility']
-            }
-          ],
-          recommendedActions: [
-            'Fix critical violations within 72 hours',
-            'Implement automated testing pipeline',
-            'Create accessibility statement',
-            'Train development team on WCAG standards'
-          ]
-        },
-        businessImpact: {
-          potentialLostCustomers: '15-20% of visitors with disabilities',
-          seoImpact: 'Google penalizes inaccessible sites in rankings',
-          brandRisk: 'Public lawsuit would damage brand reputation'
-        },
-        prioritizedFixes: violations
-          .sort((a, b) => {
-            const severityOrder = { critical: 0, serious: 1, moderate: 2, minor: 3 };
-            return severityOrder[a.severity] - severityOrder[b.severity];
-          })
-          .slice(0, 10)
-          .map(v => ({
-            violation: v.wcagCriterion,
-            description: v.fixDescription,
-            estimatedTime: v.estimatedFixTime,
-            businessValue: v.severity === 'critical' ? 'HIGH' : 
-                          v.severity === 'serious' ? 'HIGH' : 'MEDIUM'
-          }))
-      };
-    } catch (error) {
-      console.error('GPT-5 analysis failed:', error);
-      // Return fallback analysis
-      return this.getFallbackAnalysis(violations);
-    }
-  }
-
-  private getFallbackAnalysis(violations: Violation[]): AIAnalysis {
-    return {
-      executiveSummary: 'Automated analysis detected accessibility violations that pose legal and business risks. Immediate remediation recommended.',
-      legalRiskAssessment: {
-        riskLevel: violations.filter(v => v.severity === 'critical').length > 0 ? 'HIGH' : 'MEDIUM',
-        similarLawsuits: [
-          {
-            defendant: 'Various companies',
-            year: 2024,
-            settlement: '$25,000-$75,000',
-            similarViolations: ['WCAG 2.1 violations']
-          }
-        ],
-        recommendedActions: [
-          'Fix critical violations immediately',
-          'Implement accessibility testing',
-          'Create compliance documentation'
-        ]
-      },
-      businessImpact: {
-        potentialLostCustomers: '15% of users with disabilities',
-        seoImpact: 'SEO penalties for poor accessibility',
-        brandRisk: 'Reputation damage from lawsuits'
-      },
-      prioritizedFixes: violations.slice(0, 5).map(v => ({
-        violation: v.wcagCriterion,
-        description: v.fixDescription,
-        estimatedTime: v.estimatedFixTime,
-        businessValue: 'HIGH'
-      }))
-    };
-  }
-
-  private calculateWCAGScore(violations: Violation[]): number {
-    const weights = {
-      critical: 15,
-      serious: 8,
-      moderate: 3,
-      minor: 1
-    };
-
-    let deductions = 0;
-    violations.forEach(v => {
-      deductions += weights[v.severity] || 0;
-    });
-
-    return Math.max(0, 100 - deductions);
-  }
-
-  private calculateADARisk(violations: Violation[]): number {
-    const highRiskViolations = violations.filter(v => 
-      v.legalRiskLevel === 'high'
-    ).length;
-    
-    const criticalViolations = violations.filter(v => 
-      v.severity === 'critical'
-    ).length;
-
-    const riskScore = Math.min(100, 
-      (highRiskViolations * 20) + 
-      (criticalViolations * 15) + 
-      (violations.length * 2)
-    );
-
-    return riskScore;
-  }
-
-  private calculateLawsuitProbability(violations: Violation[]): number {
-    const lawsuitTriggers = ['1.1.1', '2.1.1', '3.3.2', '1.4.3', '4.1.2'];
-
-    const triggerViolations = violations.filter(v => 
-      lawsuitTriggers.includes(v.wcagCriterion)
-    ).length;
-
-    const baseProbability = 5;
-    const perViolation = 12;
-    
-    return Math.min(85, baseProbability + (triggerViolations * perViolation));
-  }
-
-  private generateSummary(violations: Violation[]): ComplianceSummary {
-    return {
-      totalViolations: violations.length,
-      bySeverity: {
-        critical: violations.filter(v => v.severity === 'critical').length,
-        serious: violations.filter(v => v.severity === 'serious').length,
-        moderate: violations.filter(v => v.severity === 'moderate').length,
-        minor: violations.filter(v => v.severity === 'minor').length
-      },
-      byWCAGCriterion: violations.reduce((acc, v) => {
-        acc[v.wcagCriterion] = (acc[v.wcagCriterion] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-      estimatedFixTime: this.calculateTotalFixTime(violations),
-      topIssues: this.getTopIssues(violations)
-    };
-  }
-
-  private calculateTotalFixTime(violations: Violation[]): string {
-    const timeMap: Record<string, number> = {
-      '2 minutes': 2,
-      '3 minutes': 3,
-      '5 minutes': 5,
-      '10 minutes': 10,
-      '15 minutes': 15,
-      '30 minutes': 30,
-      '1 hour': 60,
-      '2 hours': 120
-    };
-
-    const totalMinutes = violations.reduce((total, v) => {
-      return total + (timeMap[v.estimatedFixTime] || 30);
-    }, 0);
-
-    if (totalMinutes < 60) return `${totalMinutes} minutes`;
-    if (totalMinutes < 480) return `${Math.round(totalMinutes / 60)} hours`;
-    return `${Math.round(totalMinutes / 480)} days`;
-  }
-
-  private getTopIssues(violations: Violation[]): string[] {
-    const issueCounts = violations.reduce((acc, v) => {
-      acc[v.userImpact] = (acc[v.userImpact] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(issueCounts)
-      .sort(([, a], [, b]) => b - a)
-      .slice(0, 5)
-      .map(([issue]) => issue);
-  }
-
-  private async getElementSelector(element: any): Promise<string> {
-    return await element.evaluate((el: Element) => {
-      if (el.id) return `#${el.id}`;
-      if (el.className) return `.${el.className.split(' ')[0]}`;
-      return el.tagName.toLowerCase();
-    });
-  }
-}
\ No newline at end of file
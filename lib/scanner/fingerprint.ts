@@ -0,0 +1,268 @@
+/**
+ * Violation Fingerprints
+ *
+ * Structural selectors (`div:nth-of-type(3) > img`) change whenever
+ * content shifts, so they can't tell whether a finding in today's scan is
+ * the one from last week. Each finding gets a fingerprint built from what
+ * identifies the element to a person instead:
+ *
+ *   rule | page path | robust selector | landmark | text/attribute hash
+ *
+ * The robust selector keeps ids, test ids, names and labels and drops
+ * positions and generated ids. Findings whose element can't be resolved
+ * (page-level checks, elements gone after a state change) fall back to
+ * the selector with positions stripped. compareFindings() classifies two
+ * scans' findings as new, fixed or persisting.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Page } from 'playwright';
+import { FRAME_SEPARATOR, frameScopes } from './dom-scope';
+
+export interface ElementIdentity {
+  // Tag plus stable attributes, anchored at the nearest ancestor with a stable id
+  selector: string;
+  // Enclosing landmark or form, e.g. 'navigation:Footer links'
+  landmark: string;
+  // Normalized text and identifying attributes (alt, name, src path, ...)
+  content: string;
+}
+
+// Fields of the engine's Violation (src/scanner/types) that fingerprints read
+interface Fingerprintable {
+  ruleId?: string;
+  wcagCriterion?: string;
+  pageUrl?: string;
+  elementSelector?: string;
+  fingerprint?: string;
+}
+
+/**
+ * Resolve scan selectors (frame and shadow scoped, see ./dom-scope) to the
+ * parts of their elements that survive layout and content changes
+ */
+export async function identifyElements(page: Page, selectors: string[]): Promise<Array<ElementIdentity | null>> {
+  const identities: Array<ElementIdentity | null> = selectors.map(() => null);
+  const scopes = await frameScopes(page);
+
+  // The frame path is everything before the last frame boundary
+  const byFrame = new Map<string, Array<{ index: number; selector: string }>>();
+  selectors.forEach((selector, index) => {
+    const boundary = selector.lastIndexOf(FRAME_SEPARATOR);
+    const framePath = boundary === -1 ? '' : selector.slice(0, boundary);
+    const inner = boundary === -1 ? selector : selector.slice(boundary + FRAME_SEPARATOR.length);
+    if (!byFrame.has(framePath)) byFrame.set(framePath, []);
+    byFrame.get(framePath)!.push({ index, selector: inner });
+  });
+
+  for (const [framePath, entries] of byFrame) {
+    const scope = scopes.find(candidate => candidate.path === framePath);
+    if (!scope) continue;
+
+    try {
+      const resolved = await scope.frame.evaluate((selectors) => {
+        const dom = window.__esDom!;
+
+        const parentOf = (el: Element): Element | null =>
+          el.parentElement || ((el.getRootNode() as ShadowRoot).host ?? null);
+
+        // Framework-generated ids (React useId, Radix, Ember, numeric suffixes) change per build
+        const stableId = (id: string) =>
+          !!id && /^[a-z][\w-]*$/i.test(id) && !/\d{3,}|^(ember|react|radix|headlessui|mui)[-\d]/i.test(id);
+
+        const quote = (value: string) => JSON.stringify(value.trim().slice(0, 60));
+
+        const describe = (el: Element) => {
+          let part = el.tagName.toLowerCase();
+          if (stableId(el.id)) part += `#${el.id}`;
+          for (const attr of ['data-testid', 'data-test', 'data-cy', 'name', 'aria-label', 'role', 'type']) {
+            const value = el.getAttribute(attr);
+            if (value) {
+              part += `[${attr}=${quote(value)}]`;
+              break;
+            }
+          }
+          return part;
+        };
+
+        const landmarkOf = (el: Element) => {
+          const landmark = (() => {
+            for (let node = parentOf(el); node; node = parentOf(node)) {
+              if (node.matches('main, nav, header, footer, aside, form, dialog, [role]')) {
+                const role = node.getAttribute('role') || node.tagName.toLowerCase();
+                if (['main', 'nav', 'navigation', 'header', 'banner', 'footer', 'contentinfo', 'aside',
+                  'complementary', 'form', 'search', 'region', 'dialog'].includes(role)) return node;
+              }
+            }
+            return null;
+          })();
+          if (!landmark) return '';
+
+          const labelledBy = landmark.getAttribute('aria-labelledby');
+          const label = landmark.getAttribute('aria-label') ||
+            (labelledBy ? document.getElementById(labelledBy)?.textContent : '') || '';
+          const role = landmark.getAttribute('role') || landmark.tagName.toLowerCase();
+          return `${role}:${label.replace(/\s+/g, ' ').trim().slice(0, 40)}`;
+        };
+
+        const contentOf = (el: Element) => {
+          // Page-level findings: the whole document's text changes constantly
+          if (el === document.body || el === document.documentElement) return '';
+
+          const parts = [(el.textContent || '').replace(/\s+/g, ' ').trim().replace(/\d+/g, '#').slice(0, 120)];
+          for (const attr of ['alt', 'title', 'placeholder', 'aria-label', 'name', 'type']) {
+            const value = el.getAttribute(attr);
+            if (value) parts.push(`${attr}=${value.trim().slice(0, 60)}`);
+          }
+          // Asset and link paths without cache-busting queries
+          for (const attr of ['src', 'href']) {
+            const value = el.getAttribute(attr);
+            if (!value) continue;
+            try {
+              parts.push(`${attr}=${new URL(value, location.href).pathname}`);
+            } catch {
+              parts.push(`${attr}=${value.split(/[?#]/)[0]}`);
+            }
+          }
+          return parts.join('|');
+        };
+
+        return selectors.map(selector => {
+          let target: Element | null = null;
+          try {
+            target = dom.find(selector);
+          } catch {
+            return null;
+          }
+          if (!target) return null;
+
+          let anchor: Element | null = null;
+          for (let node = parentOf(target); node && !anchor; node = parentOf(node)) {
+            if (stableId(node.id) || node.hasAttribute('data-testid')) anchor = node;
+          }
+
+          return {
+            selector: (anchor ? `${describe(anchor)} ` : '') + describe(target),
+            landmark: landmarkOf(target),
+            content: contentOf(target)
+          };
+        });
+      }, entries.map(entry => entry.selector));
+
+      // Frame paths are structural too; keep which frame, not its position
+      const framePrefix = framePath ? normalizeSelector(framePath) + FRAME_SEPARATOR : '';
+      entries.forEach((entry, i) => {
+        const identity = resolved[i];
+        identities[entry.index] = identity ? { ...identity, selector: framePrefix + identity.selector } : null;
+      });
+    } catch (error) {
+      console.warn(`Could not identify elements in frame ${framePath || '(main)'}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return identities;
+}
+
+// Selector without positions or numbers, for findings whose element can't be resolved
+export function normalizeSelector(selector: string): string {
+  return selector
+    .replace(/:nth-[\w-]+\(\d+\)/g, '')
+    .replace(/\d+/g, '#')
+    .trim();
+}
+
+// Path of the page, so the same finding matches across hosts (static build vs. deployed site)
+function pagePath(pageUrl: string | undefined): string {
+  if (!pageUrl) return '';
+  try {
+    return new URL(pageUrl).pathname.replace(/\/index\.html?$/, '/').replace(/(.)\/$/, '$1');
+  } catch {
+    return pageUrl;
+  }
+}
+
+export function violationFingerprint(violation: Fingerprintable, identity: ElementIdentity | null = null): string {
+  const parts = [
+    violation.ruleId || violation.wcagCriterion || '',
+    pagePath(violation.pageUrl),
+    identity ? identity.selector : normalizeSelector(violation.elementSelector || ''),
+    identity?.landmark ?? '',
+    identity?.content ?? ''
+  ];
+  return createHash('sha256').update(parts.join('\n')).digest('hex');
+}
+
+/**
+ * Fingerprint the findings that don't have one yet, resolving their
+ * elements in the page as it currently is
+ */
+export async function fingerprintViolations(page: Page, violations: Fingerprintable[]): Promise<void> {
+  const pending = violations.filter(violation => !violation.fingerprint);
+  if (pending.length === 0) return;
+
+  const identities = await identifyElements(page, pending.map(violation => violation.elementSelector || ''))
+    .catch(() => [] as Array<ElementIdentity | null>);
+  pending.forEach((violation, index) => {
+    violation.fingerprint = violationFingerprint(violation, identities[index] ?? null);
+  });
+}
+
+/**
+ * Identical elements (two unlabeled search boxes in one form) share a
+ * fingerprint; repeats within a page are told apart by their order
+ */
+export function disambiguateFingerprints(violations: Fingerprintable[]): void {
+  const seen = new Map<string, number>();
+  for (const violation of violations) {
+    if (!violation.fingerprint) continue;
+    const count = (seen.get(violation.fingerprint) || 0) + 1;
+    seen.set(violation.fingerprint, count);
+    if (count > 1) {
+      violation.fingerprint = createHash('sha256').update(`${violation.fingerprint}#${count}`).digest('hex');
+    }
+  }
+}
+
+export interface FindingComparison<T> {
+  new: T[];
+  fixed: T[];
+  persisting: Array<{ previous: T; current: T }>;
+}
+
+/**
+ * Classify two scans' findings: in the current scan only (new), in the
+ * previous scan only (fixed), or in both (persisting). A fingerprint
+ * repeated within a scan (the same element on several viewports) counts
+ * once. Findings without a fingerprint (stored before fingerprints) can't
+ * be matched and count as new or fixed.
+ */
+export function compareFindings<T extends { fingerprint?: string | null }>(previous: T[], current: T[]): FindingComparison<T> {
+  const previousByFingerprint = new Map<string, T>();
+  for (const finding of previous) {
+    if (finding.fingerprint && !previousByFingerprint.has(finding.fingerprint)) {
+      previousByFingerprint.set(finding.fingerprint, finding);
+    }
+  }
+
+  const result: FindingComparison<T> = { new: [], fixed: [], persisting: [] };
+  const seen = new Set<string>();
+
+  for (const finding of current) {
+    if (finding.fingerprint) {
+      if (seen.has(finding.fingerprint)) continue;
+      seen.add(finding.fingerprint);
+    }
+    const match = finding.fingerprint ? previousByFingerprint.get(finding.fingerprint) : undefined;
+    if (match) {
+      result.persisting.push({ previous: match, current: finding });
+    } else {
+      result.new.push(finding);
+    }
+  }
+
+  for (const [fingerprint, finding] of previousByFingerprint) {
+    if (!seen.has(fingerprint)) result.fixed.push(finding);
+  }
+  result.fixed.push(...previous.filter(finding => !finding.fingerprint));
+  return result;
+}
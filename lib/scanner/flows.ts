@@ -0,0 +1,71 @@
+/**
+ * Scripted User-Journey Flows
+ *
+ * Teams attach flows (e.g. "keyboard user completes checkout") to a site.
+ * The worker replays each flow step by step (src/scanner/flows.ts), runs the
+ * accessibility checks after every step and stores the run in the flows
+ * table with per-step findings and a per-flow score.
+ */
+
+export type FlowStep =
+  | { type: 'goto'; url: string; name?: string }          // Absolute or relative to the current page
+  | { type: 'click'; selector: string; name?: string }
+  | { type: 'fill'; selector: string; value: string; name?: string }  // value is encrypted (encryptSecret) once stored
+  | { type: 'press'; key: string; selector?: string; name?: string }
+  | { type: 'assert'; selector?: string; text?: string; urlIncludes?: string; name?: string };
+
+export type FlowStepType = FlowStep['type'];
+
+export interface FlowDefinition {
+  name: string;
+  flowType: string; // 'checkout', 'signup', 'contact', 'search', ...
+  // Reach click/fill targets with Tab and activate them with Enter/Space
+  keyboardOnly: boolean;
+  steps: FlowStep[];
+}
+
+/**
+ * Row shape of flow_definitions (see 012_scan_flows.sql)
+ */
+export interface StoredFlowDefinition {
+  id: string;
+  org_id: string;
+  name: string;
+  site_host: string;
+  flow_type: string;
+  keyboard_only: boolean;
+  steps: FlowStep[];
+}
+
+// blocked: an accessibility barrier stopped the step (e.g. not reachable by Tab)
+// error: the step itself failed (timeout, missing element, failed assertion)
+export type FlowStepStatus = 'passed' | 'blocked' | 'error' | 'skipped';
+
+export interface FlowStepResult {
+  index: number;
+  type: FlowStepType;
+  name?: string;
+  status: FlowStepStatus;
+  url: string;
+  durationMs: number;
+  newIssues: number;  // Findings that first appeared after this step
+  tabPresses?: number;
+  error?: string;
+}
+
+/**
+ * Row shape of flows: one run of a definition within a scan
+ */
+export interface FlowRun {
+  id: string;
+  scan_id: string;
+  definition_id: string | null;
+  name: string;
+  flow_type: string;
+  completed: boolean;
+  failed_step: number | null;
+  // null when the flow script itself broke, so accessibility can't be judged
+  accessibility_score: number | null;
+  steps: FlowStepResult[];
+  issues: Array<Record<string, unknown> & { step: number }>;
+}
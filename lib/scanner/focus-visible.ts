@@ -0,0 +1,142 @@
+/**
+ * Focus Visible Verification
+ *
+ * Screenshots each keyboard focus stop with and without focus and diffs
+ * the crops pixel by pixel. No perceptible change fails 2.4.7 Focus
+ * Visible; a change smaller than a 2px perimeter at 3:1 contrast falls
+ * short of 2.4.13 Focus Appearance.
+ */
+
+import type { Page } from 'playwright';
+import { decodePNG, DecodedImage } from './png';
+
+export interface FocusStateCapture {
+  focused: Buffer;
+  unfocused: Buffer;
+  // Element box and crop in CSS pixels
+  box: { width: number; height: number };
+  clip: { width: number; height: number };
+}
+
+export interface FocusStateDiff {
+  changedPixels: number;
+  contrastingPixels: number; // Changed pixels with >= 3:1 contrast between states
+  requiredArea: number;      // 2.4.13 minimum, in device pixels
+  perceptible: boolean;
+  meetsFocusAppearance: boolean;
+}
+
+// Room for outlines and box-shadows drawn outside the element
+const CROP_PADDING = 6;
+// Per-channel difference below this is treated as noise (anti-aliasing, dithering)
+const CHANNEL_TOLERANCE = 24;
+// Fewer changed CSS pixels than this is not a perceptible indicator
+const MIN_PERCEPTIBLE_PIXELS = 4;
+
+/**
+ * Capture the currently focused element with and without focus, then
+ * restore focus so keyboard traversal can continue from it
+ */
+export async function captureFocusStates(page: Page): Promise<FocusStateCapture | null> {
+  const handle = await page.evaluateHandle(() => {
+    let focused = document.activeElement as HTMLElement | null;
+    while (focused?.shadowRoot?.activeElement) {
+      focused = focused.shadowRoot.activeElement as HTMLElement;
+    }
+    return focused;
+  });
+
+  try {
+    const element = handle.asElement();
+    if (!element) return null;
+
+    const rect = await element.evaluate(el => {
+      const r = el.getBoundingClientRect();
+      return { x: r.x, y: r.y, width: r.width, height: r.height };
+    });
+    const viewport = page.viewportSize();
+    if (!viewport || rect.width < 1 || rect.height < 1) return null;
+
+    const x = Math.max(0, rect.x - CROP_PADDING);
+    const y = Math.max(0, rect.y - CROP_PADDING);
+    const clip = {
+      x,
+      y,
+      width: Math.min(viewport.width, rect.x + rect.width + CROP_PADDING) - x,
+      height: Math.min(viewport.height, rect.y + rect.height + CROP_PADDING) - y
+    };
+    if (clip.width < 1 || clip.height < 1) return null;
+
+    const focused = await page.screenshot({ clip, animations: 'disabled' });
+    await element.evaluate(el => (el as HTMLElement).blur());
+    const unfocused = await page.screenshot({ clip, animations: 'disabled' });
+    await element.evaluate(el => (el as HTMLElement).focus());
+
+    return {
+      focused,
+      unfocused,
+      box: { width: rect.width, height: rect.height },
+      clip: { width: clip.width, height: clip.height }
+    };
+  } finally {
+    await handle.dispose();
+  }
+}
+
+function luminance(r: number, g: number, b: number): number {
+  const [rs, gs, bs] = [r, g, b].map(c => {
+    c /= 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * rs + 0.7152 * gs + 0.0722 * bs;
+}
+
+/**
+ * Pixel-wise comparison of the unfocused and focused crops
+ */
+export function diffFocusStates(capture: FocusStateCapture): FocusStateDiff {
+  const before: DecodedImage = decodePNG(capture.unfocused);
+  const after: DecodedImage = decodePNG(capture.focused);
+
+  const width = Math.min(before.width, after.width);
+  const height = Math.min(before.height, after.height);
+
+  let changedPixels = 0;
+  let contrastingPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * before.width + x) * 4;
+      const j = (y * after.width + x) * 4;
+      const delta = Math.max(
+        Math.abs(before.data[i] - after.data[j]),
+        Math.abs(before.data[i + 1] - after.data[j + 1]),
+        Math.abs(before.data[i + 2] - after.data[j + 2])
+      );
+      if (delta <= CHANNEL_TOLERANCE) continue;
+
+      changedPixels++;
+      const l1 = luminance(before.data[i], before.data[i + 1], before.data[i + 2]);
+      const l2 = luminance(after.data[j], after.data[j + 1], after.data[j + 2]);
+      if ((Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05) >= 3) {
+        contrastingPixels++;
+      }
+    }
+  }
+
+  // Screenshots are in device pixels; thresholds are defined in CSS pixels
+  const scale = before.width / capture.clip.width || 1;
+  const devicePixelArea = scale * scale;
+
+  // Area of a 2 CSS px thick perimeter around the unfocused component
+  const { width: w, height: h } = capture.box;
+  const requiredArea = Math.round((4 * (w + h) - 16) * devicePixelArea);
+
+  return {
+    changedPixels,
+    contrastingPixels,
+    requiredArea,
+    perceptible: changedPixels >= MIN_PERCEPTIBLE_PIXELS * devicePixelArea,
+    meetsFocusAppearance: contrastingPixels >= requiredArea
+  };
+}
@@ -0,0 +1,402 @@
+/**
+ * Form Error Handling Probe
+ *
+ * Label checks pass plenty of forms that fall apart once a user makes a
+ * mistake. This probe submits each form on a page twice, once with its
+ * fields empty and once with malformed values in fields that expect a
+ * format (email, tel, url, pattern, ...), and records what the page does:
+ * which error messages appear, whether each is tied to its field
+ * (aria-describedby, aria-errormessage or the label), whether the field
+ * is marked invalid, whether the message is announced (live region, or
+ * focus moved onto it) and where focus ends up.
+ *
+ * Submitting is a side effect, so it only runs when asked for and in a
+ * sandboxed copy of the session: every non-GET request, every navigation
+ * away from the page and, once the submit is clicked, every request but
+ * the page's own stylesheets, images, fonts and media is stopped in the
+ * browser, so nothing reaches the server. WebSockets are closed. Main
+ * frame only.
+ */
+
+import type { BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { installDomHelpers, locateElement } from './dom-scope';
+
+const MAX_FORMS = 5;
+// Client-side validation renders within a moment of the submit click
+const SETTLE_MS = 1500;
+const ACTION_TIMEOUT_MS = 3000;
+// What a page fetches to render an error; anything else after the submit could carry it out
+const ASSET_TYPES = new Set(['stylesheet', 'image', 'font', 'media']);
+
+export type ProbePass = 'empty' | 'invalid';
+
+export interface ProbeField {
+  selector: string;
+  type: string; // input type, 'select' or 'textarea'
+  label: string;
+  required: boolean;
+  // Expects a format a user can get wrong (email, tel, url, pattern, ...)
+  formatted: boolean;
+}
+
+export interface ProbeForm {
+  selector: string;
+  html: string;
+  submit: string | null;
+  fields: ProbeField[];
+}
+
+export interface ProbeError {
+  message: string;
+  selector: string;
+  // Field the message belongs to (by reference, or the nearest one); null when none is near
+  field: string | null;
+  fieldLabel: string | null;
+  formatted: boolean;
+  // aria-describedby/aria-errormessage pointing at the message, or the message inside the label
+  associated: boolean;
+  fieldInvalid: boolean;
+  // In a live region, or read out because focus moved onto it or its field
+  announced: boolean;
+}
+
+export interface FormProbeResult {
+  form: ProbeForm;
+  pass: ProbePass;
+  // A request the submission made was stopped in the browser
+  submitted: boolean;
+  // The browser's own validation (required, type=email, ...) blocked the submission
+  native: boolean;
+  errors: ProbeError[];
+  firstErrorField: string | null;
+  focus: string | null;
+  focusMoved: boolean;
+}
+
+declare global {
+  interface Window {
+    __esForms?: { texts: Map<Element, string>; active: Element | null };
+  }
+}
+
+interface Sandbox {
+  context: BrowserContext;
+  page: Page;
+  // Submissions stopped since the last load
+  intercepted: string[];
+  load(url: string): Promise<void>;
+  // Called right before the submit click
+  arm(): void;
+}
+
+/**
+ * Opens a context like the scan's own (viewport, auth, routes such as a
+ * static build's) with the given options on top
+ */
+export type OpenContext = (options: BrowserContextOptions) => Promise<BrowserContext>;
+
+// Sandboxed copy of the scan's session that never lets a submission out
+async function openSandbox(page: Page, openContext?: OpenContext): Promise<Sandbox | null> {
+  const options: BrowserContextOptions = {
+    storageState: await page.context().storageState(),
+    acceptDownloads: false,
+    serviceWorkers: 'block'
+  };
+  let context: BrowserContext;
+  if (openContext) {
+    context = await openContext(options);
+  } else {
+    const browser = page.context().browser();
+    if (!browser) return null;
+    context = await browser.newContext({ ...options, viewport: page.viewportSize() });
+  }
+
+  const sandboxPage = await context.newPage();
+  const intercepted: string[] = [];
+  let loading = true;
+  let armed = false;
+
+  // Registered last, so it runs before the scan's own routes and falls back to them
+  await context.route('**/*', route => {
+    const request = route.request();
+    if (!['http:', 'https:'].includes(new URL(request.url()).protocol)) {
+      return route.abort();
+    }
+    // Form posts, fetch/XHR submissions (GETs too) and method="get" forms navigating away
+    const navigatingAway = !loading && request.isNavigationRequest() && request.frame() === sandboxPage.mainFrame();
+    const afterSubmit = armed && (request.isNavigationRequest() || !ASSET_TYPES.has(request.resourceType()));
+    if (!['GET', 'HEAD', 'OPTIONS'].includes(request.method()) || navigatingAway || afterSubmit) {
+      intercepted.push(`${request.method()} ${request.url()}`);
+      return route.abort('blockedbyclient');
+    }
+    return route.fallback();
+  });
+  // A socket opened while loading could still carry the submission
+  await context.routeWebSocket(/.*/, ws => ws.close());
+
+  context.on('page', popup => { if (popup !== sandboxPage) popup.close().catch(() => undefined); });
+  sandboxPage.on('dialog', dialog => dialog.dismiss().catch(() => undefined));
+
+  const load = async (url: string) => {
+    loading = true;
+    armed = false;
+    intercepted.length = 0;
+    try {
+      await sandboxPage.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 });
+    } finally {
+      loading = false;
+    }
+    await sandboxPage.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => undefined);
+    await installDomHelpers(sandboxPage.mainFrame());
+  };
+
+  return { context, page: sandboxPage, intercepted, load, arm: () => { armed = true; } };
+}
+
+/**
+ * Forms with something to get wrong: a required or formatted field.
+ * Search forms are left alone.
+ */
+function listForms({ maxForms }: { maxForms: number }): ProbeForm[] {
+  const FIELDS = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea';
+  const FORMATTED_TYPES = ['email', 'tel', 'url', 'number'];
+  const dom = window.__esDom!;
+  const selectorFor = (el: Element) => dom.shadowPath(el) + dom.selectorFor(el);
+  const visible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const style = window.getComputedStyle(el);
+    return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+  };
+  const labelOf = (field: HTMLInputElement) =>
+    (field.getAttribute('aria-label') || field.labels?.[0]?.textContent || field.placeholder || field.name || '').replace(/\s+/g, ' ').trim();
+
+  const forms: ProbeForm[] = [];
+  for (const form of dom.queryAll('form') as HTMLFormElement[]) {
+    if (forms.length >= maxForms) break;
+    if (form.closest('[role="search"]') || form.getAttribute('role') === 'search') continue;
+
+    const fields = (dom.queryAll(FIELDS, form) as HTMLInputElement[])
+      .filter(field => visible(field) && !field.disabled && !field.readOnly)
+      .map(field => {
+        const type = field.tagName === 'INPUT' ? (field.type || 'text') : field.tagName.toLowerCase();
+        const label = labelOf(field);
+        return {
+          selector: selectorFor(field),
+          type,
+          label,
+          required: field.required || field.getAttribute('aria-required') === 'true' || /\*\s*$|\(required\)/i.test(label),
+          formatted: FORMATTED_TYPES.includes(type) || field.hasAttribute('pattern') || field.minLength > 0
+        };
+      });
+    if (fields.length === 0 || fields.every(field => field.type === 'search')) continue;
+    if (!fields.some(field => field.required || field.formatted)) continue;
+
+    const submit = form.querySelector('button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]') ||
+      (form.id ? document.querySelector(`[form="${CSS.escape(form.id)}"][type="submit"]`) : null);
+
+    forms.push({
+      selector: selectorFor(form),
+      html: form.outerHTML.slice(0, 200),
+      submit: submit ? selectorFor(submit) : null,
+      fields
+    });
+  }
+  return forms;
+}
+
+// A value the field's format rejects; null when none can be typed
+function invalidValue(field: ProbeField): string | null {
+  switch (field.type) {
+    case 'email': return 'name.example.com';
+    case 'tel': return 'call me';
+    case 'url': return 'not a web address';
+    case 'number': return null;
+    default: return field.formatted ? '!!' : null;
+  }
+}
+
+function validValue(field: ProbeField): string {
+  switch (field.type) {
+    case 'email': return 'test@example.com';
+    case 'tel': return '5555550123';
+    case 'url': return 'https://example.com';
+    case 'number': return '1';
+    default: return 'Test';
+  }
+}
+
+/**
+ * Empty every field, or fill formatted fields with malformed values and
+ * everything else validly, the way a user would (so framework state
+ * updates)
+ */
+async function fillForm(page: Page, form: ProbeForm, pass: ProbePass): Promise<boolean> {
+  let malformed = false;
+  for (const field of form.fields) {
+    const locator = locateElement(page, field.selector);
+    try {
+      if (field.type === 'checkbox' || field.type === 'radio') {
+        if (pass === 'empty') await locator.setChecked(false, { timeout: ACTION_TIMEOUT_MS });
+        else if (field.required) await locator.setChecked(true, { timeout: ACTION_TIMEOUT_MS });
+      } else if (field.type === 'select') {
+        await locator.selectOption({ index: pass === 'empty' ? 0 : 1 }, { timeout: ACTION_TIMEOUT_MS });
+      } else if (['date', 'time', 'datetime-local', 'month', 'week', 'color', 'range', 'file'].includes(field.type)) {
+        continue;
+      } else {
+        const invalid = pass === 'invalid' ? invalidValue(field) : null;
+        if (invalid) malformed = true;
+        await locator.fill(pass === 'empty' ? '' : invalid ?? validValue(field), { timeout: ACTION_TIMEOUT_MS });
+      }
+    } catch {
+      // Covered, detached or custom widgets: leave as they are
+    }
+  }
+  return pass === 'empty' || malformed;
+}
+
+// Remember the visible text and the focused element before submitting
+function markBefore(): void {
+  const texts = new Map<Element, string>();
+  for (const el of window.__esDom!.queryAll('*', document.body)) {
+    const own = Array.from(el.childNodes).filter(node => node.nodeType === Node.TEXT_NODE).map(node => node.textContent).join(' ').trim();
+    if (own && el.getClientRects().length > 0) texts.set(el, own);
+  }
+  window.__esForms = { texts, active: document.activeElement };
+}
+
+/**
+ * Error messages that appeared after submitting, each matched to a field,
+ * with how the field and the message are exposed
+ */
+function collectErrors(probeForm: ProbeForm): Omit<FormProbeResult, 'form' | 'pass' | 'submitted'> {
+  const ERROR_TEXT = /\b(required|invalid|please|must|enter|error|incorrect|missing|valid|blank|empty|too (short|long))\b/i;
+  const ERROR_CONTAINER = '[role="alert"], [aria-live]:not([aria-live="off"]), [role="status"], [class*="error" i], [class*="invalid" i], [class*="feedback" i], [id*="error" i]';
+  const LIVE = '[role="alert"], [aria-live]:not([aria-live="off"]), [role="status"], [role="log"]';
+  const dom = window.__esDom!;
+  const selectorFor = (el: Element) => dom.shadowPath(el) + dom.selectorFor(el);
+  const before = window.__esForms || { texts: new Map<Element, string>(), active: null };
+  const form = dom.find(probeForm.selector) as HTMLFormElement | null;
+  const active = document.activeElement;
+
+  const fields = probeForm.fields
+    .map(field => ({ field, el: dom.find(field.selector) as HTMLInputElement | null }))
+    .filter((entry): entry is { field: ProbeField; el: HTMLInputElement } => !!entry.el);
+  const native = !!form && !form.noValidate && fields.some(({ el }) => el.willValidate && !el.checkValidity());
+
+  // New or changed visible text that reads like, or sits in, an error message
+  const messages: Element[] = [];
+  for (const el of dom.queryAll('*', document.body)) {
+    if (el.getClientRects().length === 0 || el.closest('script, style, noscript, option')) continue;
+    const own = Array.from(el.childNodes).filter(node => node.nodeType === Node.TEXT_NODE).map(node => node.textContent).join(' ').trim();
+    if (!own || before.texts.get(el) === own) continue;
+    if (!ERROR_TEXT.test(own) && !el.closest(ERROR_CONTAINER)) continue;
+    if (messages.some(message => message.contains(el))) continue;
+    messages.push(el);
+    if (messages.length >= 20) break;
+  }
+
+  const referenced = (field: Element, message: Element) =>
+    ['aria-describedby', 'aria-errormessage'].some(attribute =>
+      (field.getAttribute(attribute) || '').split(/\s+/).filter(Boolean).some(id => {
+        const target = (field.getRootNode() as Document | ShadowRoot).getElementById?.(id);
+        return !!target && (target.contains(message) || message.contains(target));
+      })
+    );
+
+  const nearestField = (message: Element) => {
+    const byReference = fields.find(({ el }) => referenced(el, message) || Array.from(el.labels || []).some(label => label.contains(message)));
+    if (byReference) return byReference;
+    let scope: Element | null = message.parentElement;
+    for (let depth = 0; scope && depth < 4; depth++, scope = scope.parentElement) {
+      const found = fields.find(({ el }) => scope!.contains(el));
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const errors: ProbeError[] = messages.map(message => {
+    const match = nearestField(message);
+    const associated = !!match && (referenced(match.el, message) || Array.from(match.el.labels || []).some(label => label.contains(message)));
+    return {
+      message: (message.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 200),
+      selector: selectorFor(message),
+      field: match ? match.field.selector : null,
+      fieldLabel: match ? match.field.label : null,
+      formatted: !!match && match.field.formatted,
+      associated,
+      fieldInvalid: !!match && (match.el.getAttribute('aria-invalid') === 'true' || (match.el.willValidate && !match.el.checkValidity())),
+      announced: !!message.closest(LIVE) || (!!active && active !== before.active && (active.contains(message) || (associated && active === match!.el)))
+    };
+  });
+
+  const firstErrorField = fields.find(({ el }) =>
+    el.getAttribute('aria-invalid') === 'true' || errors.some(error => error.field && dom.find(error.field) === el)
+  );
+  // On the first field in error, or on an error summary listing the messages
+  const focusMoved = !!active && active !== before.active && (
+    (!!firstErrorField && active === firstErrorField.el) ||
+    messages.some(message => active.contains(message))
+  );
+
+  return {
+    native,
+    errors,
+    firstErrorField: firstErrorField ? firstErrorField.field.selector : null,
+    focus: active && active !== document.body ? selectorFor(active) : null,
+    focusMoved
+  };
+}
+
+async function submitForm(page: Page, form: ProbeForm): Promise<void> {
+  if (form.submit) {
+    const clicked = await locateElement(page, form.submit).click({ timeout: ACTION_TIMEOUT_MS }).then(() => true, () => false);
+    if (clicked) return;
+  }
+  await page.evaluate((selector) => {
+    (window.__esDom!.find(selector) as HTMLFormElement | null)?.requestSubmit();
+  }, form.selector).catch(() => undefined);
+}
+
+/**
+ * Submit each form on the page (as loaded at its URL) empty and with
+ * malformed values in a sandbox, and report how errors are handled. The
+ * sandbox is opened with openContext when given, else with only the
+ * page's viewport.
+ */
+export async function probeForms(
+  page: Page,
+  options: { maxForms?: number; openContext?: OpenContext } = {}
+): Promise<FormProbeResult[]> {
+  await installDomHelpers(page.mainFrame());
+  const forms = await page.evaluate(listForms, { maxForms: options.maxForms ?? MAX_FORMS });
+  if (forms.length === 0) return [];
+
+  const sandbox = await openSandbox(page, options.openContext);
+  if (!sandbox) return [];
+
+  const results: FormProbeResult[] = [];
+  try {
+    for (const form of forms) {
+      for (const pass of ['empty', 'invalid'] as const) {
+        try {
+          await sandbox.load(page.url());
+          const present = await sandbox.page.evaluate((selector) => !!window.__esDom!.find(selector), form.selector);
+          if (!present || !(await fillForm(sandbox.page, form, pass))) continue;
+
+          await sandbox.page.evaluate(markBefore);
+          sandbox.arm();
+          await submitForm(sandbox.page, form);
+          await sandbox.page.waitForTimeout(SETTLE_MS);
+
+          const found = await sandbox.page.evaluate(collectErrors, form);
+          results.push({ form, pass, submitted: sandbox.intercepted.length > 0, ...found });
+        } catch (error) {
+          console.warn(`Form probe (${pass}) failed for ${form.selector}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+  } finally {
+    await sandbox.context.close().catch(() => undefined);
+  }
+  return results;
+}
@@ -0,0 +1,282 @@
+/**
+ * Keyboard Traversal
+ *
+ * Drives real Tab / Shift+Tab presses through a page and records the focus
+ * sequence. From that sequence we derive keyboard traps (2.1.2), focus
+ * stops that are invisible while focused, and interactive controls that
+ * are never reached (2.1.1).
+ */
+
+import type { Page } from 'playwright';
+import { installDomHelpers } from './dom-scope';
+
+export interface FocusStop {
+  id: string;            // Stable per-scan id stamped on the element
+  selector: string;      // Unique, through shadow roots (see ./dom-scope)
+  tagName: string;
+  html: string;
+  visible: boolean;
+}
+
+export interface KeyboardTrap {
+  // Elements focus cycles through without ever returning to the document
+  cycle: FocusStop[];
+  // Path from the start of the page up to and around the trap
+  focusPath: string[];
+}
+
+export interface KeyboardTraversal {
+  forward: FocusStop[];
+  backward: FocusStop[];
+  // True only when focus made it back to the document (no cycle, no stop limit)
+  complete: boolean;
+  trap: KeyboardTrap | null;
+  invisible: FocusStop[];
+  unreachable: Array<{ selector: string; tagName: string; html: string }>;
+}
+
+const STOP_ATTR = 'data-es-kb';
+const CANDIDATE_ATTR = 'data-es-kb-candidate';
+const DEFAULT_MAX_STOPS = 200;
+
+/**
+ * Stamp every element that looks interactive so focus stops and
+ * unreachable controls can be identified by id rather than selector.
+ */
+async function markCandidates(page: Page): Promise<void> {
+  await page.evaluate(({ stopAttr, candidateAttr }) => {
+    const interactiveRoles = [
+      'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem',
+      'menuitemcheckbox', 'menuitemradio', 'option', 'slider', 'spinbutton',
+      'combobox', 'textbox', 'searchbox', 'treeitem'
+    ];
+    const selector = [
+      'a[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea',
+      'summary', 'iframe', '[tabindex]', '[contenteditable="true"]', '[onclick]',
+      'audio[controls]', 'video[controls]',
+      ...interactiveRoles.map(role => `[role="${role}"]`)
+    ].join(',');
+
+    let counter = 0;
+    document.querySelectorAll(selector).forEach(el => {
+      const html = el as HTMLElement;
+      html.setAttribute(stopAttr, String(counter++));
+
+      const style = window.getComputedStyle(html);
+      const rect = html.getBoundingClientRect();
+      const visible = style.display !== 'none' && style.visibility !== 'hidden' &&
+                      rect.width > 0 && rect.height > 0;
+      const disabled = (html as HTMLButtonElement).disabled || html.getAttribute('aria-disabled') === 'true';
+      const hidden = !!html.closest('[aria-hidden="true"], [inert]');
+      const optedOut = html.getAttribute('tabindex') === '-1';
+
+      // Only controls a keyboard user should be able to reach
+      if (visible && !disabled && !hidden && !optedOut) {
+        html.setAttribute(candidateAttr, '');
+      }
+    });
+  }, { stopAttr: STOP_ATTR, candidateAttr: CANDIDATE_ATTR });
+}
+
+async function clearMarks(page: Page): Promise<void> {
+  await page.evaluate(({ stopAttr, candidateAttr }) => {
+    document.querySelectorAll(`[${stopAttr}], [${candidateAttr}]`).forEach(el => {
+      el.removeAttribute(stopAttr);
+      el.removeAttribute(candidateAttr);
+    });
+  }, { stopAttr: STOP_ATTR, candidateAttr: CANDIDATE_ATTR }).catch(() => undefined);
+}
+
+async function resetFocus(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    (document.activeElement as HTMLElement | null)?.blur();
+    window.getSelection()?.removeAllRanges();
+  });
+}
+
+/**
+ * Snapshot of the focused element, or null when focus is on the document
+ */
+async function currentStop(page: Page): Promise<FocusStop | null> {
+  return page.evaluate((stopAttr) => {
+    let focused = document.activeElement as HTMLElement | null;
+    // Follow focus into open shadow roots
+    while (focused?.shadowRoot?.activeElement) {
+      focused = focused.shadowRoot.activeElement as HTMLElement;
+    }
+    if (!focused || focused === document.body || focused === document.documentElement) {
+      return null;
+    }
+
+    if (!focused.hasAttribute(stopAttr)) {
+      focused.setAttribute(stopAttr, `x${document.querySelectorAll(`[${stopAttr}^="x"]`).length}`);
+    }
+
+    const dom = window.__esDom!;
+
+    const style = window.getComputedStyle(focused);
+    const rect = focused.getBoundingClientRect();
+    const clipped = style.clip === 'rect(0px, 0px, 0px, 0px)' || style.clipPath === 'inset(50%)';
+    const visible = style.visibility !== 'hidden' && parseFloat(style.opacity) > 0 && !clipped &&
+                    rect.width > 1 && rect.height > 1 &&
+                    rect.bottom > 0 && rect.right > 0 &&
+                    rect.top < document.documentElement.scrollHeight &&
+                    rect.left < document.documentElement.scrollWidth;
+
+    return {
+      id: focused.getAttribute(stopAttr)!,
+      selector: dom.shadowPath(focused) + dom.selectorFor(focused),
+      tagName: focused.tagName.toLowerCase(),
+      html: focused.outerHTML.substring(0, 200),
+      visible
+    };
+  }, STOP_ATTR);
+}
+
+/**
+ * Press a key repeatedly from the top of the document, recording each stop.
+ * Stops when focus returns to the document or revisits a stop (a cycle that
+ * excludes the document - a potential trap).
+ */
+async function walk(
+  page: Page,
+  key: 'Tab' | 'Shift+Tab',
+  maxStops: number,
+  onStop?: (stop: FocusStop) => Promise<void>
+): Promise<{ stops: FocusStop[]; cycleStart: number | null; complete: boolean }> {
+  await resetFocus(page);
+
+  const stops: FocusStop[] = [];
+  const seenAt = new Map<string, number>();
+
+  for (let i = 0; i < maxStops; i++) {
+    await page.keyboard.press(key);
+    const stop = await currentStop(page);
+
+    if (!stop) {
+      // Focus went back to the document (or browser chrome)
+      if (stops.length > 0) return { stops, cycleStart: null, complete: true };
+      continue;
+    }
+
+    const previous = seenAt.get(stop.id);
+
+    // Tabbing inside an iframe keeps the frame element focused in this document
+    if (previous !== undefined && stop.tagName === 'iframe' && previous === stops.length - 1) {
+      continue;
+    }
+
+    if (previous !== undefined) {
+      // Browsers hand focus back to the document after the last stop, so any
+      // revisit means script is cycling focus (modal dialog or trap)
+      return { stops, cycleStart: previous, complete: false };
+    }
+
+    seenAt.set(stop.id, stops.length);
+    stops.push(stop);
+
+    if (onStop) {
+      await onStop(stop);
+    }
+  }
+
+  return { stops, cycleStart: null, complete: false };
+}
+
+/**
+ * Confirm a suspected trap: standard keys (Shift+Tab, Escape) must not be
+ * able to move focus out of the cycle. Modal dialogs that keep focus
+ * inside but close on Escape are not traps.
+ */
+async function isTrapped(page: Page, cycle: FocusStop[]): Promise<boolean> {
+  const cycleIds = new Set(cycle.map(stop => stop.id));
+  const attempts = cycle.length + 2;
+
+  for (let i = 0; i < attempts; i++) {
+    await page.keyboard.press('Shift+Tab');
+    const stop = await currentStop(page);
+    if (!stop || !cycleIds.has(stop.id)) return false;
+  }
+
+  await page.keyboard.press('Escape');
+  await page.keyboard.press('Tab');
+  const afterEscape = await currentStop(page);
+  return !!afterEscape && cycleIds.has(afterEscape.id);
+}
+
+/**
+ * Run a full forward and backward keyboard traversal of the current page
+ */
+export async function traverseKeyboard(
+  page: Page,
+  options: {
+    maxStops?: number;
+    // Called on each forward stop while it still has keyboard focus
+    onStop?: (stop: FocusStop) => Promise<void>;
+  } = {}
+): Promise<KeyboardTraversal> {
+  const maxStops = options.maxStops || DEFAULT_MAX_STOPS;
+
+  await markCandidates(page);
+  await installDomHelpers(page.mainFrame());
+
+  try {
+    const forwardWalk = await walk(page, 'Tab', maxStops, options.onStop);
+
+    let trap: KeyboardTrap | null = null;
+    if (forwardWalk.cycleStart !== null) {
+      const cycle = forwardWalk.stops.slice(forwardWalk.cycleStart);
+      if (await isTrapped(page, cycle)) {
+        trap = {
+          cycle,
+          focusPath: [...forwardWalk.stops, cycle[0]].slice(-30).map(stop => stop.selector)
+        };
+      }
+    }
+
+    // A trap stops the backward walk in the same place; no need to repeat it
+    const backwardWalk = trap
+      ? { stops: [] as FocusStop[], cycleStart: null, complete: false }
+      : await walk(page, 'Shift+Tab', maxStops);
+
+    const reached = new Set([...forwardWalk.stops, ...backwardWalk.stops].map(stop => stop.id));
+    const complete = forwardWalk.complete;
+
+    // Only meaningful when the traversal covered the whole page
+    const unreachable = complete
+      ? await page.evaluate(({ stopAttr, candidateAttr, reachedIds }) => {
+          return Array.from(document.querySelectorAll(`[${candidateAttr}]`))
+            .filter(el => !reachedIds.includes(el.getAttribute(stopAttr) || ''))
+            // A reached descendant (e.g. input inside a [role=combobox]) counts for its container
+            .filter(el => !Array.from(el.querySelectorAll(`[${stopAttr}]`))
+              .some(child => reachedIds.includes(child.getAttribute(stopAttr) || '')))
+            .map(el => ({
+              selector: window.__esDom!.selectorFor(el),
+              tagName: el.tagName.toLowerCase(),
+              html: el.outerHTML.substring(0, 200)
+            }));
+        }, { stopAttr: STOP_ATTR, candidateAttr: CANDIDATE_ATTR, reachedIds: Array.from(reached) })
+      : [];
+
+    return {
+      forward: forwardWalk.stops,
+      backward: backwardWalk.stops,
+      complete,
+      trap,
+      invisible: forwardWalk.stops.filter(stop => !stop.visible),
+      unreachable
+    };
+  } finally {
+    await clearMarks(page);
+    await resetFocus(page).catch(() => undefined);
+  }
+}
+
+/**
+ * Focus path leading up to a given stop, capped for storage
+ */
+export function focusPathTo(stops: FocusStop[], target: FocusStop, limit = 15): string[] {
+  const index = stops.findIndex(stop => stop.id === target.id);
+  const end = index === -1 ? stops.length : index + 1;
+  return stops.slice(Math.max(0, end - limit), end).map(stop => stop.selector);
+}
@@ -0,0 +1,348 @@
+/**
+ * Media Alternatives
+ *
+ * Inventories the time-based media on a page (<video>, <audio> and
+ * YouTube/Vimeo embeds) with the alternatives each one offers: caption
+ * and description tracks, and a transcript or audio-described version
+ * linked next to it. Caption tracks are fetched and parsed as WebVTT to
+ * see how much of the media's running time their cues cover; a track
+ * that 404s, is an SRT file or stops halfway shows nothing useful even
+ * though the markup looks right.
+ *
+ * Embedded players are cross-origin and their captions live with the
+ * provider, so for those only the embed URL's caption parameters can be
+ * read. The inventory is stored per page so the VPAT can describe the
+ * media that was tested (see lib/reports/vpat-generator).
+ */
+
+import type { Page } from 'playwright';
+import { collectFromFrames, scopedSelector } from './dom-scope';
+import { listArtifacts, readArtifact, storeArtifact } from './artifacts';
+
+export const MEDIA_ARTIFACT_TYPE = 'media_inventory';
+
+// Players whose own frames aren't the site's markup
+export const EMBED_FRAME = /^https?:\/\/(?:www\.)?(?:youtube(?:-nocookie)?\.com\/embed\/|player\.vimeo\.com\/video\/)/i;
+
+// Waiting on metadata for media with preload="none"
+const METADATA_TIMEOUT_MS = 3000;
+const TRACK_TIMEOUT_MS = 10000;
+const MAX_TRACK_BYTES = 2 * 1024 * 1024;
+const MAX_TRACKS = 10;
+// Captions that stop before this share of the running time, or go quiet this long
+export const MIN_CAPTION_COVERAGE = 0.8;
+export const MAX_CAPTION_GAP_SECONDS = 120;
+
+export type MediaKind = 'video' | 'audio' | 'youtube' | 'vimeo';
+
+export interface MediaTrack {
+  kind: 'captions' | 'subtitles' | 'descriptions';
+  src: string;
+  srclang?: string;
+  label?: string;
+  // Filled in from the fetched WebVTT file
+  cues?: number;
+  // Share of the running time up to the last cue; null when the duration is unknown
+  coverage?: number | null;
+  longestGapSeconds?: number;
+  error?: string;
+}
+
+export interface MediaItem {
+  kind: MediaKind;
+  pageUrl: string;
+  selector: string;
+  html: string;
+  src: string | null;
+  // null for embeds, live streams and media whose metadata didn't load
+  durationSeconds: number | null;
+  // Muted with no controls: a background loop with no sound to caption
+  background: boolean;
+  tracks: MediaTrack[];
+  // Embeds only: captions switched on through the embed URL (cc_load_policy, texttrack)
+  embedCaptions?: boolean;
+  // Link to, or location of, a transcript next to the media
+  transcript: string | null;
+  // Link to a version with audio description next to the media
+  describedVersion: string | null;
+}
+
+export type CaptionStatus = 'captioned' | 'incomplete' | 'invalid' | 'missing' | 'unverified' | 'not-needed';
+
+export interface VTTCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+/**
+ * Cues of a WebVTT file, or null when it isn't one (SRT files use
+ * commas in timestamps and have no WEBVTT header; browsers ignore them)
+ */
+export function parseWebVTT(text: string): VTTCue[] | null {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  if (!/^WEBVTT(?:[ \t]|$)/.test(lines[0])) return null;
+
+  const cues: VTTCue[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const arrow = lines[i].indexOf('-->');
+    if (arrow === -1) continue;
+
+    const start = parseTimestamp(lines[i].slice(0, arrow).trim());
+    // Cue settings follow the end time
+    const end = parseTimestamp(lines[i].slice(arrow + 3).trim().split(/[ \t]/)[0]);
+    const text: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== '') text.push(lines[++i]);
+
+    if (start === null || end === null || end <= start) continue;
+    cues.push({ start, end, text: text.join('\n').replace(/<[^>]+>/g, '') });
+  }
+  return cues;
+}
+
+/**
+ * How far into the media the cues reach, and the longest stretch
+ * without a cue (including before the first and after the last)
+ */
+export function cueCoverage(cues: VTTCue[], durationSeconds: number | null): { coverage: number | null; longestGapSeconds: number } {
+  const sorted = cues.filter(cue => cue.text.trim()).sort((a, b) => a.start - b.start);
+  let reached = 0;
+  let longestGap = 0;
+  for (const cue of sorted) {
+    longestGap = Math.max(longestGap, cue.start - reached);
+    reached = Math.max(reached, cue.end);
+  }
+  if (durationSeconds !== null) longestGap = Math.max(longestGap, durationSeconds - reached);
+
+  return {
+    coverage: durationSeconds ? Math.min(1, reached / durationSeconds) : null,
+    longestGapSeconds: Math.round(longestGap)
+  };
+}
+
+export function captionStatus(item: MediaItem): CaptionStatus {
+  if (item.kind === 'audio' || item.background) return 'not-needed';
+  if (item.kind !== 'video') return item.embedCaptions ? 'captioned' : 'unverified';
+
+  const tracks = item.tracks.filter(track => track.kind !== 'descriptions');
+  if (tracks.length === 0) return 'missing';
+  if (tracks.every(track => track.error)) return 'invalid';
+
+  const complete = tracks.some(track =>
+    !track.error &&
+    (track.coverage === undefined || track.coverage === null || track.coverage >= MIN_CAPTION_COVERAGE) &&
+    (track.longestGapSeconds === undefined || track.longestGapSeconds < MAX_CAPTION_GAP_SECONDS)
+  );
+  return complete ? 'captioned' : 'incomplete';
+}
+
+export function hasAudioDescription(item: MediaItem): boolean {
+  return !!item.describedVersion || item.tracks.some(track => track.kind === 'descriptions' && !track.error);
+}
+
+/**
+ * Media elements and embeds in one frame, with their tracks and nearby
+ * transcript/described-version links. Media with preload="none" is asked
+ * for its metadata so the duration is known.
+ */
+async function collectMedia({ pageUrl, metadataTimeout }: { pageUrl: string; metadataTimeout: number }): Promise<MediaItem[]> {
+  const TRANSCRIPT = /\btranscri(pt|ption)s?\b/i;
+  const DESCRIBED = /audio[- ]?descri|described (version|video)|with descriptions?\b/i;
+  const YOUTUBE = /^(?:https?:)?\/\/(?:www\.)?youtube(?:-nocookie)?\.com\/embed\//i;
+  const VIMEO = /^(?:https?:)?\/\/player\.vimeo\.com\/video\//i;
+  const dom = window.__esDom!;
+  const selectorFor = (el: Element) => dom.shadowPath(el) + dom.selectorFor(el);
+  const absolute = (url: string | null) => {
+    if (!url) return null;
+    try { return new URL(url, document.baseURI).href; } catch { return null; }
+  };
+
+  // A link or section about a transcript (or described version) in or around the media's container
+  const nearby = (el: Element, pattern: RegExp): string | null => {
+    const describedBy = (el.getAttribute('aria-describedby') || '').split(/\s+/).filter(Boolean);
+    for (const id of describedBy) {
+      const target = (el.getRootNode() as Document | ShadowRoot).getElementById?.(id);
+      if (target && pattern === TRANSCRIPT && (target.textContent || '').trim().length >= 200) return `#${id}`;
+    }
+
+    let scope: Element | null = el.parentElement;
+    for (let depth = 0; scope && depth < 3; depth++, scope = scope.parentElement) {
+      for (const link of dom.queryAll('a[href]', scope)) {
+        const label = [link.textContent, link.getAttribute('aria-label'), link.getAttribute('title'), link.getAttribute('href')].join(' ');
+        if (pattern.test(label)) return (link as HTMLAnchorElement).href;
+      }
+      for (const section of dom.queryAll('details, section, div, h2, h3, h4, summary', scope)) {
+        if (section === el || section.contains(el)) continue;
+        const heading = section.matches('h2, h3, h4, summary') ? section.textContent || '' : `${section.id} ${section.className}`;
+        if (pattern.test(heading)) return 'on page';
+      }
+      if (scope === document.body) break;
+    }
+    return null;
+  };
+
+  const items: MediaItem[] = [];
+  const media = dom.queryAll('video, audio') as HTMLMediaElement[];
+
+  // Duration needs metadata; media that hasn't loaded any is asked for just that
+  await Promise.all(media.map(el => {
+    if (el.readyState > 0 || el.networkState === HTMLMediaElement.NETWORK_NO_SOURCE) return;
+    return new Promise<void>(resolve => {
+      const done = () => resolve();
+      el.addEventListener('loadedmetadata', done, { once: true });
+      el.addEventListener('error', done, { once: true });
+      setTimeout(done, metadataTimeout);
+      el.preload = 'metadata';
+      el.load();
+    });
+  }));
+
+  for (const el of media) {
+    const isVideo = el.tagName === 'VIDEO';
+    const tracks = Array.from(el.querySelectorAll('track'))
+      .filter(track => ['captions', 'subtitles', 'descriptions'].includes((track.getAttribute('kind') || 'subtitles').toLowerCase()))
+      .map(track => ({
+        kind: (track.getAttribute('kind') || 'subtitles').toLowerCase() as MediaTrack['kind'],
+        src: absolute(track.getAttribute('src')) || '',
+        srclang: track.getAttribute('srclang') || undefined,
+        label: track.getAttribute('label') || undefined,
+        ...(track.getAttribute('src') ? {} : { error: 'has no src' })
+      }));
+
+    items.push({
+      kind: isVideo ? 'video' : 'audio',
+      pageUrl,
+      selector: selectorFor(el),
+      html: el.outerHTML.slice(0, 200),
+      src: absolute(el.currentSrc || el.getAttribute('src') || el.querySelector('source')?.getAttribute('src') || null),
+      durationSeconds: Number.isFinite(el.duration) && el.duration > 0 ? Math.round(el.duration) : null,
+      background: isVideo && el.muted && !el.controls,
+      tracks,
+      transcript: nearby(el, TRANSCRIPT),
+      describedVersion: isVideo ? nearby(el, DESCRIBED) : null
+    });
+  }
+
+  for (const el of dom.queryAll('iframe[src], lite-youtube[videoid], lite-vimeo[videoid]')) {
+    const tag = el.tagName.toLowerCase();
+    const src = tag === 'iframe' ? absolute(el.getAttribute('src')) || '' : '';
+    const kind: MediaKind | null =
+      tag === 'lite-youtube' || YOUTUBE.test(src) ? 'youtube' :
+      tag === 'lite-vimeo' || VIMEO.test(src) ? 'vimeo' :
+      null;
+    if (!kind) continue;
+
+    const params = src ? new URL(src).searchParams : new URLSearchParams(el.getAttribute('params') || '');
+    items.push({
+      kind,
+      pageUrl,
+      selector: selectorFor(el),
+      html: el.outerHTML.slice(0, 200),
+      src: src || null,
+      durationSeconds: null,
+      background: kind === 'vimeo' && params.get('background') === '1',
+      tracks: [],
+      embedCaptions: kind === 'youtube' ? params.get('cc_load_policy') === '1' : !!params.get('texttrack'),
+      transcript: nearby(el, TRANSCRIPT),
+      describedVersion: nearby(el, DESCRIBED)
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Fetch and parse each caption/description track (through the browser
+ * context, so the page's cookies apply)
+ */
+async function checkTracks(page: Page, items: MediaItem[]): Promise<void> {
+  const tracks = items.flatMap(item => item.tracks.map(track => ({ item, track })))
+    .filter(({ track }) => !track.error && /^https?:/i.test(track.src))
+    .slice(0, MAX_TRACKS);
+
+  for (const { item, track } of tracks) {
+    try {
+      const response = await page.request.get(track.src, { timeout: TRACK_TIMEOUT_MS });
+      if (!response.ok()) {
+        track.error = `returns HTTP ${response.status()}`;
+        continue;
+      }
+      const body = await response.body();
+      if (body.length > MAX_TRACK_BYTES) continue;
+
+      const cues = parseWebVTT(body.toString('utf8'));
+      if (!cues) {
+        track.error = /^\d+\s*\r?\n\d{2}:\d{2}:\d{2},\d{3}/.test(body.toString('utf8').trim())
+          ? 'is an SRT file, not WebVTT'
+          : 'is not a WebVTT file';
+        continue;
+      }
+      if (cues.length === 0) {
+        track.error = 'has no cues';
+        continue;
+      }
+      track.cues = cues.length;
+      Object.assign(track, cueCoverage(cues, item.durationSeconds));
+    } catch (error) {
+      track.error = `could not be loaded (${error instanceof Error ? error.message.split('\n')[0] : error})`;
+    }
+  }
+}
+
+/**
+ * Media on the page, in every frame except the embedded players' own.
+ * With tracks: false the WebVTT files aren't fetched.
+ */
+export async function inventoryMedia(page: Page, options: { tracks?: boolean } = {}): Promise<MediaItem[]> {
+  const items = await collectFromFrames(page, async ({ frame, path }) => {
+    if (EMBED_FRAME.test(frame.url())) return [];
+    const found = await frame.evaluate(collectMedia, { pageUrl: page.url(), metadataTimeout: METADATA_TIMEOUT_MS });
+    return found.map(item => ({ ...item, selector: scopedSelector(path, item.selector) }));
+  });
+
+  if (options.tracks !== false) {
+    await checkTracks(page, items);
+  }
+  return items;
+}
+
+/**
+ * Keep a page's inventory with the scan; failures are logged, never thrown
+ */
+export async function storeMediaInventory(scanId: string, pageUrl: string, items: MediaItem[]): Promise<void> {
+  if (items.length === 0) return;
+  try {
+    await storeArtifact({
+      scanId,
+      type: MEDIA_ARTIFACT_TYPE,
+      data: Buffer.from(JSON.stringify(items)),
+      contentType: 'application/json',
+      metadata: { pageUrl, items: items.length }
+    });
+  } catch (error) {
+    console.warn(`Media inventory failed for ${pageUrl}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Every media item a scan found, once per page and element (pages are
+ * scanned per viewport)
+ */
+export async function loadMediaInventory(scanId: string): Promise<MediaItem[]> {
+  const items = new Map<string, MediaItem>();
+  for (const record of await listArtifacts(scanId, MEDIA_ARTIFACT_TYPE)) {
+    const stored = await readArtifact(record.id);
+    if (!stored) continue;
+    for (const item of JSON.parse(stored.data.toString('utf8')) as MediaItem[]) {
+      items.set(`${item.pageUrl}|${item.selector}`, item);
+    }
+  }
+  return Array.from(items.values());
+}
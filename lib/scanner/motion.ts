@@ -0,0 +1,237 @@
+/**
+ * Motion and Auto-playing Media
+ *
+ * Watches the page over a time window for content that moves on its own:
+ * CSS and Web Animations running longer than 5 seconds, carousels and
+ * tickers that keep changing the DOM, and <video>/<audio> that starts by
+ * itself. Each finding notes whether a pause/stop control sits next to it
+ * (2.2.2 Pause, Stop, Hide; 1.4.2 Audio Control).
+ *
+ * The engine launches Chromium with reduced motion forced, so the page as
+ * loaded shows what prefers-reduced-motion users get. That rendering is
+ * watched first, then the page is reloaded without the preference, watched
+ * again, and reloaded with it for the rest of the scan. Motion that shows
+ * up in both runs ignores the preference (2.3.3 Animation from
+ * Interactions). Main frame only: animated ads in third-party frames are
+ * out of the site's hands.
+ */
+
+import type { Page } from 'playwright';
+import { installDomHelpers } from './dom-scope';
+
+// Long enough to see motion that lasts more than 5 seconds
+const OBSERVE_MS = 6000;
+const FIVE_SECONDS = 5000;
+// Autoplaying audio longer than this needs a control (1.4.2)
+const AUDIO_LIMIT_SECONDS = 3;
+const MAX_FINDINGS = 15;
+
+export type MotionKind = 'animation' | 'moving-content' | 'autoplay-media';
+
+export interface MotionFinding {
+  kind: MotionKind;
+  selector: string;
+  html: string;
+  // e.g. 'CSS animation "marquee"', 'carousel changed 4 times', 'autoplaying video'
+  description: string;
+  // null when it never ends (infinite iterations, looping or live media)
+  durationMs: number | null;
+  hasPauseControl: boolean;
+  // Animates position, size or rotation rather than only colour or opacity
+  moves: boolean;
+  // Media only: playing with sound, or only set to autoplay (the browser may have blocked it)
+  audible?: boolean;
+  playing?: boolean;
+  // Whether it also moved with prefers-reduced-motion: reduce
+  reducedMotion?: 'respected' | 'ignored';
+}
+
+declare global {
+  interface Window {
+    __esMotion?: { start: number; observer: MutationObserver; changes: Map<Element, number[]> };
+  }
+}
+
+/**
+ * Start recording DOM changes, grouped by carousel-like container or by
+ * the changed element itself
+ */
+function startObserving(): void {
+  const CAROUSEL = '[aria-roledescription*="carousel" i], [aria-roledescription*="slide" i], [class*="carousel" i], [class*="slider" i], [class*="swiper" i], [class*="slick" i], [class*="marquee" i], [class*="ticker" i], marquee';
+  window.__esMotion?.observer.disconnect();
+
+  const changes = new Map<Element, number[]>();
+  const start = performance.now();
+  const observer = new MutationObserver(records => {
+    const now = performance.now() - start;
+    for (const record of records) {
+      const target = record.target instanceof Element ? record.target : record.target.parentElement;
+      if (!target || target === document.body || target === document.documentElement || target.closest('head')) continue;
+      const group = target.closest(CAROUSEL) || target;
+      const times = changes.get(group) || [];
+      times.push(now);
+      changes.set(group, times);
+    }
+  });
+  observer.observe(document.documentElement, {
+    subtree: true,
+    childList: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: ['style', 'class', 'src', 'hidden', 'aria-hidden', 'transform']
+  });
+
+  window.__esMotion = { start, observer, changes };
+}
+
+function collectMotion({ fiveSeconds, audioLimit, maxFindings }: { fiveSeconds: number; audioLimit: number; maxFindings: number }): MotionFinding[] {
+  const CAROUSEL = '[aria-roledescription*="carousel" i], [aria-roledescription*="slide" i], [class*="carousel" i], [class*="slider" i], [class*="swiper" i], [class*="slick" i], [class*="marquee" i], [class*="ticker" i], marquee';
+  const PAUSE_LABEL = /\b(pause|stop|play|freeze|halt)\b/i;
+  const MOTION_PROPERTIES = /^(transform|translate|rotate|scale|left|right|top|bottom|margin|width|height|offset|backgroundPosition|scroll)/;
+  const dom = window.__esDom!;
+  const state = window.__esMotion;
+  state?.observer.disconnect();
+
+  const findings: MotionFinding[] = [];
+  const seen = new Set<Element>();
+  const selectorFor = (el: Element) => dom.shadowPath(el) + dom.selectorFor(el);
+
+  const isVisible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const style = window.getComputedStyle(el);
+    return rect.width >= 4 && rect.height >= 4 && style.visibility !== 'hidden' && style.display !== 'none';
+  };
+
+  // A control in or around the moving content that pauses, stops or toggles it
+  const hasPauseControl = (el: Element) => {
+    let scope: Element | null = el;
+    for (let depth = 0; scope && depth < 3; depth++, scope = scope.parentElement) {
+      const controls = dom.queryAll('button, [role="button"], [role="switch"], input[type="button"], input[type="checkbox"]', scope);
+      const found = controls.some(control => {
+        const label = [
+          control.getAttribute('aria-label'),
+          control.getAttribute('title'),
+          (control as HTMLInputElement).value,
+          control.textContent
+        ].join(' ');
+        return PAUSE_LABEL.test(label);
+      });
+      if (found) return true;
+      if (scope === document.body) break;
+    }
+    return false;
+  };
+
+  // 1) CSS and Web Animations still running that last longer than 5 seconds
+  for (const animation of document.getAnimations()) {
+    if (animation.playState !== 'running' || !(animation.effect instanceof KeyframeEffect)) continue;
+    const target = animation.effect.target;
+    if (!target || seen.has(target) || !isVisible(target)) continue;
+
+    const duration = Number(animation.effect.getComputedTiming().activeDuration);
+    if (duration <= fiveSeconds) continue;
+
+    const properties = animation.effect.getKeyframes().flatMap(frame => Object.keys(frame));
+    const name = 'animationName' in animation
+      ? `CSS animation "${(animation as CSSAnimation).animationName}"`
+      : 'transitionProperty' in animation
+        ? `CSS transition of ${(animation as CSSTransition).transitionProperty}`
+        : 'script animation';
+
+    seen.add(target);
+    findings.push({
+      kind: 'animation',
+      selector: selectorFor(target),
+      html: target.outerHTML.slice(0, 200),
+      description: name,
+      durationMs: Number.isFinite(duration) ? Math.round(duration) : null,
+      hasPauseControl: hasPauseControl(target),
+      moves: properties.some(property => MOTION_PROPERTIES.test(property))
+    });
+  }
+
+  // 2) Carousels, tickers and auto-updating content changed by script
+  for (const [group, times] of Array.from(state?.changes || [])) {
+    if (seen.has(group) || !group.isConnected || !isVisible(group)) continue;
+    if (Array.from(seen).some(el => el.contains(group) || group.contains(el))) continue;
+
+    const seconds = new Set(times.map(time => Math.floor(time / 1000)));
+    const last = Math.max(...times);
+    // A carousel that advances after load keeps going; anything else has to still be changing after 5s
+    const moving = group.matches(CAROUSEL)
+      ? times.some(time => time > 1000)
+      : seconds.size >= 3 && last > fiveSeconds;
+    if (!moving) continue;
+
+    seen.add(group);
+    findings.push({
+      kind: 'moving-content',
+      selector: selectorFor(group),
+      html: group.outerHTML.slice(0, 200),
+      description: `${group.matches(CAROUSEL) ? 'carousel' : 'content'} changed ${seconds.size} time${seconds.size === 1 ? '' : 's'} on its own`,
+      durationMs: null,
+      hasPauseControl: hasPauseControl(group),
+      moves: true
+    });
+  }
+
+  // 3) Media that plays by itself
+  for (const el of dom.queryAll('video, audio')) {
+    const media = el as HTMLMediaElement;
+    const playing = !media.paused && media.currentTime > 0;
+    if (!playing && !media.autoplay) continue;
+
+    const duration = Number.isFinite(media.duration) && !media.loop ? media.duration * 1000 : null;
+    const audible = !media.muted && media.volume > 0;
+    const isVideo = media.tagName === 'VIDEO';
+    // Short clips are fine either way
+    if (duration !== null && duration <= (audible ? audioLimit * 1000 : fiveSeconds)) continue;
+    if (!audible && (!isVideo || !isVisible(media))) continue;
+
+    seen.add(media);
+    findings.push({
+      kind: 'autoplay-media',
+      selector: selectorFor(media),
+      html: media.outerHTML.slice(0, 200),
+      description: `autoplaying ${isVideo ? 'video' : 'audio'}${audible ? ' with sound' : ''}`,
+      durationMs: duration === null ? null : Math.round(duration),
+      hasPauseControl: media.controls || hasPauseControl(media),
+      moves: isVideo,
+      audible,
+      playing
+    });
+  }
+
+  return findings.slice(0, maxFindings);
+}
+
+async function observe(page: Page): Promise<MotionFinding[]> {
+  await installDomHelpers(page.mainFrame());
+  await page.evaluate(startObserving);
+  await page.waitForTimeout(OBSERVE_MS);
+  return page.evaluate(collectMotion, { fiveSeconds: FIVE_SECONDS, audioLimit: AUDIO_LIMIT_SECONDS, maxFindings: MAX_FINDINGS });
+}
+
+/**
+ * Watch the page with and without reduced motion. The page is reloaded
+ * twice and left as loaded, with reduced motion.
+ */
+export async function observeMotion(page: Page): Promise<MotionFinding[]> {
+  const reduced = await observe(page);
+
+  let findings: MotionFinding[];
+  try {
+    await page.emulateMedia({ reducedMotion: 'no-preference' });
+    await page.reload({ waitUntil: 'load' });
+    findings = await observe(page);
+  } finally {
+    await page.emulateMedia({ reducedMotion: null });
+    await page.reload({ waitUntil: 'load' });
+  }
+
+  const stillMoving = new Set(reduced.filter(finding => finding.moves).map(finding => finding.selector));
+  return findings.map(finding => ({
+    ...finding,
+    reducedMotion: stillMoving.has(finding.selector) ? 'ignored' : 'respected'
+  }));
+}
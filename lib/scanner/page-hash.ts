@@ -0,0 +1,233 @@
+/**
+ * Page Content Hashing
+ *
+ * Scheduled scans revisit the same pages every day and most of them
+ * haven't changed. Each page gets a hash of its rendered DOM, normalized
+ * so per-request noise (inline script bodies, CSRF tokens, nonces,
+ * whitespace) doesn't count as a change, and of the same-origin
+ * stylesheets and scripts it loads. When the hash, the rule set and the
+ * viewport match the organization's last full analysis, that analysis'
+ * findings are carried forward instead of re-running axe and the custom
+ * checks.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Page } from 'playwright';
+import { createSupabaseClient } from '@/lib/supabase/server';
+
+// Ad and tracking iframes can number in the dozens
+const MAX_FRAMES = 20;
+
+// Stylesheets and scripts hashed per frame
+const MAX_ASSETS = 50;
+
+// Findings older than this are re-analyzed even if the page is unchanged,
+// so rule and axe-core updates still reach every page
+export const SNAPSHOT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface PageSnapshot<T = unknown> {
+  pageUrl: string;
+  viewport: string;
+  ruleset: string;
+  contentHash: string;
+  // Scan that last ran the full analysis, and when
+  scanId: string | null;
+  analyzedAt: string;
+  findings: T[];
+  helpMechanisms?: string[];
+  pageTitle?: string;
+}
+
+export interface ReusedPage {
+  url: string;
+  viewport: string;
+  contentHash: string;
+  fromScanId: string | null;
+  analyzedAt: string;
+  findings: number;
+}
+
+// Fields of the engine's PageScanResult (src/scanner/types) that snapshots store
+interface AnalyzedPage<T> {
+  url: string;
+  viewport?: string;
+  violations: T[];
+  helpMechanisms?: string[];
+  pageTitle?: string;
+  contentHash?: string;
+  reusedFrom?: { scanId: string | null; analyzedAt: string };
+  error?: string;
+}
+
+export interface RulesetOptions {
+  wcagVersion?: string;
+  wcagLevel: string;
+  depth: string;
+  probeForms?: boolean;
+}
+
+/**
+ * Everything besides page content that changes the findings; a snapshot
+ * taken under a different rule set is never reused
+ */
+export function rulesetKey(options: RulesetOptions): string {
+  return [options.wcagVersion || '2.2', options.wcagLevel, options.depth, ...(options.probeForms ? ['forms'] : [])].join(':');
+}
+
+export function snapshotKey(pageUrl: string, viewport: string): string {
+  return `${viewport}|${pageUrl}`;
+}
+
+/**
+ * SHA-256 of the normalized DOM of the page and its frames, open shadow
+ * roots included. Styles and attributes stay in: a class or stylesheet
+ * change can change contrast or visibility findings. So do same-origin
+ * stylesheets and scripts, by ETag or else by body, since a deploy can
+ * change them under the same URL.
+ */
+export async function contentHash(page: Page): Promise<string> {
+  const hash = createHash('sha256');
+
+  for (const frame of page.frames().slice(0, MAX_FRAMES)) {
+    const serialized = await frame.evaluate(() => {
+      // Values that differ on every request without changing the page
+      const VOLATILE_ATTRIBUTES = new Set(['nonce', 'integrity', 'data-csrf', 'data-request-id']);
+      const SKIPPED_TAGS = new Set(['NOSCRIPT', 'TEMPLATE']);
+      const parts: string[] = [];
+
+      const attributes = (el: Element) => Array.from(el.attributes)
+        .filter(attr => !VOLATILE_ATTRIBUTES.has(attr.name))
+        .filter(attr => !(el.tagName === 'INPUT' && (el as HTMLInputElement).type === 'hidden' && attr.name === 'value'))
+        .filter(attr => !(el.tagName === 'META' && /csrf/i.test(el.getAttribute('name') || '') && attr.name === 'content'))
+        .map(attr => `${attr.name}="${attr.value.trim()}"`)
+        .sort()
+        .join(' ');
+
+      const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          const text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+          if (text && node.parentElement?.tagName !== 'SCRIPT') parts.push(text);
+          return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return; // Comments, processing instructions
+
+        const el = node as Element;
+        if (SKIPPED_TAGS.has(el.tagName)) return;
+        parts.push(`<${el.tagName.toLowerCase()} ${attributes(el)}>`);
+        if (el.shadowRoot) {
+          parts.push('#shadow');
+          el.shadowRoot.childNodes.forEach(walk);
+        }
+        el.childNodes.forEach(walk);
+        parts.push(`</${el.tagName.toLowerCase()}>`);
+      };
+
+      walk(document.documentElement);
+      return parts.join('');
+    }).catch(() => ''); // Detached or navigating frames hash as empty
+
+    // Read back from the browser's cache, through the page's routes and cookies
+    const assets = await frame.evaluate(async (maxAssets) => {
+      const urls = [
+        ...Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]'), link => link.href),
+        ...Array.from(document.querySelectorAll<HTMLScriptElement>('script[src]'), script => script.src)
+      ].filter(url => new URL(url).origin === location.origin);
+
+      return Promise.all(Array.from(new Set(urls)).slice(0, maxAssets).map(async url => {
+        try {
+          const response = await fetch(url, { cache: 'force-cache', credentials: 'same-origin' });
+          return `${url} ${response.headers.get('etag') || await response.text()}`;
+        } catch {
+          return url; // Blocked by CSP or gone; the URL still counts
+        }
+      }));
+    }, MAX_ASSETS).catch(() => [] as string[]);
+
+    hash.update(frame.url()).update('\n').update(serialized).update('\n');
+    assets.forEach(asset => hash.update(asset).update('\n'));
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * The prior snapshot when its findings can stand in for a full analysis
+ * of the page as it is now
+ */
+export function reusableSnapshot<T>(
+  snapshot: PageSnapshot<T> | undefined,
+  hash: string,
+  ruleset: string,
+  now = Date.now()
+): PageSnapshot<T> | null {
+  if (!snapshot) return null;
+  if (snapshot.contentHash !== hash || snapshot.ruleset !== ruleset) return null;
+  if (now - new Date(snapshot.analyzedAt).getTime() > SNAPSHOT_MAX_AGE_MS) return null;
+  return snapshot;
+}
+
+/**
+ * The organization's last full analysis of every page on the site's host
+ * under this rule set (page_snapshots, see 014_page_snapshots.sql)
+ */
+export async function loadPageSnapshots<T>(orgId: string, siteUrl: string, ruleset: string): Promise<PageSnapshot<T>[]> {
+  const { data, error } = await createSupabaseClient()
+    .from('page_snapshots')
+    .select('page_url, viewport, ruleset, content_hash, scan_id, analyzed_at, findings, help_mechanisms, page_title')
+    .eq('org_id', orgId)
+    .eq('site_host', new URL(siteUrl).hostname)
+    .eq('ruleset', ruleset);
+
+  // Without snapshots every page is simply analyzed in full
+  if (error) {
+    console.error('Failed to load page snapshots:', error.message);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    pageUrl: row.page_url,
+    viewport: row.viewport,
+    ruleset: row.ruleset,
+    contentHash: row.content_hash,
+    scanId: row.scan_id,
+    analyzedAt: row.analyzed_at,
+    findings: row.findings || [],
+    helpMechanisms: row.help_mechanisms || undefined,
+    pageTitle: row.page_title || undefined
+  }));
+}
+
+/**
+ * Record the pages an organization's scan analyzed in full. Reused pages
+ * keep the snapshot of the analysis their findings came from.
+ */
+export async function savePageSnapshots<T>(
+  orgId: string,
+  scanId: string,
+  siteUrl: string,
+  ruleset: string,
+  pages: AnalyzedPage<T>[]
+): Promise<void> {
+  const analyzed = pages.filter(page => page.contentHash && !page.reusedFrom && !page.error);
+  if (analyzed.length === 0) return;
+
+  const { error } = await createSupabaseClient()
+    .from('page_snapshots')
+    .upsert(analyzed.map(page => ({
+      org_id: orgId,
+      site_host: new URL(siteUrl).hostname,
+      page_url: page.url,
+      viewport: page.viewport || 'desktop',
+      ruleset,
+      content_hash: page.contentHash,
+      scan_id: scanId,
+      analyzed_at: new Date().toISOString(),
+      findings: page.violations,
+      help_mechanisms: page.helpMechanisms || null,
+      page_title: page.pageTitle || null
+    })), { onConflict: 'org_id,page_url,viewport,ruleset' });
+
+  if (error) {
+    console.error('Failed to save page snapshots:', error.message);
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Reflow, Zoom and Text Spacing
+ *
+ * Re-renders the loaded page under the conditions of 1.4.4 Resize Text,
+ * 1.4.10 Reflow and 1.4.12 Text Spacing and compares the layout with how
+ * it rendered before:
+ *
+ *   reflow        320 CSS px wide (1280px at 400%)
+ *   zoom-200      the viewport at 200% browser zoom
+ *   zoom-400      the viewport at 400% browser zoom
+ *   text-spacing  the 1.4.12 spacing overrides applied to every element
+ *
+ * Browser zoom shrinks the CSS viewport, so zoom is emulated by resizing
+ * the viewport, which applies the page's media queries as real zoom
+ * does. Each condition reports text that gets clipped, starts overlapping
+ * other text or disappears, and at 320px and 400% horizontal scrolling.
+ * Main frame only; the page is restored after every condition.
+ */
+
+import type { ElementHandle, Page } from 'playwright';
+import { installDomHelpers } from './dom-scope';
+import { captureElement } from './screenshots';
+
+// Findings per condition; a broken layout breaks the same way everywhere
+const MAX_ISSUES_PER_CONDITION = 10;
+// Before/after pairs per condition
+const MAX_SCREENSHOTS_PER_CONDITION = 5;
+// Resize handlers, transitions and lazy layout
+const SETTLE_MS = 400;
+// Below this width zoom is the reflow condition's job
+const MIN_ZOOMED_WIDTH = 320;
+
+export type StressConditionId = 'reflow' | 'zoom-200' | 'zoom-400' | 'text-spacing';
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export interface StressCondition {
+  id: StressConditionId;
+  label: string;
+  wcagCriterion: string;
+  // Viewport for the page's own one; null when the condition doesn't apply to it
+  viewport?: (base: ViewportSize) => ViewportSize | null;
+  stylesheet?: string;
+  // Scrolling in two dimensions fails 1.4.10 (except for tables, maps, media, code)
+  checksScrolling: boolean;
+}
+
+const zoomed = (factor: number) => (base: ViewportSize): ViewportSize | null => {
+  const width = Math.round(base.width / factor);
+  return width >= MIN_ZOOMED_WIDTH ? { width, height: Math.round(base.height / factor) } : null;
+};
+
+// The text spacing values 1.4.12 requires content to survive
+const TEXT_SPACING_STYLESHEET = `
+  * {
+    line-height: 1.5 !important;
+    letter-spacing: 0.12em !important;
+    word-spacing: 0.16em !important;
+  }
+  p {
+    margin-bottom: 2em !important;
+  }
+`;
+
+export const STRESS_CONDITIONS: StressCondition[] = [
+  {
+    id: 'reflow',
+    label: '320 CSS px width',
+    wcagCriterion: '1.4.10',
+    viewport: base => (base.width > 320 ? { width: 320, height: 256 } : null),
+    checksScrolling: true
+  },
+  {
+    id: 'zoom-200',
+    label: '200% zoom',
+    wcagCriterion: '1.4.4',
+    viewport: zoomed(2),
+    checksScrolling: false
+  },
+  {
+    id: 'zoom-400',
+    label: '400% zoom',
+    wcagCriterion: '1.4.10',
+    viewport: zoomed(4),
+    checksScrolling: true
+  },
+  {
+    id: 'text-spacing',
+    label: 'increased text spacing',
+    wcagCriterion: '1.4.12',
+    stylesheet: TEXT_SPACING_STYLESHEET,
+    checksScrolling: false
+  }
+];
+
+export type StressIssueKind = 'horizontal-scroll' | 'clipped' | 'overlap' | 'lost';
+
+export interface StressIssue {
+  kind: StressIssueKind;
+  selector: string;
+  html: string;
+  // Affected text, '' for what makes the page scroll
+  text: string;
+  // Selector of the overlapped text, or how far the page scrolls sideways
+  detail?: string;
+  // Inside navigation or a banner, which may legitimately collapse into a menu
+  inChrome?: boolean;
+}
+
+export interface StressResult {
+  condition: StressCondition;
+  viewport: ViewportSize;
+  issues: StressIssue[];
+  // Crops around issue elements by selector, as rendered normally and under the condition
+  before: Map<string, Buffer>;
+  after: Map<string, Buffer>;
+}
+
+interface TextBox {
+  index: number;
+  selector: string;
+  html: string;
+  text: string;
+  visible: boolean;
+  clipped: boolean;
+  inChrome: boolean;
+}
+
+interface LayoutMeasure {
+  texts: TextBox[];
+  // Index pairs of text boxes that overlap
+  overlaps: Array<[number, number]>;
+  // Text of every visible text element, registered or not
+  visibleText: string[];
+  scrollOverflow: number;
+  scrollCauses: Array<{ selector: string; html: string; overflow: number }>;
+}
+
+declare global {
+  interface Window {
+    __esReflow?: Element[];
+  }
+}
+
+/**
+ * Measure the text layout. The first measurement (register) records the
+ * visible text elements in window.__esReflow; later ones measure the same
+ * elements so layouts can be compared element by element.
+ */
+function measureLayout({ register, scrolling }: { register: boolean; scrolling: boolean }): LayoutMeasure {
+  const MAX_TEXT_ELEMENTS = 1500;
+  const MAX_OVERLAPS = 200;
+  const TWO_DIMENSIONAL = 'table, pre, code, img, picture, video, canvas, svg, iframe, map, math, [role="grid"], [role="img"], [role="application"]';
+  const CHROME = 'nav, header, [role="navigation"], [role="banner"], [role="menu"], [role="menubar"], [role="dialog"]';
+  const dom = window.__esDom!;
+  const doc = document.documentElement;
+
+  const normalize = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+  const directText = (el: Element) => normalize(
+    Array.from(el.childNodes).filter(node => node.nodeType === Node.TEXT_NODE).map(node => node.textContent).join(' ')
+  );
+
+  const isVisible = (el: Element) => {
+    if (!el.isConnected) return false;
+    const rect = el.getBoundingClientRect();
+    if (rect.width < 1 || rect.height < 1) return false;
+    if (rect.right + window.scrollX <= 0 || rect.bottom + window.scrollY <= 0) return false;
+    const style = window.getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.opacity !== '0';
+  };
+
+  // Box of the element's own text, not its padding or children
+  const textRect = (el: Element): DOMRect | null => {
+    const range = document.createRange();
+    let box: { left: number; top: number; right: number; bottom: number } | null = null;
+    for (const node of Array.from(el.childNodes)) {
+      if (node.nodeType !== Node.TEXT_NODE || !node.textContent?.trim()) continue;
+      range.selectNodeContents(node);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0 && rect.height === 0) continue;
+      box = box
+        ? { left: Math.min(box.left, rect.left), top: Math.min(box.top, rect.top), right: Math.max(box.right, rect.right), bottom: Math.max(box.bottom, rect.bottom) }
+        : { left: rect.left, top: rect.top, right: rect.right, bottom: rect.bottom };
+    }
+    return box && new DOMRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+  };
+
+  const isClipped = (el: Element, rect: DOMRect) => {
+    const own = window.getComputedStyle(el);
+    const clips = (value: string) => value === 'hidden' || value === 'clip';
+    if ((clips(own.overflowX) && el.scrollWidth > el.clientWidth + 1) ||
+        (clips(own.overflowY) && el.scrollHeight > el.clientHeight + 1)) {
+      return true;
+    }
+    let depth = 0;
+    for (let ancestor = el.parentElement; ancestor && ancestor !== document.body && depth < 8; ancestor = ancestor.parentElement, depth++) {
+      const style = window.getComputedStyle(ancestor);
+      const clipsX = clips(style.overflowX);
+      const clipsY = clips(style.overflowY);
+      if (!clipsX && !clipsY) continue;
+      const bounds = ancestor.getBoundingClientRect();
+      if (clipsX && (rect.left < bounds.left - 2 || rect.right > bounds.right + 2)) return true;
+      if (clipsY && (rect.top < bounds.top - 2 || rect.bottom > bounds.bottom + 2)) return true;
+    }
+    return false;
+  };
+
+  const pinned = new Map<Element, boolean>();
+  const isPinned = (el: Element | null): boolean => {
+    if (!el || el === document.body) return false;
+    if (pinned.has(el)) return pinned.get(el)!;
+    const position = window.getComputedStyle(el).position;
+    const result = position === 'fixed' || position === 'sticky' || isPinned(el.parentElement);
+    pinned.set(el, result);
+    return result;
+  };
+
+  const candidates = () => dom.queryAll('body *')
+    .filter(el => !el.matches('script, style, noscript, template') && directText(el).length >= 2);
+
+  if (register) {
+    window.__esReflow = candidates().filter(isVisible).slice(0, MAX_TEXT_ELEMENTS);
+  }
+  const elements = window.__esReflow || [];
+
+  const texts: TextBox[] = [];
+  const rects: Array<DOMRect | null> = [];
+  elements.forEach((el, index) => {
+    const visible = isVisible(el);
+    const rect = visible ? textRect(el) : null;
+    rects.push(rect && !isPinned(el) ? rect : null);
+    texts.push({
+      index,
+      selector: dom.shadowPath(el) + dom.selectorFor(el),
+      html: el.outerHTML.slice(0, 200),
+      text: directText(el).slice(0, 120),
+      visible,
+      clipped: !!rect && isClipped(el, rect),
+      inChrome: !!el.closest(CHROME)
+    });
+  });
+
+  // Sweep down the page; only boxes that share rows can overlap
+  const overlaps: Array<[number, number]> = [];
+  const order = rects.map((rect, index) => index).filter(index => rects[index]).sort((a, b) => rects[a]!.top - rects[b]!.top);
+  for (let i = 0; i < order.length && overlaps.length < MAX_OVERLAPS; i++) {
+    const a = rects[order[i]]!;
+    for (let j = i + 1; j < order.length && rects[order[j]]!.top < a.bottom; j++) {
+      const b = rects[order[j]]!;
+      const width = Math.min(a.right, b.right) - Math.max(a.left, b.left);
+      const height = Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top);
+      if (width <= 2 || height <= 2) continue;
+      if (width * height < 0.1 * Math.min(a.width * a.height, b.width * b.height)) continue;
+      const [first, second] = [elements[order[i]], elements[order[j]]];
+      if (first.contains(second) || second.contains(first)) continue;
+      overlaps.push([Math.min(order[i], order[j]), Math.max(order[i], order[j])]);
+    }
+  }
+
+  const visibleText = register ? [] : candidates().filter(isVisible).map(el => directText(el).slice(0, 120));
+
+  // What sticks out past the right edge, outermost first; 2D content may scroll
+  const scrollOverflow = Math.max(0, doc.scrollWidth - doc.clientWidth);
+  const scrollCauses: LayoutMeasure['scrollCauses'] = [];
+  if (scrolling && scrollOverflow > 1) {
+    for (const el of dom.queryAll('body *')) {
+      const rect = el.getBoundingClientRect();
+      if (rect.right <= doc.clientWidth + 1 || !isVisible(el) || el.closest(TWO_DIMENSIONAL)) continue;
+      const parent = el.parentElement;
+      if (parent && parent !== document.body && parent.getBoundingClientRect().right > doc.clientWidth + 1) continue;
+      scrollCauses.push({
+        selector: dom.shadowPath(el) + dom.selectorFor(el),
+        html: el.outerHTML.slice(0, 200),
+        overflow: Math.round(rect.right - doc.clientWidth)
+      });
+    }
+    scrollCauses.sort((a, b) => b.overflow - a.overflow);
+  }
+
+  return { texts, overlaps, visibleText, scrollOverflow, scrollCauses: scrollCauses.slice(0, 5) };
+}
+
+function compareLayouts(baseline: LayoutMeasure, current: LayoutMeasure): StressIssue[] {
+  const issues: StressIssue[] = [];
+  const stillVisible = new Set(current.visibleText);
+  const overlappedBefore = new Set(baseline.overlaps.map(pair => pair.join(':')));
+
+  for (const cause of current.scrollCauses) {
+    issues.push({ kind: 'horizontal-scroll', selector: cause.selector, html: cause.html, text: '', detail: `${current.scrollOverflow}px` });
+  }
+
+  for (const box of current.texts) {
+    const before = baseline.texts[box.index];
+    if (!before?.visible) continue;
+
+    if (!box.visible) {
+      // Re-rendered elsewhere (responsive markup) is not lost
+      if (!stillVisible.has(before.text)) {
+        issues.push({ kind: 'lost', selector: before.selector, html: before.html, text: before.text, inChrome: before.inChrome });
+      }
+    } else if (box.clipped && !before.clipped) {
+      issues.push({ kind: 'clipped', selector: box.selector, html: box.html, text: box.text, inChrome: box.inChrome });
+    }
+  }
+
+  for (const [a, b] of current.overlaps) {
+    if (overlappedBefore.has(`${a}:${b}`)) continue;
+    const box = current.texts[a];
+    issues.push({ kind: 'overlap', selector: box.selector, html: box.html, text: box.text, detail: current.texts[b].selector, inChrome: box.inChrome });
+  }
+
+  return issues;
+}
+
+async function settle(page: Page): Promise<void> {
+  await page.evaluate(() => window.scrollTo(0, 0));
+  await page.waitForTimeout(SETTLE_MS);
+}
+
+async function captureIssues(page: Page, issues: StressIssue[], missing: 'skip' | 'viewport'): Promise<Map<string, Buffer>> {
+  const shots = new Map<string, Buffer>();
+  for (const issue of issues) {
+    if (shots.has(issue.selector) || shots.size >= MAX_SCREENSHOTS_PER_CONDITION) continue;
+    try {
+      // Lost content has nothing left to crop; show what is there instead
+      const shot = await captureElement(page, issue.selector) ??
+        (missing === 'viewport' ? await page.screenshot({ type: 'png' }) : null);
+      if (shot) shots.set(issue.selector, shot);
+    } catch (error) {
+      console.warn(`Stress screenshot failed for ${issue.selector}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  await page.evaluate(() => window.scrollTo(0, 0)).catch(() => {});
+  return shots;
+}
+
+/**
+ * Run the conditions against the loaded page, restoring its viewport and
+ * styles after each. With screenshots, issue elements are cropped under
+ * the condition and again once the page is back to normal.
+ */
+export async function stressTest(
+  page: Page,
+  options: { conditions?: StressCondition[]; screenshots?: boolean } = {}
+): Promise<StressResult[]> {
+  const base = page.viewportSize();
+  if (!base) return [];
+
+  await installDomHelpers(page.mainFrame());
+  await settle(page);
+  const baseline = await page.evaluate(measureLayout, { register: true, scrolling: false });
+
+  const results: StressResult[] = [];
+  for (const condition of options.conditions ?? STRESS_CONDITIONS) {
+    const viewport = condition.viewport ? condition.viewport(base) : base;
+    if (!viewport) continue;
+
+    let style: ElementHandle | null = null;
+    let issues: StressIssue[];
+    let after = new Map<string, Buffer>();
+    try {
+      if (condition.viewport) await page.setViewportSize(viewport);
+      if (condition.stylesheet) style = await page.addStyleTag({ content: condition.stylesheet });
+      await settle(page);
+
+      const current = await page.evaluate(measureLayout, { register: false, scrolling: condition.checksScrolling });
+      issues = compareLayouts(baseline, current).slice(0, MAX_ISSUES_PER_CONDITION);
+      if (options.screenshots && issues.length > 0) {
+        after = await captureIssues(page, issues, 'viewport');
+      }
+    } finally {
+      if (style) await style.evaluate(el => (el as Element).remove()).catch(() => {});
+      if (condition.viewport) await page.setViewportSize(base);
+      await settle(page);
+    }
+
+    const before = options.screenshots && issues.length > 0
+      ? await captureIssues(page, issues, 'skip')
+      : new Map<string, Buffer>();
+    results.push({ condition, viewport, issues, before, after });
+  }
+
+  await page.evaluate(() => { delete window.__esReflow; }).catch(() => {});
+  return results;
+}
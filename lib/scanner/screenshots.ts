@@ -0,0 +1,156 @@
+/**
+ * Screenshot Evidence
+ *
+ * A raw elementHtml snippet rarely answers "which element is this?". Each
+ * analyzed page gets a full-page screenshot, and each violating element a
+ * crop with some surrounding context and the element outlined. Both are
+ * stored as artifacts ('full_page_screenshot', 'screenshot') and linked
+ * from the finding's evidence.
+ */
+
+import type { Page } from 'playwright';
+import { FRAME_SEPARATOR, locateElement } from './dom-scope';
+import { storeArtifact } from './artifacts';
+
+// Element crops per page; findings on the same element share one
+const MAX_ELEMENT_SCREENSHOTS = 25;
+// Context around the element, in CSS pixels
+const CROP_MARGIN = 40;
+const MAX_CROP_HEIGHT = 800;
+// Infinite-scroll pages would produce screenshots taller than any report can show
+const MAX_FULL_PAGE_HEIGHT = 10000;
+const HIGHLIGHT_OUTLINE = '3px solid #e11d48';
+
+type EvidenceArtifact = { id: string; storagePath: string; label: string };
+
+// Fields of the engine's Violation (src/scanner/types) that screenshot capture reads and sets
+interface Screenshottable {
+  elementSelector: string;
+  wcagCriterion: string;
+  ruleId?: string;
+  fingerprint?: string;
+  evidence?: { artifacts?: EvidenceArtifact[] };
+}
+
+export interface ScreenshotOptions {
+  scanId: string;
+  pageUrl: string;
+  viewport?: string;
+}
+
+async function captureFullPage(page: Page): Promise<Buffer> {
+  const { width, height } = await page.evaluate(() => ({
+    width: document.documentElement.clientWidth,
+    height: document.documentElement.scrollHeight
+  }));
+  return page.screenshot({
+    fullPage: true,
+    type: 'png',
+    clip: { x: 0, y: 0, width, height: Math.min(height, MAX_FULL_PAGE_HEIGHT) }
+  });
+}
+
+/**
+ * Crop around the element with a temporary outline; null when it isn't
+ * rendered (hidden, zero-size, gone)
+ */
+export async function captureElement(page: Page, selector: string): Promise<Buffer | null> {
+  const locator = locateElement(page, selector).first();
+  await locator.scrollIntoViewIfNeeded({ timeout: 2000 });
+  const box = await locator.boundingBox();
+  const viewport = page.viewportSize();
+  if (!box || !viewport || box.width === 0 || box.height === 0) return null;
+
+  const previous = await locator.evaluate((el, outline) => {
+    const style = (el as HTMLElement).style;
+    const saved = { outline: style.outline, outlineOffset: style.outlineOffset };
+    style.outline = outline;
+    style.outlineOffset = '2px';
+    return saved;
+  }, HIGHLIGHT_OUTLINE);
+
+  try {
+    const x = Math.max(0, box.x - CROP_MARGIN);
+    const y = Math.max(0, box.y - CROP_MARGIN);
+    const width = Math.min(box.x + box.width + CROP_MARGIN, viewport.width) - x;
+    const height = Math.min(box.y + box.height + CROP_MARGIN, viewport.height, y + MAX_CROP_HEIGHT) - y;
+    if (width <= 0 || height <= 0) return null;
+
+    return await page.screenshot({ type: 'png', clip: { x, y, width, height } });
+  } finally {
+    await locator.evaluate((el, saved) => {
+      const style = (el as HTMLElement).style;
+      style.outline = saved.outline;
+      style.outlineOffset = saved.outlineOffset;
+    }, previous).catch(() => {});
+  }
+}
+
+function attach(violation: Screenshottable, artifact: EvidenceArtifact) {
+  violation.evidence = {
+    ...violation.evidence,
+    artifacts: [...(violation.evidence?.artifacts || []), artifact]
+  };
+}
+
+/**
+ * Screenshot the page and the elements of its findings, adding the stored
+ * artifacts to each finding's evidence. Failures only cost the evidence.
+ */
+export async function captureScreenshotEvidence(
+  page: Page,
+  violations: Screenshottable[],
+  options: ScreenshotOptions
+): Promise<void> {
+  if (violations.length === 0) return;
+
+  const fullPage = await captureFullPage(page)
+    .then(data => storeArtifact({
+      scanId: options.scanId,
+      type: 'full_page_screenshot',
+      data,
+      contentType: 'image/png',
+      metadata: { pageUrl: options.pageUrl, viewport: options.viewport }
+    }))
+    .catch(error => {
+      console.warn(`Full-page screenshot failed for ${options.pageUrl}:`, error instanceof Error ? error.message : error);
+      return null;
+    });
+
+  const crops = new Map<string, EvidenceArtifact | null>();
+
+  for (const violation of violations) {
+    const selector = violation.elementSelector;
+    // Page-level findings are shown by the full-page screenshot
+    const pageLevel = !selector || /^(html|body)$/i.test(selector.split(FRAME_SEPARATOR).pop()!.trim());
+
+    if (!pageLevel && !crops.has(selector) && crops.size < MAX_ELEMENT_SCREENSHOTS) {
+      let crop: EvidenceArtifact | null = null;
+      try {
+        const data = await captureElement(page, selector);
+        const stored = data && await storeArtifact({
+          scanId: options.scanId,
+          type: 'screenshot',
+          data,
+          contentType: 'image/png',
+          metadata: {
+            pageUrl: options.pageUrl,
+            viewport: options.viewport,
+            selector,
+            wcagCriterion: violation.wcagCriterion,
+            ruleId: violation.ruleId,
+            fingerprint: violation.fingerprint
+          }
+        });
+        crop = stored ? { ...stored, label: 'element' } : null;
+      } catch (error) {
+        console.warn(`Element screenshot failed for ${selector}:`, error instanceof Error ? error.message : error);
+      }
+      crops.set(selector, crop);
+    }
+
+    const crop = crops.get(selector);
+    if (crop) attach(violation, crop);
+    if (fullPage) attach(violation, { ...fullPage, label: 'page' });
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * SPA Route Discovery
+ *
+ * Single-page apps often navigate with onClick handlers and
+ * history.pushState instead of a[href], so a link crawl sees one page.
+ * Discovery reads the framework's router manifest when the app exposes
+ * one, then clicks likely navigation controls in a sandboxed copy of the
+ * session and records every client-side route change (pushState,
+ * replaceState, hash changes, script navigations).
+ *
+ * The sandbox context only lets GET requests through and never leaves
+ * the site, so clicking "Add to cart" or "Save" can't change anything on
+ * the server. Controls that look destructive or end the session are not
+ * clicked at all.
+ */
+
+import type { BrowserContext, Page } from 'playwright';
+
+const MAX_CLICKS_PER_PAGE = 25;
+const CLICK_TIMEOUT_MS = 3000;
+// Time for a client-side router to react to a click
+const SETTLE_MS = 400;
+
+export type SpaRouteVia = 'pushState' | 'replaceState' | 'hashchange' | 'popstate' | 'navigation' | 'manifest';
+
+export interface SpaRoute {
+  url: string;
+  via: SpaRouteVia;
+  // Label of the control that led there
+  trigger?: string;
+}
+
+export interface SpaDiscovery {
+  routes: SpaRoute[];
+  clicks: number;
+  // Router the manifest was read from, e.g. 'next', 'vue-router'
+  manifest: string | null;
+}
+
+export interface SpaDiscoveryOptions {
+  maxClicks?: number;
+  deadline?: number;
+  // Called before each page load (crawl delay)
+  throttle?: () => Promise<void>;
+}
+
+interface RecordedRoute {
+  url: string;
+  via: SpaRouteVia;
+}
+
+// Router state the frameworks leave on the page; shapes vary by version, so every field is
+// optional. Next.js declares its own window.__BUILD_MANIFEST (next/dist/client/route-loader).
+interface FlatRouteManifest {
+  routes?: Record<string, { path?: string; parentId?: string; index?: boolean }>;
+}
+
+interface VueRouter4 {
+  getRoutes?: () => Array<{ path: string }>;
+  options?: { history?: { base?: string } };
+}
+
+interface VueRouteConfig {
+  path: string;
+  children?: VueRouteConfig[];
+}
+
+interface VueRouter3 {
+  options?: { routes?: VueRouteConfig[] };
+  mode?: string;
+}
+
+declare global {
+  interface Window {
+    __esSpaRoutes?: RecordedRoute[];
+    __reactRouterManifest?: FlatRouteManifest;
+    __remixManifest?: FlatRouteManifest;
+    $nuxt?: { $router?: VueRouter3 };
+  }
+
+  interface Element {
+    __vue_app__?: { config?: { globalProperties?: { $router?: VueRouter4 } } };
+    __vue__?: { $router?: VueRouter3 };
+  }
+}
+
+// Never clicked: could end the session or destroy data even through a GET
+const UNSAFE_LABEL = /\b(log ?out|sign ?out|delete|remove|unsubscribe|deactivate|close account|cancel (my )?(order|subscription))\b/i;
+
+/**
+ * Statically declared routes from the router of the loaded page. Routes
+ * with dynamic segments (/product/:id, /blog/[slug]) can't be expanded
+ * and are left out.
+ */
+export async function readRouterManifest(page: Page): Promise<{ router: string; urls: string[] } | null> {
+  const found = await page.evaluate((): { router: string; paths: string[]; hash: boolean } | null => {
+    const isStatic = (path: string) => !/[:*[\]]/.test(path);
+
+    // Next.js pages router
+    const nextPages: unknown = window.__BUILD_MANIFEST?.sortedPages;
+    if (Array.isArray(nextPages)) {
+      return {
+        router: 'next',
+        paths: nextPages.filter((path): path is string => typeof path === 'string' && !path.startsWith('/_') && isStatic(path)),
+        hash: false
+      };
+    }
+
+    // Remix / React Router framework mode: flat routes with parent ids
+    const manifest = window.__reactRouterManifest || window.__remixManifest;
+    if (manifest?.routes) {
+      const routes = manifest.routes;
+      const fullPath = (id: string): string => {
+        const route = routes[id];
+        if (!route) return '';
+        const parent = route.parentId ? fullPath(route.parentId) : '';
+        return route.path ? `${parent.replace(/\/$/, '')}/${route.path.replace(/^\//, '')}` : parent;
+      };
+      return {
+        router: window.__reactRouterManifest ? 'react-router' : 'remix',
+        paths: Object.keys(routes).map(id => fullPath(id) || '/').filter(isStatic),
+        hash: false
+      };
+    }
+
+    // Vue Router 4 (Vue 3, Nuxt 3) on the app root
+    const vue3 = Array.from(document.querySelectorAll('*')).find(el => el.__vue_app__);
+    const router4 = vue3?.__vue_app__?.config?.globalProperties?.$router;
+    if (router4?.getRoutes) {
+      return {
+        router: 'vue-router',
+        paths: router4.getRoutes().map(route => route.path).filter(isStatic),
+        hash: String(router4.options?.history?.base || '').includes('#')
+      };
+    }
+
+    // Vue Router 3 (Vue 2, Nuxt 2): nested route config
+    const router3 = window.$nuxt?.$router || document.querySelector('[data-server-rendered], #app')?.__vue__?.$router;
+    if (router3?.options?.routes) {
+      const paths: string[] = [];
+      const walk = (routes: VueRouteConfig[], parent: string) => {
+        for (const route of routes) {
+          const path = route.path.startsWith('/') ? route.path : `${parent.replace(/\/$/, '')}/${route.path}`;
+          paths.push(path || '/');
+          if (Array.isArray(route.children)) walk(route.children, path);
+        }
+      };
+      walk(router3.options.routes, '');
+      return { router: 'vue-router', paths: paths.filter(isStatic), hash: router3.mode === 'hash' };
+    }
+
+    return null;
+  }).catch(() => null);
+
+  if (!found) return null;
+
+  const base = new URL(page.url());
+  const urls = found.paths.map(path => (found.hash
+    ? new URL(`${base.pathname}${base.search}#${path}`, base).toString()
+    : new URL(path, base.origin).toString()));
+  return { router: found.router, urls: Array.from(new Set(urls)) };
+}
+
+interface Sandbox {
+  context: BrowserContext;
+  page: Page;
+  // Script navigations the route handler stopped since the last check
+  navigations: RecordedRoute[];
+  load(url: string): Promise<void>;
+}
+
+// Sandboxed copy of the crawler's session: GET only, same site, no popups or downloads
+async function openSandbox(page: Page, siteOrigin: string): Promise<Sandbox | null> {
+  const browser = page.context().browser();
+  if (!browser) return null;
+
+  const context = await browser.newContext({
+    storageState: await page.context().storageState(),
+    viewport: page.viewportSize(),
+    acceptDownloads: false,
+    serviceWorkers: 'block'
+  });
+  const sandboxPage = await context.newPage();
+  const navigations: RecordedRoute[] = [];
+  let loading = true;
+
+  await context.addInitScript(() => {
+    const routes: RecordedRoute[] = [];
+    window.__esSpaRoutes = routes;
+    const record = (url: string | URL | null | undefined, via: RecordedRoute['via']) => {
+      if (url == null) return;
+      try {
+        routes.push({ url: new URL(String(url), location.href).href, via });
+      } catch {
+        // Not a URL the router could have used either
+      }
+    };
+
+    for (const method of ['pushState', 'replaceState'] as const) {
+      const original = history[method];
+      history[method] = function (this: History, state: unknown, unused: string, url?: string | URL | null) {
+        record(url, method);
+        return original.call(this, state, unused, url);
+      };
+    }
+    addEventListener('hashchange', () => record(location.href, 'hashchange'));
+    addEventListener('popstate', () => record(location.href, 'popstate'));
+    window.open = () => null;
+  });
+
+  await context.route('**/*', route => {
+    const request = route.request();
+    if (!['GET', 'HEAD', 'OPTIONS'].includes(request.method())) {
+      return route.abort('blockedbyclient');
+    }
+
+    // A script-driven navigation away from the page is a route too; record it and stay
+    if (!loading && request.isNavigationRequest() && request.frame() === sandboxPage.mainFrame()) {
+      if (new URL(request.url()).origin === siteOrigin) {
+        navigations.push({ url: request.url(), via: 'navigation' });
+      }
+      return route.abort('aborted');
+    }
+    return route.continue();
+  });
+
+  context.on('page', popup => { if (popup !== sandboxPage) popup.close().catch(() => undefined); });
+  sandboxPage.on('dialog', dialog => dialog.dismiss().catch(() => undefined));
+
+  const load = async (url: string) => {
+    loading = true;
+    try {
+      await sandboxPage.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 });
+    } finally {
+      loading = false;
+    }
+    await sandboxPage.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => undefined);
+  };
+
+  return { context, page: sandboxPage, navigations, load };
+}
+
+// Mark clickable non-link controls with data-es-spa="<index>" and return their labels
+async function markCandidates(page: Page, limit: number): Promise<string[]> {
+  return page.evaluate(({ limit, unsafe }) => {
+    const unsafeLabel = new RegExp(unsafe, 'i');
+    const selector = [
+      'a:not([href])', 'a[href="#"]', 'a[href^="javascript:"]',
+      '[role="link"]', '[role="menuitem"]', '[role="tab"]',
+      '[onclick]', '[data-href]', '[data-to]', '[data-route]', '[routerlink]',
+      'nav button', 'header button', 'aside button', 'li[tabindex]', 'div[tabindex]'
+    ].join(', ');
+
+    const labels: string[] = [];
+    const seen = new Set<string>();
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>(selector))) {
+      if (labels.length >= limit) break;
+      if (el.closest('form') && el.matches('button:not([type="button"])')) continue; // Would submit
+      if (el.matches('[aria-disabled="true"], :disabled')) continue;
+
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) continue;
+
+      const label = (el.getAttribute('aria-label') || el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80);
+      if (!label || unsafeLabel.test(label) || seen.has(label)) continue;
+      seen.add(label);
+
+      el.setAttribute('data-es-spa', String(labels.length));
+      labels.push(label);
+    }
+    return labels;
+  }, { limit, unsafe: UNSAFE_LABEL.source });
+}
+
+/**
+ * Routes reachable from the loaded page: the router manifest (if any) and
+ * whatever clicking its navigation controls leads to
+ */
+export async function discoverSpaRoutes(page: Page, options: SpaDiscoveryOptions = {}): Promise<SpaDiscovery> {
+  const url = page.url();
+  const siteOrigin = new URL(url).origin;
+  const maxClicks = options.maxClicks ?? MAX_CLICKS_PER_PAGE;
+  const outOfTime = () => options.deadline !== undefined && Date.now() > options.deadline;
+
+  const routes = new Map<string, SpaRoute>();
+  const add = (route: SpaRoute) => {
+    const target = new URL(route.url);
+    if (target.origin !== siteOrigin || route.url === url || routes.has(route.url)) return;
+    routes.set(route.url, route);
+  };
+
+  const manifest = await readRouterManifest(page);
+  manifest?.urls.forEach(routeUrl => add({ url: routeUrl, via: 'manifest' }));
+
+  const sandbox = await openSandbox(page, siteOrigin).catch(() => null);
+  if (!sandbox) {
+    return { routes: Array.from(routes.values()), clicks: 0, manifest: manifest?.router ?? null };
+  }
+
+  let clicks = 0;
+  try {
+    let labels: string[] = [];
+    let fresh = false;
+
+    for (let index = 0; index < maxClicks && !outOfTime(); index++) {
+      // The previous click may have changed the view; start each click from the original page
+      if (!fresh) {
+        await options.throttle?.();
+        await sandbox.load(url);
+        labels = await markCandidates(sandbox.page, maxClicks);
+        fresh = true;
+      }
+      if (index >= labels.length) break;
+
+      await sandbox.page.evaluate(() => { window.__esSpaRoutes!.length = 0; });
+      const before = sandbox.page.url();
+
+      try {
+        await sandbox.page.click(`[data-es-spa="${index}"]`, { timeout: CLICK_TIMEOUT_MS });
+        clicks++;
+      } catch {
+        continue; // Covered or detached; the page is unchanged
+      }
+      await sandbox.page.waitForTimeout(SETTLE_MS);
+
+      const recorded = await sandbox.page.evaluate(() => window.__esSpaRoutes!.splice(0)).catch(() => []);
+      for (const route of [...recorded, ...sandbox.navigations.splice(0)]) {
+        add({ ...route, trigger: labels[index] });
+      }
+
+      // Menus and tabs that only toggle in place leave the page reusable
+      fresh = sandbox.page.url() === before && recorded.length === 0;
+    }
+  } catch (error) {
+    console.warn(`SPA route discovery failed on ${url}:`, error instanceof Error ? error.message : error);
+  } finally {
+    await sandbox.context.close().catch(() => undefined);
+  }
+
+  return { routes: Array.from(routes.values()), clicks, manifest: manifest?.router ?? null };
+}
@@ -0,0 +1,245 @@
+/**
+ * Static Build Scanning
+ *
+ * Scans a build directory (out/, dist/) or an uploaded zip of one before
+ * it is deployed. The browser never talks to a real server: requests to
+ * STATIC_BUILD_ORIGIN are answered from the files on disk and every other
+ * request and every WebSocket is aborted, so the scanned pages are
+ * sandboxed from the network.
+ * The origin uses the reserved .invalid TLD and can't resolve even if a
+ * request slipped past the route.
+ */
+
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { inflateRawSync } from 'node:zlib';
+import type { BrowserContext } from 'playwright';
+
+export const STATIC_BUILD_ORIGIN = 'https://static-build.invalid';
+
+// Upload bounds (zip bombs, enormous bundles)
+const MAX_ZIP_ENTRIES = 10000;
+const MAX_UNCOMPRESSED_BYTES = 500 * 1024 * 1024;
+// Directories never worth walking for pages
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.next', '__MACOSX']);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.vtt': 'text/vtt',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml'
+};
+
+export class StaticBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StaticBuildError';
+  }
+}
+
+export interface StaticBuild {
+  root: string;
+  // Every HTML file as a URL under STATIC_BUILD_ORIGIN, index pages as directories
+  pages: string[];
+}
+
+/**
+ * Resolve a build directory and list its HTML pages
+ */
+export async function openStaticBuild(dir: string): Promise<StaticBuild> {
+  const root = path.resolve(dir);
+  const info = await stat(root).catch(() => null);
+  if (!info?.isDirectory()) {
+    throw new StaticBuildError(`Build directory not found: ${dir}`);
+  }
+
+  const pages: string[] = [];
+  const walk = async (current: string) => {
+    const entries = await readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) await walk(full);
+      } else if (/\.html?$/i.test(entry.name)) {
+        const relative = path.relative(root, full).split(path.sep).join('/');
+        const pagePath = /(^|\/)index\.html?$/i.test(relative)
+          ? relative.replace(/index\.html?$/i, '')
+          : relative;
+        pages.push(`${STATIC_BUILD_ORIGIN}/${pagePath.split('/').map(encodeURIComponent).join('/')}`);
+      }
+    }
+  };
+  await walk(root);
+
+  if (pages.length === 0) {
+    throw new StaticBuildError('Build contains no HTML files');
+  }
+
+  // Home page first, like a crawl would
+  pages.sort((a, b) => (a === `${STATIC_BUILD_ORIGIN}/` ? -1 : b === `${STATIC_BUILD_ORIGIN}/` ? 1 : 0));
+  return { root, pages };
+}
+
+/**
+ * Map a request path onto a file in the build: /about → about.html or
+ * about/index.html. Paths that escape the root resolve to null.
+ */
+async function resolveBuildFile(root: string, pathname: string): Promise<string | null> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  const target = path.resolve(root, `.${decoded}`);
+  if (target !== root && !target.startsWith(root + path.sep)) return null;
+
+  const candidates = decoded.endsWith('/')
+    ? [path.join(target, 'index.html')]
+    : [target, `${target}.html`, path.join(target, 'index.html')];
+
+  for (const candidate of candidates) {
+    const info = await stat(candidate).catch(() => null);
+    if (info?.isFile()) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Answer requests to STATIC_BUILD_ORIGIN from the build directory and
+ * abort everything else (CDNs, analytics, APIs, WebSockets) for this context
+ */
+export async function serveStaticBuild(context: BrowserContext, build: StaticBuild): Promise<void> {
+  const notFound = path.join(build.root, '404.html');
+
+  await context.route('**/*', async route => {
+    const url = new URL(route.request().url());
+    if (url.origin !== STATIC_BUILD_ORIGIN) {
+      return route.abort('blockedbyclient');
+    }
+
+    const file = await resolveBuildFile(build.root, url.pathname);
+    if (!file) {
+      const body = await readFile(notFound).catch(() => 'Not found');
+      return route.fulfill({ status: 404, contentType: CONTENT_TYPES['.html'], body });
+    }
+
+    return route.fulfill({
+      status: 200,
+      contentType: CONTENT_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream',
+      body: await readFile(file)
+    });
+  });
+
+  // context.route never sees WebSockets; a build has no server to talk to anyway
+  await context.routeWebSocket(/.*/, ws => ws.close());
+}
+
+/**
+ * Extract an uploaded zip (stored and deflated entries) into dest. Entries
+ * that would land outside dest, zip64 archives and oversized bundles are
+ * rejected. A bundle zipped with its build folder at the top (dist/...)
+ * is unwrapped so pages sit at the root.
+ */
+export async function extractZipBundle(zip: Buffer, dest: string): Promise<void> {
+  const root = path.resolve(dest);
+
+  // End of central directory record, searched from the back (it may be followed by a comment)
+  let eocd = -1;
+  for (let offset = zip.length - 22; offset >= Math.max(0, zip.length - 22 - 0xffff); offset--) {
+    if (zip.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new StaticBuildError('Upload is not a zip archive');
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new StaticBuildError('Zip64 archives are not supported');
+  }
+  if (entryCount > MAX_ZIP_ENTRIES) {
+    throw new StaticBuildError(`Zip has more than ${MAX_ZIP_ENTRIES} entries`);
+  }
+
+  const entries: Array<{ name: string; data: Buffer }> = [];
+  let total = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new StaticBuildError('Corrupt zip central directory');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory entry
+
+    total += size;
+    if (total > MAX_UNCOMPRESSED_BYTES) {
+      throw new StaticBuildError('Zip contents exceed the upload size limit');
+    }
+
+    // The local header repeats name and extra field with its own lengths
+    if (localOffset + 30 > zip.length) throw new StaticBuildError(`Corrupt zip entry: ${name}`);
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(raw);
+    } else if (method === 8) {
+      try {
+        // Bounded by the declared size, so a lying header can't inflate further
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(1, size) });
+      } catch {
+        throw new StaticBuildError(`Corrupt zip entry: ${name}`);
+      }
+    } else {
+      throw new StaticBuildError(`Unsupported zip compression method ${method} (${name})`);
+    }
+    entries.push({ name, data });
+  }
+
+  // dist/index.html, dist/about.html → index.html, about.html
+  const topLevel = new Set(entries.map(entry => entry.name.split('/')[0]));
+  const prefix = topLevel.size === 1 && entries.every(entry => entry.name.includes('/'))
+    ? `${[...topLevel][0]}/`
+    : '';
+
+  for (const entry of entries) {
+    const target = path.resolve(root, entry.name.slice(prefix.length));
+    if (!target.startsWith(root + path.sep)) {
+      throw new StaticBuildError(`Zip entry escapes the bundle: ${entry.name}`);
+    }
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, entry.data);
+  }
+}
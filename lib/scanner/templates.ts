@@ -0,0 +1,219 @@
+/**
+ * Template Clustering
+ *
+ * Sites repeat the same header, footer and navigation on every page, and
+ * render many pages from one template. A missing label in the shared
+ * footer should be one issue with 200 occurrences, not 200 issues.
+ * Findings are located in the page structure (which landmark region, the
+ * structural fingerprint of that region, the path inside it) and
+ * clustered so scores count unique issues while reports keep every
+ * instance.
+ */
+
+import type { Page } from 'playwright';
+import { FRAME_SEPARATOR, installDomHelpers } from './dom-scope';
+
+// Landmarks that are usually shared components rendered on every page
+export type SharedRegion = 'header' | 'footer' | 'nav' | 'aside';
+export type RegionKind = SharedRegion | 'main';
+
+export interface ComponentLocation {
+  region: RegionKind;
+  // Structure hash of the region, or of the page skeleton for 'main'
+  fingerprint: string;
+  // Structural path from the region root to the element
+  path: string;
+  // Hash of the element's markup; page content only clusters when identical
+  markup: string;
+}
+
+export type IssueScope = 'site-wide' | 'template' | 'page';
+
+export interface IssueOccurrence {
+  pageUrl?: string;
+  selector?: string;
+  viewport?: string;
+  fingerprint?: string;
+}
+
+export interface IssueCluster<T> {
+  key: string;
+  scope: IssueScope;
+  region: RegionKind | null;
+  representative: T;
+  occurrences: IssueOccurrence[];
+  pageCount: number;
+}
+
+// Fields of the engine's Violation (src/scanner/types) that clustering reads
+interface Clusterable {
+  pageUrl?: string;
+  wcagCriterion?: string;
+  ruleId?: string;
+  elementSelector?: string;
+  viewport?: string;
+  fingerprint?: string;
+  component?: ComponentLocation | null;
+}
+
+const REGION_SELECTOR = [
+  'header', 'footer', 'nav', 'aside',
+  '[role="banner"]', '[role="contentinfo"]', '[role="navigation"]', '[role="complementary"]'
+].join(', ');
+
+/**
+ * Locate elements (by scan selector) in the page's shared regions or
+ * template. Selectors inside child frames aren't located (null).
+ */
+export async function locateComponents(page: Page, selectors: string[]): Promise<Array<ComponentLocation | null>> {
+  await installDomHelpers(page.mainFrame());
+
+  const located = await page.evaluate(({ selectors, regionSelector }) => {
+    const dom = window.__esDom!;
+
+    // FNV-1a, enough to tell structures apart
+    const hash = (text: string) => {
+      let h = 0x811c9dc5;
+      for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+      }
+      return (h >>> 0).toString(16).padStart(8, '0');
+    };
+
+    // Tags and roles only: ids, classes and text vary between pages (active links, counters)
+    const skeleton = (root: Element, maxDepth: number) => {
+      let budget = 500;
+      const walk = (el: Element, depth: number): string => {
+        budget--;
+        const role = el.getAttribute('role');
+        const label = el.tagName.toLowerCase() + (role ? `[${role}]` : '');
+        if (depth >= maxDepth || budget <= 0) return label;
+        const children = Array.from(el.children)
+          .filter(child => !['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT'].includes(child.tagName))
+          .map(child => walk(child, depth + 1));
+        return children.length > 0 ? `${label}(${children.join(',')})` : label;
+      };
+      return walk(root, 0);
+    };
+
+    const parentOf = (el: Element): Element | null =>
+      el.parentElement || ((el.getRootNode() as ShadowRoot).host ?? null);
+
+    const regionKind = (el: Element) => {
+      const role = el.getAttribute('role');
+      if (el.tagName === 'HEADER' || role === 'banner') return 'header';
+      if (el.tagName === 'FOOTER' || role === 'contentinfo') return 'footer';
+      if (el.tagName === 'NAV' || role === 'navigation') return 'nav';
+      return 'aside';
+    };
+
+    // Same skeleton = same template, e.g. every product page
+    const pageFingerprint = hash(skeleton(document.body, 4));
+
+    return selectors.map(selector => {
+      let target: Element | null = null;
+      try {
+        target = dom.find(selector);
+      } catch {
+        return null; // Not a selector we can resolve here
+      }
+      if (!target) return null;
+
+      // Outermost landmark around the element (nav inside header → header)
+      let region: Element | null = null;
+      for (let node: Element | null = target; node && node !== document.body; node = parentOf(node)) {
+        if (node.matches(regionSelector)) region = node;
+      }
+      const root = region || document.body;
+
+      const steps: string[] = [];
+      for (let node: Element | null = target; node && node !== root; node = parentOf(node)) {
+        const parent: Element | null = node.parentElement;
+        const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === node!.tagName) : [];
+        const tag = node.tagName.toLowerCase();
+        steps.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag);
+      }
+
+      return {
+        region: region ? regionKind(region) : 'main',
+        fingerprint: region ? hash(skeleton(region, 8)) : pageFingerprint,
+        path: steps.join(' > '),
+        markup: hash(target.outerHTML.replace(/\s+/g, ' ').slice(0, 2000))
+      };
+    });
+  }, {
+    // Frame-scoped selectors can't be resolved from the top document
+    selectors: selectors.map(selector => (selector.includes(FRAME_SEPARATOR) ? '' : selector)),
+    regionSelector: REGION_SELECTOR
+  });
+
+  return located as Array<ComponentLocation | null>;
+}
+
+function clusterKey(violation: Clusterable): { key: string; region: RegionKind | null } {
+  const rule = violation.ruleId || violation.wcagCriterion;
+  const component = violation.component;
+  // A phone layout's nav can share the desktop structure yet fail differently;
+  // its findings stay mobile-only rather than joining the desktop cluster
+  const viewport = violation.viewport || 'desktop';
+
+  if (component && component.region !== 'main') {
+    return { key: [rule, viewport, `${component.region}:${component.fingerprint}`, component.path].join('|'), region: component.region };
+  }
+  if (component) {
+    return { key: [rule, viewport, `template:${component.fingerprint}`, component.path, component.markup].join('|'), region: 'main' };
+  }
+  return {
+    key: [rule, violation.pageUrl, violation.elementSelector].join('|'),
+    region: null
+  };
+}
+
+/**
+ * Collapse findings that are the same element of a shared region (or of
+ * the same template) across pages. The first finding of each cluster is
+ * its representative; clusters keep the order of their first occurrence.
+ */
+export function clusterViolations<T extends Clusterable>(violations: T[]): IssueCluster<T>[] {
+  const clusters = new Map<string, IssueCluster<T> & { pages: Set<string> }>();
+
+  for (const violation of violations) {
+    const { key, region } = clusterKey(violation);
+    let cluster = clusters.get(key);
+    if (!cluster) {
+      cluster = { key, scope: 'page', region, representative: violation, occurrences: [], pageCount: 0, pages: new Set() };
+      clusters.set(key, cluster);
+    }
+
+    cluster.occurrences.push({
+      pageUrl: violation.pageUrl,
+      selector: violation.elementSelector,
+      viewport: violation.viewport,
+      fingerprint: violation.fingerprint
+    });
+    if (violation.pageUrl) cluster.pages.add(violation.pageUrl);
+  }
+
+  return Array.from(clusters.values()).map(({ pages, ...cluster }) => ({
+    ...cluster,
+    pageCount: Math.max(1, pages.size),
+    scope: pages.size < 2 ? 'page' : cluster.region === 'main' ? 'template' : 'site-wide'
+  }));
+}
+
+export interface ClusterSummary {
+  uniqueIssues: number;
+  instances: number;
+  siteWideIssues: number;
+  templateIssues: number;
+}
+
+export function summarizeClusters<T>(clusters: IssueCluster<T>[]): ClusterSummary {
+  return {
+    uniqueIssues: clusters.length,
+    instances: clusters.reduce((sum, cluster) => sum + cluster.occurrences.length, 0),
+    siteWideIssues: clusters.filter(cluster => cluster.scope === 'site-wide').length,
+    templateIssues: clusters.filter(cluster => cluster.scope === 'template').length
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * Screen Reader Transcript
+ *
+ * A linearized, reading-order transcript of what a screen reader would
+ * announce on a page (landmarks, headings with levels, roles, names,
+ * states, text), built from the browser's accessibility tree (./ax-tree).
+ * Stakeholders understand "button, button" far quicker than a 4.1.2
+ * finding. Unnamed controls and confusing names are flagged, and two
+ * transcripts (e.g. the same page in two scans) can be diffed.
+ */
+
+import type { Page } from 'playwright';
+import { AXNode, accessibilityTree } from './ax-tree';
+import { listArtifacts, readArtifact, storeArtifact } from './artifacts';
+import { redactSecrets } from './auth';
+
+// Long pages (infinite feeds, huge tables) are cut off; diffs are quadratic in length
+const MAX_LINES = 1500;
+
+export const TRANSCRIPT_ARTIFACT_TYPE = 'sr_transcript';
+
+export type TranscriptFlag = 'unnamed' | 'vague-name' | 'file-name' | 'redundant-role';
+
+export interface TranscriptLine {
+  // What is announced, e.g. 'heading level 2, Pricing' or 'button, Menu, collapsed'
+  text: string;
+  role: string;
+  name: string;
+  // Landmark the line is announced in, e.g. 'navigation: Main'
+  landmark?: string;
+  flag?: TranscriptFlag;
+  note?: string;
+}
+
+export interface PageTranscript {
+  pageUrl: string;
+  viewport?: string;
+  lines: TranscriptLine[];
+  truncated: boolean;
+}
+
+export interface TranscriptDiffLine {
+  change: 'same' | 'added' | 'removed';
+  line: TranscriptLine;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  link: 'link',
+  button: 'button',
+  textbox: 'edit text',
+  searchbox: 'search edit text',
+  combobox: 'combo box',
+  checkbox: 'checkbox',
+  radio: 'radio button',
+  switch: 'switch',
+  slider: 'slider',
+  spinbutton: 'spin button',
+  tab: 'tab',
+  menuitem: 'menu item',
+  menuitemcheckbox: 'menu item checkbox',
+  menuitemradio: 'menu item radio',
+  option: 'option',
+  img: 'image',
+  image: 'image',
+  heading: 'heading',
+  list: 'list',
+  table: 'table',
+  dialog: 'dialog',
+  alertdialog: 'alert dialog',
+  figure: 'figure',
+  progressbar: 'progress bar'
+};
+
+const LANDMARK_LABELS: Record<string, string> = {
+  banner: 'banner',
+  navigation: 'navigation',
+  main: 'main',
+  contentinfo: 'content info',
+  complementary: 'complementary',
+  search: 'search',
+  form: 'form',
+  region: 'region'
+};
+
+// Controls that must have a name to be usable
+const NAMED_ROLES = new Set([
+  'link', 'button', 'textbox', 'searchbox', 'combobox', 'checkbox', 'radio', 'switch', 'slider',
+  'spinbutton', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'img', 'image', 'heading'
+]);
+
+// Announced as one line; their content is already part of their name
+const LEAF_ROLES = new Set([
+  'link', 'button', 'heading', 'img', 'image', 'textbox', 'searchbox', 'checkbox', 'radio', 'switch',
+  'slider', 'spinbutton', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'progressbar'
+]);
+
+const VAGUE_NAME = /^(click here|here|read more|more|learn more|details|link|button|image|icon|graphic|photo|picture|logo)$/i;
+const FILE_NAME = /\.(png|jpe?g|gif|svg|webp|avif)$|^(img|dsc|image|screenshot)[-_ ]?\d+/i;
+const REDUNDANT_ROLE: Record<string, RegExp> = {
+  img: /^(image|picture|photo|graphic)( of)?\b/i,
+  image: /^(image|picture|photo|graphic)( of)?\b/i,
+  button: /\bbutton$/i,
+  link: /^link( to)?\b/i
+};
+
+function states(node: AXNode): string[] {
+  const { properties } = node;
+  const result: string[] = [];
+  if (properties.expanded !== undefined) result.push(properties.expanded ? 'expanded' : 'collapsed');
+  if (properties.pressed !== undefined && properties.pressed !== 'false') result.push(properties.pressed === 'mixed' ? 'half pressed' : 'pressed');
+  if (properties.checked !== undefined) {
+    result.push(properties.checked === 'mixed' ? 'half checked' : properties.checked === 'true' || properties.checked === true ? 'checked' : 'not checked');
+  }
+  if (properties.selected === true) result.push('selected');
+  if (properties.required === true) result.push('required');
+  if (properties.invalid !== undefined && properties.invalid !== 'false') result.push('invalid entry');
+  if (properties.disabled === true) result.push('unavailable');
+  if (properties.haspopup !== undefined && properties.haspopup !== 'false') result.push('has pop-up');
+  return result;
+}
+
+function flagFor(node: AXNode): Pick<TranscriptLine, 'flag' | 'note'> {
+  const label = ROLE_LABELS[node.role] || node.role;
+  if (!NAMED_ROLES.has(node.role)) return {};
+
+  if (!node.name) {
+    return {
+      flag: 'unnamed',
+      note: node.role === 'heading'
+        ? 'Empty heading: announced with no text'
+        : `No accessible name: announced only as "${label}"`
+    };
+  }
+  if (VAGUE_NAME.test(node.name)) {
+    return { flag: 'vague-name', note: `"${node.name}" doesn't say where this ${label} goes or what it does` };
+  }
+  if (FILE_NAME.test(node.name)) {
+    return { flag: 'file-name', note: 'Name is a file name, not a description' };
+  }
+  if (REDUNDANT_ROLE[node.role]?.test(node.name)) {
+    return { flag: 'redundant-role', note: `The role is announced already; "${label}" is read twice` };
+  }
+  return {};
+}
+
+/**
+ * Linearize the tree in reading order. Ignored nodes aren't announced but
+ * their children can be; text runs in the same container are joined.
+ */
+export function linearize(root: AXNode): { lines: TranscriptLine[]; truncated: boolean } {
+  const lines: TranscriptLine[] = [];
+  let truncated = false;
+  let lastTextParent: AXNode | null = null;
+
+  const push = (line: TranscriptLine) => {
+    if (lines.length >= MAX_LINES) {
+      truncated = true;
+      return;
+    }
+    lines.push(line);
+    lastTextParent = null;
+  };
+
+  const visit = (node: AXNode, parent: AXNode | null, landmark: string | undefined) => {
+    if (truncated) return;
+
+    if (!node.ignored) {
+      if (node.role === 'StaticText') {
+        const previous = lines[lines.length - 1];
+        if (previous && lastTextParent === parent && previous.role === 'text') {
+          previous.text = `${previous.text} ${node.name}`.trim();
+          previous.name = previous.text;
+        } else if (node.name) {
+          push({ text: node.name, role: 'text', name: node.name, landmark });
+          lastTextParent = parent;
+        }
+        return;
+      }
+
+      const landmarkLabel = LANDMARK_LABELS[node.role];
+      // Forms and regions are only landmarks when named
+      if (landmarkLabel && (node.name || !['form', 'region'].includes(node.role))) {
+        landmark = node.name ? `${landmarkLabel}: ${node.name}` : landmarkLabel;
+        push({
+          text: [`${landmarkLabel} landmark`, node.name].filter(Boolean).join(', '),
+          role: node.role,
+          name: node.name,
+          landmark
+        });
+      } else if (ROLE_LABELS[node.role]) {
+        let label = ROLE_LABELS[node.role];
+        if (node.role === 'heading' && node.properties.level) label += ` level ${node.properties.level}`;
+        if (node.role === 'list') {
+          const items = node.children.filter(child => child.role === 'listitem').length;
+          label += `, ${items} item${items === 1 ? '' : 's'}`;
+        }
+        push({
+          text: [label, node.name, ...states(node)].filter(Boolean).join(', '),
+          role: node.role,
+          name: node.name,
+          landmark,
+          ...flagFor(node)
+        });
+        if (LEAF_ROLES.has(node.role)) return;
+      }
+    }
+
+    for (const child of node.children) {
+      visit(child, node, landmark);
+    }
+  };
+
+  visit(root, null, undefined);
+  return { lines, truncated };
+}
+
+export async function pageTranscript(page: Page, pageUrl: string, viewport?: string): Promise<PageTranscript> {
+  const root = await accessibilityTree(page);
+  const { lines, truncated } = root ? linearize(root) : { lines: [], truncated: false };
+  return { pageUrl, viewport, lines, truncated };
+}
+
+/**
+ * Build the page's transcript and store it as an artifact, with the auth
+ * profile's secrets (see ./auth collectSecrets) scrubbed from the text;
+ * failures are logged so the transcript never fails a scan
+ */
+export async function storeTranscript(
+  page: Page,
+  options: { scanId: string; pageUrl: string; viewport?: string; secrets?: string[] }
+): Promise<void> {
+  try {
+    const transcript = redactSecrets(
+      await pageTranscript(page, options.pageUrl, options.viewport),
+      options.secrets || []
+    );
+    await storeArtifact({
+      scanId: options.scanId,
+      type: TRANSCRIPT_ARTIFACT_TYPE,
+      data: Buffer.from(JSON.stringify(transcript)),
+      contentType: 'application/json',
+      metadata: {
+        pageUrl: options.pageUrl,
+        viewport: options.viewport,
+        lines: transcript.lines.length,
+        flagged: transcript.lines.filter(line => line.flag).length
+      }
+    });
+  } catch (error) {
+    console.warn(`Transcript failed for ${options.pageUrl}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * A scan's stored transcripts, optionally only the one for a page and viewport
+ */
+export async function loadTranscripts(scanId: string, pageUrl?: string, viewport?: string): Promise<PageTranscript[]> {
+  const records = (await listArtifacts(scanId, TRANSCRIPT_ARTIFACT_TYPE)).filter(record =>
+    (!pageUrl || record.metadata?.pageUrl === pageUrl) &&
+    (!viewport || (record.metadata?.viewport || 'desktop') === viewport)
+  );
+
+  const transcripts: PageTranscript[] = [];
+  for (const record of records) {
+    const stored = await readArtifact(record.id);
+    if (stored) transcripts.push(JSON.parse(stored.data.toString('utf8')));
+  }
+  return transcripts;
+}
+
+/**
+ * Line diff of two transcripts (longest common subsequence on the
+ * announced text), in reading order of the current transcript
+ */
+export function diffTranscripts(previous: TranscriptLine[], current: TranscriptLine[]): TranscriptDiffLine[] {
+  const rows = previous.length + 1;
+  const cols = current.length + 1;
+  const table = new Uint16Array(rows * cols);
+
+  for (let i = previous.length - 1; i >= 0; i--) {
+    for (let j = current.length - 1; j >= 0; j--) {
+      table[i * cols + j] = previous[i].text === current[j].text
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const diff: TranscriptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < previous.length && j < current.length) {
+    if (previous[i].text === current[j].text) {
+      diff.push({ change: 'same', line: current[j] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      diff.push({ change: 'removed', line: previous[i++] });
+    } else {
+      diff.push({ change: 'added', line: current[j++] });
+    }
+  }
+  while (i < previous.length) diff.push({ change: 'removed', line: previous[i++] });
+  while (j < current.length) diff.push({ change: 'added', line: current[j++] });
+
+  return diff;
+}
@@ -0,0 +1,134 @@
+/**
+ * Viewport Matrix
+ *
+ * Desktop, tablet and phone profiles (with device emulation and touch)
+ * so each page can be scanned once per viewport, plus helpers to split
+ * findings into "all viewports" vs "mobile-only".
+ */
+
+import { devices, type BrowserContextOptions } from 'playwright';
+
+export type ViewportName = 'desktop' | 'tablet' | 'phone';
+
+export interface ViewportProfile {
+  name: ViewportName;
+  label: string;
+  contextOptions: BrowserContextOptions;
+}
+
+export const VIEWPORT_PROFILES: Record<ViewportName, ViewportProfile> = {
+  desktop: {
+    name: 'desktop',
+    label: 'Desktop (1920×1080)',
+    contextOptions: {
+      viewport: { width: 1920, height: 1080 },
+      isMobile: false,
+      hasTouch: false
+    }
+  },
+  tablet: {
+    name: 'tablet',
+    label: 'Tablet (iPad, touch)',
+    contextOptions: { ...devices['iPad (gen 7)'] }
+  },
+  phone: {
+    name: 'phone',
+    label: 'Phone (Pixel 5, touch)',
+    contextOptions: { ...devices['Pixel 5'] }
+  }
+};
+
+export const DEFAULT_VIEWPORTS: ViewportName[] = ['desktop'];
+
+const MOBILE_VIEWPORTS: ViewportName[] = ['tablet', 'phone'];
+
+/**
+ * Resolve requested viewport names, dropping unknown ones
+ * Desktop always runs first so mobile-only comparisons have a baseline
+ */
+export function resolveViewports(requested?: string[]): ViewportProfile[] {
+  const names = (requested && requested.length > 0 ? requested : DEFAULT_VIEWPORTS)
+    .filter((name): name is ViewportName => name in VIEWPORT_PROFILES);
+
+  const unique = Array.from(new Set(names));
+  unique.sort((a, b) => (a === 'desktop' ? -1 : b === 'desktop' ? 1 : 0));
+
+  return (unique.length > 0 ? unique : DEFAULT_VIEWPORTS).map(name => VIEWPORT_PROFILES[name]);
+}
+
+interface ViewportTagged {
+  viewport?: ViewportName;
+  pageUrl?: string;
+  wcagCriterion?: string;
+  elementSelector?: string;
+}
+
+/**
+ * Identity of a finding independent of the viewport it was seen in
+ */
+function viewportIndependentKey(violation: ViewportTagged): string {
+  return [violation.pageUrl, violation.wcagCriterion, violation.elementSelector].join('|');
+}
+
+export interface ViewportBreakdown<T> {
+  byViewport: Partial<Record<ViewportName, number>>;
+  mobileOnly: T[];
+  desktopOnly: T[];
+}
+
+/**
+ * Split findings into mobile-only / desktop-only groups
+ * A finding is mobile-only when it occurs on tablet or phone but never on desktop
+ */
+export function partitionByViewport<T extends ViewportTagged>(
+  violations: T[],
+  scanned: ViewportName[]
+): ViewportBreakdown<T> {
+  const byViewport: Partial<Record<ViewportName, number>> = {};
+  const seenOn = new Map<string, Set<ViewportName>>();
+
+  for (const violation of violations) {
+    const viewport = violation.viewport || 'desktop';
+    byViewport[viewport] = (byViewport[viewport] || 0) + 1;
+
+    const key = viewportIndependentKey(violation);
+    if (!seenOn.has(key)) seenOn.set(key, new Set());
+    seenOn.get(key)!.add(viewport);
+  }
+
+  const scannedDesktop = scanned.includes('desktop');
+  const scannedMobile = MOBILE_VIEWPORTS.some(name => scanned.includes(name));
+
+  const mobileOnly: T[] = [];
+  const desktopOnly: T[] = [];
+  const emitted = new Set<string>();
+
+  for (const violation of violations) {
+    const key = viewportIndependentKey(violation);
+    if (emitted.has(key)) continue;
+
+    const viewports = seenOn.get(key)!;
+    if (!viewports.has('desktop') && scannedDesktop) {
+      mobileOnly.push(violation);
+      emitted.add(key);
+    } else if (viewports.size === 1 && viewports.has('desktop') && scannedMobile) {
+      desktopOnly.push(violation);
+      emitted.add(key);
+    }
+  }
+
+  return { byViewport, mobileOnly, desktopOnly };
+}
+
+/**
+ * Keep the first occurrence of each finding across viewports (for scoring)
+ */
+export function dedupeAcrossViewports<T extends ViewportTagged>(violations: T[]): T[] {
+  const seen = new Set<string>();
+  return violations.filter(violation => {
+    const key = viewportIndependentKey(violation);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,87 @@
+/**
+ * Credential Encryption for Authenticated Scanning
+ *
+ * AES-256-GCM encryption for site login secrets (passwords, cookies,
+ * storage state) so they are never stored in plaintext.
+ */
+
+import crypto from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const PAYLOAD_VERSION = 'v1';
+
+export class CredentialKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialKeyError';
+  }
+}
+
+/**
+ * Load the 32-byte encryption key from SCAN_CREDENTIALS_KEY (base64)
+ */
+function getKey(): Buffer {
+  const raw = process.env.SCAN_CREDENTIALS_KEY;
+  if (!raw) {
+    throw new CredentialKeyError('SCAN_CREDENTIALS_KEY is not configured');
+  }
+
+  const key = Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new CredentialKeyError('SCAN_CREDENTIALS_KEY must be 32 bytes encoded as base64');
+  }
+
+  return key;
+}
+
+/**
+ * Encrypt a secret string
+ * Output format: v1.<iv>.<authTag>.<ciphertext> (base64url segments)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    PAYLOAD_VERSION,
+    iv.toString('base64url'),
+    authTag.toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join('.');
+}
+
+/**
+ * Decrypt a payload produced by encryptSecret
+ * Throws if the payload was tampered with or the key is wrong
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split('.');
+  if (version !== PAYLOAD_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Unsupported credential payload format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+/**
+ * Encrypt a JSON-serializable value
+ */
+export function encryptJSON(value: unknown): string {
+  return encryptSecret(JSON.stringify(value));
+}
+
+/**
+ * Decrypt a JSON value produced by encryptJSON
+ */
+export function decryptJSON<T>(payload: string): T {
+  return JSON.parse(decryptSecret(payload)) as T;
+}
@@ -120,21 +120,29 @@ export const CRAWL_LIMITS = {
     maxPages: 5,
     maxDepth: 1,
     maxTimeMs: 120000, // 2 minutes
+    maxConcurrency: 2, // Pages scanned in parallel
+    maxPerHost: 1, // Of those, pages loading from one origin at once
   },
   starter: {
     maxPages: 15,
     maxDepth: 2,
     maxTimeMs: 180000, // 3 minutes
+    maxConcurrency: 3,
+    maxPerHost: 2,
   },
   pro: {
     maxPages: 50,
     maxDepth: 3,
     maxTimeMs: 300000, // 5 minutes
+    maxConcurrency: 4,
+    maxPerHost: 2,
   },
   enterprise: {
     maxPages: 500,
     maxDepth: 5,
     maxTimeMs: 600000, // 10 minutes
+    maxConcurrency: 6,
+    maxPerHost: 3,
   },
 } as const;
 
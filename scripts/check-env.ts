@@ -148,7 +148,7 @@ const categories: Record<string, string[]> = {
   "⏰ Cron & Trust": schemaKeys.filter(k => k.includes("CRON") || k.includes("SELF_SCAN") || k.includes("TRUST")),
   "🚦 Rate Limiting": schemaKeys.filter(k => k.includes("REDIS") || k.includes("UPSTASH") || k === "RATE_LIMIT_BACKEND"),
   "📊 Observability": schemaKeys.filter(k => k.includes("SENTRY")),
-  "⚙️  Worker": ["WORKER_ID", "POLL_INTERVAL_MS", "MAX_RETRIES", "SCAN_MAX_CONCURRENCY", "SCAN_MAX_PAGES_OVERRIDE"],
+  "⚙️  Worker": ["WORKER_ID", "POLL_INTERVAL_MS", "MAX_RETRIES", "SCAN_MAX_CONCURRENCY", "SCAN_MAX_PAGES_OVERRIDE", "SCAN_CREDENTIALS_KEY"],
   "💾 Cache": ["XDG_CACHE_HOME", "PLAYWRIGHT_BROWSERS_PATH", "PUPPETEER_CACHE_DIR"],
   "🎛️  Features": schemaKeys.filter(k => k.startsWith("FEATURE")),
   "📧 Email": schemaKeys.filter(k => k.includes("EMAIL") || k.includes("RESEND")),
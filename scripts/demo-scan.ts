@@ -63,10 +63,10 @@ async function runDemo() {
       console.log('🚨 TOP CRITICAL VIOLATIONS');
       console.log('===========================');
       severityGroups.critical.slice(0, 5).forEach((violation, index) => {
-        console.log(`${index + 1}. ${violation.rule}: ${violation.message}`);
-        console.log(`   Element: ${violation.element}`);
-        console.log(`   Legal Risk: ${violation.legalRisk}`);
-        console.log(`   Fix: ${violation.howToFix}\n`);
+        console.log(`${index + 1}. WCAG ${violation.wcagCriterion}: ${violation.message}`);
+        console.log(`   Element: ${violation.elementSelector}`);
+        console.log(`   Legal Risk: ${violation.legalRiskLevel}`);
+        console.log(`   Fix: ${violation.fixDescription}\n`);
       });
     }
     
@@ -142,9 +142,9 @@ async function runDemo() {
       .slice(0, 3);
       
     topViolations.forEach((violation, index) => {
-      console.log(`${index + 1}. ${violation.rule}: ${violation.message}`);
-      console.log(`   Fix: ${violation.howToFix}`);
-      console.log(`   Code: ${violation.codeExample.split('\n')[0]}...`);
+      console.log(`${index + 1}. WCAG ${violation.wcagCriterion}: ${violation.message}`);
+      console.log(`   Fix: ${violation.fixDescription}`);
+      console.log(`   Code: ${violation.fixCode.split('\n')[0]}...`);
       console.log();
     });
     
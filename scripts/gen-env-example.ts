@@ -123,6 +123,9 @@ MAX_RETRIES=3
 SCAN_MAX_CONCURRENCY=10
 SCAN_MAX_PAGES_OVERRIDE=
 
+# Authenticated scanning: base64-encoded 32-byte key (openssl rand -base64 32)
+SCAN_CREDENTIALS_KEY=
+
 # ============================================================================
 # BROWSER CACHE PATHS
 # ============================================================================
@@ -0,0 +1,82 @@
+#!/usr/bin/env npx tsx
+/**
+ * Static Build Scanner
+ *
+ * Scans every HTML file of a local build directory before it is deployed
+ * and stores the result as a normal scan tied to the commit.
+ * Usage: npm run scanner:build -- out --commit <sha> [--name web/main]
+ *        [--site https://example.com] [--level AA] [--depth interactive]
+ *        [--fail-on-critical]
+ */
+
+import "dotenv/config";
+import { execSync } from "child_process";
+import { createClient } from "@supabase/supabase-js";
+import { startStaticScan } from "../src/api/routes/static-scan";
+import { openStaticBuild } from "../lib/scanner/static-site";
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function currentCommit(): string | undefined {
+  if (process.env.GITHUB_SHA) return process.env.GITHUB_SHA;
+  try {
+    return execSync("git rev-parse HEAD", { encoding: "utf8" }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dir = args[0];
+  const commitSha = option(args, "commit") || currentCommit();
+
+  if (!dir || dir.startsWith("--") || !commitSha) {
+    console.error("Usage: npm run scanner:build -- <build-dir> --commit <sha> [--name <build>] [--site <url>]");
+    process.exit(2);
+  }
+
+  const build = await openStaticBuild(dir);
+  console.log(`📦 ${build.pages.length} HTML pages in ${build.root} (commit ${commitSha.slice(0, 12)})`);
+
+  const { scanId, done } = await startStaticScan(build, {
+    commitSha,
+    buildName: option(args, "name"),
+    siteUrl: option(args, "site"),
+    scanType: (option(args, "depth") as "surface" | "interactive" | "exhaustive") || "interactive",
+    wcagLevel: (option(args, "level") as "A" | "AA" | "AAA") || "AA",
+    wcagVersion: (option(args, "wcag") as "2.0" | "2.1" | "2.2") || "2.2"
+  });
+  console.log(`⏳ Scan ${scanId} running...`);
+  await done;
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_KEY!
+  );
+  const { data: scan } = await supabase
+    .from("scans")
+    .select("status, compliance_score, total_violations, critical_violations")
+    .eq("id", scanId)
+    .single();
+
+  if (!scan || scan.status !== "complete") {
+    console.error(`❌ Scan ${scanId} failed`);
+    process.exit(1);
+  }
+
+  console.log(`📊 Score ${scan.compliance_score}, ${scan.total_violations} issues (${scan.critical_violations} critical)`);
+
+  // Lets CI block a deploy that would ship critical issues
+  if (args.includes("--fail-on-critical") && scan.critical_violations > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -61,14 +61,17 @@ Format as JSON with structure:
 {
   "contextualViolations": [
     {
-      "rule": "WCAG X.X.X",
+      "ruleId": "short-kebab-case-id",
+      "wcagCriterion": "X.X.X",
       "severity": "critical|serious|moderate|minor",
-      "element": "selector",
+      "elementType": "image|form|button|link|...",
+      "elementSelector": "selector",
+      "elementHtml": "the element's markup",
       "message": "description",
-      "impact": "user impact",
-      "legalRisk": "high|medium|low",
-      "howToFix": "specific instructions",
-      "codeExample": "actual code",
+      "userImpact": "user impact",
+      "legalRiskLevel": "high|medium|low",
+      "fixDescription": "specific instructions",
+      "fixCode": "actual code",
       "contextReason": "why this is contextually important",
       "falsePositive": false
     }
@@ -92,7 +95,13 @@ Format as JSON with structure:
       });
       const response = completion.choices[0].message.content || '';
 
-      return JSON.parse(response) as LLMAnalysisResult;
+      const result = JSON.parse(response) as LLMAnalysisResult;
+      result.contextualViolations = (result.contextualViolations || []).map(violation => ({
+        ...violation,
+        check: 'llm',
+        pageUrl: violation.pageUrl || ''
+      }));
+      return result;
     } catch (error) {
       console.error('LLM analysis failed:', error);
       return this.fallbackAnalysis(elements, existingViolations);
@@ -273,17 +282,21 @@ Format as:
       // Check for images in critical paths
       if (element.type === 'image' && !element.attributes.alt && element.parentContext.includes('button')) {
         contextualViolations.push({
-          rule: 'WCAG 1.1.1',
+          check: 'llm',
+          ruleId: 'image-button-alt',
+          wcagCriterion: '1.1.1',
           severity: 'critical',
-          element: element.selector,
+          elementType: 'image',
+          elementSelector: element.selector,
+          elementHtml: element.html,
+          pageUrl: '',
           message: 'Image button without alternative text',
-          impact: 'Button purpose unknown to screen reader users',
-          legalRisk: 'high',
-          howToFix: 'Add alt text describing button action',
-          codeExample: `<img src="${element.attributes.src}" alt="[Button action]" />`,
+          userImpact: 'Button purpose unknown to screen reader users',
+          legalRiskLevel: 'high',
+          fixDescription: 'Add alt text describing button action',
+          fixCode: `<img src="${element.attributes.src}" alt="[Button action]" />`,
           contextReason: 'Image is part of interactive button',
           falsePositive: false,
-          wcagCriterion: '1.1.1',
           lawsuitProbability: 0.8
         });
       }
@@ -291,7 +304,7 @@ Format as:
 
     // Identify high-priority fixes
     const prioritizedFixes = existingViolations
-      .filter(v => v.severity === 'critical' || v.legalRisk === 'high')
+      .filter(v => v.severity === 'critical' || v.legalRiskLevel === 'high')
       .slice(0, 10);
 
     return {
@@ -338,21 +351,21 @@ Format as:
       },
       serialPlaintiffScore: Math.min(10, Math.round(criticalCount / 2)),
       highRiskElements: violations
-        .filter(v => v.legalRisk === 'high')
-        .map(v => v.element)
+        .filter(v => v.legalRiskLevel === 'high')
+        .map(v => v.elementSelector)
         .slice(0, 5),
       recommendedActions: {
         immediate: violations
           .filter(v => v.severity === 'critical')
-          .map(v => `Fix ${v.rule}: ${v.message}`)
+          .map(v => `Fix WCAG ${v.wcagCriterion}: ${v.message}`)
           .slice(0, 3),
         urgent: violations
           .filter(v => v.severity === 'serious')
-          .map(v => `Fix ${v.rule}: ${v.message}`)
+          .map(v => `Fix WCAG ${v.wcagCriterion}: ${v.message}`)
           .slice(0, 5),
         standard: violations
           .filter(v => v.severity === 'moderate')
-          .map(v => `Fix ${v.rule}: ${v.message}`)
+          .map(v => `Fix WCAG ${v.wcagCriterion}: ${v.message}`)
           .slice(0, 10)
       }
     };
@@ -361,26 +374,26 @@ Format as:
   private generateBasicFix(violation: Violation, framework: string): AutoFix {
     return {
       originalCode: '<!-- Original code with violation -->',
-      fixedCode: violation.codeExample,
-      commitMessage: `fix(a11y): resolve ${violation.rule} violation - ${violation.message}`,
+      fixedCode: violation.fixCode,
+      commitMessage: `fix(a11y): resolve WCAG ${violation.wcagCriterion} violation - ${violation.message}`,
       prDescription: `## Accessibility Fix
 
 This PR fixes a ${violation.severity} accessibility violation:
-- **Rule**: ${violation.rule}
+- **Rule**: WCAG ${violation.wcagCriterion}
 - **Issue**: ${violation.message}
-- **Impact**: ${violation.impact}
-- **Legal Risk**: ${violation.legalRisk}
+- **Impact**: ${violation.userImpact}
+- **Legal Risk**: ${violation.legalRiskLevel}
 
 ### Changes Made
-${violation.howToFix}
+${violation.fixDescription}
 
 ### Testing
 - Verified with screen reader
 - Tested keyboard navigation
 - Confirmed WCAG compliance`,
       testCases: [
-        `Test that ${violation.element} is accessible via keyboard`,
-        `Verify screen reader announces ${violation.element} correctly`,
+        `Test that ${violation.elementSelector} is accessible via keyboard`,
+        `Verify screen reader announces ${violation.elementSelector} correctly`,
         `Confirm visual appearance unchanged`
       ],
       rollbackInstructions: 'Revert this commit if any functionality breaks'
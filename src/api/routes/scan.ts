@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ComplianceScanner } from '../../scanner/engine';
 import { LLMComplianceAnalyzer } from '../../analyzer/llm-analyzer';
+import { compileUrlPattern } from '@/lib/scanner/crawler';
+import { CRAWL_LIMITS, Tier } from '@/lib/security/url-guard';
+import type { IssueCluster } from '@/lib/scanner/templates';
+import { violationFingerprint } from '@/lib/scanner/fingerprint';
+import { loadPageSnapshots, rulesetKey, savePageSnapshots } from '@/lib/scanner/page-hash';
+import type { StaticBuild } from '@/lib/scanner/static-site';
+import type { Violation } from '../../scanner/types';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 
@@ -10,71 +17,56 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 );
 
+const urlPatternSchema = z.string().min(1).max(500).refine(pattern => {
+  try {
+    compileUrlPattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid URL pattern' });
+
 // Request validation schema
 const scanRequestSchema = z.object({
   url: z.string().url(),
   scanType: z.enum(['surface', 'interactive', 'exhaustive']).default('interactive'),
   wcagLevel: z.enum(['A', 'AA', 'AAA']).default('AA'),
+  wcagVersion: z.enum(['2.0', '2.1', '2.2']).default('2.2'),
+  // Crawl scope for this site: globs or /regex/ matched against path + query
+  include: z.array(urlPatternSchema).max(50).optional(),
+  exclude: z.array(urlPatternSchema).max(50).optional(),
+  ignoreParams: z.array(z.string().min(1).max(100)).max(50).optional(),
+  // Click through client-side navigation to find SPA routes
+  spa: z.boolean().default(false),
+  // Re-analyze pages whose content hasn't changed since the last scan
+  forceFullRescan: z.boolean().default(false),
+  // Submit forms with empty/invalid values to check error handling (in a sandbox; nothing is sent)
+  probeForms: z.boolean().default(false),
   userId: z.string().uuid().optional(),
   email: z.string().email().optional()
 });
 
+export type ScanRequest = z.infer<typeof scanRequestSchema>;
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     const validatedData = scanRequestSchema.parse(body);
     
     // Check user subscription limits if userId provided
-    if (validatedData.userId) {
-      const { data: user, error } = await supabase
-        .from('organizations')
-        .select('subscription_tier, scans_this_month')
-        .eq('id', validatedData.userId)
-        .single();
-
-      if (error) {
-        return NextResponse.json(
-          { error: 'User not found' },
-          { status: 404 }
-        );
-      }
-
-      const scanLimits: Record<string, number> = {
-        free: 1,
-        starter: 50,
-        pro: 500,
-        enterprise: Infinity
-      };
-
-      const limit = scanLimits[user.subscription_tier] || 1;
-      
-      if (user.scans_this_month >= limit) {
-        return NextResponse.json(
-          { 
-            error: 'Scan limit reached',
-            upgradeUrl: '/pricing',
-            currentUsage: user.scans_this_month,
-            limit
-          },
-          { status: 402 }
-        );
-      }
-
-      // Increment scan count
-      await supabase
-        .from('organizations')
-        .update({ scans_this_month: user.scans_this_month + 1 })
-        .eq('id', validatedData.userId);
-    }
+    const limitResponse = await reserveScan(validatedData.userId);
+    if (limitResponse) return limitResponse;
 
     // Create scan record
     const { data: scan, error: scanError } = await supabase
       .from('scans')
       .insert({
+        org_id: validatedData.userId,
         organization_id: validatedData.userId,
         url: validatedData.url,
         scan_type: validatedData.scanType,
         wcag_level: validatedData.wcagLevel,
+        wcag_version: validatedData.wcagVersion,
         status: 'pending'
       })
       .select()
@@ -114,7 +106,77 @@ export async function POST(req: NextRequest) {
   }
 }
 
-async function queueScan(scanId: string, config: z.infer<typeof scanRequestSchema>) {
+/**
+ * Check the organization's monthly scan allowance and count this scan
+ * against it. Returns the error response when the scan isn't allowed.
+ */
+export async function reserveScan(userId?: string): Promise<NextResponse | null> {
+  if (!userId) return null;
+
+  const { data: user, error } = await supabase
+    .from('organizations')
+    .select('subscription_tier, scans_this_month')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'User not found' },
+      { status: 404 }
+    );
+  }
+
+  const scanLimits: Record<string, number> = {
+    free: 1,
+    starter: 50,
+    pro: 500,
+    enterprise: Infinity
+  };
+
+  const limit = scanLimits[user.subscription_tier] || 1;
+  
+  if (user.scans_this_month >= limit) {
+    return NextResponse.json(
+      { 
+        error: 'Scan limit reached',
+        upgradeUrl: '/pricing',
+        currentUsage: user.scans_this_month,
+        limit
+      },
+      { status: 402 }
+    );
+  }
+
+  // Increment scan count
+  await supabase
+    .from('organizations')
+    .update({ scans_this_month: user.scans_this_month + 1 })
+    .eq('id', userId);
+
+  return null;
+}
+
+/**
+ * Crawl limits follow the organization's plan; anonymous scans get the free tier's
+ */
+async function organizationTier(userId?: string): Promise<Tier> {
+  if (!userId) return 'free';
+
+  const { data } = await supabase
+    .from('organizations')
+    .select('subscription_tier')
+    .eq('id', userId)
+    .single();
+
+  const tier = data?.subscription_tier;
+  return typeof tier === 'string' && tier in CRAWL_LIMITS ? tier as Tier : 'free';
+}
+
+/**
+ * Run the scan and analysis pipeline for a scan record. With a static
+ * build, its HTML files are scanned instead of crawling config.url.
+ */
+export async function queueScan(scanId: string, config: ScanRequest, staticBuild?: StaticBuild) {
   try {
     // Update status to scanning
     await supabase
@@ -125,18 +187,36 @@ async function queueScan(scanId: string, config: z.infer<typeof scanRequestSchem
       })
       .eq('id', scanId);
 
-    // Initialize scanner and analyzer
-    const scanner = new ComplianceScanner();
+    // Initialize scanner and analyzer; evidence (screenshots, transcripts) is stored against the scan
+    const scanner = new ComplianceScanner(await organizationTier(config.userId), scanId);
     const analyzer = new LLMComplianceAnalyzer();
     
+    // Findings of unchanged pages are carried forward from their last analysis
+    const ruleset = rulesetKey({ wcagVersion: config.wcagVersion, wcagLevel: config.wcagLevel, depth: config.scanType, probeForms: config.probeForms });
+    // (build pages all share one placeholder origin, so they never reuse findings;
+    // snapshots belong to an organization, so anonymous scans neither)
+    const snapshotOrg = staticBuild ? undefined : config.userId;
+    const previousPages = config.forceFullRescan || !snapshotOrg ? [] : await loadPageSnapshots<Violation>(snapshotOrg, config.url, ruleset);
+
     // Execute scan
     console.log(`Starting scan ${scanId} for ${config.url}`);
     const scanResults = await scanner.scanWebsite({
       url: config.url,
       depth: config.scanType,
       wcagLevel: config.wcagLevel,
+      wcagVersion: config.wcagVersion,
       includeSubpages: config.scanType === 'exhaustive',
-      maxPages: config.scanType === 'exhaustive' ? 50 : 1
+      maxPages: config.scanType === 'exhaustive' ? 50 : 1,
+      crawl: {
+        include: config.include,
+        exclude: config.exclude,
+        ignoreParams: config.ignoreParams,
+        spa: config.spa
+      },
+      previousPages,
+      forceFullRescan: config.forceFullRescan,
+      probeForms: config.probeForms,
+      staticBuild
     });
 
     // Update status to analyzing
@@ -151,10 +231,11 @@ async function queueScan(scanId: string, config: z.infer<typeof scanRequestSchem
       scanResults.violations
     );
 
-    // Combine violations
+    // Combine violations; shared-component findings count once however many pages repeat them
+    const contextualViolations = llmAnalysis.contextualViolations.filter(v => !v.falsePositive);
     const allViolations = [
-      ...scanResults.violations,
-      ...llmAnalysis.contextualViolations.filter(v => !v.falsePositive)
+      ...scanResults.issues.map(issue => issue.representative),
+      ...contextualViolations
     ];
 
     // Calculate compliance score
@@ -171,6 +252,9 @@ async function queueScan(scanId: string, config: z.infer<typeof scanRequestSchem
 
     // Store detailed results
     await storeResults(scanId, scanResults, llmAnalysis, riskAssessment, complianceScore);
+    if (snapshotOrg) {
+      await savePageSnapshots(snapshotOrg, scanId, config.url, ruleset, scanResults.pages);
+    }
 
     // Update scan completion
     const processingTime = Date.now() - new Date(scanResults.timestamp).getTime();
@@ -182,11 +266,13 @@ async function queueScan(scanId: string, config: z.infer<typeof scanRequestSchem
         compliance_score: complianceScore,
         lawsuit_risk_score: riskAssessment.lawsuitProbability,
         total_violations: allViolations.length,
+        total_instances: scanResults.violations.length + contextualViolations.length,
         critical_violations: allViolations.filter(v => v.severity === 'critical').length,
         serious_violations: allViolations.filter(v => v.severity === 'serious').length,
         moderate_violations: allViolations.filter(v => v.severity === 'moderate').length,
         minor_violations: allViolations.filter(v => v.severity === 'minor').length,
         elements_analyzed: scanResults.elements.length,
+        reused_pages: scanResults.reusedPages,
         processing_time_ms: processingTime,
         scan_results: scanResults
       })
@@ -217,26 +303,55 @@ async function storeResults(
   riskAssessment: any,
   complianceScore: number
 ) {
-  // Store violations
-  const violations = [...scanResults.violations, ...llmAnalysis.contextualViolations];
+  // Store one row per issue; repeats across pages are listed as occurrences.
+  // Contextual findings aren't located on the page, so each is its own unclustered issue
+  const issues: IssueCluster<Violation>[] = [
+    ...scanResults.issues,
+    ...llmAnalysis.contextualViolations.map((violation: Violation): IssueCluster<Violation> => ({
+      key: '',
+      scope: 'page',
+      region: null,
+      representative: violation,
+      occurrences: [{ pageUrl: scanResults.url, selector: violation.elementSelector, fingerprint: violationFingerprint(violation) }],
+      pageCount: 1
+    }))
+  ];
   
-  for (const violation of violations) {
+  for (const { key, scope, representative: violation, occurrences } of issues) {
     await supabase
       .from('violations')
       .insert({
         scan_id: scanId,
-        wcag_criterion: violation.wcagCriterion || violation.rule,
+        wcag_criterion: violation.wcagCriterion,
+        wcag_version: violation.wcagVersion,
+        conformance_level: violation.wcagLevel,
         severity: violation.severity,
-        element_selector: violation.element,
-        element_html: violation.html?.substring(0, 1000),
-        page_url: scanResults.url,
+        element_type: violation.elementType,
+        element_selector: violation.elementSelector,
+        element_html: violation.elementHtml?.substring(0, 1000),
+        page_url: violation.pageUrl || scanResults.url,
+        viewport: violation.viewport,
         description: violation.message,
-        user_impact: violation.impact,
-        legal_risk: violation.legalRisk,
+        user_impact: violation.userImpact,
+        business_impact: violation.businessImpact,
+        legal_risk: violation.legalRiskLevel,
         lawsuit_probability: violation.lawsuitProbability,
-        fix_description: violation.howToFix,
-        fix_code: violation.codeExample,
-        auto_fixable: violation.severity !== 'critical'
+        fix_description: violation.fixDescription,
+        fix_code: violation.fixCode,
+        fix_effort: violation.fixEffort,
+        estimated_fix_time: violation.estimatedFixTime,
+        ai_confidence: violation.aiConfidence,
+        needs_review: !!violation.needsReview,
+        auto_fixable: violation.severity !== 'critical',
+        // Issues found only after opening a menu/dialog record that state
+        evidence: violation.evidence || violation.state
+          ? { ...violation.evidence, ...(violation.state ? { state: violation.state } : {}) }
+          : null,
+        fingerprint: violation.fingerprint ?? violationFingerprint(violation),
+        cluster_key: key || null,
+        issue_scope: scope,
+        occurrence_count: occurrences.length,
+        occurrences: occurrences.length > 1 ? occurrences : null
       });
   }
 
@@ -272,7 +387,7 @@ async function storeResults(
         organization_id: scanData.organization_id,
         scan_id: scanId,
         compliance_score: complianceScore,
-        violation_count: violations.length
+        violation_count: issues.length
       });
   }
 }
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ScanRequest, queueScan, reserveScan } from './scan';
+import { STATIC_BUILD_ORIGIN, StaticBuild, StaticBuildError, extractZipBundle, openStaticBuild } from '@/lib/scanner/static-site';
+
+// Initialize Supabase client
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_KEY!
+);
+
+// Compressed upload size
+const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+
+const staticScanSchema = z.object({
+  commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, 'Expected a git commit SHA'),
+  buildName: z.string().min(1).max(100).optional(), // e.g. 'web/main' or the PR branch
+  // Where the build will be deployed, recorded as the scan URL
+  siteUrl: z.string().url().optional(),
+  scanType: z.enum(['surface', 'interactive', 'exhaustive']).default('interactive'),
+  wcagLevel: z.enum(['A', 'AA', 'AAA']).default('AA'),
+  wcagVersion: z.enum(['2.0', '2.1', '2.2']).default('2.2'),
+  userId: z.string().uuid().optional()
+});
+
+export type StaticScanRequest = z.infer<typeof staticScanSchema>;
+
+/**
+ * Create a scan record tied to the commit and run the normal scan
+ * pipeline over every HTML file of the build. Resolves once the scan
+ * has been queued; `done` settles when it has finished.
+ */
+export async function startStaticScan(
+  build: StaticBuild,
+  request: StaticScanRequest
+): Promise<{ scanId: string; done: Promise<void> }> {
+  const { data: scan, error } = await supabase
+    .from('scans')
+    .insert({
+      org_id: request.userId,
+      organization_id: request.userId,
+      url: request.siteUrl || `${STATIC_BUILD_ORIGIN}/`,
+      scan_type: request.scanType,
+      wcag_level: request.wcagLevel,
+      wcag_version: request.wcagVersion,
+      source_type: 'static',
+      commit_sha: request.commitSha.toLowerCase(),
+      build_name: request.buildName || null,
+      status: 'pending'
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create scan record: ${error.message}`);
+  }
+
+  const config: ScanRequest = {
+    url: `${STATIC_BUILD_ORIGIN}/`,
+    scanType: request.scanType,
+    wcagLevel: request.wcagLevel,
+    wcagVersion: request.wcagVersion,
+    forceFullRescan: true,
+    spa: false,
+    // The probe's sandbox context has no routes into the build
+    probeForms: false,
+    userId: request.userId
+  };
+
+  return { scanId: scan.id, done: queueScan(scan.id, config, build) };
+}
+
+/**
+ * POST multipart/form-data: bundle (zip of the build output), commitSha,
+ * and optionally buildName, siteUrl, scanType, wcagLevel, wcagVersion, userId
+ */
+export async function POST(req: NextRequest) {
+  let workDir: string | null = null;
+
+  try {
+    const form = await req.formData();
+    const bundle = form.get('bundle');
+    if (!(bundle instanceof Blob)) {
+      return NextResponse.json(
+        { error: 'A zip of the build output is required (field "bundle")' },
+        { status: 400 }
+      );
+    }
+    if (bundle.size > MAX_BUNDLE_BYTES) {
+      return NextResponse.json(
+        { error: `Bundle exceeds ${MAX_BUNDLE_BYTES / 1024 / 1024}MB` },
+        { status: 413 }
+      );
+    }
+
+    const fields = Object.fromEntries(
+      ['commitSha', 'buildName', 'siteUrl', 'scanType', 'wcagLevel', 'wcagVersion', 'userId']
+        .map(name => [name, form.get(name) ?? undefined])
+        .filter(([, value]) => typeof value === 'string' && value !== '')
+    );
+    const request = staticScanSchema.parse(fields);
+
+    workDir = await mkdtemp(path.join(os.tmpdir(), 'equalshield-build-'));
+    await extractZipBundle(Buffer.from(await bundle.arrayBuffer()), workDir);
+    const build = await openStaticBuild(workDir);
+
+    const limitResponse = await reserveScan(request.userId);
+    if (limitResponse) return limitResponse;
+
+    const { scanId, done } = await startStaticScan(build, request);
+
+    // The extracted bundle lives until the scan is done with it
+    const cleanupDir = workDir;
+    workDir = null;
+    done.finally(() => rm(cleanupDir, { recursive: true, force: true })).catch(console.error);
+
+    return NextResponse.json({
+      scanId,
+      status: 'queued',
+      commitSha: request.commitSha,
+      pagesFound: build.pages.length,
+      statusUrl: `/api/scan/${scanId}/status`,
+      resultsUrl: `/api/scan/${scanId}/results`
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof StaticBuildError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Static build scan failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to initiate scan' },
+      { status: 500 }
+    );
+  } finally {
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+}
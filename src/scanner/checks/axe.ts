@@ -0,0 +1,68 @@
+import AxeBuilder from '@axe-core/playwright';
+import type { Page } from 'playwright';
+import { ScanResultsNormalizer } from '@/lib/scan-results';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+const FIX_EFFORT = { low: 'easy', medium: 'moderate', high: 'complex' } as const;
+
+// wcag111 → 1.1.1
+function criterionFromTags(tags: string[]): string | undefined {
+  const tag = tags.find(t => /^wcag\d{3,}$/.test(t));
+  return tag ? `${tag[4]}.${tag[5]}.${tag.slice(6)}` : undefined;
+}
+
+function levelFromTags(tags: string[]): 'A' | 'AA' | 'AAA' {
+  // Versioned tags too (wcag21aa, wcag22aa)
+  if (tags.some(tag => /^wcag2\d*aaa$/.test(tag))) return 'AAA';
+  if (tags.some(tag => /^wcag2\d*aa$/.test(tag))) return 'AA';
+  return 'A';
+}
+
+/**
+ * axe-core for the selected WCAG version and level
+ */
+export const axeCheck: CheckModule = {
+  id: 'axe',
+  rerunInStates: true,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    let builder = new AxeBuilder({ page }).withTags(context.axeTags);
+    const disabled = context.axeTags.includes('wcag2aaa') ? [] : ['color-contrast-enhanced']; // AAA only
+    // The contrast module judges text against the rendered pixels instead
+    if (context.modules.includes('contrast')) disabled.push('color-contrast');
+    // The rules module checks autocomplete values along with fields missing one
+    if (context.modules.includes('rules') && context.rules.isActive('1.3.5')) disabled.push('autocomplete-valid');
+    if (disabled.length) builder = builder.disableRules(disabled);
+
+    const results = await builder.analyze();
+    const url = page.url();
+
+    // Normalized per node, in the order of the flattened results
+    const nodes = results.violations.flatMap(violation => violation.nodes.map(node => ({ violation, node })));
+    return ScanResultsNormalizer.normalizeAxeResults(results, context.scanId || '', url).map((finding, index) => {
+      const { violation, node } = nodes[index];
+      return {
+        check: 'axe',
+        ruleId: finding.ruleId,
+        wcagCriterion: criterionFromTags(violation.tags) || finding.wcagCriterion,
+        wcagLevel: levelFromTags(violation.tags),
+        severity: finding.impact,
+        elementType: finding.elementType,
+        elementSelector: finding.selector,
+        elementHtml: finding.snippet,
+        pageUrl: url,
+        message: finding.help,
+        userImpact: finding.userImpact,
+        businessImpact: finding.businessImpact,
+        legalRiskLevel: finding.legalRisk,
+        fixDescription: node.failureSummary || finding.remediation.description,
+        fixCode: finding.remediation.code,
+        fixEffort: FIX_EFFORT[finding.remediation.effort],
+        estimatedFixTime: finding.estimatedFixTime,
+        quickWin: finding.quickWin,
+        helpUrl: finding.helpUrl
+      };
+    });
+  }
+};
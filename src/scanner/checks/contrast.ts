@@ -0,0 +1,66 @@
+import type { Page } from 'playwright';
+import { analyzePixelContrast } from '@/lib/scanner/contrast';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+/**
+ * 1.4.3 text contrast against the rendered background pixels, so text over
+ * images and gradients is judged by what users actually see. Sampling
+ * hides text while it screenshots, so the module doesn't re-run per state.
+ */
+export const contrastCheck: CheckModule = {
+  id: 'contrast',
+  rerunInStates: false,
+
+  async run(page: Page, _context: CheckContext): Promise<Violation[]> {
+    const results = await analyzePixelContrast(page);
+    const url = page.url();
+
+    return results
+      .filter(result => result.verdict !== 'pass')
+      .map((result): Violation => {
+        const needsReview = result.verdict === 'needs_review';
+        const worst = result.worstRatio.toFixed(2);
+        const median = result.medianRatio.toFixed(2);
+
+        return {
+          check: 'contrast',
+          ruleId: 'color-contrast',
+          wcagCriterion: '1.4.3',
+          wcagLevel: 'AA',
+          severity: needsReview ? 'moderate' : 'serious',
+          elementType: 'text',
+          elementSelector: result.sample.selector,
+          elementHtml: result.sample.html,
+          pageUrl: url,
+          message: needsReview
+            ? `Text contrast ratio varies across its background (worst ${worst}:1)`
+            : `Text contrast ratio ${worst}:1 is below ${result.requiredRatio}:1`,
+          userImpact: needsReview
+            ? `Text over a varied background (image or gradient) drops to ${worst}:1 in places (median ${median}:1; needs ${result.requiredRatio}:1)`
+            : `Insufficient contrast (${worst}:1; needs ${result.requiredRatio}:1)`,
+          businessImpact: 'Content inaccessible to users with low vision, colorblindness',
+          legalRiskLevel: needsReview ? 'medium' : 'high',
+          fixDescription: needsReview
+            ? `Verify the text stays readable across the whole background; add a solid or semi-opaque backdrop behind it to guarantee ${result.requiredRatio}:1`
+            : `Increase contrast to at least ${result.requiredRatio}:1`,
+          fixCode: needsReview
+            ? `/* Example backdrop for text over images */\nbackground-color: rgba(0, 0, 0, 0.7);\ncolor: #FFFFFF;`
+            : `/* Example contrast fix */\ncolor: #000000; /* dark text */\n/* or */\nbackground-color: #FFFFFF; /* light background */`,
+          fixEffort: 'easy',
+          estimatedFixTime: '15 minutes',
+          aiConfidence: needsReview ? 0.5 : 0.9,
+          needsReview,
+          evidence: {
+            contrast: {
+              worstRatio: Number(result.worstRatio.toFixed(2)),
+              medianRatio: Number(result.medianRatio.toFixed(2)),
+              requiredRatio: result.requiredRatio,
+              sampledPixels: result.sampledPixels,
+              backgroundSpread: Number(result.backgroundSpread.toFixed(2))
+            }
+          }
+        };
+      });
+  }
+};
@@ -0,0 +1,357 @@
+import type { Page } from 'playwright';
+import { exposeAccessibleNames } from '@/lib/scanner/ax-tree';
+import { collectFromFrames, installDomHelpers, scopedSelector } from '@/lib/scanner/dom-scope';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+/**
+ * Custom DOM checks
+ *
+ * Attribute-level checks that run in every frame and through open shadow
+ * roots (see lib/scanner/dom-scope). The accessible-name checks use axe's
+ * rule ids and stand in for axe when it isn't part of the run; names and
+ * roles come from the browser's accessibility tree (lib/scanner/ax-tree),
+ * with attribute checks only where the tree isn't available. The
+ * click-handler heuristic gives way to real Tab traversal when the
+ * keyboard module runs.
+ */
+
+interface DomCheckOptions {
+  names: boolean;
+  clickHandlers: boolean;
+}
+
+async function elementChecks(page: Page, options: DomCheckOptions): Promise<Violation[]> {
+  return await collectFromFrames(page, async ({ frame, path }) => {
+    const frameViolations: Violation[] = await frame.evaluate(({ pageUrl, names, clickHandlers }) => {
+      const violations: Violation[] = [];
+      const dom = window.__esDom!;
+
+      const isHidden = (el: Element) => {
+        const s = window.getComputedStyle(el as HTMLElement);
+        return s.display === 'none' || s.visibility === 'hidden' || (el as HTMLElement).offsetParent === null;
+      };
+
+      // Computed role and name: undefined when the frame has no accessibility
+      // tree map, null when the element isn't exposed at all
+      const exposed = (el: Element) => window.__esAx ? window.__esAx.get(el) ?? null : undefined;
+
+      // 1) Images: alt rules with decorative & aria-hidden allowances
+      if (names) dom.queryAll('img, [role="img"], svg').forEach((el, idx) => {
+        if (isHidden(el)) return;
+
+        const img = el as HTMLElement;
+        const ax = exposed(img);
+        let missing: boolean;
+
+        if (ax !== undefined) {
+          // alt="", role="presentation" and aria-hidden images aren't exposed; an
+          // inline <svg> without role="img" isn't announced as an image
+          missing = !!ax && ['image', 'img'].includes(ax.role) && !ax.name;
+        } else {
+          const ariaHidden = img.getAttribute('aria-hidden') === 'true';
+          const role = img.getAttribute('role');
+          const alt = (img as HTMLImageElement).alt ?? null;
+
+          const decorative =
+            role === 'presentation' ||
+            alt === '' ||
+            ariaHidden;
+
+          const hasName =
+            !!alt ||
+            !!img.getAttribute('aria-label') ||
+            !!img.getAttribute('aria-labelledby') ||
+            (img.tagName.toLowerCase() === 'svg' && !!img.querySelector('title'));
+
+          missing = !decorative && !hasName;
+        }
+
+        if (missing) {
+          violations.push({
+            check: 'dom',
+            ruleId: 'image-alt',
+            wcagCriterion: '1.1.1',
+            severity: 'critical',
+            elementType: 'image',
+            elementSelector: dom.shadowPath(img) + (img.id ? `#${img.id}` : `:nth-image(${idx+1})`),
+            elementHtml: img.outerHTML.slice(0, 200),
+            pageUrl,
+            message: 'Image has no alternative text',
+            userImpact: 'Screen reader users cannot access image information',
+            legalRiskLevel: 'high',
+            fixDescription: 'Provide a text alternative (alt or accessible name).',
+            fixCode: img.tagName === 'IMG'
+              ? `<img alt="[Describe image]" ${img.outerHTML.slice(4)}`
+              : `<svg role="img"><title>[Describe graphic]</title>…</svg>`,
+            fixEffort: 'trivial',
+            estimatedFixTime: '2 minutes',
+            aiConfidence: 0.95
+          });
+        }
+      });
+
+      // 2) Form labels: ignore hidden/aria-hidden, handle wrapper <label>
+      if (names) dom.queryAll('input, select, textarea').forEach((inputEl) => {
+        const el = inputEl as HTMLElement;
+        if (isHidden(el) || el.getAttribute('aria-hidden') === 'true' || (el as HTMLInputElement).type === 'hidden') return;
+
+        const id = el.id;
+        const ax = exposed(el);
+        let unlabelled: boolean;
+
+        if (ax !== undefined) {
+          // Names from <label>, aria-labelledby (existing ids only), aria-label, title or placeholder
+          unlabelled = !!ax && !ax.name;
+        } else {
+          const root = el.getRootNode() as Document | ShadowRoot;
+          const hasExplicit = !!(id && root.querySelector(`label[for="${id}"]`));
+          const wrapped = !!el.closest('label');
+          const hasAria = !!el.getAttribute('aria-label') || !!el.getAttribute('aria-labelledby');
+          unlabelled = !hasExplicit && !wrapped && !hasAria;
+        }
+
+        if (unlabelled) {
+          violations.push({
+            check: 'dom',
+            ruleId: 'label',
+            wcagCriterion: '3.3.2',
+            severity: 'serious',
+            elementType: 'form',
+            elementSelector: dom.shadowPath(el) + (id ? `#${id}` : el.tagName.toLowerCase()),
+            elementHtml: el.outerHTML.slice(0, 200),
+            pageUrl,
+            message: 'Form field has no label',
+            userImpact: 'Users cannot determine purpose of the input field',
+            businessImpact: 'Reduced form completion rates, legal compliance risk',
+            legalRiskLevel: 'high',
+            fixDescription: 'Associate a visible label or aria-label/aria-labelledby.',
+            fixCode: id
+              ? `<label for="${id}">[Label]</label>\n${el.outerHTML}`
+              : `<label>[Label]\n  ${el.outerHTML}\n</label>`,
+            fixEffort: 'easy',
+            estimatedFixTime: '5 minutes',
+            aiConfidence: 0.90
+          });
+        }
+      });
+
+      // 3) Keyboard: non-native interactive with missing key handlers
+      if (clickHandlers) dom.queryAll('[role="button"], .button, [onclick]').forEach((el) => {
+        if (isHidden(el)) return;
+
+        const he = el as HTMLElement;
+        const tag = he.tagName.toLowerCase();
+        const isNative = tag === 'button' || (tag === 'a' && (he as HTMLAnchorElement).href);
+
+        if (!isNative) {
+          const tabbable = he.getAttribute('tabindex') !== '-1';
+          const hasKeyHandlers = !!(
+            he.getAttribute('onkeydown') ||
+            he.getAttribute('onkeypress') ||
+            he.getAttribute('onkeyup')
+          );
+
+          if (!tabbable || !hasKeyHandlers) {
+            violations.push({
+              check: 'dom',
+              ruleId: 'click-without-keyboard',
+              wcagCriterion: '2.1.1',
+              severity: 'critical',
+              elementType: 'interactive',
+              elementSelector: dom.shadowPath(he) + (he.id ? `#${he.id}` : (he.className || tag)),
+              elementHtml: he.outerHTML.slice(0, 200),
+              pageUrl,
+              message: 'Clickable element has no keyboard support',
+              userImpact: 'Keyboard-only users cannot activate this control',
+              businessImpact: 'Users with motor disabilities excluded from key functionality',
+              legalRiskLevel: 'high',
+              fixDescription: 'Use a <button> or add tabindex="0" and Enter/Space key handlers.',
+              fixCode: `<button>${he.textContent?.trim() || 'Action'}</button>`,
+              fixEffort: 'easy',
+              estimatedFixTime: '10 minutes',
+              aiConfidence: 0.88
+            });
+          }
+        }
+      });
+
+      // Accessible name from the tree, or from aria-label/aria-labelledby and content
+      const unnamed = (el: Element) => {
+        const ax = exposed(el);
+        if (ax !== undefined) return !!ax && !ax.name;
+        return !el.hasAttribute('aria-label') && !el.hasAttribute('aria-labelledby') && !el.textContent?.trim();
+      };
+
+      // 4) Buttons without accessible names
+      if (names) dom.queryAll('button').forEach((button) => {
+        if (isHidden(button)) return;
+
+        if (unnamed(button)) {
+          violations.push({
+            check: 'dom',
+            ruleId: 'button-name',
+            wcagCriterion: '4.1.2',
+            severity: 'critical',
+            elementType: 'button',
+            elementSelector: dom.shadowPath(button) + (button.id ? `#${button.id}` : (button.className ? `.${button.className.split(' ')[0]}` : 'button')),
+            elementHtml: button.outerHTML.substring(0, 200),
+            pageUrl,
+            message: 'Button has no accessible name',
+            userImpact: 'Screen reader users don\'t know button purpose',
+            businessImpact: 'Critical actions inaccessible to screen reader users',
+            legalRiskLevel: 'high',
+            fixDescription: 'Add accessible name to button',
+            fixCode: `<button aria-label="[Describe button action]">${button.innerHTML}</button>`,
+            fixEffort: 'easy',
+            estimatedFixTime: '3 minutes',
+            aiConfidence: 0.92
+          });
+        }
+      });
+
+      // 5) Links without accessible names
+      if (names) dom.queryAll('a[href]').forEach((link) => {
+        if (isHidden(link)) return;
+
+        if (unnamed(link)) {
+          violations.push({
+            check: 'dom',
+            ruleId: 'link-name',
+            wcagCriterion: '2.4.4',
+            severity: 'serious',
+            elementType: 'link',
+            elementSelector: dom.shadowPath(link) + (link.id ? `#${link.id}` : 'a[href]'),
+            elementHtml: link.outerHTML.substring(0, 200),
+            pageUrl,
+            message: 'Link has no accessible name',
+            userImpact: 'Screen reader users don\'t know link destination',
+            businessImpact: 'Navigation inaccessible, users cannot complete user journeys',
+            legalRiskLevel: 'medium',
+            fixDescription: 'Add descriptive text to link',
+            fixCode: `<a href="${(link as HTMLAnchorElement).href}">[Descriptive link text]</a>`,
+            fixEffort: 'easy',
+            estimatedFixTime: '3 minutes',
+            aiConfidence: 0.88
+          });
+        }
+      });
+
+      // 6) aria-labelledby pointing at ids that don't exist; the reference silently gives no name
+      if (names) dom.queryAll('[aria-labelledby]').forEach((el) => {
+        if (isHidden(el)) return;
+
+        const root = el.getRootNode() as Document | ShadowRoot;
+        const missingIds = el.getAttribute('aria-labelledby')!.split(/\s+/).filter(id => id && !root.getElementById(id));
+        if (missingIds.length === 0) return;
+
+        violations.push({
+          check: 'dom',
+          ruleId: 'aria-valid-attr-value',
+          wcagCriterion: '4.1.2',
+          severity: 'critical',
+          elementType: el.tagName.toLowerCase(),
+          elementSelector: dom.shadowPath(el) + dom.selectorFor(el),
+          elementHtml: el.outerHTML.substring(0, 200),
+          pageUrl,
+          message: `aria-labelledby references missing id${missingIds.length === 1 ? '' : 's'}: ${missingIds.join(', ')}`,
+          userImpact: 'The label is never announced; screen reader users get a partial name or none',
+          legalRiskLevel: 'high',
+          fixDescription: 'Point aria-labelledby at ids that exist in the same document or shadow root.',
+          fixCode: `<span id="${missingIds[0]}">[Label text]</span>`,
+          fixEffort: 'easy',
+          estimatedFixTime: '5 minutes',
+          aiConfidence: 0.95
+        });
+      });
+
+      return violations;
+    }, { pageUrl: page.url(), ...options });
+
+    return frameViolations.map(v => ({ ...v, elementSelector: scopedSelector(path, v.elementSelector) }));
+  });
+}
+
+async function headingStructure(page: Page): Promise<Violation[]> {
+  // Document outline of the top frame only; embedded frames have their own
+  await installDomHelpers(page.mainFrame());
+
+  return await page.evaluate((pageUrl) => {
+    const violations: Violation[] = [];
+    const dom = window.__esDom!;
+
+    // Check heading hierarchy (WCAG 1.3.1), including headings rendered in shadow roots
+    const headings = dom.queryAll('h1, h2, h3, h4, h5, h6');
+    let lastLevel = 0;
+
+    headings.forEach((heading, index) => {
+      const level = parseInt(heading.tagName[1]);
+      if (index === 0 && level !== 1) {
+        violations.push({
+          check: 'dom',
+          ruleId: 'page-starts-with-h1',
+          wcagCriterion: '1.3.1',
+          severity: 'moderate',
+          elementType: 'heading',
+          elementSelector: dom.shadowPath(heading) + (heading.id ? `#${heading.id}` : heading.tagName.toLowerCase()),
+          elementHtml: heading.outerHTML.substring(0, 100),
+          pageUrl,
+          message: `Page starts with H${level} instead of H1`,
+          userImpact: 'Page should start with H1 for proper document structure',
+          legalRiskLevel: 'low',
+          fixDescription: 'Use H1 for main page heading',
+          fixCode: `<h1>${heading.textContent}</h1>`,
+          fixEffort: 'easy',
+          estimatedFixTime: '5 minutes',
+          aiConfidence: 0.75
+        });
+      }
+
+      if (level - lastLevel > 1) {
+        violations.push({
+          check: 'dom',
+          ruleId: 'heading-order',
+          wcagCriterion: '1.3.1',
+          severity: 'moderate',
+          elementType: 'heading',
+          elementSelector: dom.shadowPath(heading) + (heading.id ? `#${heading.id}` : heading.tagName.toLowerCase()),
+          elementHtml: heading.outerHTML.substring(0, 100),
+          pageUrl,
+          message: `Heading jumps from H${lastLevel} to H${level}`,
+          userImpact: 'Confusing document structure for screen readers',
+          legalRiskLevel: 'medium',
+          fixDescription: `Use H${lastLevel + 1} instead of H${level}`,
+          fixCode: `<h${lastLevel + 1}>${heading.textContent}</h${lastLevel + 1}>`,
+          fixEffort: 'easy',
+          estimatedFixTime: '5 minutes',
+          aiConfidence: 0.70
+        });
+      }
+      lastLevel = level;
+    });
+
+    return violations;
+  }, page.url());
+}
+
+export const domCheck: CheckModule = {
+  id: 'dom',
+  rerunInStates: true,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const names = !context.modules.includes('axe');
+    if (names) {
+      await exposeAccessibleNames(page);
+    }
+
+    const violations = await elementChecks(page, {
+      names,
+      clickHandlers: !context.modules.includes('keyboard')
+    });
+    // The outline doesn't change when a menu opens
+    if (!context.state) {
+      violations.push(...await headingStructure(page));
+    }
+    return violations;
+  }
+};
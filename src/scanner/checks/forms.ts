@@ -0,0 +1,187 @@
+import type { Page } from 'playwright';
+import { FormProbeResult, ProbeError, probeForms } from '@/lib/scanner/forms';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+// Messages that say something is wrong without saying what would be right
+const GENERIC_MESSAGE = /^(this field is |field is |value is |input is )?(invalid|not valid|incorrect|wrong|error)(\s+(input|value|format|entry))?[.!]?$/i;
+
+function evidenceFor(result: FormProbeResult, error?: ProbeError): Violation['evidence'] {
+  return {
+    form: {
+      pass: result.pass,
+      submitted: result.submitted,
+      message: error?.message,
+      focus: result.focus
+    }
+  };
+}
+
+const fieldName = (error: ProbeError) => (error.fieldLabel ? `"${error.fieldLabel}"` : 'its field');
+
+/**
+ * 3.3.1 Error Identification, 3.3.3 Error Suggestion and 4.1.3 Status
+ * Messages for form errors: each form is submitted empty and with
+ * malformed values in a sandbox that stops the submission (see
+ * lib/scanner/forms). Submitting forms is opt-in (ScanConfig.probeForms)
+ * and happens in a separate context (opened like the scan's own), so it
+ * doesn't run per state.
+ */
+export const formsCheck: CheckModule = {
+  id: 'forms',
+  rerunInStates: false,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const results = await probeForms(page, { openContext: context.openContext });
+    const url = page.url();
+    const violations: Violation[] = [];
+    const reported = new Set<string>();
+
+    const report = (violation: Omit<Violation, 'check' | 'pageUrl' | 'wcagVersion' | 'elementType' | 'legalRiskLevel'> & Partial<Violation>) => {
+      const key = `${violation.ruleId}|${violation.elementSelector}`;
+      if (reported.has(key)) return;
+      reported.add(key);
+      violations.push({
+        check: 'forms',
+        pageUrl: url,
+        wcagVersion: '2.0',
+        elementType: 'form',
+        legalRiskLevel: violation.severity === 'moderate' ? 'medium' : 'high',
+        ...violation
+      });
+    };
+
+    for (const result of results) {
+      // The browser's own validation bubble names the problem and focuses the field
+      if (result.native) continue;
+
+      const { form } = result;
+      if (result.errors.length === 0) {
+        const required = form.fields.some(field => field.required);
+        if (result.pass === 'empty' && !required) continue;
+
+        report({
+          ruleId: 'form-errors-not-shown',
+          wcagCriterion: '3.3.1',
+          wcagLevel: 'A',
+          severity: 'serious',
+          elementSelector: form.selector,
+          elementHtml: form.html,
+          message: result.pass === 'empty'
+            ? `Form ${result.submitted ? 'was submitted' : 'did nothing'} with its required fields empty and showed no error`
+            : `Form ${result.submitted ? 'was submitted' : 'did nothing'} with malformed values and showed no error`,
+          userImpact: 'Users who miss a field or mistype a value are not told what went wrong, so they can\'t fix it',
+          fixDescription: 'Validate before submitting and show a text message next to each field in error.',
+          fixCode: `<label for="email">Email</label>\n<input id="email" type="email" aria-invalid="true" aria-describedby="email-error">\n<p id="email-error">Enter an email address like name@example.com</p>`,
+          fixEffort: 'moderate',
+          estimatedFixTime: '1-2 hours',
+          // The server may still answer with errors; the probe never lets the request through
+          aiConfidence: result.submitted ? 0.5 : 0.7,
+          needsReview: result.submitted,
+          evidence: evidenceFor(result)
+        });
+        continue;
+      }
+
+      for (const error of result.errors) {
+        const element = {
+          elementSelector: error.field || error.selector,
+          elementHtml: form.html,
+          evidence: evidenceFor(result, error)
+        };
+
+        if (!error.associated) {
+          report({
+            ...element,
+            ruleId: 'error-not-associated',
+            wcagCriterion: '3.3.1',
+            wcagLevel: 'A',
+            severity: 'serious',
+            message: `Error "${error.message}" is not programmatically tied to ${fieldName(error)}`,
+            userImpact: 'Screen reader users land on the field without hearing what is wrong with it',
+            fixDescription: 'Reference the message from the field with aria-describedby (or aria-errormessage) so it is read with the field.',
+            fixCode: `<input id="phone" type="tel" aria-invalid="true" aria-describedby="phone-error">\n<p id="phone-error">${error.message}</p>`,
+            fixEffort: 'easy',
+            estimatedFixTime: '15 minutes',
+            aiConfidence: error.field ? 0.8 : 0.6
+          });
+        } else if (!error.fieldInvalid) {
+          report({
+            ...element,
+            ruleId: 'error-field-not-invalid',
+            wcagCriterion: '3.3.1',
+            wcagLevel: 'A',
+            severity: 'moderate',
+            message: `${fieldName(error).charAt(0).toUpperCase()}${fieldName(error).slice(1)} shows an error but is not marked invalid`,
+            userImpact: 'Screen reader users moving through the form can\'t tell which fields still need fixing',
+            fixDescription: 'Set aria-invalid="true" on the field while its error is shown and remove it once fixed.',
+            fixCode: `<input id="email" type="email" aria-invalid="true" aria-describedby="email-error">`,
+            fixEffort: 'trivial',
+            estimatedFixTime: '5 minutes',
+            aiConfidence: 0.8
+          });
+        }
+
+        if (result.pass === 'invalid' && error.formatted && GENERIC_MESSAGE.test(error.message) && context.rules.inScope('2.0', 'AA')) {
+          report({
+            ...element,
+            ruleId: 'error-no-suggestion',
+            wcagCriterion: '3.3.3',
+            wcagLevel: 'AA',
+            severity: 'moderate',
+            message: `Error "${error.message}" doesn't say how to correct ${fieldName(error)}`,
+            userImpact: 'Users with cognitive disabilities can\'t work out what the field expects',
+            fixDescription: 'Say what is expected, with an example of the format.',
+            fixCode: `<p id="phone-error">Enter a phone number using digits only, like 5555550123</p>`,
+            fixEffort: 'trivial',
+            estimatedFixTime: '10 minutes',
+            aiConfidence: 0.6,
+            needsReview: true
+          });
+        }
+      }
+
+      const unannounced = result.errors.filter(error => !error.announced);
+      if (unannounced.length > 0 && context.rules.inScope('2.1', 'AA')) {
+        report({
+          ruleId: 'error-not-announced',
+          wcagCriterion: '4.1.3',
+          wcagVersion: '2.1',
+          wcagLevel: 'AA',
+          severity: 'serious',
+          elementSelector: unannounced[0].selector,
+          elementHtml: form.html,
+          message: `${unannounced.length} error message${unannounced.length === 1 ? ' appears' : 's appear'} without being announced`,
+          userImpact: 'Screen reader users press submit and hear nothing, with no idea the form was rejected',
+          fixDescription: 'Move focus to the first field in error or to an error summary, or render the messages into a live region that exists before submitting.',
+          fixCode: `<div role="alert" id="form-errors"></div>\n<script>\n  document.getElementById('form-errors').textContent = 'There are 2 errors in this form';\n</script>`,
+          fixEffort: 'easy',
+          estimatedFixTime: '30 minutes',
+          aiConfidence: 0.7,
+          evidence: evidenceFor(result, unannounced[0])
+        });
+      }
+
+      if (!result.focusMoved && result.firstErrorField) {
+        report({
+          ruleId: 'error-focus-not-moved',
+          wcagCriterion: '3.3.1',
+          wcagLevel: 'A',
+          severity: 'moderate',
+          elementSelector: result.firstErrorField,
+          elementHtml: form.html,
+          message: 'Focus stays where it was instead of moving to the first field in error',
+          userImpact: 'Keyboard and screen reader users have to hunt through the form for the problem',
+          fixDescription: 'After a failed submit, focus the first invalid field (or an error summary linking to each field).',
+          fixCode: `form.querySelector('[aria-invalid="true"]')?.focus();`,
+          fixEffort: 'trivial',
+          estimatedFixTime: '10 minutes',
+          aiConfidence: 0.6,
+          evidence: evidenceFor(result)
+        });
+      }
+    }
+
+    return violations;
+  }
+};
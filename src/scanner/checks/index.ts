@@ -0,0 +1,88 @@
+import type { Page } from 'playwright';
+import type { OpenContext } from '@/lib/scanner/forms';
+import type { CheckModuleId, ScanConfig, Violation } from '../types';
+import type { WCAGRules } from '../wcag-rules';
+import { axeCheck } from './axe';
+import { rulesCheck } from './rules';
+import { domCheck } from './dom';
+import { mediaCheck } from './media';
+import { contrastCheck } from './contrast';
+import { keyboardCheck } from './keyboard';
+import { reflowCheck } from './reflow';
+import { motionCheck } from './motion';
+import { formsCheck } from './forms';
+
+/**
+ * Check modules
+ *
+ * Each module looks at a loaded page for one family of issues and reports
+ * them as Violations. The engine runs the modules selected for a scan in
+ * registry order, so modules that move focus, hide content for
+ * screenshots, resize or reload the page run after the ones that only
+ * read it.
+ */
+
+export interface CheckContext {
+  url: string;
+  rules: WCAGRules; // Selected WCAG version and level
+  axeTags: string[];
+  modules: CheckModuleId[]; // Every module in this run, so overlapping checks report once
+  scanId?: string; // Enables storing evidence artifacts
+  state?: string; // Set while re-checking an opened menu/dialog
+  openContext?: OpenContext; // Fresh context like the page's, for checks that act in isolation
+}
+
+export interface CheckModule {
+  id: CheckModuleId;
+  // Cheap enough to re-run on every opened menu, dialog and accordion
+  rerunInStates: boolean;
+  run(page: Page, context: CheckContext): Promise<Violation[]>;
+}
+
+export const CHECK_MODULES: CheckModule[] = [
+  axeCheck,
+  rulesCheck,
+  domCheck,
+  mediaCheck,
+  contrastCheck,
+  keyboardCheck,
+  reflowCheck,
+  motionCheck,
+  formsCheck
+];
+
+// Contrast sampling, keyboard traversal and reflow re-render every page;
+// watching for motion adds seconds and two reloads per page
+const DEPTH_CHECKS: Record<ScanConfig['depth'], CheckModuleId[]> = {
+  surface: ['axe', 'rules', 'dom', 'media'],
+  interactive: ['axe', 'rules', 'dom', 'media', 'contrast', 'keyboard', 'reflow'],
+  exhaustive: ['axe', 'rules', 'dom', 'media', 'contrast', 'keyboard', 'reflow', 'motion']
+};
+
+/**
+ * Modules for a scan: the explicit selection, or the defaults of its
+ * depth. Submitting forms is never a default; it takes probeForms.
+ */
+export function checksFor(config: Pick<ScanConfig, 'depth' | 'checks' | 'probeForms'>): CheckModule[] {
+  const ids: CheckModuleId[] = config.checks?.length ? config.checks : DEPTH_CHECKS[config.depth] ?? DEPTH_CHECKS.surface;
+  return CHECK_MODULES.filter(module => ids.includes(module.id) || (module.id === 'forms' && config.probeForms));
+}
+
+/**
+ * Run modules one after another against the page. A module that fails is
+ * logged and skipped so the others still report.
+ */
+export async function runChecks(page: Page, modules: CheckModule[], context: CheckContext): Promise<Violation[]> {
+  const violations: Violation[] = [];
+
+  for (const module of modules) {
+    try {
+      const found = await module.run(page, context);
+      violations.push(...found.map(violation => ({ ...violation, pageUrl: violation.pageUrl || context.url })));
+    } catch (error) {
+      console.warn(`${module.id} checks failed on ${context.url}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return violations;
+}
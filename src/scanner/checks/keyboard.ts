@@ -0,0 +1,239 @@
+import type { Page } from 'playwright';
+import { FocusStop, focusPathTo, traverseKeyboard } from '@/lib/scanner/keyboard';
+import { FocusStateCapture, FocusStateDiff, captureFocusStates, diffFocusStates } from '@/lib/scanner/focus-visible';
+import { storeArtifact } from '@/lib/scanner/artifacts';
+import type { Violation, ViolationEvidence } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+// Focus-state screenshots per page; each stop costs two element crops
+const MAX_FOCUS_VISIBLE_CHECKS = 30;
+
+async function storeFocusStateArtifacts(
+  context: CheckContext,
+  stop: FocusStop,
+  capture: FocusStateCapture,
+  wcagCriterion: string
+): Promise<NonNullable<ViolationEvidence['artifacts']>> {
+  if (!context.scanId) return [];
+
+  const stored = [];
+  for (const state of ['unfocused', 'focused'] as const) {
+    const artifact = await storeArtifact({
+      scanId: context.scanId,
+      type: 'focus_state',
+      data: capture[state],
+      contentType: 'image/png',
+      metadata: { pageUrl: context.url, selector: stop.selector, state, wcagCriterion }
+    });
+    if (artifact) {
+      stored.push({ ...artifact, label: state });
+    }
+  }
+  return stored;
+}
+
+/**
+ * Real Tab / Shift+Tab presses through the page: traps (2.1.2), controls
+ * focus never reaches (2.1.1), and focus indicators compared pixel by
+ * pixel with and without focus (2.4.7, 2.4.13). Traversal moves focus and
+ * may open menus, so it runs after the read-only modules and not per state.
+ */
+export const keyboardCheck: CheckModule = {
+  id: 'keyboard',
+  rerunInStates: false,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const violations: Violation[] = [];
+    const url = page.url();
+
+    // Check for positive tabindex (anti-pattern)
+    const positiveTabindex = await page.locator('[tabindex]:not([tabindex="-1"]):not([tabindex="0"])').all();
+
+    for (const element of positiveTabindex.slice(0, 10)) {
+      const tabIndex = await element.getAttribute('tabindex');
+      if (!tabIndex || parseInt(tabIndex) <= 0) continue;
+
+      const { tagName, selector, html } = await element.evaluate(el => ({
+        tagName: el.tagName.toLowerCase(),
+        selector: el.id ? `#${el.id}` : el.className ? `.${String(el.className).split(' ')[0]}` : el.tagName.toLowerCase(),
+        html: el.outerHTML.substring(0, 200)
+      }));
+      violations.push({
+        check: 'keyboard',
+        ruleId: 'tabindex',
+        wcagCriterion: '2.4.3',
+        severity: 'moderate',
+        elementType: tagName,
+        elementSelector: selector,
+        elementHtml: html,
+        pageUrl: url,
+        message: `Positive tabindex (${tabIndex}) overrides the reading order`,
+        userImpact: 'Confusing tab order for keyboard users',
+        legalRiskLevel: 'medium',
+        fixDescription: 'Remove positive tabindex values',
+        fixCode: 'Remove tabindex attribute or set to 0',
+        fixEffort: 'easy',
+        estimatedFixTime: '2 minutes',
+        aiConfidence: 0.85
+      });
+    }
+
+    // Capture each visible stop with and without focus for the focus-visible check
+    const focusChecks: Array<{ stop: FocusStop; capture: FocusStateCapture; diff: FocusStateDiff }> = [];
+    const traversal = await traverseKeyboard(page, {
+      onStop: async (stop) => {
+        if (!stop.visible || focusChecks.length >= MAX_FOCUS_VISIBLE_CHECKS) return;
+        try {
+          const capture = await captureFocusStates(page);
+          if (capture) {
+            focusChecks.push({ stop, capture, diff: diffFocusStates(capture) });
+          }
+        } catch (error) {
+          console.warn(`Focus state capture failed for ${stop.selector}:`, error);
+        }
+      }
+    });
+
+    if (traversal.trap) {
+      const first = traversal.trap.cycle[0];
+      violations.push({
+        check: 'keyboard',
+        ruleId: 'keyboard-trap',
+        wcagCriterion: '2.1.2',
+        severity: 'critical',
+        elementType: first.tagName,
+        elementSelector: first.selector,
+        elementHtml: first.html,
+        pageUrl: url,
+        message: 'Keyboard focus is trapped',
+        userImpact: `Keyboard focus cycles between ${traversal.trap.cycle.length} element(s) and cannot leave with Tab, Shift+Tab or Escape`,
+        legalRiskLevel: 'high',
+        fixDescription: 'Let focus move out of the component with standard keys, or close it on Escape and return focus to the page',
+        fixCode: `dialog.addEventListener('keydown', (e) => {
+  if (e.key === 'Escape') {
+    closeDialog();
+    triggerButton.focus();
+  }
+});`,
+        fixEffort: 'moderate',
+        estimatedFixTime: '1-2 hours',
+        aiConfidence: 0.9,
+        evidence: { focusPath: traversal.trap.focusPath }
+      });
+    }
+
+    for (const stop of traversal.invisible.slice(0, 10)) {
+      violations.push({
+        check: 'keyboard',
+        ruleId: 'focus-on-hidden',
+        wcagCriterion: '2.4.7',
+        severity: 'serious',
+        elementType: stop.tagName,
+        elementSelector: stop.selector,
+        elementHtml: stop.html,
+        pageUrl: url,
+        message: 'Focus lands on an invisible element',
+        userImpact: 'Keyboard focus lands on an element that cannot be seen, so users lose their place',
+        legalRiskLevel: 'medium',
+        fixDescription: 'Remove hidden elements from the tab order (tabindex="-1", inert or display:none) or make them visible on focus',
+        fixCode: `.visually-hidden:focus {
+  position: static;
+  width: auto;
+  height: auto;
+  clip: auto;
+}`,
+        fixEffort: 'easy',
+        estimatedFixTime: '15 minutes',
+        aiConfidence: 0.8,
+        evidence: { focusPath: focusPathTo(traversal.forward, stop) }
+      });
+    }
+
+    for (const { stop, capture, diff } of focusChecks) {
+      if (diff.perceptible && diff.meetsFocusAppearance) continue;
+
+      const evidence: ViolationEvidence = {
+        focusPath: focusPathTo(traversal.forward, stop),
+        focusDiff: {
+          changedPixels: diff.changedPixels,
+          contrastingPixels: diff.contrastingPixels,
+          requiredArea: diff.requiredArea
+        },
+        artifacts: await storeFocusStateArtifacts(context, stop, capture, diff.perceptible ? '2.4.13' : '2.4.7')
+      };
+
+      if (!diff.perceptible) {
+        violations.push({
+          check: 'keyboard',
+          ruleId: 'focus-visible',
+          wcagCriterion: '2.4.7',
+          severity: 'serious',
+          elementType: stop.tagName,
+          elementSelector: stop.selector,
+          elementHtml: stop.html,
+          pageUrl: url,
+          message: 'No visible focus indicator',
+          userImpact: 'Keyboard users cannot see which element has focus',
+          legalRiskLevel: 'high',
+          fixDescription: 'Do not remove the focus outline; style :focus-visible with a clear outline or border',
+          fixCode: `${stop.selector}:focus-visible {
+  outline: 3px solid #1a56db;
+  outline-offset: 2px;
+}`,
+          fixEffort: 'trivial',
+          estimatedFixTime: '5 minutes',
+          aiConfidence: 0.85,
+          evidence
+        });
+      } else {
+        violations.push({
+          check: 'keyboard',
+          ruleId: 'focus-appearance',
+          wcagCriterion: '2.4.13',
+          wcagLevel: 'AAA',
+          severity: 'minor',
+          elementType: stop.tagName,
+          elementSelector: stop.selector,
+          elementHtml: stop.html,
+          pageUrl: url,
+          message: 'Focus indicator is too small or low-contrast',
+          userImpact: 'Focus indicator is too small or too faint for low-vision users to spot',
+          legalRiskLevel: 'low',
+          fixDescription: 'Use a focus indicator at least 2px thick around the control with 3:1 contrast against its unfocused state',
+          fixCode: `${stop.selector}:focus-visible {
+  outline: 2px solid currentColor;
+  outline-offset: 2px;
+}`,
+          fixEffort: 'trivial',
+          estimatedFixTime: '5 minutes',
+          aiConfidence: 0.7,
+          evidence
+        });
+      }
+    }
+
+    for (const control of traversal.unreachable.slice(0, 20)) {
+      violations.push({
+        check: 'keyboard',
+        ruleId: 'keyboard-unreachable',
+        wcagCriterion: '2.1.1',
+        severity: 'critical',
+        elementType: control.tagName,
+        elementSelector: control.selector,
+        elementHtml: control.html,
+        pageUrl: url,
+        message: 'Control cannot be reached with the keyboard',
+        userImpact: 'Keyboard-only users cannot reach this control with Tab or Shift+Tab',
+        legalRiskLevel: 'high',
+        fixDescription: 'Use a native button/link, or add tabindex="0" and Enter/Space key handlers',
+        fixCode: `<button type="button" onclick="handleClick()">[Action]</button>`,
+        fixEffort: 'easy',
+        estimatedFixTime: '15 minutes',
+        aiConfidence: 0.85,
+        evidence: { focusPath: traversal.forward.slice(0, 50).map(stop => stop.selector) }
+      });
+    }
+
+    return violations;
+  }
+};
@@ -0,0 +1,207 @@
+import type { Page } from 'playwright';
+import {
+  MIN_CAPTION_COVERAGE,
+  MediaItem,
+  captionStatus,
+  hasAudioDescription,
+  inventoryMedia,
+  storeMediaInventory
+} from '@/lib/scanner/media';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+const PROVIDERS: Record<string, string> = { youtube: 'YouTube', vimeo: 'Vimeo' };
+
+const minutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+function evidenceFor(item: MediaItem): Violation['evidence'] {
+  return {
+    media: {
+      kind: item.kind,
+      durationSeconds: item.durationSeconds,
+      tracks: item.tracks.map(({ kind, src, cues, coverage, error }) => ({ kind, src, cues, coverage, error })),
+      transcript: item.transcript
+    }
+  };
+}
+
+type CaptionFields = Pick<Violation, 'ruleId' | 'severity' | 'message' | 'legalRiskLevel' | 'fixDescription' | 'fixCode' | 'fixEffort' | 'estimatedFixTime' | 'aiConfidence' | 'needsReview'>;
+
+function captionViolation(item: MediaItem): CaptionFields | null {
+  const tracks = item.tracks.filter(track => track.kind !== 'descriptions');
+
+  switch (captionStatus(item)) {
+    case 'missing':
+      return {
+        ruleId: 'video-caption',
+        severity: 'critical',
+        message: 'Video has no captions track',
+        legalRiskLevel: 'high',
+        fixDescription: 'Add a WebVTT captions track to the video',
+        fixCode: `<video controls>\n  <source src="video.mp4" type="video/mp4">\n  <track kind="captions" src="captions.vtt" srclang="en" label="English">\n</video>`,
+        fixEffort: 'moderate',
+        estimatedFixTime: '1-2 hours',
+        aiConfidence: 0.85
+      };
+    case 'invalid':
+      return {
+        ruleId: 'caption-track-invalid',
+        severity: 'serious',
+        message: `Captions track ${tracks[0].error}, so no captions are shown`,
+        legalRiskLevel: 'high',
+        fixDescription: 'Serve the captions as a WebVTT file (starting with "WEBVTT", timestamps like 00:01.000) at the track\'s src.',
+        fixCode: `WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nWelcome to the product tour.`,
+        fixEffort: 'easy',
+        estimatedFixTime: '15 minutes',
+        aiConfidence: 0.85
+      };
+    case 'incomplete': {
+      const track = tracks.find(candidate => !candidate.error)!;
+      const duration = item.durationSeconds !== null ? ` of the ${minutes(item.durationSeconds)} video` : '';
+      return {
+        ruleId: 'captions-incomplete',
+        severity: 'moderate',
+        message: track.coverage !== undefined && track.coverage !== null && track.coverage < MIN_CAPTION_COVERAGE
+          ? `Captions stop ${Math.round(track.coverage * 100)}% of the way through${duration}`
+          : `Captions have a ${minutes(track.longestGapSeconds || 0)} stretch with no cues${duration}`,
+        legalRiskLevel: 'medium',
+        fixDescription: 'Caption the whole video, including speech and meaningful sounds; mark long music or silent stretches with a cue such as [music].',
+        fixCode: `00:04:10.000 --> 00:06:30.000\n[upbeat music]`,
+        fixEffort: 'moderate',
+        estimatedFixTime: '1 hour',
+        aiConfidence: 0.6,
+        // Music or silence can legitimately go uncaptioned
+        needsReview: true
+      };
+    }
+    case 'unverified':
+      return {
+        ruleId: 'embedded-video-captions',
+        severity: 'moderate',
+        message: `Captions for the embedded ${PROVIDERS[item.kind]} video can't be checked from the page`,
+        legalRiskLevel: 'medium',
+        fixDescription: `Upload captions to ${PROVIDERS[item.kind]} (not only auto-generated ones) and turn them on by default in the embed URL.`,
+        fixCode: item.kind === 'youtube'
+          ? `<iframe src="https://www.youtube.com/embed/VIDEO_ID?cc_load_policy=1&cc_lang_pref=en" title="Product tour"></iframe>`
+          : `<iframe src="https://player.vimeo.com/video/VIDEO_ID?texttrack=en" title="Product tour"></iframe>`,
+        fixEffort: 'easy',
+        estimatedFixTime: '30 minutes',
+        aiConfidence: 0.4,
+        needsReview: true
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Media alternatives
+ *
+ * Every video, audio element and YouTube/Vimeo embed is inventoried (see
+ * lib/scanner/media): video needs captions that cover it (1.2.2) and
+ * audio description or a media alternative (1.2.3, 1.2.5); audio-only
+ * content needs a transcript next to it (1.2.1). Caption files are only
+ * fetched on the first pass, not again per state.
+ */
+export const mediaCheck: CheckModule = {
+  id: 'media',
+  rerunInStates: true,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const items = await inventoryMedia(page, { tracks: !context.state });
+    if (context.scanId && !context.state) {
+      await storeMediaInventory(context.scanId, page.url(), items);
+    }
+
+    const violations: Violation[] = [];
+    for (const item of items) {
+      const base = {
+        check: 'media' as const,
+        elementType: item.kind === 'audio' ? 'audio' : 'video',
+        elementSelector: item.selector,
+        elementHtml: item.html,
+        pageUrl: item.pageUrl,
+        evidence: evidenceFor(item)
+      };
+
+      if (item.kind === 'audio') {
+        if (!item.transcript) {
+          violations.push({
+            ...base,
+            ruleId: 'audio-transcript',
+            wcagCriterion: '1.2.1',
+            wcagVersion: '2.0',
+            wcagLevel: 'A',
+            severity: 'serious',
+            message: 'Audio-only content has no transcript next to it',
+            userImpact: 'Deaf or hard-of-hearing users cannot access audio content',
+            legalRiskLevel: 'high',
+            fixDescription: 'Publish a text transcript next to the audio or link to it',
+            fixCode: `<audio controls src="episode.mp3"></audio>\n<a href="episode-transcript.html">Read the transcript</a>`,
+            fixEffort: 'moderate',
+            estimatedFixTime: '30-60 minutes',
+            // Transcripts published elsewhere on the site aren't found
+            aiConfidence: 0.7
+          });
+        }
+        continue;
+      }
+
+      const captions = captionViolation(item);
+      if (captions) {
+        violations.push({
+          ...base,
+          wcagCriterion: '1.2.2',
+          wcagVersion: '2.0',
+          wcagLevel: 'A',
+          userImpact: 'Deaf or hard-of-hearing users miss the spoken content',
+          ...captions
+        });
+      }
+
+      if (item.background || hasAudioDescription(item)) continue;
+
+      // Whether the visuals carry information the soundtrack doesn't can't be told automatically
+      const description = {
+        ...base,
+        wcagVersion: '2.0' as const,
+        severity: 'moderate' as const,
+        userImpact: 'Blind users miss on-screen information that is not spoken, such as text, charts and actions',
+        legalRiskLevel: 'medium' as const,
+        aiConfidence: 0.5,
+        needsReview: true
+      };
+
+      // A transcript is an alternative for 1.2.3 only
+      if (!item.transcript) {
+        violations.push({
+          ...description,
+          ruleId: 'video-media-alternative',
+          wcagCriterion: '1.2.3',
+          wcagLevel: 'A',
+          message: 'Video has no audio description or transcript',
+          fixDescription: 'Link a descriptive transcript covering both the speech and what is shown, or provide audio description.',
+          fixCode: `<a href="tour-transcript.html">Read the descriptive transcript</a>`,
+          fixEffort: 'moderate',
+          estimatedFixTime: '1-2 hours'
+        });
+      }
+
+      if (context.rules.inScope('2.0', 'AA')) {
+        violations.push({
+          ...description,
+          ruleId: 'video-audio-description',
+          wcagCriterion: '1.2.5',
+          wcagLevel: 'AA',
+          message: 'Video has no audio description track or described version',
+          fixDescription: 'Narrate important visual information in the soundtrack, or add a descriptions track or link to an audio-described version.',
+          fixCode: `<track kind="descriptions" src="descriptions.vtt" srclang="en" label="English descriptions">`,
+          fixEffort: 'complex',
+          estimatedFixTime: '2-4 hours'
+        });
+      }
+    }
+
+    return violations;
+  }
+};
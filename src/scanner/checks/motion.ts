@@ -0,0 +1,121 @@
+import type { Page } from 'playwright';
+import { MotionFinding, observeMotion } from '@/lib/scanner/motion';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+function evidenceFor(finding: MotionFinding): Violation['evidence'] {
+  return {
+    motion: {
+      kind: finding.kind,
+      description: finding.description,
+      durationMs: finding.durationMs,
+      reducedMotion: finding.reducedMotion
+    }
+  };
+}
+
+const seconds = (finding: MotionFinding) =>
+  finding.durationMs === null ? 'indefinitely' : `for ${Math.round(finding.durationMs / 1000)}s`;
+
+const capitalized = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * 2.2.2 Pause, Stop, Hide for animations, carousels and autoplaying video
+ * without a pause control; 1.4.2 Audio Control for media that starts
+ * playing sound; 2.3.3 Animation from Interactions (AAA) for motion that
+ * ignores prefers-reduced-motion. Watching takes seconds and reloads the
+ * page (see lib/scanner/motion), so it runs last and not per state.
+ */
+export const motionCheck: CheckModule = {
+  id: 'motion',
+  rerunInStates: false,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const findings = await observeMotion(page);
+    const url = page.url();
+    const violations: Violation[] = [];
+
+    for (const finding of findings) {
+      const base = {
+        check: 'motion' as const,
+        elementType: finding.kind !== 'autoplay-media' ? 'animation' : finding.html.startsWith('<audio') ? 'audio' : 'video',
+        elementSelector: finding.selector,
+        elementHtml: finding.html,
+        pageUrl: url,
+        evidence: evidenceFor(finding)
+      };
+
+      if (finding.audible && !finding.hasPauseControl) {
+        violations.push({
+          ...base,
+          ruleId: 'no-autoplay-audio',
+          wcagCriterion: '1.4.2',
+          wcagVersion: '2.0',
+          wcagLevel: 'A',
+          severity: 'serious',
+          message: finding.playing
+            ? 'Media plays sound automatically with no way to pause it or turn it down'
+            : 'Media is set to autoplay with sound and has no controls',
+          userImpact: 'Sound that starts by itself drowns out screen readers, which speak through the same speakers',
+          businessImpact: 'Screen reader users cannot hear the page well enough to find the way to stop it',
+          legalRiskLevel: 'high',
+          fixDescription: 'Don\'t autoplay with sound: start muted or paused, or show controls so it can be stopped.',
+          fixCode: `<video src="intro.mp4" autoplay muted playsinline controls></video>`,
+          fixEffort: 'trivial',
+          estimatedFixTime: '5 minutes',
+          // Browsers that block unmuted autoplay hide the problem; others don't
+          aiConfidence: finding.playing ? 0.9 : 0.6,
+          needsReview: !finding.playing
+        });
+        continue;
+      }
+
+      if (!finding.hasPauseControl) {
+        const carousel = finding.kind === 'moving-content';
+        violations.push({
+          ...base,
+          ruleId: carousel ? 'moving-content-no-pause' : 'animation-no-pause',
+          wcagCriterion: '2.2.2',
+          wcagVersion: '2.0',
+          wcagLevel: 'A',
+          severity: 'serious',
+          message: `${capitalized(finding.description)} moves ${seconds(finding)} with no pause control`,
+          userImpact: 'Moving content distracts users with attention and reading disabilities and can\'t be read by those who need more time',
+          legalRiskLevel: 'medium',
+          fixDescription: carousel
+            ? 'Add a visible pause button to the carousel, stop auto-advancing after 5 seconds, or don\'t auto-advance at all.'
+            : 'Stop the animation within 5 seconds or add a control that pauses it.',
+          fixCode: carousel
+            ? `<button type="button" aria-pressed="false" onclick="toggleRotation(this)">Pause slideshow</button>`
+            : `/* Play a few times, then stop */\nanimation-iteration-count: 3;\n\n/* Or let users pause it */\n.paused * { animation-play-state: paused !important; }`,
+          fixEffort: 'easy',
+          estimatedFixTime: '30 minutes',
+          aiConfidence: carousel ? 0.7 : 0.8,
+          // Pause controls with icon-only or unusual labels aren't recognised
+          needsReview: carousel
+        });
+      }
+
+      if (finding.moves && finding.reducedMotion === 'ignored' && context.rules.inScope('2.1', 'AAA')) {
+        violations.push({
+          ...base,
+          ruleId: 'reduced-motion-ignored',
+          wcagCriterion: '2.3.3',
+          wcagVersion: '2.1',
+          wcagLevel: 'AAA',
+          severity: 'moderate',
+          message: `${capitalized(finding.description)} keeps moving when reduced motion is requested`,
+          userImpact: 'Users with vestibular disorders who turned on reduced motion still get motion that can cause nausea and dizziness',
+          legalRiskLevel: 'low',
+          fixDescription: 'Turn off non-essential motion under the prefers-reduced-motion media query.',
+          fixCode: `@media (prefers-reduced-motion: reduce) {\n  *, *::before, *::after {\n    animation-duration: 0.01ms !important;\n    animation-iteration-count: 1 !important;\n    transition-duration: 0.01ms !important;\n  }\n}`,
+          fixEffort: 'easy',
+          estimatedFixTime: '15 minutes',
+          aiConfidence: 0.75
+        });
+      }
+    }
+
+    return violations;
+  }
+};
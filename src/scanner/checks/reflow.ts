@@ -0,0 +1,139 @@
+import type { Page } from 'playwright';
+import { StressIssue, StressResult, STRESS_CONDITIONS, stressTest } from '@/lib/scanner/reflow';
+import { storeArtifact } from '@/lib/scanner/artifacts';
+import type { Violation, ViolationEvidence } from '../types';
+import type { WCAGLevel, WCAGVersion } from '../wcag-rules';
+import type { CheckContext, CheckModule } from './index';
+
+const CRITERIA: Record<string, { version: WCAGVersion; level: WCAGLevel }> = {
+  '1.4.4': { version: '2.0', level: 'AA' },
+  '1.4.10': { version: '2.1', level: 'AA' },
+  '1.4.12': { version: '2.1', level: 'AA' }
+};
+
+async function storeStressArtifacts(
+  context: CheckContext,
+  result: StressResult,
+  issue: StressIssue
+): Promise<NonNullable<ViolationEvidence['artifacts']>> {
+  if (!context.scanId) return [];
+
+  const stored = [];
+  for (const state of ['before', 'after'] as const) {
+    const data = result[state].get(issue.selector);
+    if (!data) continue;
+    const artifact = await storeArtifact({
+      scanId: context.scanId,
+      type: 'stress_screenshot',
+      data,
+      contentType: 'image/png',
+      metadata: {
+        pageUrl: context.url,
+        selector: issue.selector,
+        state,
+        condition: result.condition.id,
+        wcagCriterion: result.condition.wcagCriterion
+      }
+    });
+    if (artifact) {
+      stored.push({ ...artifact, label: state });
+    }
+  }
+  return stored;
+}
+
+function describe(issue: StressIssue, label: string): Pick<Violation, 'ruleId' | 'severity' | 'message' | 'userImpact' | 'fixDescription' | 'fixCode'> {
+  switch (issue.kind) {
+    case 'horizontal-scroll':
+      return {
+        ruleId: 'reflow-horizontal-scroll',
+        severity: 'serious',
+        message: `Page scrolls horizontally at ${label} (${issue.detail} too wide)`,
+        userImpact: 'Low-vision users who zoom in have to scroll sideways on every line to read',
+        fixDescription: 'Let this element shrink to the viewport: drop fixed widths, allow wrapping and stack columns on narrow screens.',
+        fixCode: `/* Let content reflow instead of scrolling */\nmax-width: 100%;\nmin-width: 0;\nflex-wrap: wrap;\noverflow-wrap: anywhere;`
+      };
+    case 'clipped':
+      return {
+        ruleId: 'text-clipped',
+        severity: 'serious',
+        message: `Text is cut off at ${label}: "${issue.text}"`,
+        userImpact: 'Users who enlarge or space out text lose part of it',
+        fixDescription: 'Let the container grow with its text instead of fixing its height or width and hiding the overflow.',
+        fixCode: `/* Size to the content */\nheight: auto;\nmin-height: 2.5em; /* instead of height */\noverflow: visible;`
+      };
+    case 'overlap':
+      return {
+        ruleId: 'text-overlap',
+        severity: 'serious',
+        message: `Text overlaps other text at ${label}: "${issue.text}"`,
+        userImpact: 'Overlapping text is unreadable for users who enlarge or space out text',
+        fixDescription: `Keep the text in normal flow so it pushes ${issue.detail} down instead of drawing over it; avoid absolute positioning and fixed line heights for text.`,
+        fixCode: `/* Keep text in flow */\nposition: static;\nline-height: normal;\nheight: auto;`
+      };
+    case 'lost':
+      return {
+        ruleId: 'content-lost',
+        severity: 'moderate',
+        message: `Text disappears at ${label}: "${issue.text}"`,
+        userImpact: 'Content users could read at normal size is gone when they zoom in or space out text',
+        fixDescription: 'Keep the content available in the narrow layout; if it moves into a menu or disclosure, make sure it can still be reached.',
+        fixCode: `/* Don't hide content in narrow layouts */\n@media (max-width: 640px) {\n  .content { display: block; }\n}`
+      };
+  }
+}
+
+/**
+ * 1.4.4 Resize Text, 1.4.10 Reflow and 1.4.12 Text Spacing: the page is
+ * re-rendered at 320px, 200% and 400% zoom and with the text spacing
+ * overrides (see lib/scanner/reflow), with before/after screenshots of
+ * each issue. It resizes the page, so it runs after the read-only
+ * modules and not per state.
+ */
+export const reflowCheck: CheckModule = {
+  id: 'reflow',
+  rerunInStates: false,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    const conditions = STRESS_CONDITIONS.filter(condition => {
+      const criterion = CRITERIA[condition.wcagCriterion];
+      return context.rules.inScope(criterion.version, criterion.level);
+    });
+    const results = await stressTest(page, { conditions, screenshots: !!context.scanId });
+    const url = page.url();
+
+    const violations: Violation[] = [];
+    for (const result of results) {
+      const { condition } = result;
+      // Viewport changes can legitimately move content into a menu
+      const resized = !!condition.viewport;
+
+      for (const issue of result.issues) {
+        const needsReview = issue.kind === 'lost' && (resized || !!issue.inChrome);
+        const artifacts = await storeStressArtifacts(context, result, issue);
+
+        violations.push({
+          check: 'reflow',
+          ...describe(issue, condition.label),
+          wcagCriterion: condition.wcagCriterion,
+          wcagVersion: CRITERIA[condition.wcagCriterion].version,
+          wcagLevel: CRITERIA[condition.wcagCriterion].level,
+          elementType: issue.kind === 'horizontal-scroll' ? 'layout' : 'text',
+          elementSelector: issue.selector,
+          elementHtml: issue.html,
+          pageUrl: url,
+          legalRiskLevel: condition.wcagCriterion === '1.4.12' ? 'medium' : 'high',
+          fixEffort: 'moderate',
+          estimatedFixTime: '30 minutes',
+          aiConfidence: needsReview ? 0.5 : 0.8,
+          needsReview,
+          evidence: {
+            stress: { condition: condition.id, viewport: result.viewport },
+            ...(artifacts.length > 0 ? { artifacts } : {})
+          }
+        });
+      }
+    }
+    return violations;
+  }
+};
@@ -0,0 +1,30 @@
+import type { Page } from 'playwright';
+import { exposeAccessibleNames } from '@/lib/scanner/ax-tree';
+import { extractPageElements } from '../element-extractor';
+import type { Violation } from '../types';
+import type { CheckContext, CheckModule } from './index';
+
+// Criteria axe-core doesn't cover (it already has target-size for 2.5.8). Its
+// autocomplete-valid only checks values that are set; 1.3.5 also flags
+// personal-data fields without one
+export const SUPPLEMENTAL_CRITERIA = ['1.3.5', '2.4.11', '2.5.7', '3.3.7', '3.3.8'];
+
+/**
+ * WCAGRules criteria that run alongside axe-core
+ */
+export const rulesCheck: CheckModule = {
+  id: 'rules',
+  rerunInStates: true,
+
+  async run(page: Page, context: CheckContext): Promise<Violation[]> {
+    await exposeAccessibleNames(page);
+    const elements = await extractPageElements(page);
+    const violations = elements.flatMap(element => context.rules.checkElement(element, SUPPLEMENTAL_CRITERIA));
+
+    // Page probes tab through the whole page; an opened menu is covered by the element checks
+    if (!context.state) {
+      violations.push(...await context.rules.checkPage(page, SUPPLEMENTAL_CRITERIA));
+    }
+    return violations;
+  }
+};
@@ -1,8 +1,21 @@
-import { Browser, Page, chromium } from 'playwright';
-import AxeBuilder from '@axe-core/playwright';
+import { BrowserContext, BrowserContextOptions, Page, chromium } from 'playwright';
+import { ScanConfig, PageElement, PageScanResult, ComplianceSummary, Violation } from './types';
 import { extractPageElements } from './element-extractor';
-import { PageElement, ScanConfig, PageScanResult, ComplianceSummary, Violation } from './types';
+import { WCAGRules, axeTagsFor } from './wcag-rules';
+import { CheckContext, CheckModule, checksFor, runChecks } from './checks';
+import { extractHelpMechanisms } from './wcag22-checks';
+import { dialogFocusFindings, exploreInteractiveStates } from './interactive-states';
 import { CRAWL_LIMITS, Tier } from '@/lib/security/url-guard';
+import { applyAuthProfile, authContextOptions, collectSecrets, redactSecrets } from '@/lib/scanner/auth';
+import { VIEWPORT_PROFILES, ViewportName, ViewportProfile, resolveViewports } from '@/lib/scanner/viewports';
+import { CrawlReport, crawlSite } from '@/lib/scanner/crawler';
+import { IssueCluster, clusterViolations, locateComponents, summarizeClusters } from '@/lib/scanner/templates';
+import { BrowserPool, PoolMetrics } from '@/lib/scanner/browser-pool';
+import { serveStaticBuild } from '@/lib/scanner/static-site';
+import { PageSnapshot, ReusedPage, contentHash, reusableSnapshot, rulesetKey, snapshotKey } from '@/lib/scanner/page-hash';
+import { disambiguateFingerprints, fingerprintViolations, violationFingerprint } from '@/lib/scanner/fingerprint';
+import { captureScreenshotEvidence } from '@/lib/scanner/screenshots';
+import { storeTranscript } from '@/lib/scanner/transcript';
 import { 
   initializeScan, 
   updateScanProgress, 
@@ -11,20 +24,51 @@ import {
   failScan 
 } from '@/lib/realtime/progress';
 
+// Disclosure triggers (menus, dialogs, accordions) opened and re-scanned per page
+const STATE_TRIGGER_LIMITS: Record<ScanConfig['depth'], number> = {
+  surface: 0,
+  interactive: 10,
+  exhaustive: 25
+};
+
+// Upper bound for one page (load, axe, custom checks, interactive states)
+const PAGE_TIMEOUT_MS = 120000;
+
 export class ComplianceScanner {
-  private browser: Browser | null = null;
+  private pool: BrowserPool | null = null;
+  // Pool owned by the caller (the queue worker shares one browser across jobs)
+  private sharedPool?: BrowserPool;
   private tier: Tier;
   private startTime: number = 0;
   private scanId?: string;
-
-  constructor(tier: Tier = 'free', scanId?: string) {
+  private rules = new WCAGRules();
+  private axeTags = axeTagsFor();
+  private checks: CheckModule[] = [];
+  private maxStateTriggers = 0;
+  private ruleset = '';
+  private secrets: string[] = [];
+  private config: ScanConfig | null = null;
+  private snapshots = new Map<string, PageSnapshot<Violation>>();
+
+  constructor(tier: Tier = 'free', scanId?: string, pool?: BrowserPool) {
     this.tier = tier;
     this.scanId = scanId;
+    this.sharedPool = pool;
   }
 
   async scanWebsite(config: ScanConfig) {
     this.startTime = Date.now();
     const limits = CRAWL_LIMITS[this.tier];
+    this.rules = new WCAGRules({ version: config.wcagVersion, level: config.wcagLevel });
+    this.axeTags = axeTagsFor(config.wcagVersion, config.wcagLevel);
+    this.checks = checksFor(config);
+    this.maxStateTriggers = STATE_TRIGGER_LIMITS[config.depth] ?? 0;
+    this.ruleset = rulesetKey(config);
+    this.secrets = collectSecrets(config.auth);
+    this.config = config;
+    // Unchanged pages reuse their last analysis unless a full rescan is forced
+    this.snapshots = new Map(config.forceFullRescan ? [] : (config.previousPages || [])
+      .map(snapshot => [snapshotKey(snapshot.pageUrl, snapshot.viewport), snapshot]));
     
     // Initialize progress tracking
     if (this.scanId) {
@@ -41,39 +85,41 @@ export class ComplianceScanner {
       pages: [] as PageScanResult[],
       summary: {} as ComplianceSummary,
       violations: [] as Violation[],
+      elements: [] as PageElement[],
+      issues: [] as IssueCluster<Violation>[],
       riskScore: 0,
       tier: this.tier,
-      crawlLimits: limits
+      crawlLimits: limits,
+      crawlReport: null as CrawlReport | null,
+      reusedPages: [] as ReusedPage[],
+      throughput: null as PoolMetrics | null
     };
+    // Discovery and session pages live outside the pool, so their contexts are closed here
+    let page: Page | null = null;
 
     try {
-      // Initialize Playwright with security and accessibility config
-      this.browser = await chromium.launch({
-        headless: true,
-        args: [
-          '--force-prefers-reduced-motion',
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-background-timer-throttling',
-          '--disable-renderer-backgrounding'
-        ]
+      // Initialize Playwright with security and accessibility config; pages
+      // are scanned in parallel contexts, relaunching the browser if it crashes
+      this.pool = this.sharedPool ?? new BrowserPool({
+        launch: () => chromium.launch({
+          headless: true,
+          args: [
+            '--force-prefers-reduced-motion',
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-background-timer-throttling',
+            '--disable-renderer-backgrounding'
+          ]
+        }),
+        maxContexts: limits.maxConcurrency,
+        maxPerHost: limits.maxPerHost,
+        pageTimeoutMs: PAGE_TIMEOUT_MS
       });
 
-      const page = await this.browser.newPage();
-      
-      // Set timeouts based on tier
-      page.setDefaultNavigationTimeout(25000);
-      page.setDefaultTimeout(15000);
-      
-      // SSRF protection - block internal requests
-      await page.route('**/*', route => {
-        const url = new URL(route.request().url());
-        if (!['http:', 'https:'].includes(url.protocol)) {
-          return route.abort();
-        }
-        return route.continue();
-      });
+      // Discover pages with the first viewport, then scan them once per viewport
+      const viewports = resolveViewports(config.viewports);
+      page = await this.openViewportPage(config, viewports[0]);
 
       // Scan pages based on tier limits
       if (this.scanId) {
@@ -83,7 +129,17 @@ export class ComplianceScanner {
         });
       }
       
-      const urlsToScan = await this.discoverUrls(page, config.url, limits);
+      // A static build lists its own pages and every one is checked before
+      // deploy (only the time budget applies); everything else is crawled
+      const crawlReport = config.staticBuild ? null : await crawlSite(page, config.url, {
+        maxPages: limits.maxPages,
+        maxDepth: limits.maxDepth,
+        deadline: this.startTime + limits.maxTimeMs / 2
+      }, config.crawl);
+      scanResult.crawlReport = crawlReport;
+      const urlsToScan = crawlReport
+        ? crawlReport.discovered.map(entry => entry.url)
+        : config.staticBuild!.pages;
       
       if (this.scanId) {
         updateScanProgress(this.scanId, {
@@ -92,35 +148,85 @@ export class ComplianceScanner {
         });
       }
       
-      for (let i = 0; i < urlsToScan.length; i++) {
-        const url = urlsToScan[i];
+      for (const viewport of viewports) {
         if (this.isTimeBudgetExceeded(limits)) break;
-        
-        if (this.scanId) {
-          updateScanProgress(this.scanId, {
-            currentStep: `Scanning page ${i + 1} of ${urlsToScan.length}`,
-            currentPage: url
-          });
+        if (viewport !== viewports[0]) {
+          await page.context().close().catch(() => undefined);
+          page = await this.openViewportPage(config, viewport);
         }
-        
-        try {
-          const pageResult = await this.scanSinglePage(page, url);
+
+        // Scan contexts reuse the session the viewport page logged in with
+        const contextOptions: BrowserContextOptions = {
+          ...this.contextOptions(config, viewport),
+          storageState: await page.context().storageState()
+        };
+        const pageResults: PageScanResult[] = [];
+        let scanned = 0;
+
+        await Promise.all(urlsToScan.map(async (url, i) => {
+          try {
+            const pageResult = await this.pool!.withPage(url, contextOptions, async (scanPage) => {
+              // Skip pages still queued when the budget ran out
+              if (this.isTimeBudgetExceeded(limits)) return null;
+              await this.guardPage(scanPage);
+              return this.scanSinglePage(scanPage, url, viewport.name);
+            }, {
+              // Routes (injected headers, the static build) aren't carried by storage state
+              setup: config.auth?.kind === 'inject' || config.staticBuild
+                ? context => this.routeContext(context, config)
+                : undefined,
+              timeoutMs: Math.max(1000, Math.min(PAGE_TIMEOUT_MS, this.remainingBudget(limits))),
+              // Crawl-delay from robots.txt applies to page loads as well as discovery
+              minIntervalMs: crawlReport?.robots.crawlDelayMs
+            });
+            if (!pageResult) return;
+
+            pageResult.viewport = viewport.name;
+            pageResult.violations.forEach(violation => { violation.viewport = viewport.name; });
+            pageResults[i] = pageResult;
+            
+            // Update progress after each page
+            if (this.scanId) {
+              onPageCrawled(this.scanId, url, pageResult.violations.length);
+            }
+          } catch (error) {
+            console.error(`Failed to scan page ${url} (${viewport.name}):`, error);
+            
+            if (this.scanId) {
+              onPageCrawled(this.scanId, url, 0, (error as Error).message);
+            }
+          } finally {
+            scanned++;
+            if (this.scanId) {
+              updateScanProgress(this.scanId, {
+                currentStep: viewports.length > 1
+                  ? `Scanned ${scanned} of ${urlsToScan.length} pages (${viewport.label})`
+                  : `Scanned ${scanned} of ${urlsToScan.length} pages`,
+                currentPage: url
+              });
+            }
+          }
+        }));
+
+        // Keep crawl order regardless of which page finished first
+        for (const pageResult of pageResults.filter(Boolean)) {
           scanResult.pages.push(pageResult);
           scanResult.violations.push(...pageResult.violations);
-          
-          // Update progress after each page
-          if (this.scanId) {
-            onPageCrawled(this.scanId, url, 0, pageResult.violations.length);
-          }
-        } catch (error) {
-          console.error(`Failed to scan page ${url}:`, error);
-          
-          if (this.scanId) {
-            onPageCrawled(this.scanId, url, 0, 0, (error as Error).message);
-          }
         }
       }
 
+      scanResult.throughput = this.pool.metrics();
+      scanResult.reusedPages = scanResult.pages
+        .filter(p => p.reusedFrom)
+        .map(p => ({
+          url: p.url,
+          viewport: p.viewport!,
+          contentHash: p.contentHash!,
+          fromScanId: p.reusedFrom!.scanId,
+          analyzedAt: p.reusedFrom!.analyzedAt,
+          findings: p.violations.length
+        }));
+
       // Calculate overall metrics
       if (this.scanId) {
         updateScanProgress(this.scanId, {
@@ -129,17 +235,49 @@ export class ComplianceScanner {
         });
       }
       
-      scanResult.summary = this.calculateSummary(scanResult.violations);
-      scanResult.riskScore = this.calculateRiskScore(scanResult.violations);
+      // 3.2.6 Consistent Help compares pages within the same viewport
+      for (const viewport of viewports) {
+        const helpPages = scanResult.pages
+          .filter(p => p.viewport === viewport.name && p.helpMechanisms)
+          .map(p => ({ url: p.url, mechanisms: p.helpMechanisms! }));
+        const helpViolations = this.rules.checkConsistentHelp(helpPages);
+        helpViolations.forEach(violation => {
+          violation.viewport = viewport.name;
+          violation.fingerprint = violationFingerprint(violation);
+        });
+        scanResult.violations.push(...helpViolations);
+      }
+      
+      // Never echo login credentials into stored reports
+      scanResult.pages = redactSecrets(scanResult.pages, this.secrets);
+      scanResult.violations = redactSecrets(scanResult.violations, this.secrets);
+      // Elements for the contextual analysis; the markup is the same in every viewport
+      scanResult.elements = scanResult.pages
+        .filter(p => p.viewport === viewports[0].name)
+        .flatMap(p => p.elements);
+      
+      // A shared footer/nav element failing on every page is one issue; scores count issues, not instances
+      scanResult.issues = clusterViolations(scanResult.violations);
+      const uniqueViolations = scanResult.issues.map(issue => issue.representative);
+      const clusters = summarizeClusters(scanResult.issues);
+      
+      scanResult.summary = {
+        ...this.calculateSummary(uniqueViolations),
+        totalInstances: clusters.instances,
+        siteWideIssues: clusters.siteWideIssues,
+        templateIssues: clusters.templateIssues,
+        reusedPages: scanResult.reusedPages.length
+      };
+      scanResult.riskScore = this.calculateRiskScore(uniqueViolations);
       
       // Complete the scan with final results
       if (this.scanId) {
-        const criticalViolations = scanResult.violations.filter(v => v.impact === 'critical').length;
-        const quickWins = scanResult.violations.filter(v => v.tags?.includes('easy')).length;
+        const criticalViolations = uniqueViolations.filter(v => v.severity === 'critical').length;
+        const quickWins = uniqueViolations.filter(v => v.quickWin).length;
         
         completeScan(this.scanId, {
           overallScore: Math.max(0, 100 - scanResult.riskScore),
-          totalViolations: scanResult.violations.length,
+          totalViolations: uniqueViolations.length,
           criticalIssues: criticalViolations,
           quickWins
         });
@@ -153,262 +291,238 @@ export class ComplianceScanner {
       }
       throw error;
     } finally {
-      if (this.browser) {
-        await this.browser.close();
+      await page?.context().close().catch(() => undefined);
+      if (this.pool && this.pool !== this.sharedPool) {
+        await this.pool.close();
       }
     }
   }
 
-  private async discoverUrls(page: Page, startUrl: string, limits: typeof CRAWL_LIMITS[Tier]): Promise<string[]> {
-    const urls = new Set([startUrl]);
-    const visited = new Set<string>();
-    const toVisit = [startUrl];
-    let depth = 0;
-
+  private async openViewportPage(config: ScanConfig, viewport: ViewportProfile): Promise<Page> {
+    const browser = await this.pool!.browser();
+    const context = await browser.newContext(this.contextOptions(config, viewport));
     try {
-      // Check for robots.txt and sitemap
-      const robotsUrls = await this.checkRobotsTxt(page, startUrl);
-      robotsUrls.forEach(url => urls.add(url));
-      
-      // Discover internal links up to depth limit
-      while (toVisit.length > 0 && depth < limits.maxDepth && urls.size < limits.maxPages) {
-        const currentUrl = toVisit.shift()!;
-        if (visited.has(currentUrl)) continue;
-        
-        visited.add(currentUrl);
-        
-        try {
-          await page.goto(currentUrl, { waitUntil: 'domcontentloaded', timeout: 15000 });
-          
-          const links = await page.evaluate((baseUrl) => {
-            const baseHost = new URL(baseUrl).hostname;
-            const linkElements = Array.from(document.querySelectorAll('a[href]'));
-            
-            return linkElements
-              .map(a => a.getAttribute('href'))
-              .filter(href => href && !href.startsWith('#') && !href.startsWith('mailto:'))
-              .map(href => {
-                try {
-                  const url = new URL(href, baseUrl);
-                  return url.hostname === baseHost ? url.href : null;
-                } catch {
-                  return null;
-                }
-              })
-              .filter(Boolean) as string[];
-          }, startUrl);
-          
-          links.forEach(link => {
-            if (urls.size < limits.maxPages) {
-              urls.add(link);
-              toVisit.push(link);
-            }
-          });
-          
-        } catch (error) {
-          console.warn(`Failed to discover links from ${currentUrl}:`, error);
-        }
-        
-        depth++;
+      if (config.auth) {
+        await applyAuthProfile(context, config.auth, config.url);
+      }
+      if (config.staticBuild) {
+        await serveStaticBuild(context, config.staticBuild);
       }
+
+      const page = await context.newPage();
+      await this.guardPage(page);
+      return page;
     } catch (error) {
-      console.warn('URL discovery failed:', error);
+      // A failed login would otherwise leave the context open on the shared browser
+      await context.close().catch(() => undefined);
+      throw error;
     }
+  }
 
-    return Array.from(urls).slice(0, limits.maxPages);
+  private contextOptions(config: ScanConfig, viewport: ViewportProfile): BrowserContextOptions {
+    return {
+      ...viewport.contextOptions,
+      ...authContextOptions(config.auth),
+      // Service workers would fetch past the routes that sandbox a static build
+      ...(config.staticBuild ? { serviceWorkers: 'block' as const } : {})
+    };
   }
 
-  private async checkRobotsTxt(page: Page, startUrl: string): Promise<string[]> {
-    const urls: string[] = [];
-    const baseUrl = new URL(startUrl);
-    
-    try {
-      const robotsUrl = `${baseUrl.protocol}//${baseUrl.host}/robots.txt`;
-      const response = await page.goto(robotsUrl, { timeout: 10000 });
-      
-      if (response?.ok()) {
-        const robotsText = await response.text();
-        const sitemapMatch = robotsText.match(/Sitemap:\s*(.+)/i);
-        
-        if (sitemapMatch) {
-          const sitemapUrls = await this.parseSitemap(page, sitemapMatch[1].trim());
-          urls.push(...sitemapUrls);
-        }
-      }
-    } catch (error) {
-      // Robots.txt not found or not accessible - that's fine
+  private async routeContext(context: BrowserContext, config: ScanConfig): Promise<void> {
+    if (config.auth?.kind === 'inject') {
+      await applyAuthProfile(context, config.auth, config.url);
+    }
+    if (config.staticBuild) {
+      await serveStaticBuild(context, config.staticBuild);
     }
-    
-    return urls;
   }
 
-  private async parseSitemap(page: Page, sitemapUrl: string): Promise<string[]> {
-    try {
-      const response = await page.goto(sitemapUrl, { timeout: 10000 });
-      if (!response?.ok()) return [];
-      
-      const sitemapXml = await response.text();
-      const urlMatches = sitemapXml.match(/<loc>([^<]+)<\/loc>/g) || [];
-      
-      return urlMatches
-        .map(match => match.replace(/<\/?loc>/g, ''))
-        .slice(0, 20); // Limit sitemap URLs
-        
-    } catch (error) {
-      return [];
-    }
+  private async guardPage(page: Page): Promise<void> {
+    // Set timeouts based on tier
+    page.setDefaultNavigationTimeout(25000);
+    page.setDefaultTimeout(15000);
+    
+    // SSRF protection - block internal requests
+    // (fallback lets auth header injection on the context still apply)
+    await page.route('**/*', route => {
+      const url = new URL(route.request().url());
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        return route.abort();
+      }
+      return route.fallback();
+    });
   }
 
-  private async scanSinglePage(page: Page, url: string): Promise<PageScanResult> {
+  private async scanSinglePage(page: Page, url: string, viewport: ViewportName): Promise<PageScanResult> {
     try {
       await page.goto(url, { waitUntil: 'networkidle', timeout: 25000 });
+
+      // Same content under the same rules as the last analysis: carry its findings forward
+      const hash = await contentHash(page).catch(() => undefined);
+      const previous = hash
+        ? reusableSnapshot(this.snapshots.get(snapshotKey(url, viewport)), hash, this.ruleset)
+        : null;
       
-      // Run Axe accessibility analysis
-      const builder = new AxeBuilder({ page })
-        .withTags(['wcag2a', 'wcag2aa', 'wcag21aa', 'wcag22aa'])
-        .disableRules(['color-contrast-enhanced']); // Optional - AA vs AAA
-      
-      const axeResults = await builder.analyze();
-      
-      // Convert Axe violations to our format
-      const violations = this.normalizeAxeViolations(axeResults.violations, url);
-      
-      // Take screenshot for evidence
+      // Take screenshot for evidence (before interactive states change the page)
       const screenshot = await page.screenshot({ 
         fullPage: false, 
         type: 'png',
         clip: { x: 0, y: 0, width: 1200, height: 800 }
       });
+
+      const elements = await extractPageElements(page).catch(() => [] as PageElement[]);
+
+      const { violations, helpMechanisms } = previous
+        ? { violations: previous.findings.map(violation => ({ ...violation })), helpMechanisms: previous.helpMechanisms }
+        : await this.analyzePage(page, url, viewport);
+
+      // Snapshots from before fingerprints; the unchanged page still has their elements
+      if (previous && violations.some(violation => !violation.fingerprint)) {
+        await fingerprintViolations(page, violations);
+        disambiguateFingerprints(violations);
+      }
+
+      // What a screen reader announces, kept per scan so it can be diffed (unchanged pages too)
+      if (this.scanId) {
+        await storeTranscript(page, { scanId: this.scanId, pageUrl: url, viewport, secrets: this.secrets });
+      }
       
       return {
         url,
-        timestamp: new Date().toISOString(),
+        elements,
         violations,
-        axeResults,
+        complianceScore: this.calculateComplianceScore(violations),
+        helpMechanisms,
         screenshot: screenshot.toString('base64'),
         pageTitle: await page.title(),
-        totalElements: axeResults.violations.reduce((sum, v) => sum + v.nodes.length, 0)
+        contentHash: hash,
+        reusedFrom: previous ? { scanId: previous.scanId, analyzedAt: previous.analyzedAt } : undefined
       };
       
     } catch (error) {
       console.error(`Failed to scan page ${url}:`, error);
       return {
         url,
-        timestamp: new Date().toISOString(),
+        elements: [],
         violations: [],
+        complianceScore: 0,
         error: error instanceof Error ? error.message : 'Unknown error',
-        pageTitle: '',
-        totalElements: 0
+        pageTitle: ''
       };
     }
   }
 
-  private normalizeAxeViolations(axeViolations: any[], pageUrl: string): Violation[] {
-    const violations: Violation[] = [];
-    
-    for (const violation of axeViolations) {
-      const impact = violation.impact || 'minor';
-      const severity = this.mapAxeImpactToSeverity(impact);
-      
-      for (const node of violation.nodes) {
-        violations.push({
-          id: `${violation.id}-${violations.length}`,
-          ruleId: violation.id,
-          wcagCriterion: this.mapAxeRuleToWCAG(violation.id),
-          severity,
-          impact,
-          description: violation.description,
-          help: violation.help,
-          helpUrl: violation.helpUrl,
-          selector: node.target.join(' '),
-          snippet: node.html,
-          message: node.failureSummary || violation.help,
-          pageUrl,
-          elementType: this.extractElementType(node.html),
-          legalRisk: this.assessLegalRisk(violation.id, severity),
-          quickWin: this.isQuickWin(violation.id),
-          estimatedFixTime: this.estimateFixTime(violation.id),
-          wcagLevel: this.getWcagLevel(violation.tags)
-        });
-      }
+  /**
+   * Full analysis of a loaded page: the scan's check modules (see ./checks)
+   * and, at interactive depth, its menus and dialogs in their open state
+   */
+  private async analyzePage(page: Page, url: string, viewport: ViewportName) {
+    const violations = await runChecks(page, this.checks, this.checkContext(url, viewport));
+    // Before interactive states change which elements are in the page
+    await fingerprintViolations(page, violations);
+
+    const helpMechanisms = this.rules.isActive('3.2.6') ? await extractHelpMechanisms(page) : undefined;
+
+    // Menus, dialogs and accordions in their open state (interactive/exhaustive depth)
+    if (this.maxStateTriggers > 0 && !this.isTimeBudgetExceeded(CRAWL_LIMITS[this.tier])) {
+      violations.push(...await this.scanInteractiveStates(page, viewport, violations));
     }
-    
-    return violations;
-  }
 
-  private mapAxeImpactToSeverity(impact: string): 'critical' | 'serious' | 'moderate' | 'minor' {
-    switch (impact) {
-      case 'critical': return 'critical';
-      case 'serious': return 'serious';
-      case 'moderate': return 'moderate';
-      default: return 'minor';
+    // Where each finding sits in the shared header/footer/nav or page template
+    const components = await locateComponents(page, violations.map(violation => violation.elementSelector))
+      .catch(() => [] as Awaited<ReturnType<typeof locateComponents>>);
+    violations.forEach((violation, index) => { violation.component = components[index] ?? null; });
+
+    await fingerprintViolations(page, violations);
+    disambiguateFingerprints(violations);
+
+    // Highlighted element crops; issues from opened menus/dialogs aren't on screen any more
+    if (this.scanId) {
+      await captureScreenshotEvidence(page, violations.filter(violation => !violation.state), {
+        scanId: this.scanId,
+        pageUrl: url,
+        viewport
+      });
     }
-  }
 
-  private mapAxeRuleToWCAG(ruleId: string): string {
-    const wcagMap: Record<string, string> = {
-      'alt-text': '1.1.1',
-      'color-contrast': '1.4.3',
-      'label': '3.3.2',
-      'link-name': '2.4.4',
-      'button-name': '4.1.2',
-      'heading-order': '1.3.1',
-      'landmark-unique': '1.3.6',
-      'keyboard': '2.1.1',
-      'focus-order': '2.4.3',
-      'skip-link': '2.4.1'
-    };
-    
-    return wcagMap[ruleId] || '4.1.2'; // Default to name/role/value
+    return { violations, helpMechanisms };
   }
 
-  private extractElementType(html: string): string {
-    const tagMatch = html.match(/<(\w+)/);
-    return tagMatch ? tagMatch[1].toLowerCase() : 'unknown';
+  private checkContext(url: string, viewport: ViewportName, state?: string): CheckContext {
+    return {
+      url,
+      rules: this.rules,
+      axeTags: this.axeTags,
+      modules: this.checks.map(module => module.id),
+      scanId: this.scanId,
+      state,
+      openContext: options => this.openIsolatedContext(viewport, options)
+    };
   }
 
-  private assessLegalRisk(ruleId: string, severity: string): 'high' | 'medium' | 'low' {
-    // High-risk rules that commonly result in lawsuits
-    const highRiskRules = ['alt-text', 'color-contrast', 'label', 'keyboard', 'link-name'];
-    
-    if (highRiskRules.includes(ruleId) && ['critical', 'serious'].includes(severity)) {
-      return 'high';
+  /**
+   * A context outside the pool set up like the scan's page contexts, for
+   * checks that must not touch the page under test (the forms sandbox);
+   * the caller closes it
+   */
+  private async openIsolatedContext(viewport: ViewportName, options: BrowserContextOptions): Promise<BrowserContext> {
+    const config = this.config!;
+    const browser = await this.pool!.browser();
+    const context = await browser.newContext({ ...this.contextOptions(config, VIEWPORT_PROFILES[viewport]), ...options });
+    try {
+      await this.routeContext(context, config);
+      return context;
+    } catch (error) {
+      await context.close().catch(() => undefined);
+      throw error;
     }
-    
-    if (severity === 'serious') return 'medium';
-    return 'low';
   }
 
-  private isQuickWin(ruleId: string): boolean {
-    // Rules that can be fixed quickly
-    const quickWinRules = ['alt-text', 'label', 'link-name', 'button-name', 'heading-order'];
-    return quickWinRules.includes(ruleId);
-  }
+  /**
+   * Open each disclosure trigger, re-run the cheap check modules on the
+   * new state and keep only issues the initial state didn't have
+   */
+  private async scanInteractiveStates(page: Page, viewport: ViewportName, baseline: Violation[]): Promise<Violation[]> {
+    const seen = new Set(baseline.map(violation => this.violationKey(violation)));
+    const found: Violation[] = [];
+
+    const states = await exploreInteractiveStates(page, {
+      maxTriggers: this.maxStateTriggers,
+      onState: async (state) => {
+        const stateViolations = await runChecks(
+          page,
+          this.checks.filter(module => module.rerunInStates),
+          this.checkContext(page.url(), viewport, state.description)
+        );
+
+        for (const violation of stateViolations) {
+          const key = this.violationKey(violation);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          violation.state = state.description;
+          found.push(violation);
+        }
+        // While the menu/dialog holding the elements is open
+        await fingerprintViolations(page, found);
+      }
+    });
 
-  private estimateFixTime(ruleId: string): string {
-    const timeMap: Record<string, string> = {
-      'alt-text': '2-5 minutes',
-      'label': '1-3 minutes',
-      'link-name': '1-2 minutes',
-      'button-name': '1-2 minutes',
-      'color-contrast': '10-30 minutes',
-      'keyboard': '30-60 minutes',
-      'heading-order': '5-15 minutes'
-    };
-    
-    return timeMap[ruleId] || '15-30 minutes';
+    found.push(...this.rules.checkFindings('2.4.3', dialogFocusFindings(states)));
+    return found;
   }
 
-  private getWcagLevel(tags: string[]): 'A' | 'AA' | 'AAA' {
-    if (tags.includes('wcag2aaa')) return 'AAA';
-    if (tags.includes('wcag2aa')) return 'AA';
-    return 'A';
+  private violationKey(violation: Violation): string {
+    return `${violation.ruleId}|${violation.elementSelector}`;
   }
 
   private isTimeBudgetExceeded(limits: typeof CRAWL_LIMITS[Tier]): boolean {
     return (Date.now() - this.startTime) > limits.maxTimeMs;
   }
 
+  private remainingBudget(limits: typeof CRAWL_LIMITS[Tier]): number {
+    return this.startTime + limits.maxTimeMs - Date.now();
+  }
+
   private calculateSummary(violations: Violation[]): ComplianceSummary {
     const summary = {
       totalViolations: violations.length,
@@ -469,191 +583,6 @@ export class ComplianceScanner {
     return Math.max(0, Math.min(100, 100 - penalty));
   }
 
-  private async extractAllElements(page: Page, url: string): Promise<PageElement[]> {
-    await page.goto(url, { waitUntil: 'networkidle' });
-    
-    // Wait for axe-core to load
-    await page.waitForTimeout(2000);
-    
-    // Extract ALL relevant elements for WCAG compliance
-    const elements = await page.evaluate(() => {
-      const getAttributes = (el: Element): Record<string, string> => {
-        const attrs: Record<string, string> = {};
-        for (const attr of Array.from(el.attributes)) {
-          attrs[attr.name] = attr.value;
-        }
-        return attrs;
-      };
-
-      const getAriaAttributes = (el: Element): Record<string, string> => {
-        const aria: Record<string, string> = {};
-        for (const attr of Array.from(el.attributes)) {
-          if (attr.name.startsWith('aria-')) {
-            aria[attr.name] = attr.value;
-          }
-        }
-        return aria;
-      };
-
-      const getComputedStyles = (el: Element): Partial<CSSStyleDeclaration> => {
-        const styles = window.getComputedStyle(el);
-        return {
-          color: styles.color,
-          backgroundColor: styles.backgroundColor,
-          fontSize: styles.fontSize,
-          fontWeight: styles.fontWeight,
-          display: styles.display,
-          visibility: styles.visibility,
-          opacity: styles.opacity
-        };
-      };
-
-      const generateSelector = (el: Element): string => {
-        if (el.id) return `#${el.id}`;
-        if (el.className) return `.${el.className.split(' ')[0]}`;
-        return el.tagName.toLowerCase();
-      };
-
-      const elements: PageElement[] = [];
-      
-      // Images - WCAG 1.1.1
-      document.querySelectorAll('img, [role="img"], svg, canvas').forEach(el => {
-        elements.push({
-          type: 'image',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: el.getAttribute('alt') || '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: false,
-          keyboardAccessible: false,
-          tabIndex: parseInt(el.getAttribute('tabindex') || '0')
-        });
-      });
-
-      // Buttons and interactive elements - WCAG 2.1.1, 4.1.2
-      document.querySelectorAll('button, [role="button"], input[type="submit"], input[type="button"], a[href]').forEach(el => {
-        const htmlEl = el as HTMLElement;
-        elements.push({
-          type: 'button',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: htmlEl.textContent || el.getAttribute('aria-label') || '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: true,
-          keyboardAccessible: el.getAttribute('tabindex') !== '-1',
-          tabIndex: parseInt(el.getAttribute('tabindex') || '0')
-        });
-      });
-
-      // Forms - WCAG 3.3.2, 1.3.5
-      document.querySelectorAll('form, input, select, textarea, label').forEach(el => {
-        const htmlEl = el as HTMLElement;
-        elements.push({
-          type: 'form',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: htmlEl.textContent || '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: ['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName),
-          keyboardAccessible: el.getAttribute('tabindex') !== '-1',
-          tabIndex: parseInt(el.getAttribute('tabindex') || '0')
-        });
-      });
-
-      // Headings - WCAG 1.3.1
-      document.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(el => {
-        const htmlEl = el as HTMLElement;
-        elements.push({
-          type: 'heading',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: htmlEl.textContent || '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: false,
-          keyboardAccessible: false,
-          tabIndex: 0
-        });
-      });
-
-      // Links - WCAG 2.4.4
-      document.querySelectorAll('a[href]').forEach(el => {
-        const htmlEl = el as HTMLElement;
-        elements.push({
-          type: 'link',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: htmlEl.textContent || el.getAttribute('aria-label') || '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: true,
-          keyboardAccessible: el.getAttribute('tabindex') !== '-1',
-          tabIndex: parseInt(el.getAttribute('tabindex') || '0')
-        });
-      });
-
-      // Check color contrast - WCAG 1.4.3
-      document.querySelectorAll('p, span, div, li, td, th').forEach(el => {
-        const htmlEl = el as HTMLElement;
-        const styles = window.getComputedStyle(el);
-        if (htmlEl.textContent && htmlEl.textContent.trim().length > 0) {
-          elements.push({
-            type: 'text',
-            html: el.outerHTML.substring(0, 200),
-            selector: generateSelector(el),
-            attributes: getAttributes(el),
-            computedStyles: {
-              color: styles.color,
-              backgroundColor: styles.backgroundColor,
-              fontSize: styles.fontSize,
-              fontWeight: styles.fontWeight
-            },
-            text: htmlEl.textContent.substring(0, 100) || '',
-            ariaAttributes: getAriaAttributes(el),
-            parentContext: '',
-            isInteractive: false,
-            keyboardAccessible: false,
-            tabIndex: 0
-          });
-        }
-      });
-
-      // Videos and audio - WCAG 1.2.1, 1.2.2
-      document.querySelectorAll('video, audio').forEach(el => {
-        elements.push({
-          type: el.tagName.toLowerCase() as 'video' | 'audio',
-          html: el.outerHTML.substring(0, 500),
-          selector: generateSelector(el),
-          attributes: getAttributes(el),
-          computedStyles: getComputedStyles(el),
-          text: '',
-          ariaAttributes: getAriaAttributes(el),
-          parentContext: el.parentElement?.outerHTML.substring(0, 200) || '',
-          isInteractive: true,
-          keyboardAccessible: el.getAttribute('tabindex') !== '-1',
-          tabIndex: parseInt(el.getAttribute('tabindex') || '0')
-        });
-      });
-
-      return elements;
-    });
-
-    return elements;
-  }
-
   private calculateRiskScore(violations: Violation[]): number {
     let score = 0;
     
@@ -664,66 +593,11 @@ export class ComplianceScanner {
       else if (violation.severity === 'moderate') score += 5;
       else score += 2;
 
-      if (violation.legalRisk === 'high') score += 15;
-      else if (violation.legalRisk === 'medium') score += 8;
+      if (violation.legalRiskLevel === 'high') score += 15;
+      else if (violation.legalRiskLevel === 'medium') score += 8;
       else score += 3;
     }
 
     return Math.min(100, score);
   }
-
-  private generateAltTextSuggestion(img: PageElement): string {
-    // Analyze image context to suggest appropriate alt text
-    const fileName = img.attributes.src?.split('/').pop()?.split('.')[0] || '';
-    const ariaLabel = img.ariaAttributes['aria-label'] || '';
-    const title = img.attributes.title || '';
-    
-    if (fileName) {
-      return fileName.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-    }
-    return 'Descriptive text for this image';
-  }
-
-  private generateFixCode(element: PageElement, fixType: string): string {
-    switch (fixType) {
-      case 'alt-text':
-        return `<img src="${element.attributes.src}" alt="[Describe the image content]" />`;
-      case 'contrast':
-        return `/* Increase contrast ratio to meet WCAG AA standards */
-.element {
-  color: #1a1a1a; /* Darker text */
-  background-color: #ffffff; /* Light background */
-}`;
-      case 'keyboard':
-        return `<button tabindex="0" onkeydown="if(event.key === 'Enter' || event.key === ' ') handleClick()">
-  ${element.text}
-</button>`;
-      case 'label':
-        const inputId = element.attributes.id || 'input-id';
-        return `<label for="${inputId}">Label text</label>
-<input id="${inputId}" type="${element.attributes.type || 'text'}" />`;
-      default:
-        return '// Fix implementation needed';
-    }
-  }
-
-  private hasAssociatedLabel(input: PageElement, elements: PageElement[]): boolean {
-    const inputId = input.attributes.id;
-    if (!inputId) return false;
-    
-    return elements.some(el => 
-      el.type === 'form' && 
-      el.html.includes('<label') && 
-      el.attributes.for === inputId
-    );
-  }
-
-  private suggestColorFix(styles: Partial<CSSStyleDeclaration>): string {
-    return `Current contrast ratio is insufficient. 
-    Suggested fixes:
-    1. Darken text color to #1a1a1a
-    2. Lighten background to #ffffff
-    3. Increase font size to 16px minimum
-    4. Use font-weight: 500 or higher`;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,385 @@
+import type { BrowserContextOptions, Page } from 'playwright';
+import type { Violation } from './types';
+import { WCAGRules, axeTagsFor } from './wcag-rules';
+import { CheckContext, checksFor, runChecks } from './checks';
+import { AuthProfile, applyAuthProfile, authContextOptions } from '@/lib/scanner/auth';
+import { BrowserPool } from '@/lib/scanner/browser-pool';
+import { FlowStep, FlowStepResult, StoredFlowDefinition } from '@/lib/scanner/flows';
+import { VIEWPORT_PROFILES } from '@/lib/scanner/viewports';
+import { decryptSecret } from '@/lib/security/credentials';
+import { createSupabaseClient } from '@/lib/supabase/server';
+
+/**
+ * Flow replay
+ *
+ * Replays a stored flow definition (see lib/scanner/flows) in a pooled
+ * context, one step at a time, and runs the page-level check modules on
+ * whatever state each step leaves the page in. Keyboard-only flows reach
+ * every control with Tab, so a control Tab never lands on blocks the
+ * journey and fails the flow outright.
+ */
+
+const STEP_TIMEOUT_MS = 15000;
+// Whole-flow budget inside the browser pool
+const FLOW_TIMEOUT_MS = 300000;
+// Tab presses allowed to reach one control before it counts as unreachable
+const MAX_TAB_PRESSES = 150;
+const USER_AGENT = 'Mozilla/5.0 (compatible; EqualShield/2.0; +https://equalshield.com/bot)';
+
+export type FlowIssue = Violation & { step: number };
+
+export interface FlowRunResult {
+  definitionId: string;
+  name: string;
+  flowType: string;
+  completed: boolean;
+  failedStep: number | null;
+  score: number | null;
+  steps: FlowStepResult[];
+  issues: FlowIssue[];
+}
+
+interface StepOutcome {
+  status: 'passed' | 'blocked' | 'error';
+  tabPresses?: number;
+  error?: string;
+}
+
+/**
+ * Flow definitions attached to an organization and the scanned host
+ */
+export async function loadFlowDefinitions(orgId: string, siteUrl: string): Promise<StoredFlowDefinition[]> {
+  const { data, error } = await createSupabaseClient()
+    .from('flow_definitions')
+    .select('id, org_id, name, site_host, flow_type, keyboard_only, steps')
+    .eq('org_id', String(orgId))
+    .eq('site_host', new URL(siteUrl).hostname)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load flow definitions:', error.message);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Tab forward from the current focus until the target has focus
+ */
+async function reachByKeyboard(page: Page, selector: string): Promise<{ reached: boolean; presses: number }> {
+  const target = page.locator(selector).first();
+  await target.waitFor({ state: 'visible', timeout: STEP_TIMEOUT_MS });
+  const handle = await target.elementHandle();
+  if (!handle) return { reached: false, presses: 0 };
+
+  try {
+    for (let presses = 0; presses <= MAX_TAB_PRESSES; presses++) {
+      const focused = await handle.evaluate(el => {
+        let active = document.activeElement;
+        while (active?.shadowRoot?.activeElement) {
+          active = active.shadowRoot.activeElement;
+        }
+        return !!active && (active === el || el.contains(active));
+      });
+      if (focused) return { reached: true, presses };
+      await page.keyboard.press('Tab');
+    }
+    return { reached: false, presses: MAX_TAB_PRESSES };
+  } finally {
+    await handle.dispose();
+  }
+}
+
+/**
+ * Space toggles checkboxes, radios and switches; Enter activates everything else
+ */
+async function activationKey(page: Page, selector: string): Promise<string> {
+  return page.locator(selector).first().evaluate(el => {
+    const type = (el.getAttribute('type') || '').toLowerCase();
+    const role = el.getAttribute('role') || '';
+    return ['checkbox', 'radio'].includes(type) || ['checkbox', 'radio', 'switch'].includes(role) ? 'Space' : 'Enter';
+  });
+}
+
+async function runStep(page: Page, step: FlowStep, keyboardOnly: boolean, site: URL): Promise<StepOutcome> {
+  switch (step.type) {
+    case 'goto': {
+      // A leading goto resolves against the scanned URL, keeping its scheme and port
+      const url = new URL(step.url, page.url() === 'about:blank' ? site : page.url());
+      if (url.hostname !== site.hostname) {
+        return { status: 'error', error: `Flow steps must stay on ${site.hostname}` };
+      }
+      await page.goto(url.toString(), { waitUntil: 'networkidle', timeout: 30000 });
+      return { status: 'passed' };
+    }
+
+    case 'click': {
+      if (!keyboardOnly) {
+        await page.click(step.selector, { timeout: STEP_TIMEOUT_MS });
+        return { status: 'passed' };
+      }
+      const { reached, presses } = await reachByKeyboard(page, step.selector);
+      if (!reached) return { status: 'blocked', tabPresses: presses };
+      await page.keyboard.press(await activationKey(page, step.selector));
+      return { status: 'passed', tabPresses: presses };
+    }
+
+    case 'fill': {
+      // Stored encrypted, since fill values are often test passwords
+      const value = decryptSecret(step.value);
+      if (!keyboardOnly) {
+        await page.fill(step.selector, value, { timeout: STEP_TIMEOUT_MS });
+        return { status: 'passed' };
+      }
+      const { reached, presses } = await reachByKeyboard(page, step.selector);
+      if (!reached) return { status: 'blocked', tabPresses: presses };
+      await page.keyboard.press('ControlOrMeta+A');
+      await page.keyboard.type(value);
+      return { status: 'passed', tabPresses: presses };
+    }
+
+    case 'press': {
+      let tabPresses: number | undefined;
+      if (step.selector && keyboardOnly) {
+        const reach = await reachByKeyboard(page, step.selector);
+        if (!reach.reached) return { status: 'blocked', tabPresses: reach.presses };
+        tabPresses = reach.presses;
+      } else if (step.selector) {
+        await page.focus(step.selector, { timeout: STEP_TIMEOUT_MS });
+      }
+      await page.keyboard.press(step.key);
+      return { status: 'passed', tabPresses };
+    }
+
+    case 'assert': {
+      if (step.selector) {
+        await page.locator(step.selector).first().waitFor({ state: 'visible', timeout: STEP_TIMEOUT_MS });
+      }
+      if (step.text) {
+        await page.getByText(step.text).first().waitFor({ state: 'visible', timeout: STEP_TIMEOUT_MS });
+      }
+      if (step.urlIncludes && !page.url().includes(step.urlIncludes)) {
+        return { status: 'error', error: `Expected URL to include "${step.urlIncludes}", got ${page.url()}` };
+      }
+      return { status: 'passed' };
+    }
+
+    default:
+      return { status: 'error', error: `Unknown step type "${(step as { type: string }).type}"` };
+  }
+}
+
+/**
+ * Finding for a control the keyboard never reached, with the control's
+ * markup and the change that would put it in the tab order
+ */
+async function unreachableIssue(page: Page, selector: string, step: number): Promise<FlowIssue> {
+  const target = await page.locator(selector).first().evaluate(el => ({
+    tagName: el.tagName.toLowerCase(),
+    html: el.outerHTML.substring(0, 200),
+    label: (el.getAttribute('aria-label') || el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 50),
+    tabIndex: el.getAttribute('tabindex')
+  })).catch(() => null);
+
+  // A negative tabindex takes a native control out of the tab order; anything else needs a native control
+  const removedFromTabOrder = !!target?.tabIndex && parseInt(target.tabIndex, 10) < 0;
+  const fixCode = removedFromTabOrder
+    ? target!.html.replace(/\s+tabindex=(["'])-\d+\1/i, '')
+    : `<button type="button">${target?.label || '[Action]'}</button>`;
+
+  return {
+    step,
+    check: 'keyboard',
+    ruleId: 'flow-step-unreachable',
+    wcagCriterion: '2.1.1',
+    severity: 'critical',
+    elementType: target?.tagName || 'interactive',
+    elementSelector: selector,
+    elementHtml: target?.html || '',
+    pageUrl: page.url(),
+    message: `Step ${step + 1}: ${selector} cannot be reached with the Tab key`,
+    userImpact: 'Keyboard users cannot complete this journey',
+    legalRiskLevel: 'high',
+    fixDescription: removedFromTabOrder
+      ? 'Remove the negative tabindex so the control stays in the tab order'
+      : 'Make the control focusable (native element or tabindex="0") and keep it in the tab order',
+    fixCode
+  };
+}
+
+/**
+ * Same scoring as the page scan; a keyboard barrier fails the journey outright
+ */
+function scoreFlow(issues: FlowIssue[], completed: boolean, blocked: boolean): number | null {
+  if (blocked) return 0;
+  if (!completed) return null; // The script broke, not necessarily the site
+
+  const count = (severity: Violation['severity']) => issues.filter(issue => issue.severity === severity).length;
+  return Math.max(0, 100 - count('critical') * 15 - count('serious') * 8 - count('moderate') * 3 - count('minor'));
+}
+
+/**
+ * Findings not seen after an earlier step (identical findings are counted, not keyed)
+ */
+function newFindings(findings: Violation[], seenCounts: Map<string, number>): Violation[] {
+  const stepCounts = new Map<string, number>();
+  const fresh: Violation[] = [];
+
+  for (const finding of findings) {
+    const key = `${finding.ruleId}|${finding.elementSelector}`;
+    const occurrence = (stepCounts.get(key) || 0) + 1;
+    stepCounts.set(key, occurrence);
+    if (occurrence > (seenCounts.get(key) || 0)) fresh.push(finding);
+  }
+
+  for (const [key, count] of stepCounts) {
+    seenCounts.set(key, Math.max(count, seenCounts.get(key) || 0));
+  }
+  return fresh;
+}
+
+/**
+ * Replay a flow in a pooled context, running the checks after every step
+ */
+export async function runFlow(
+  pool: BrowserPool,
+  definition: StoredFlowDefinition,
+  authProfile: AuthProfile | undefined,
+  siteUrl: string
+): Promise<FlowRunResult> {
+  const steps: FlowStepResult[] = [];
+  const issues: FlowIssue[] = [];
+  const seenCounts = new Map<string, number>();
+  const site = new URL(siteUrl);
+  const checks = checksFor({ depth: 'surface' });
+  const rules = new WCAGRules();
+  let failedStep: number | null = null;
+  let blocked = false;
+  // A timed-out task keeps running until its closed context makes it fail; stop it recording
+  let abandoned = false;
+
+  const contextOptions: BrowserContextOptions = {
+    ...VIEWPORT_PROFILES.desktop.contextOptions,
+    userAgent: USER_AGENT,
+    ...authContextOptions(authProfile)
+  };
+
+  const checkContext = (page: Page): CheckContext => ({
+    url: page.url(),
+    rules,
+    axeTags: axeTagsFor(),
+    modules: checks.map(module => module.id)
+  });
+
+  try {
+    await pool.withPage(siteUrl, contextOptions, async (page) => {
+      page.setDefaultTimeout(STEP_TIMEOUT_MS);
+
+      // Flows start on the scanned page unless they navigate first
+      if (definition.steps[0]?.type !== 'goto') {
+        await page.goto(siteUrl, { waitUntil: 'networkidle', timeout: 30000 });
+      }
+
+      for (const [index, step] of definition.steps.entries()) {
+        if (abandoned) return;
+        if (failedStep !== null) {
+          steps.push({ index, type: step.type, name: step.name, status: 'skipped', url: page.url(), durationMs: 0, newIssues: 0 });
+          continue;
+        }
+
+        const started = Date.now();
+        let outcome: StepOutcome;
+        try {
+          outcome = await runStep(page, step, definition.keyboard_only, site);
+          await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => undefined);
+        } catch (error) {
+          outcome = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+        }
+        if (abandoned) return;
+
+        // A click or key press can navigate off-site too; never check or act on another host
+        const landed = page.url() === 'about:blank' ? site : new URL(page.url());
+        if (landed.hostname !== site.hostname) {
+          outcome = { status: 'error', error: `Step left ${site.hostname} for ${landed.hostname}` };
+        }
+
+        if (outcome.status === 'blocked' && 'selector' in step && step.selector) {
+          blocked = true;
+          issues.push(await unreachableIssue(page, step.selector, index));
+        }
+
+        // Checks run on whatever state the step left the page in
+        let stepIssues: Violation[] = [];
+        if (outcome.status !== 'error') {
+          stepIssues = newFindings(await runChecks(page, checks, checkContext(page)), seenCounts);
+          issues.push(...stepIssues.map(issue => ({ ...issue, step: index })));
+        }
+
+        steps.push({
+          index,
+          type: step.type,
+          name: step.name,
+          status: outcome.status,
+          url: page.url(),
+          durationMs: Date.now() - started,
+          newIssues: stepIssues.length + (outcome.status === 'blocked' ? 1 : 0),
+          tabPresses: outcome.tabPresses,
+          error: outcome.error
+        });
+
+        if (outcome.status !== 'passed') failedStep = index;
+      }
+    }, {
+      setup: authProfile ? context => applyAuthProfile(context, authProfile, siteUrl) : undefined,
+      timeoutMs: FLOW_TIMEOUT_MS
+    });
+  } catch (error) {
+    abandoned = true;
+    console.error(`Flow "${definition.name}" did not finish:`, error instanceof Error ? error.message : error);
+    failedStep = failedStep ?? steps.length;
+  }
+
+  const completed = failedStep === null;
+  return {
+    definitionId: definition.id,
+    name: definition.name,
+    flowType: definition.flow_type,
+    completed,
+    failedStep,
+    score: scoreFlow(issues, completed, blocked),
+    steps,
+    issues
+  };
+}
+
+/**
+ * Store a scan's flow runs and stamp their definitions as run
+ */
+export async function saveFlowRuns(scanId: string, runs: FlowRunResult[]): Promise<void> {
+  if (runs.length === 0) return;
+
+  const supabase = createSupabaseClient();
+  const { error } = await supabase
+    .from('flows')
+    .insert(runs.map(run => ({
+      scan_id: scanId,
+      definition_id: run.definitionId,
+      name: run.name,
+      flow_type: run.flowType,
+      completed: run.completed,
+      failed_step: run.failedStep,
+      accessibility_score: run.score,
+      steps: run.steps,
+      issues: run.issues
+    })));
+
+  if (error) {
+    console.error('Failed to save flow runs:', error.message);
+    return;
+  }
+
+  await supabase
+    .from('flow_definitions')
+    .update({ last_run_at: new Date().toISOString() })
+    .in('id', runs.map(run => run.definitionId));
+}
@@ -0,0 +1,268 @@
+import { Page } from 'playwright';
+import { installDomHelpers, locateElement } from '@/lib/scanner/dom-scope';
+import type { PageFinding } from './wcag22-checks';
+
+/**
+ * Interactive state exploration
+ *
+ * Many failures only exist after interaction: a mega-menu whose items have
+ * no names, a modal that never receives focus. We find disclosure
+ * triggers (aria-expanded, aria-haspopup, dialog/collapse toggles),
+ * activate each one, hand the new state to the caller for re-scanning and
+ * check that focus moves into dialogs and back out to the trigger.
+ */
+
+export type TriggerKind = 'disclosure' | 'popup' | 'dialog';
+
+export interface DisclosureTrigger {
+  selector: string;
+  label: string;
+  kind: TriggerKind;
+}
+
+export interface DialogFocus {
+  selector: string;
+  focusMovedIn: boolean;
+  // How the dialog was dismissed; null if it could not be closed
+  closedWith: 'escape' | 'close-button' | null;
+  // Only known when the dialog was closed
+  focusReturned: boolean | null;
+}
+
+export interface InteractiveState {
+  trigger: DisclosureTrigger;
+  // Human readable, e.g. 'after activating "Menu" (#nav-toggle)'
+  description: string;
+  dialog: DialogFocus | null;
+}
+
+const DEFAULT_MAX_TRIGGERS = 10;
+// Menus and dialogs commonly animate in over 150-300ms
+const SETTLE_MS = 350;
+
+const TRIGGER_SELECTOR = [
+  '[aria-expanded]',
+  '[aria-haspopup]:not([aria-haspopup="false"])',
+  '[data-toggle="modal"]', '[data-bs-toggle="modal"]',
+  '[data-toggle="collapse"]', '[data-bs-toggle="collapse"]',
+  '[data-toggle="dropdown"]', '[data-bs-toggle="dropdown"]',
+  'button[popovertarget]',
+  'summary'
+].join(', ');
+
+const DIALOG_SELECTOR = '[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]';
+
+/**
+ * Closed disclosure triggers in the top frame (including open shadow roots)
+ */
+async function discoverTriggers(page: Page, max: number): Promise<DisclosureTrigger[]> {
+  await installDomHelpers(page.mainFrame());
+
+  return page.evaluate(({ selector, max }) => {
+    const dom = window.__esDom!;
+    const triggers: DisclosureTrigger[] = [];
+    const seen = new Set<string>();
+
+    for (const el of dom.queryAll(selector)) {
+      if (triggers.length >= max) break;
+      const he = el as HTMLElement;
+
+      const style = window.getComputedStyle(he);
+      const rect = he.getBoundingClientRect();
+      if (style.display === 'none' || style.visibility === 'hidden' || rect.width === 0 || rect.height === 0) continue;
+      if ((he as HTMLButtonElement).disabled || he.getAttribute('aria-disabled') === 'true') continue;
+      if (he.getAttribute('aria-expanded') === 'true') continue; // Already open
+
+      // Real links would navigate away from the page under test
+      const href = he.getAttribute('href');
+      if (he.tagName === 'A' && href && !href.startsWith('#') && !href.startsWith('javascript:')) continue;
+
+      const toggle = `${he.getAttribute('data-toggle') || ''} ${he.getAttribute('data-bs-toggle') || ''}`;
+      const kind: TriggerKind = he.getAttribute('aria-haspopup') === 'dialog' || /modal/.test(toggle)
+        ? 'dialog'
+        : he.hasAttribute('aria-haspopup') || /dropdown/.test(toggle) ? 'popup' : 'disclosure';
+
+      const triggerSelector = dom.shadowPath(he) + dom.selectorFor(he);
+      if (seen.has(triggerSelector)) continue;
+      seen.add(triggerSelector);
+
+      triggers.push({
+        selector: triggerSelector,
+        label: (he.getAttribute('aria-label') || he.textContent || '').trim().replace(/\s+/g, ' ').slice(0, 60),
+        kind
+      });
+    }
+
+    return triggers;
+  }, { selector: TRIGGER_SELECTOR, max });
+}
+
+/**
+ * Selectors of the dialogs currently visible
+ */
+async function visibleDialogs(page: Page): Promise<string[]> {
+  return page.evaluate((selector) => {
+    const dom = window.__esDom!;
+    return dom.queryAll(selector)
+      .filter(el => {
+        const style = window.getComputedStyle(el);
+        const rect = el.getBoundingClientRect();
+        return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0;
+      })
+      .map(el => dom.shadowPath(el) + dom.selectorFor(el));
+  }, DIALOG_SELECTOR);
+}
+
+/**
+ * Whether keyboard focus is on (or inside) the element matching a selector
+ */
+async function focusWithin(page: Page, selector: string): Promise<boolean> {
+  return page.evaluate((target) => {
+    const container = window.__esDom!.find(target);
+    let active = document.activeElement;
+    while (active?.shadowRoot?.activeElement) {
+      active = active.shadowRoot.activeElement;
+    }
+    if (!container || !active) return false;
+
+    // contains() that crosses shadow boundaries
+    for (let node: Node | null = active; node; node = node.parentNode || (node as ShadowRoot).host || null) {
+      if (node === container) return true;
+    }
+    return false;
+  }, selector);
+}
+
+async function isExpanded(page: Page, selector: string): Promise<boolean> {
+  return page.evaluate(target => window.__esDom!.find(target)?.getAttribute('aria-expanded') === 'true', selector);
+}
+
+/**
+ * Dismiss an open dialog the way a keyboard user would, falling back to
+ * its close button
+ */
+async function closeDialog(page: Page, dialog: string): Promise<DialogFocus['closedWith']> {
+  await page.keyboard.press('Escape');
+  await page.waitForTimeout(SETTLE_MS);
+  if (!(await visibleDialogs(page)).includes(dialog)) return 'escape';
+
+  const closed = await page.evaluate((target) => {
+    const dom = window.__esDom!;
+    const container = dom.find(target);
+    if (!container) return false;
+
+    const close = dom.queryAll('button, [role="button"]', container).find(button => {
+      const name = `${button.getAttribute('aria-label') || ''} ${button.textContent || ''}`.trim();
+      return /close|dismiss|cancel|^[×✕x]$/i.test(name);
+    }) as HTMLElement | undefined;
+
+    close?.click();
+    return !!close;
+  }, dialog);
+  if (!closed) return null;
+
+  await page.waitForTimeout(SETTLE_MS);
+  return (await visibleDialogs(page)).includes(dialog) ? null : 'close-button';
+}
+
+/**
+ * Activate each trigger in turn. onState runs while the new state is
+ * showing; afterwards the page is returned to its initial state (by
+ * reloading if the state can't be undone).
+ */
+export async function exploreInteractiveStates(
+  page: Page,
+  options: {
+    maxTriggers?: number;
+    onState: (state: InteractiveState) => Promise<void>;
+  }
+): Promise<InteractiveState[]> {
+  const url = page.url();
+  const triggers = await discoverTriggers(page, options.maxTriggers || DEFAULT_MAX_TRIGGERS);
+  const states: InteractiveState[] = [];
+
+  const restore = async () => {
+    await page.goto(url, { waitUntil: 'networkidle' });
+    await installDomHelpers(page.mainFrame());
+  };
+
+  for (const trigger of triggers) {
+    try {
+      const dialogsBefore = await visibleDialogs(page);
+
+      await locateElement(page, trigger.selector).first().click({ timeout: 3000 });
+      await page.waitForTimeout(SETTLE_MS);
+
+      if (page.url() !== url) {
+        await restore();
+        continue;
+      }
+      await installDomHelpers(page.mainFrame());
+
+      const opened = (await visibleDialogs(page)).find(dialog => !dialogsBefore.includes(dialog));
+      const expanded = await isExpanded(page, trigger.selector);
+      if (!opened && !expanded) continue; // Nothing we can observe changed
+
+      const state: InteractiveState = {
+        trigger,
+        description: `after activating ${trigger.label ? `"${trigger.label}" ` : ''}(${trigger.selector})`,
+        dialog: opened
+          ? { selector: opened, focusMovedIn: await focusWithin(page, opened), closedWith: null, focusReturned: null }
+          : null
+      };
+
+      await options.onState(state);
+
+      if (state.dialog) {
+        state.dialog.closedWith = await closeDialog(page, state.dialog.selector);
+        if (state.dialog.closedWith) {
+          state.dialog.focusReturned = await focusWithin(page, trigger.selector);
+        } else {
+          await restore();
+        }
+      } else if (await isExpanded(page, trigger.selector)) {
+        // Collapse again so the next trigger starts from the initial state
+        await locateElement(page, trigger.selector).first().click({ timeout: 3000 });
+        await page.waitForTimeout(SETTLE_MS);
+        if (await isExpanded(page, trigger.selector)) await restore();
+      }
+
+      states.push(state);
+    } catch (error) {
+      console.warn(`Could not explore ${trigger.selector}:`, error instanceof Error ? error.message : error);
+      await restore().catch(() => undefined);
+    }
+  }
+
+  return states;
+}
+
+/**
+ * 2.4.3 Focus Order - dialogs must receive focus when they open and hand
+ * it back to their trigger when they close
+ */
+export function dialogFocusFindings(states: InteractiveState[]): PageFinding[] {
+  const findings: PageFinding[] = [];
+
+  for (const { trigger, dialog } of states) {
+    if (!dialog) continue;
+
+    if (!dialog.focusMovedIn) {
+      findings.push({
+        selector: dialog.selector,
+        message: `Focus stays behind the dialog opened by ${trigger.selector}; keyboard and screen reader users don't know it appeared`,
+        impact: 'serious'
+      });
+    }
+
+    if (dialog.focusReturned === false) {
+      findings.push({
+        selector: trigger.selector,
+        message: `Focus is lost when the dialog closes instead of returning to ${trigger.selector}`,
+        impact: 'moderate'
+      });
+    }
+  }
+
+  return findings;
+}
@@ -1,9 +1,29 @@
+import type { AuthProfile } from '@/lib/scanner/auth';
+import type { CrawlOptions } from '@/lib/scanner/crawler';
+import type { PageSnapshot } from '@/lib/scanner/page-hash';
+import type { StaticBuild } from '@/lib/scanner/static-site';
+import type { ComponentLocation } from '@/lib/scanner/templates';
+import type { ViewportName } from '@/lib/scanner/viewports';
+import type { WCAGLevel, WCAGVersion } from './wcag-rules';
+
+// Check modules the engine can run (see ./checks)
+export type CheckModuleId = 'axe' | 'rules' | 'dom' | 'keyboard' | 'contrast' | 'media' | 'reflow' | 'motion' | 'forms';
+
 export interface ScanConfig {
   url: string;
   depth: 'surface' | 'interactive' | 'exhaustive';
   includeSubpages?: boolean;
   maxPages?: number;
   wcagLevel: 'A' | 'AA' | 'AAA';
+  wcagVersion?: WCAGVersion; // Rule set to apply, defaults to 2.2
+  auth?: AuthProfile;
+  viewports?: ViewportName[];
+  crawl?: CrawlOptions; // Include/exclude patterns and ignored query parameters
+  previousPages?: PageSnapshot<Violation>[]; // Last full analysis per page, reused while the content hash matches
+  forceFullRescan?: boolean; // Analyze every page even if unchanged
+  staticBuild?: StaticBuild; // Scan a local build's HTML files instead of crawling url
+  checks?: CheckModuleId[]; // Check modules to run, defaults to those of the depth
+  probeForms?: boolean; // Also submit forms with empty/invalid values in a sandbox (opt-in, see lib/scanner/forms)
 }
 
 export interface PageElement {
@@ -18,19 +38,90 @@ export interface PageElement {
   isInteractive: boolean;
   keyboardAccessible?: boolean;
   tabIndex?: number;
+  boundingBox?: { width: number; height: number };
+  // Computed role and name from the accessibility tree (lib/scanner/ax-tree):
+  // undefined where the tree isn't available, null when not exposed
+  accessibility?: { role: string; name: string } | null;
 }
 
+export type Severity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+/**
+ * A single finding. Every check module, the API and the worker produce
+ * this shape; field names follow the violations table.
+ */
 export interface Violation {
-  rule: string;
-  severity: 'critical' | 'serious' | 'moderate' | 'minor';
-  element: string;
-  message: string;
-  impact: string;
-  legalRisk: 'high' | 'medium' | 'low';
-  howToFix: string;
-  codeExample: string;
-  wcagCriterion?: string;
+  check: CheckModuleId | 'llm'; // Module that reported it, or the contextual LLM analysis
+  ruleId: string; // axe rule id, or the check's own id such as 'keyboard-trap'
+  wcagCriterion: string;
+  wcagVersion?: WCAGVersion; // Version that introduced the criterion
+  wcagLevel?: WCAGLevel;
+  severity: Severity;
+  elementType: string;
+  elementSelector: string;
+  elementHtml: string;
+  pageUrl: string;
+  message: string; // What fails, e.g. 'Image must have alternative text'
+  userImpact: string;
+  businessImpact?: string;
+  legalRiskLevel: 'high' | 'medium' | 'low';
   lawsuitProbability?: number;
+  fixDescription: string;
+  fixCode: string;
+  fixEffort?: 'trivial' | 'easy' | 'moderate' | 'complex';
+  estimatedFixTime?: string;
+  quickWin?: boolean;
+  helpUrl?: string;
+  aiConfidence?: number; // 0-1
+  needsReview?: boolean; // Automated result inconclusive; confirm manually
+  evidence?: ViolationEvidence;
+  viewport?: ViewportName;
+  state?: string; // UI state the issue only appears in, e.g. 'after activating "Menu" (#nav-toggle)'
+  component?: ComponentLocation | null; // Shared region/template position, for clustering across pages
+  fingerprint?: string; // Stable identity across scans (lib/scanner/fingerprint)
+}
+
+export interface ViolationEvidence {
+  // Selectors in the order keyboard focus visited them
+  focusPath?: string[];
+  // Pixel diff between the unfocused and focused element crops
+  focusDiff?: { changedPixels: number; contrastingPixels: number; requiredArea: number };
+  // Stored files (see lib/scanner/artifacts.ts)
+  artifacts?: Array<{ id: string; storagePath: string; label: string }>;
+  // Text colour against the rendered background pixels behind it
+  contrast?: {
+    worstRatio: number;
+    medianRatio: number;
+    requiredRatio: number;
+    sampledPixels: number;
+    backgroundSpread: number;
+  };
+  // Reflow/zoom/text-spacing condition the issue appeared under (lib/scanner/reflow)
+  stress?: {
+    condition: string;
+    viewport: { width: number; height: number };
+  };
+  // Motion watched over time (lib/scanner/motion); durationMs null when it never ends
+  motion?: {
+    kind: string;
+    description: string;
+    durationMs: number | null;
+    reducedMotion?: 'respected' | 'ignored';
+  };
+  // Media inventory entry (lib/scanner/media); coverage is the share of the running time captioned
+  media?: {
+    kind: string;
+    durationSeconds: number | null;
+    tracks: Array<{ kind: string; src: string; cues?: number; coverage?: number | null; error?: string }>;
+    transcript: string | null;
+  };
+  // Form submitted by the error-handling probe (lib/scanner/forms); nothing was sent
+  form?: {
+    pass: 'empty' | 'invalid';
+    submitted: boolean;
+    message?: string;
+    focus: string | null;
+  };
 }
 
 export interface PageScanResult {
@@ -38,16 +129,31 @@ export interface PageScanResult {
   elements: PageElement[];
   violations: Violation[];
   complianceScore: number;
+  viewport?: ViewportName;
+  helpMechanisms?: string[]; // For the cross-page 3.2.6 Consistent Help check
+  contentHash?: string; // Normalized DOM hash, see lib/scanner/page-hash
+  reusedFrom?: { scanId: string | null; analyzedAt: string }; // Findings carried forward, page unchanged
+  pageTitle?: string;
+  screenshot?: string; // Top of the page as loaded, base64 PNG
+  error?: string; // Set when the page failed to load or scan
 }
 
 export interface ComplianceSummary {
-  overallScore: number;
-  wcagLevel: string;
   totalViolations: number;
-  criticalViolations: number;
-  majorViolations: number;
-  minorViolations: number;
-  lawsuitRisk: number;
+  critical: number;
+  serious: number;
+  moderate: number;
+  minor: number;
+  wcagAACompliant: boolean;
+  quickWins: number;
+  estimatedFixTime: string;
+  topIssues: Array<{ rule: string; count: number; wcag: string }>;
+  complianceScore: number;
+  // Counts above are unique issues; a shared-footer issue on 200 pages is one issue with 200 instances
+  totalInstances?: number;
+  siteWideIssues?: number;
+  templateIssues?: number;
+  reusedPages?: number; // Pages whose findings were carried forward from an earlier scan
 }
 
 export interface ScanResult {
@@ -1,4 +1,47 @@
+import { Page } from 'playwright';
 import { PageElement, Violation } from './types';
+import { FieldDescription, reviewAutocomplete, suggestAutocomplete } from '@/lib/scanner/autocomplete';
+import {
+  PageFinding,
+  compareHelpOrder,
+  probeAccessibleAuthentication,
+  probeFocusNotObscured,
+  probeRedundantEntry
+} from './wcag22-checks';
+
+export type WCAGVersion = '2.0' | '2.1' | '2.2';
+export type WCAGLevel = 'A' | 'AA' | 'AAA';
+
+export interface WCAGRuleOptions {
+  version?: WCAGVersion;
+  level?: WCAGLevel;
+}
+
+const VERSION_ORDER: WCAGVersion[] = ['2.0', '2.1', '2.2'];
+const LEVEL_ORDER: WCAGLevel[] = ['A', 'AA', 'AAA'];
+
+// Criteria added in WCAG 2.2 (4.1.1 Parsing was removed in the same release)
+export const WCAG22_CRITERIA = ['2.4.11', '2.5.7', '2.5.8', '3.2.6', '3.3.7', '3.3.8'];
+
+/**
+ * axe-core tags for a WCAG version + conformance level
+ */
+export function axeTagsFor(version: WCAGVersion = '2.2', level: WCAGLevel = 'AA'): string[] {
+  const tags = ['wcag2a'];
+  const atLeastAA = level !== 'A';
+  if (atLeastAA) tags.push('wcag2aa');
+  if (level === 'AAA') tags.push('wcag2aaa');
+
+  if (version !== '2.0') {
+    tags.push('wcag21a');
+    if (atLeastAA) tags.push('wcag21aa');
+  }
+  if (version === '2.2' && atLeastAA) {
+    tags.push('wcag22aa');
+  }
+
+  return tags;
+}
 
 interface RuleResult {
   passed: boolean;
@@ -7,13 +50,25 @@ interface RuleResult {
 }
 
 export class WCAGRules {
-  // WCAG 2.1 Level AA criteria that MUST be checked
+  private version: WCAGVersion;
+  private level: WCAGLevel;
+
+  constructor(options: WCAGRuleOptions = {}) {
+    this.version = options.version || '2.2';
+    this.level = options.level || 'AA';
+  }
+
+  // Criteria checked per element; page-level ones return null and run in checkPage
   private rules: Record<string, {
     name: string;
+    level: WCAGLevel;
+    version: WCAGVersion;
     test: (element: PageElement) => RuleResult | null;
   }> = {
     '1.1.1': {
       name: 'Non-text Content',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         if (element.type !== 'image') return null;
         
@@ -41,6 +96,8 @@ export class WCAGRules {
     
     '1.3.1': {
       name: 'Info and Relationships',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         // Check heading hierarchy
         if (element.type === 'heading') {
@@ -69,14 +126,21 @@ export class WCAGRules {
     
     '1.4.3': {
       name: 'Contrast (Minimum)',
+      level: 'AA',
+      version: '2.0',
       test: (element: PageElement) => {
         if (element.type !== 'text' || !element.text.trim()) return null;
         if (!element.computedStyles?.color) return null;
-        
-        const ratio = this.calculateContrastRatio(
-          element.computedStyles.color,
-          element.computedStyles.backgroundColor || '#ffffff'
-        );
+
+        // Only an opaque, solid background is conclusive here. Transparent
+        // backgrounds, images and gradients need the rendered pixels
+        // (lib/scanner/contrast.ts) rather than a white default.
+        const background = element.computedStyles.backgroundColor;
+        const backgroundImage = element.computedStyles.backgroundImage;
+        if (!background || this.colorAlpha(background) < 1) return null;
+        if (backgroundImage && backgroundImage !== 'none') return null;
+
+        const ratio = this.calculateContrastRatio(element.computedStyles.color, background);
         
         const fontSize = parseFloat(element.computedStyles.fontSize || '16');
         const isLargeText = fontSize >= 18 || 
@@ -98,6 +162,8 @@ export class WCAGRules {
     
     '2.1.1': {
       name: 'Keyboard',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         if (!element.isInteractive) return null;
         
@@ -128,6 +194,8 @@ export class WCAGRules {
     
     '2.4.4': {
       name: 'Link Purpose',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         if (element.type !== 'link') return null;
         
@@ -157,6 +225,8 @@ export class WCAGRules {
     
     '3.3.2': {
       name: 'Labels or Instructions',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         if (element.type !== 'form' || !element.html.includes('input')) return null;
         
@@ -191,8 +261,12 @@ export class WCAGRules {
     
     '4.1.2': {
       name: 'Name, Role, Value',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         if (!element.isInteractive) return null;
+        // Not exposed to assistive technology at all
+        if (element.accessibility === null) return null;
         
         // Check ARIA roles are valid
         const role = element.attributes.role;
@@ -210,11 +284,13 @@ export class WCAGRules {
           };
         }
         
-        // Check accessible name exists
-        const hasAccessibleName = element.text || 
-                                 element.ariaAttributes['aria-label'] ||
-                                 element.ariaAttributes['aria-labelledby'] ||
-                                 element.attributes.title;
+        // Check accessible name exists: the computed one, else guess from attributes
+        const hasAccessibleName = element.accessibility
+          ? element.accessibility.name
+          : element.text ||
+            element.ariaAttributes['aria-label'] ||
+            element.ariaAttributes['aria-labelledby'] ||
+            element.attributes.title;
         
         if (!hasAccessibleName) {
           return {
@@ -239,26 +315,28 @@ export class WCAGRules {
     
     '1.2.1': {
       name: 'Audio-only and Video-only',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
-        if (element.type !== 'video' && element.type !== 'audio') return null;
-        
-        const hasTrack = element.html.includes('<track');
-        const hasAriaDescribedby = element.ariaAttributes['aria-describedby'];
-        
-        if (!hasTrack && !hasAriaDescribedby) {
-          return {
-            passed: false,
-            message: `${element.type} content needs captions or transcript`,
-            impact: 'critical'
-          };
-        }
-        
-        return { passed: true };
+        // Transcripts next to the media and caption track contents - see checks/media.ts
+        return null;
       }
     },
     
+    '2.4.3': {
+      name: 'Focus Order',
+      level: 'A',
+      version: '2.0',
+      test: (element: PageElement) => {
+        // Dialog focus management needs interaction - see interactive-states.ts
+        return null;
+      }
+    },
+
     '2.4.6': {
       name: 'Headings and Labels',
+      level: 'AA',
+      version: '2.0',
       test: (element: PageElement) => {
         if (element.type !== 'heading') return null;
         
@@ -288,43 +366,293 @@ export class WCAGRules {
     
     '3.1.1': {
       name: 'Language of Page',
+      level: 'A',
+      version: '2.0',
       test: (element: PageElement) => {
         // This is a page-level check, handled separately
         return null;
       }
+    },
+
+    '1.3.5': {
+      name: 'Identify Input Purpose',
+      level: 'AA',
+      version: '2.1',
+      test: (element: PageElement) => {
+        if (element.type !== 'form' || !/^<(input|select|textarea)\b/i.test(element.html)) return null;
+
+        // Personal-data fields and autocomplete tokens - see lib/scanner/autocomplete.ts
+        const review = reviewAutocomplete(this.fieldDescription(element));
+        if (!review) return null;
+        if (!review.problem) return { passed: true };
+
+        return {
+          passed: false,
+          message: review.message,
+          impact: review.problem === 'invalid' || review.problem === 'mismatch' ? 'serious' : 'moderate'
+        };
+      }
+    },
+
+    '2.4.11': {
+      name: 'Focus Not Obscured (Minimum)',
+      level: 'AA',
+      version: '2.2',
+      test: (element: PageElement) => {
+        // Needs live focus traversal - handled in checkPage
+        return null;
+      }
+    },
+
+    '2.5.7': {
+      name: 'Dragging Movements',
+      level: 'AA',
+      version: '2.2',
+      test: (element: PageElement) => {
+        const draggableMarkers = ['draggable="true"', 'data-rbd-draggable-id', 'data-sortable', 'ui-sortable'];
+        const isDraggable = element.attributes.draggable === 'true' ||
+                           draggableMarkers.some(marker => element.html.includes(marker));
+        if (!isDraggable) return null;
+
+        // A click/tap alternative usually shows up as buttons next to the drag handle
+        const hasPointerAlternative = /<button|role="button"|aria-keyshortcuts/.test(element.html);
+        if (!hasPointerAlternative) {
+          return {
+            passed: false,
+            message: 'Drag-and-drop interaction needs a single-pointer alternative (e.g. move up/down buttons)',
+            impact: 'moderate'
+          };
+        }
+
+        return { passed: true };
+      }
+    },
+
+    '2.5.8': {
+      name: 'Target Size (Minimum)',
+      level: 'AA',
+      version: '2.2',
+      test: (element: PageElement) => {
+        if (!element.isInteractive || !element.boundingBox) return null;
+        if (element.type === 'video' || element.type === 'audio') return null;
+        if (element.attributes.type === 'hidden') return null;
+
+        // Inline links inside running text are exempt
+        if (element.type === 'link' && /^<(p|li|td|dd|span|blockquote)\b/i.test(element.parentContext)) {
+          return null;
+        }
+
+        const { width, height } = element.boundingBox;
+        if (width > 0 && height > 0 && (width < 24 || height < 24)) {
+          return {
+            passed: false,
+            message: `Target is ${Math.round(width)}×${Math.round(height)}px; needs at least 24×24px or enough spacing from other targets`,
+            impact: 'moderate'
+          };
+        }
+
+        return { passed: true };
+      }
+    },
+
+    '3.2.6': {
+      name: 'Consistent Help',
+      level: 'A',
+      version: '2.2',
+      test: (element: PageElement) => {
+        // Cross-page comparison - handled in checkConsistentHelp
+        return null;
+      }
+    },
+
+    '3.3.7': {
+      name: 'Redundant Entry',
+      level: 'A',
+      version: '2.2',
+      test: (element: PageElement) => {
+        if (element.type !== 'form' || !element.isInteractive) return null;
+        if (element.attributes.type === 'password') return null; // Security re-entry is allowed
+
+        const descriptor = [
+          element.attributes.name,
+          element.attributes.id,
+          element.attributes.placeholder,
+          element.ariaAttributes['aria-label']
+        ].filter(Boolean).join(' ');
+
+        const asksAgain = /(confirm|verify|repeat|re-?enter|retype)[\s_-]*(your[\s_-]*)?e-?mail|e-?mail[\s_-]*(confirm|again|verification)/i;
+        if (asksAgain.test(descriptor)) {
+          return {
+            passed: false,
+            message: 'Users are asked to re-enter information they already provided',
+            impact: 'moderate'
+          };
+        }
+
+        return { passed: true };
+      }
+    },
+
+    '3.3.8': {
+      name: 'Accessible Authentication (Minimum)',
+      level: 'AA',
+      version: '2.2',
+      test: (element: PageElement) => {
+        if (element.type !== 'form' || element.attributes.type !== 'password') return null;
+
+        if (element.attributes.onpaste !== undefined) {
+          return {
+            passed: false,
+            message: 'Password field blocks paste, preventing use of password managers',
+            impact: 'serious'
+          };
+        }
+
+        // Paste blocking added from script and autocomplete="off" are probed in checkPage
+        return { passed: true };
+      }
     }
   };
 
-  checkElement(element: PageElement): Violation[] {
+  /**
+   * Whether a criterion belongs to the selected WCAG version and level
+   */
+  isActive(ruleId: string): boolean {
+    const rule = this.rules[ruleId];
+    if (!rule) return false;
+
+    return this.inScope(rule.version, rule.level);
+  }
+
+  /**
+   * Whether a criterion introduced in a version at a level is part of the
+   * selected rule set, for criteria checked outside this class
+   */
+  inScope(version: WCAGVersion, level: WCAGLevel): boolean {
+    return VERSION_ORDER.indexOf(version) <= VERSION_ORDER.indexOf(this.version) &&
+           LEVEL_ORDER.indexOf(level) <= LEVEL_ORDER.indexOf(this.level);
+  }
+
+  getActiveCriteria(): string[] {
+    return Object.keys(this.rules).filter(ruleId => this.isActive(ruleId));
+  }
+
+  checkElement(element: PageElement, criteria?: string[]): Violation[] {
     const violations: Violation[] = [];
     
     for (const [ruleId, rule] of Object.entries(this.rules)) {
+      if (!this.isActive(ruleId)) continue;
+      if (criteria && !criteria.includes(ruleId)) continue;
+
       const result = rule.test.call(this, element);
       
       if (result && !result.passed) {
-        violations.push({
-          rule: `WCAG ${ruleId}`,
-          severity: result.impact || 'moderate',
-          element: element.selector,
-          message: result.message || 'Accessibility violation detected',
-          impact: this.getImpactDescription(ruleId, result.impact),
-          legalRisk: this.getLegalRisk(result.impact),
-          howToFix: this.getFixInstructions(ruleId, element),
-          codeExample: this.generateFixCode(element, ruleId),
-          wcagCriterion: ruleId,
-          lawsuitProbability: this.calculateLawsuitProbability(ruleId, result.impact)
-        });
+        violations.push(this.toViolation(ruleId, element.selector, result, element));
       }
     }
     
     return violations;
   }
 
+  /**
+   * Page-level checks that need the live page (focus traversal, event probes)
+   */
+  async checkPage(page: Page, criteria?: string[]): Promise<Violation[]> {
+    const probes: Record<string, (page: Page) => Promise<PageFinding[]>> = {
+      '2.4.11': probeFocusNotObscured,
+      '3.3.7': probeRedundantEntry,
+      '3.3.8': probeAccessibleAuthentication
+    };
+
+    const violations: Violation[] = [];
+    for (const [ruleId, probe] of Object.entries(probes)) {
+      if (!this.isActive(ruleId)) continue;
+      if (criteria && !criteria.includes(ruleId)) continue;
+
+      try {
+        violations.push(...this.checkFindings(ruleId, await probe(page)));
+      } catch (error) {
+        console.warn(`WCAG ${ruleId} probe failed:`, error);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Violations for findings a caller probed itself (e.g. dialog focus
+   * during interactive exploration)
+   */
+  checkFindings(ruleId: string, findings: PageFinding[]): Violation[] {
+    if (!this.isActive(ruleId)) return [];
+
+    return findings.map(finding => this.toViolation(ruleId, finding.selector, {
+      passed: false,
+      message: finding.message,
+      impact: finding.impact
+    }));
+  }
+
+  /**
+   * 3.2.6 Consistent Help - compare help mechanism order across scanned pages
+   */
+  checkConsistentHelp(pages: Array<{ url: string; mechanisms: string[] }>): Violation[] {
+    if (!this.isActive('3.2.6')) return [];
+
+    return compareHelpOrder(pages).map(mismatch =>
+      this.toViolation('3.2.6', 'body', {
+        passed: false,
+        message: `Help mechanisms appear as ${mismatch.actual.join(' → ')} instead of ${mismatch.expected.join(' → ')} used on other pages`,
+        impact: 'moderate'
+      }, undefined, mismatch.url)
+    );
+  }
+
+  // Page URL is left to the caller (the check runner fills it in) unless known here
+  private toViolation(ruleId: string, selector: string, result: RuleResult, element?: PageElement, pageUrl = ''): Violation {
+    return {
+      check: 'rules',
+      ruleId: `wcag-${ruleId}`,
+      wcagCriterion: ruleId,
+      wcagVersion: this.rules[ruleId].version,
+      wcagLevel: this.rules[ruleId].level,
+      severity: result.impact || 'moderate',
+      elementType: element?.type || 'page',
+      elementSelector: selector,
+      elementHtml: element?.html.slice(0, 500) || '',
+      pageUrl,
+      message: result.message || 'Accessibility violation detected',
+      userImpact: this.getImpactDescription(ruleId, result.impact),
+      legalRiskLevel: this.getLegalRisk(result.impact),
+      lawsuitProbability: this.calculateLawsuitProbability(ruleId, result.impact),
+      fixDescription: this.getFixInstructions(ruleId, element),
+      fixCode: this.generateFixCode(element, ruleId)
+    };
+  }
+
+  private fieldDescription(element: PageElement): FieldDescription {
+    return {
+      tag: element.html.match(/^<(\w+)/)?.[1].toLowerCase() || 'input',
+      type: element.attributes.type,
+      name: element.attributes.name,
+      id: element.attributes.id,
+      label: element.accessibility?.name || element.ariaAttributes['aria-label'],
+      placeholder: element.attributes.placeholder,
+      autocomplete: element.attributes.autocomplete
+    };
+  }
+
+  private colorAlpha(color: string): number {
+    if (color === 'transparent') return 0;
+    const rgbaMatch = color.match(/rgba\(\s*\d+,\s*\d+,\s*\d+,\s*([\d.]+)\s*\)/);
+    return rgbaMatch ? parseFloat(rgbaMatch[1]) : 1;
+  }
+
   private calculateContrastRatio(foreground: string, background: string): number {
     // Parse RGB values from CSS color string
     const parseColor = (color: string): [number, number, number] => {
-      // Handle rgb() format
-      const rgbMatch = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+      // Handle rgb() / rgba() format
+      const rgbMatch = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
       if (rgbMatch) {
         return [parseInt(rgbMatch[1]), parseInt(rgbMatch[2]), parseInt(rgbMatch[3])];
       }
@@ -379,8 +707,16 @@ export class WCAGRules {
       '2.4.4': 'Screen reader users cannot understand link purpose without context',
       '3.3.2': 'Users don\'t know what information to enter in this form field',
       '4.1.2': 'Assistive technologies cannot properly identify or control this element',
+      '1.3.5': 'Browsers and assistive tools cannot autofill or add familiar icons to this personal-data field',
       '1.2.1': 'Deaf or hard-of-hearing users cannot access audio content',
-      '2.4.6': 'Users cannot understand the purpose or context of this section'
+      '2.4.3': 'Keyboard and screen reader users lose their place when focus does not follow the content that opened',
+      '2.4.6': 'Users cannot understand the purpose or context of this section',
+      '2.4.11': 'Keyboard users cannot see where focus is because sticky content covers it',
+      '2.5.7': 'Users who cannot drag (tremor, head pointer, switch access) cannot complete this action',
+      '2.5.8': 'Small targets are hard to activate for users with limited dexterity',
+      '3.2.6': 'Users looking for help cannot rely on finding it in the same place on every page',
+      '3.3.7': 'Users with memory or motor impairments must re-type information they already gave',
+      '3.3.8': 'Users with cognitive impairments cannot rely on password managers or copy-paste to log in'
     };
     
     return descriptions[ruleId] || 'Accessibility barrier prevents some users from accessing content';
@@ -395,7 +731,7 @@ export class WCAGRules {
     }
   }
 
-  private getFixInstructions(ruleId: string, element: PageElement): string {
+  private getFixInstructions(ruleId: string, element?: PageElement): string {
     const instructions: Record<string, string> = {
       '1.1.1': `Add descriptive alt text that conveys the same information as the image. If decorative, use alt=""`,
       '1.3.1': 'Ensure proper heading hierarchy (h1 → h2 → h3) and associate labels with form controls',
@@ -404,14 +740,26 @@ export class WCAGRules {
       '2.4.4': 'Replace vague link text with descriptive text that explains the destination',
       '3.3.2': 'Add a <label> element with for attribute matching the input\'s id',
       '4.1.2': 'Ensure element has proper role, accessible name, and required ARIA attributes',
+      '1.3.5': 'Add an autocomplete attribute with the HTML autofill token for the information the field collects',
       '1.2.1': 'Add captions track or provide transcript for audio/video content',
-      '2.4.6': 'Use descriptive, unique heading text that clearly identifies the section'
+      '2.4.3': 'Move focus into a dialog when it opens and return it to the control that opened it when it closes',
+      '2.4.6': 'Use descriptive, unique heading text that clearly identifies the section',
+      '2.4.11': 'Add scroll-padding for sticky headers/footers or move overlays so focused elements stay visible',
+      '2.5.7': 'Provide buttons or menus that perform the same action with a single click or tap',
+      '2.5.8': 'Make the target at least 24×24 CSS pixels or leave 24px of spacing around it',
+      '3.2.6': 'Place contact details, chat and help links in the same order on every page (e.g. a shared footer)',
+      '3.3.7': 'Auto-fill previously entered information or offer a "same as" option instead of asking again',
+      '3.3.8': 'Allow paste and autocomplete on credential fields and offer a non-cognitive alternative to puzzles'
     };
     
     return instructions[ruleId] || 'Fix the accessibility issue according to WCAG guidelines';
   }
 
-  private generateFixCode(element: PageElement, ruleId: string): string {
+  private generateFixCode(element: PageElement | undefined, ruleId: string): string {
+    if (!element) {
+      return this.generatePageFixCode(ruleId);
+    }
+
     switch (ruleId) {
       case '1.1.1':
         return `<img src="${element.attributes.src || '[image-url]'}" alt="[Descriptive text explaining image content]" />`;
@@ -436,6 +784,13 @@ export class WCAGRules {
         return `<label for="${inputId}">Enter your [field name]:</label>
 <input id="${inputId}" type="${element.attributes.type || 'text'}" />`;
       
+      case '1.3.5': {
+        const field = this.fieldDescription(element);
+        const token = suggestAutocomplete(field) || '[autofill token]';
+        const attributes = element.html.match(/^<\w+([^>]*?)\/?>/)?.[1].replace(/\s+autocomplete=("[^"]*"|'[^']*'|\S+)/i, '').trim();
+        return `<${field.tag}${attributes ? ` ${attributes}` : ''} autocomplete="${token}"${field.tag === 'input' ? ' />' : `></${field.tag}>`}`;
+      }
+
       case '2.4.4':
         return `<a href="${element.attributes.href || '#'}">
   [Descriptive link text explaining destination]
@@ -450,6 +805,43 @@ export class WCAGRules {
   ${element.text || '[Button text]'}
 </button>`;
       
+      case '2.5.8':
+        return `/* Minimum 24×24 CSS pixel target */
+${element.selector} {
+  min-width: 24px;
+  min-height: 24px;
+}`;
+
+      case '3.3.8':
+        return `<input type="password" id="${element.attributes.id || 'password'}" autocomplete="current-password" />`;
+
+      default:
+        return this.generatePageFixCode(ruleId);
+    }
+  }
+
+  private generatePageFixCode(ruleId: string): string {
+    switch (ruleId) {
+      case '2.4.3':
+        return `const opener = document.activeElement;
+dialog.showModal(); // or focus the first control inside a custom dialog
+dialog.addEventListener('close', () => opener.focus());`;
+
+      case '2.4.11':
+        return `/* Keep focused elements clear of a 80px sticky header */
+html {
+  scroll-padding-top: 80px;
+}`;
+
+      case '3.3.7':
+        return `<label>
+  <input type="checkbox" name="billingSameAsShipping" checked />
+  Billing address same as shipping
+</label>`;
+
+      case '3.3.8':
+        return `<input type="password" autocomplete="current-password" /> <!-- no onpaste blocking -->`;
+
       default:
         return '<!-- Apply appropriate fix based on WCAG guidelines -->';
     }
@@ -0,0 +1,249 @@
+import { Page } from 'playwright';
+import { collectFromFrames, installDomHelpers, scopedSelector } from '@/lib/scanner/dom-scope';
+
+/**
+ * WCAG 2.2 page-level probes
+ *
+ * These criteria can't be judged from a static element snapshot, so they
+ * run against the live page. Each probe returns raw findings; WCAGRules
+ * turns them into violations. Probes look through open shadow roots and,
+ * apart from focus traversal, into every frame.
+ */
+
+export interface PageFinding {
+  selector: string;
+  message: string;
+  impact: 'critical' | 'serious' | 'moderate' | 'minor';
+}
+
+const MAX_FOCUS_STOPS = 40;
+
+/**
+ * 2.4.11 Focus Not Obscured (Minimum)
+ * Tab through the page and flag focused elements that are entirely covered
+ * by sticky/fixed content (cookie banners, sticky headers, chat launchers).
+ */
+export async function probeFocusNotObscured(page: Page): Promise<PageFinding[]> {
+  const findings: PageFinding[] = [];
+
+  await installDomHelpers(page.mainFrame());
+  await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur());
+
+  for (let i = 0; i < MAX_FOCUS_STOPS; i++) {
+    await page.keyboard.press('Tab');
+
+    const result = await page.evaluate(() => {
+      let focused = document.activeElement as HTMLElement | null;
+      while (focused?.shadowRoot?.activeElement) {
+        focused = focused.shadowRoot.activeElement as HTMLElement;
+      }
+      if (!focused || focused === document.body) return null;
+
+      // Focus wrapped around to an element we already checked
+      if (focused.hasAttribute('data-es-focus-probed')) return { wrapped: true, selector: '', obscuredBy: null };
+      focused.setAttribute('data-es-focus-probed', '');
+
+      const selector = window.__esDom!.shadowPath(focused) + (focused.id
+        ? `#${focused.id}`
+        : focused.tagName.toLowerCase() + (focused.className && typeof focused.className === 'string'
+          ? '.' + focused.className.trim().split(/\s+/).join('.')
+          : ''));
+
+      // contains() that also crosses shadow boundaries
+      const composedContains = (outer: Element, inner: Element): boolean => {
+        for (let node: Node | null = inner; node; node = node.parentNode || (node as ShadowRoot).host || null) {
+          if (node === outer) return true;
+        }
+        return false;
+      };
+
+      const rect = focused.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return { wrapped: false, selector, obscuredBy: null };
+
+      const isStuck = (el: Element | null): Element | null => {
+        for (let node = el; node && node !== document.documentElement; node = node.parentElement) {
+          const position = window.getComputedStyle(node).position;
+          if (position === 'fixed' || position === 'sticky') return node;
+        }
+        return null;
+      };
+
+      // Center and inset corners; the element is obscured only if every point is covered
+      const inset = 2;
+      const points = [
+        [rect.left + rect.width / 2, rect.top + rect.height / 2],
+        [rect.left + inset, rect.top + inset],
+        [rect.right - inset, rect.top + inset],
+        [rect.left + inset, rect.bottom - inset],
+        [rect.right - inset, rect.bottom - inset]
+      ];
+
+      let cover: Element | null = null;
+      for (const [x, y] of points) {
+        if (x < 0 || y < 0 || x >= window.innerWidth || y >= window.innerHeight) continue;
+        const hit = document.elementFromPoint(x, y);
+        if (!hit || hit === focused || focused.contains(hit) || composedContains(hit, focused)) {
+          return { wrapped: false, selector, obscuredBy: null };
+        }
+        const stuck = isStuck(hit);
+        if (!stuck || composedContains(stuck, focused)) return { wrapped: false, selector, obscuredBy: null };
+        cover = stuck;
+      }
+
+      if (!cover) return { wrapped: false, selector, obscuredBy: null };
+      return {
+        wrapped: false,
+        selector,
+        obscuredBy: cover.id ? `#${cover.id}` : cover.tagName.toLowerCase()
+      };
+    });
+
+    if (!result) continue;
+    if (result.wrapped) break;
+
+    if (result.obscuredBy) {
+      findings.push({
+        selector: result.selector,
+        message: `Focused element is completely hidden behind ${result.obscuredBy}`,
+        impact: 'serious'
+      });
+    }
+  }
+
+  await page.evaluate(() => {
+    window.__esDom!.queryAll('[data-es-focus-probed]').forEach(el => el.removeAttribute('data-es-focus-probed'));
+  });
+
+  return findings;
+}
+
+/**
+ * 3.3.8 Accessible Authentication (Minimum)
+ * Password and one-time-code fields that block paste or password managers
+ * force users to transcribe credentials from memory.
+ */
+export async function probeAccessibleAuthentication(page: Page): Promise<PageFinding[]> {
+  return collectFromFrames(page, ({ frame, path }) => frame.evaluate((framePath) => {
+    const dom = window.__esDom!;
+    const findings: Array<{ selector: string; message: string; impact: 'serious' | 'moderate' }> = [];
+    const fields = dom.queryAll(
+      'input[type="password"], input[autocomplete="one-time-code"]'
+    ) as HTMLInputElement[];
+
+    for (const field of fields) {
+      const local = dom.shadowPath(field) + (field.id ? `#${field.id}` : `input[name="${field.name}"]`);
+      const selector = framePath ? framePath + local : local;
+
+      const paste = new Event('paste', { bubbles: true, cancelable: true });
+      const allowed = field.dispatchEvent(paste);
+      if (!allowed) {
+        findings.push({ selector, message: 'Paste is blocked on a credential field', impact: 'serious' });
+        continue;
+      }
+
+      if (field.type === 'password' && field.getAttribute('autocomplete') === 'off') {
+        findings.push({
+          selector,
+          message: 'autocomplete="off" on a password field prevents password managers from filling it',
+          impact: 'moderate'
+        });
+      }
+    }
+
+    return findings;
+  }, path ? scopedSelector(path, '') : ''));
+}
+
+/**
+ * 3.3.7 Redundant Entry
+ * Separate shipping and billing address blocks with no "same as" option
+ * make users type the same information twice.
+ */
+export async function probeRedundantEntry(page: Page): Promise<PageFinding[]> {
+  return collectFromFrames(page, ({ frame, path }) => frame.evaluate((framePath) => {
+    const dom = window.__esDom!;
+    const findings: Array<{ selector: string; message: string; impact: 'moderate' }> = [];
+
+    for (const form of dom.queryAll('form')) {
+      const autocomplete = dom.queryAll('input, select, textarea', form)
+        .map(field => (field.getAttribute('autocomplete') || '').toLowerCase());
+
+      const hasShipping = autocomplete.some(value => value.startsWith('shipping '));
+      const hasBilling = autocomplete.some(value => value.startsWith('billing '));
+      if (!hasShipping || !hasBilling) continue;
+
+      const offersReuse = dom.queryAll('input[type="checkbox"], input[type="radio"]', form)
+        .some(input => {
+          const label = (input as HTMLInputElement).labels?.[0]?.textContent || input.getAttribute('aria-label') || '';
+          return /same as|use (my )?(shipping|billing|delivery)/i.test(label);
+        });
+
+      if (!offersReuse) {
+        findings.push({
+          selector: framePath + dom.shadowPath(form) + (form.id ? `#${form.id}` : dom.selectorFor(form)),
+          message: 'Billing and shipping addresses are requested separately with no option to reuse the first',
+          impact: 'moderate'
+        });
+      }
+    }
+
+    return findings;
+  }, path ? scopedSelector(path, '') : ''));
+}
+
+/**
+ * 3.2.6 Consistent Help (data collection)
+ * Ordered list of help mechanisms on the page, compared across pages later.
+ */
+export async function extractHelpMechanisms(page: Page): Promise<string[]> {
+  const kinds = await collectFromFrames(page, ({ frame }) => frame.evaluate(() => {
+    const order: string[] = [];
+    const add = (kind: string) => {
+      if (!order.includes(kind)) order.push(kind);
+    };
+
+    const chatPattern = /intercom|drift|zendesk|zopim|crisp|tawk|livechat|hubspot-messages|freshchat/i;
+    const candidates = window.__esDom!.queryAll('a[href], button, iframe, [id], [class]');
+
+    for (const el of candidates) {
+      const href = el.getAttribute('href') || '';
+      const text = (el.textContent || '').trim().toLowerCase();
+      const marker = `${el.id} ${el.getAttribute('class') || ''} ${el.getAttribute('src') || ''}`;
+
+      if (href.startsWith('tel:')) add('phone');
+      else if (href.startsWith('mailto:')) add('email');
+      else if (el.matches('a[href], button') && /^(contact( us)?|get in touch)$/.test(text)) add('contact');
+      else if (el.matches('a[href], button') && /^(help|support|faq|help center|customer service)$/.test(text)) add('self-help');
+      else if (chatPattern.test(marker)) add('chat');
+    }
+
+    return order;
+  }));
+
+  // Frames come after the main document, so first appearance keeps page order
+  return kinds.filter((kind, index) => kinds.indexOf(kind) === index);
+}
+
+/**
+ * Compare help mechanism order across pages (3.2.6)
+ * Mechanisms missing from a page are fine; the ones present must keep
+ * the same relative order as on the first page that has them.
+ */
+export function compareHelpOrder(
+  pages: Array<{ url: string; mechanisms: string[] }>
+): Array<{ url: string; expected: string[]; actual: string[] }> {
+  const baseline = pages.find(p => p.mechanisms.length >= 2);
+  if (!baseline) return [];
+
+  const mismatches: Array<{ url: string; expected: string[]; actual: string[] }> = [];
+  for (const p of pages) {
+    if (p === baseline) continue;
+    const actual = p.mechanisms.filter(kind => baseline.mechanisms.includes(kind));
+    const expected = baseline.mechanisms.filter(kind => actual.includes(kind));
+    if (actual.join('>') !== expected.join('>')) {
+      mismatches.push({ url: p.url, expected, actual });
+    }
+  }
+
+  return mismatches;
+}
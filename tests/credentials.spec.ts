@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { randomBytes } from 'node:crypto';
+import {
+  CredentialKeyError,
+  decryptJSON,
+  decryptSecret,
+  encryptJSON,
+  encryptSecret
+} from '../lib/security/credentials';
+
+// Swap one base64url character of a payload segment for another valid one
+function tamper(payload: string, segment: number): string {
+  const parts = payload.split('.');
+  const value = parts[segment];
+  parts[segment] = (value[0] === 'A' ? 'B' : 'A') + value.slice(1);
+  return parts.join('.');
+}
+
+test.describe('Credential encryption', () => {
+  const env = { ...process.env };
+
+  test.beforeEach(() => {
+    process.env.SCAN_CREDENTIALS_KEY = randomBytes(32).toString('base64');
+  });
+
+  test.afterEach(() => {
+    process.env = env;
+  });
+
+  test('round-trips secrets and JSON values', () => {
+    const payload = encryptSecret('correct horse battery staple');
+    expect(payload).toMatch(/^v1\.[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(payload).not.toContain('horse');
+    expect(decryptSecret(payload)).toBe('correct horse battery staple');
+
+    const profile = { kind: 'form_login', recipe: { username: 'qa@shop.example', password: 'p@ss' } };
+    expect(decryptJSON(encryptJSON(profile))).toEqual(profile);
+  });
+
+  test('uses a fresh IV for every payload', () => {
+    expect(encryptSecret('same secret')).not.toBe(encryptSecret('same secret'));
+  });
+
+  test('rejects tampered payloads', () => {
+    const payload = encryptSecret('p@ss');
+    for (const segment of [1, 2, 3]) {
+      expect(() => decryptSecret(tamper(payload, segment)), `segment ${segment}`).toThrow();
+    }
+    expect(() => decryptSecret(payload.replace(/^v1\./, 'v2.'))).toThrow('Unsupported credential payload format');
+    expect(() => decryptSecret(payload.split('.').slice(0, 3).join('.'))).toThrow('Unsupported credential payload format');
+  });
+
+  test('rejects payloads encrypted with another key', () => {
+    const payload = encryptSecret('p@ss');
+    process.env.SCAN_CREDENTIALS_KEY = randomBytes(32).toString('base64');
+    expect(() => decryptSecret(payload)).toThrow();
+  });
+
+  test('refuses to run without a 32-byte key', () => {
+    delete process.env.SCAN_CREDENTIALS_KEY;
+    expect(() => encryptSecret('p@ss')).toThrow(CredentialKeyError);
+
+    process.env.SCAN_CREDENTIALS_KEY = randomBytes(16).toString('base64');
+    expect(() => encryptSecret('p@ss')).toThrow('SCAN_CREDENTIALS_KEY must be 32 bytes encoded as base64');
+  });
+});
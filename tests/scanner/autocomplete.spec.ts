@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import {
+  inputPurpose,
+  parseAutocomplete,
+  reviewAutocomplete,
+  suggestAutocomplete
+} from '../../lib/scanner/autocomplete';
+
+test.describe('parseAutocomplete', () => {
+  test('accepts the full token grammar', () => {
+    expect(parseAutocomplete('section-gift shipping work email webauthn')).toEqual({ valid: true, field: 'email' });
+    expect(parseAutocomplete('billing postal-code')).toEqual({ valid: true, field: 'postal-code' });
+    expect(parseAutocomplete(' Given-Name ')).toEqual({ valid: true, field: 'given-name' });
+    expect(parseAutocomplete('off')).toEqual({ valid: true, field: null });
+  });
+
+  test('rejects unknown field names and empty values', () => {
+    expect(parseAutocomplete('firstname')).toMatchObject({ valid: false, problem: '"firstname" is not an autofill field name' });
+    expect(parseAutocomplete('   ')).toMatchObject({ valid: false, problem: 'is empty' });
+  });
+
+  test('only allows a contact type in front of tel, email and impp', () => {
+    expect(parseAutocomplete('mobile tel')).toEqual({ valid: true, field: 'tel' });
+    expect(parseAutocomplete('home street-address'))
+      .toMatchObject({ valid: false, field: 'street-address', problem: '"home" can only precede tel, email or impp fields' });
+  });
+
+  test('rejects tokens out of order', () => {
+    expect(parseAutocomplete('shipping section-a name'))
+      .toMatchObject({ valid: false, field: 'name', problem: '"shipping" is not allowed before "name"' });
+    expect(parseAutocomplete('on email')).toMatchObject({ valid: false, problem: '"on" is not allowed before "email"' });
+  });
+});
+
+test.describe('inputPurpose', () => {
+  test('reads the purpose from the input type', () => {
+    expect(inputPurpose({ tag: 'input', type: 'email', name: 'field1' })).toBe('email');
+    expect(inputPurpose({ tag: 'input', type: 'tel' })).toBe('tel');
+    expect(inputPurpose({ tag: 'input', type: 'password', label: 'Password' })).toBe('current-password');
+    expect(inputPurpose({ tag: 'input', type: 'password', label: 'Confirm password' })).toBe('new-password');
+  });
+
+  test('reads the purpose from the label, then name, id and placeholder', () => {
+    expect(inputPurpose({ tag: 'input', label: 'Name on card' })).toBe('cc-name');
+    expect(inputPurpose({ tag: 'input', name: 'billingFirstName' })).toBe('given-name');
+    expect(inputPurpose({ tag: 'input', id: 'postal_code' })).toBe('postal-code');
+    expect(inputPurpose({ tag: 'input', placeholder: 'MM / YY' })).toBe('cc-exp');
+    expect(inputPurpose({ tag: 'input', label: 'Company', name: 'email' })).toBe('organization');
+  });
+
+  test('tells a one-line street field from a textarea for the whole address', () => {
+    expect(inputPurpose({ tag: 'input', label: 'Street address' })).toBe('address-line1');
+    expect(inputPurpose({ tag: 'textarea', label: 'Street address' })).toBe('street-address');
+  });
+
+  test('ignores fields that are not about the user', () => {
+    expect(inputPurpose({ tag: 'input', type: 'search', name: 'email' })).toBeNull();
+    expect(inputPurpose({ tag: 'input', label: 'Recipient email' })).toBeNull();
+    expect(inputPurpose({ tag: 'input', label: 'Product name' })).toBeNull();
+    expect(inputPurpose({ tag: 'input', label: 'Quantity' })).toBeNull();
+  });
+});
+
+test.describe('reviewAutocomplete', () => {
+  test('reports a personal field without autocomplete', () => {
+    expect(reviewAutocomplete({ tag: 'input', label: 'First name' })).toEqual({
+      purpose: 'given-name',
+      problem: 'missing',
+      message: "Field collecting the user's given name has no autocomplete attribute"
+    });
+  });
+
+  test('reports "off" on a personal field, except on passwords', () => {
+    expect(reviewAutocomplete({ tag: 'input', type: 'email', autocomplete: 'off' })).toMatchObject({ problem: 'off' });
+    expect(reviewAutocomplete({ tag: 'input', type: 'password', autocomplete: 'off' })).toMatchObject({ problem: null });
+  });
+
+  test('reports invalid values even on fields that are not about the user', () => {
+    expect(reviewAutocomplete({ tag: 'input', label: 'Quantity', autocomplete: 'qty' })).toMatchObject({ purpose: null, problem: 'invalid' });
+  });
+
+  test('accepts related tokens but reports a different kind of value', () => {
+    expect(reviewAutocomplete({ tag: 'input', label: 'Address line 1', autocomplete: 'street-address' })).toMatchObject({ problem: null });
+    expect(reviewAutocomplete({ tag: 'input', label: 'Mobile', autocomplete: 'home tel-national' })).toMatchObject({ problem: null });
+    expect(reviewAutocomplete({ tag: 'input', label: 'Email', autocomplete: 'name' })).toMatchObject({ purpose: 'email', problem: 'mismatch' });
+  });
+
+  test('has nothing to check on an unrelated field without a value', () => {
+    expect(reviewAutocomplete({ tag: 'textarea', label: 'Message' })).toBeNull();
+  });
+});
+
+test.describe('suggestAutocomplete', () => {
+  test('suggests the classified purpose or reads one from a mistyped value', () => {
+    expect(suggestAutocomplete({ tag: 'input', label: 'Surname', autocomplete: 'lastname' })).toBe('family-name');
+    expect(suggestAutocomplete({ tag: 'input', autocomplete: 'firstname' })).toBe('given-name');
+    expect(suggestAutocomplete({ tag: 'input', label: 'Quantity' })).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+import type { Browser, Page } from 'playwright';
+import { BrowserPool, PageTimeoutError } from '../../lib/scanner/browser-pool';
+
+// Just enough of a browser for the pool: contexts that open blank pages
+function fakeBrowser() {
+  const browser = {
+    connected: true,
+    contextsOpened: 0,
+    contextsClosed: 0,
+    isConnected: () => browser.connected,
+    newContext: async () => {
+      browser.contextsOpened++;
+      return {
+        newPage: async () => ({}) as Page,
+        close: async () => { browser.contextsClosed++; }
+      };
+    },
+    close: async () => { browser.connected = false; }
+  };
+  return browser;
+}
+
+function poolWith(options: { maxContexts?: number; maxPerHost?: number; pageTimeoutMs?: number } = {}) {
+  const launched: Array<ReturnType<typeof fakeBrowser>> = [];
+  const pool = new BrowserPool({
+    launch: async () => {
+      launched.push(fakeBrowser());
+      return launched[launched.length - 1] as unknown as Browser;
+    },
+    ...options
+  });
+  return { pool, launched };
+}
+
+// A task that runs until released, recording when it started
+function gate(started: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  return {
+    task: async () => {
+      started.push(name);
+      await done;
+      return name;
+    },
+    release: () => release()
+  };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+test.describe('BrowserPool', () => {
+  test('runs at most maxPerHost pages of a host at once', async () => {
+    const { pool } = poolWith({ maxContexts: 4, maxPerHost: 2 });
+    const started: string[] = [];
+    const tasks = ['a1', 'a2', 'a3'].map(name => gate(started, name));
+
+    const runs = tasks.map((task, i) => pool.withPage(`https://a.example/${i}`, {}, task.task));
+    await tick();
+    expect(started).toEqual(['a1', 'a2']);
+    expect(pool.metrics()).toMatchObject({ active: 2, queued: 1, activeByHost: { 'a.example': 2 } });
+
+    tasks[0].release();
+    await tick();
+    expect(started).toEqual(['a1', 'a2', 'a3']);
+
+    tasks.forEach(task => task.release());
+    expect(await Promise.all(runs)).toEqual(['a1', 'a2', 'a3']);
+    await pool.close();
+  });
+
+  test('hands free slots out in arrival order, skipping hosts at their limit', async () => {
+    const { pool } = poolWith({ maxContexts: 2, maxPerHost: 1 });
+    const started: string[] = [];
+    const tasks = Object.fromEntries(['a1', 'b1', 'a2', 'a3', 'c1'].map(name => [name, gate(started, name)]));
+    const host = (name: string) => `https://${name[0]}.example/${name}`;
+
+    const runs = Object.keys(tasks).map(name => pool.withPage(host(name), {}, tasks[name].task));
+    await tick();
+    expect(started).toEqual(['a1', 'b1']);
+
+    // a.example is still busy with a1, so c1 goes ahead of a2 and a3
+    tasks.b1.release();
+    await tick();
+    expect(started).toEqual(['a1', 'b1', 'c1']);
+
+    tasks.a1.release();
+    await tick();
+    expect(started).toEqual(['a1', 'b1', 'c1', 'a2']);
+
+    Object.values(tasks).forEach(task => task.release());
+    await Promise.all(runs);
+    expect(started).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+    await pool.close();
+  });
+
+  test('spaces page starts on a host by the crawl delay, one at a time', async () => {
+    const { pool } = poolWith({ maxContexts: 4, maxPerHost: 4 });
+    const startedAt: number[] = [];
+    const task = async () => { startedAt.push(Date.now()); };
+
+    await Promise.all([0, 1, 2].map(i =>
+      pool.withPage(`https://a.example/${i}`, {}, task, { minIntervalMs: 200 })
+    ));
+
+    expect(startedAt).toHaveLength(3);
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(190);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(190);
+    await pool.close();
+  });
+
+  test('fails a page that runs past its timeout and closes its context', async () => {
+    const { pool, launched } = poolWith({ pageTimeoutMs: 50 });
+
+    await expect(pool.withPage('https://a.example/', {}, () => new Promise(() => undefined)))
+      .rejects.toBeInstanceOf(PageTimeoutError);
+    expect(pool.metrics()).toMatchObject({ active: 0, failed: 1, timedOut: 1 });
+    expect(launched[0].contextsClosed).toBe(launched[0].contextsOpened);
+    await pool.close();
+  });
+
+  test('retries a page once on a relaunched browser after a crash', async () => {
+    const { pool, launched } = poolWith();
+    let attempts = 0;
+
+    const result = await pool.withPage('https://a.example/', {}, async () => {
+      attempts++;
+      if (attempts === 1) {
+        launched[0].connected = false;
+        throw new Error('Target closed');
+      }
+      return 'scanned';
+    });
+
+    expect(result).toBe('scanned');
+    expect(launched).toHaveLength(2);
+    expect(pool.metrics()).toMatchObject({ completed: 1, failed: 0, browserRestarts: 1 });
+    await pool.close();
+  });
+
+  test('gives up when the browser crashes again on the retry', async () => {
+    const { pool, launched } = poolWith();
+    let attempts = 0;
+
+    await expect(pool.withPage('https://a.example/', {}, async () => {
+      attempts++;
+      launched[launched.length - 1].connected = false;
+      throw new Error('Target closed');
+    })).rejects.toThrow('Target closed');
+
+    expect(attempts).toBe(2);
+    expect(pool.metrics()).toMatchObject({ active: 0, failed: 1 });
+    await pool.close();
+  });
+});
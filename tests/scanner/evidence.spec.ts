@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ComplianceScanner } from '../../src/scanner/engine';
+import { TRANSCRIPT_ARTIFACT_TYPE } from '../../lib/scanner/transcript';
+import { MEDIA_ARTIFACT_TYPE, loadMediaInventory } from '../../lib/scanner/media';
+import { FakeSupabase, TestServer, serveSite, startFakeSupabase } from './helpers';
+
+const SCAN_ID = '2f1c9c62-3f5e-4c1b-9a63-5d1f0c7e8a41';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Checkout</title></head>
+<body>
+  <main>
+    <h1>Checkout</h1>
+    <img src="/banner.png" width="300" height="80">
+    <button style="outline: none">Pay now</button>
+    <video src="/tour.mp4" controls></video>
+    <div style="width: 900px">Delivery is free on orders over $50 to any address in the country.</div>
+  </main>
+</body>
+</html>`;
+
+test.describe('Scan evidence', () => {
+  // The tests share one scan, so they run in order in one worker
+  test.describe.configure({ mode: 'default' });
+
+  let site: TestServer;
+  let supabase: FakeSupabase;
+  let artifactDir: string;
+  let result: Awaited<ReturnType<ComplianceScanner['scanWebsite']>>;
+  const env = { ...process.env };
+
+  test.beforeAll(async () => {
+    site = await serveSite({ '/': PAGE });
+    supabase = await startFakeSupabase();
+    artifactDir = await mkdtemp(path.join(os.tmpdir(), 'equalshield-artifacts-'));
+
+    process.env.SUPABASE_URL = supabase.url;
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
+    process.env.ARTIFACT_STORAGE = 'local';
+    process.env.ARTIFACT_LOCAL_DIR = artifactDir;
+
+    // One scan of the page, as queueScan runs it; the tests check what it stored
+    const scanner = new ComplianceScanner('free', SCAN_ID);
+    result = await scanner.scanWebsite({ url: `${site.url}/`, depth: 'interactive', wcagLevel: 'AA' });
+  });
+
+  test.afterAll(async () => {
+    process.env = env;
+    await site.close();
+    await supabase.close();
+    await rm(artifactDir, { recursive: true, force: true });
+  });
+
+  test('records screenshot artifacts against the scan', () => {
+    const artifacts = supabase.inserted('artifacts');
+    expect(artifacts.filter(row => row.scan_id !== SCAN_ID)).toEqual([]);
+    expect(artifacts.map(row => row.type)).toContain('full_page_screenshot');
+    expect(artifacts.map(row => row.type)).toContain('screenshot');
+
+    // Findings link to the crops of their elements
+    const linked = result.violations.filter(violation => violation.evidence?.artifacts?.length);
+    expect(linked.length).toBeGreaterThan(0);
+    expect(artifacts.map(row => row.id)).toContain(linked[0].evidence!.artifacts![0].id);
+  });
+
+  test('stores the screen reader transcript of each page', () => {
+    const transcripts = supabase.inserted('artifacts').filter(row => row.type === TRANSCRIPT_ARTIFACT_TYPE);
+    expect(transcripts).toHaveLength(1);
+    expect(transcripts[0]).toMatchObject({ scan_id: SCAN_ID, metadata: { pageUrl: `${site.url}/`, viewport: 'desktop' } });
+  });
+
+  test('keeps focused and unfocused crops for a missing focus indicator', () => {
+    const violation = result.violations.find(candidate => candidate.ruleId === 'focus-visible');
+    expect(violation).toBeDefined();
+    expect(violation!.evidence?.artifacts?.map(artifact => artifact.label)).toEqual(['unfocused', 'focused']);
+
+    const crops = supabase.inserted('artifacts').filter(row => row.type === 'focus_state');
+    expect(crops.map(row => row.id)).toEqual(expect.arrayContaining(violation!.evidence!.artifacts!.map(artifact => artifact.id)));
+    expect(crops[0]).toMatchObject({ scan_id: SCAN_ID, content_type: 'image/png' });
+  });
+
+  test('keeps before and after screenshots of content that fails to reflow', () => {
+    const violation = result.violations.find(candidate => candidate.ruleId === 'reflow-horizontal-scroll');
+    expect(violation).toBeDefined();
+    expect(violation!.evidence?.artifacts?.length).toBeGreaterThan(0);
+
+    const screenshots = supabase.inserted('artifacts').filter(row => row.type === 'stress_screenshot');
+    expect(screenshots.map(row => row.id)).toEqual(expect.arrayContaining(violation!.evidence!.artifacts!.map(artifact => artifact.id)));
+    expect(screenshots[0]).toMatchObject({ scan_id: SCAN_ID, metadata: { pageUrl: `${site.url}/` } });
+  });
+
+  test('keeps the media inventory the VPAT remarks cite', async () => {
+    const inventories = supabase.inserted('artifacts').filter(row => row.type === MEDIA_ARTIFACT_TYPE);
+    expect(inventories).toHaveLength(1);
+    expect(inventories[0]).toMatchObject({ scan_id: SCAN_ID, metadata: { pageUrl: `${site.url}/`, items: 1 } });
+
+    const media = await loadMediaInventory(SCAN_ID);
+    expect(media.map(item => item.kind)).toEqual(['video']);
+  });
+});
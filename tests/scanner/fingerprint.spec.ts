@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import {
+  compareFindings,
+  disambiguateFingerprints,
+  normalizeSelector,
+  violationFingerprint
+} from '../../lib/scanner/fingerprint';
+
+const IDENTITY = { selector: '#search input[name="q"]', landmark: 'search:Site search', content: 'placeholder=Search' };
+
+test.describe('violationFingerprint', () => {
+  const violation = {
+    ruleId: 'label',
+    pageUrl: 'https://shop.example/products/',
+    elementSelector: 'main > div:nth-of-type(3) > input'
+  };
+
+  test('ignores the host, trailing slashes and index pages', () => {
+    const fingerprint = violationFingerprint(violation, IDENTITY);
+    expect(violationFingerprint({ ...violation, pageUrl: 'http://localhost:4173/products/index.html' }, IDENTITY)).toBe(fingerprint);
+    expect(violationFingerprint({ ...violation, pageUrl: 'https://shop.example/products' }, IDENTITY)).toBe(fingerprint);
+    expect(violationFingerprint({ ...violation, pageUrl: 'https://shop.example/checkout' }, IDENTITY)).not.toBe(fingerprint);
+  });
+
+  test('uses the element identity rather than the structural selector when resolved', () => {
+    const moved = { ...violation, elementSelector: 'main > div:nth-of-type(5) > section > input' };
+    expect(violationFingerprint(moved, IDENTITY)).toBe(violationFingerprint(violation, IDENTITY));
+    expect(violationFingerprint(violation, { ...IDENTITY, content: 'placeholder=Email' }))
+      .not.toBe(violationFingerprint(violation, IDENTITY));
+  });
+
+  test('falls back to the selector without positions', () => {
+    const shifted = { ...violation, elementSelector: 'main > div:nth-of-type(4) > input' };
+    expect(violationFingerprint(shifted)).toBe(violationFingerprint(violation));
+    expect(violationFingerprint({ ...violation, ruleId: 'color-contrast' })).not.toBe(violationFingerprint(violation));
+  });
+});
+
+test.describe('normalizeSelector', () => {
+  test('drops positions and masks numbers', () => {
+    expect(normalizeSelector('ul > li:nth-child(12) > a')).toBe('ul > li > a');
+    expect(normalizeSelector('#card-381 .price')).toBe('#card-# .price');
+  });
+});
+
+test.describe('disambiguateFingerprints', () => {
+  test('tells repeats apart by their order and leaves the first alone', () => {
+    const findings = [{ fingerprint: 'a' }, { fingerprint: 'b' }, { fingerprint: 'a' }, { fingerprint: 'a' }, {}];
+    disambiguateFingerprints(findings);
+
+    expect(findings[0].fingerprint).toBe('a');
+    expect(findings[1].fingerprint).toBe('b');
+    expect(new Set(findings.slice(0, 4).map(finding => finding.fingerprint)).size).toBe(4);
+    expect(findings[4].fingerprint).toBeUndefined();
+  });
+
+  test('gives the same repeats the same fingerprints in every scan', () => {
+    const first = [{ fingerprint: 'a' }, { fingerprint: 'a' }];
+    const second = [{ fingerprint: 'a' }, { fingerprint: 'a' }];
+    disambiguateFingerprints(first);
+    disambiguateFingerprints(second);
+    expect(second).toEqual(first);
+  });
+});
+
+test.describe('compareFindings', () => {
+  test('classifies findings as new, fixed or persisting', () => {
+    const previous = [{ id: 'p1', fingerprint: 'kept' }, { id: 'p2', fingerprint: 'gone' }];
+    const current = [{ id: 'c1', fingerprint: 'kept' }, { id: 'c2', fingerprint: 'added' }];
+
+    const comparison = compareFindings(previous, current);
+    expect(comparison.new.map(finding => finding.id)).toEqual(['c2']);
+    expect(comparison.fixed.map(finding => finding.id)).toEqual(['p2']);
+    expect(comparison.persisting.map(pair => [pair.previous.id, pair.current.id])).toEqual([['p1', 'c1']]);
+  });
+
+  test('counts a fingerprint repeated within a scan once', () => {
+    const previous = [{ id: 'p1', fingerprint: 'kept' }, { id: 'p2', fingerprint: 'kept' }];
+    const current = [{ id: 'desktop', fingerprint: 'kept' }, { id: 'phone', fingerprint: 'kept' }];
+
+    const comparison = compareFindings(previous, current);
+    expect(comparison.persisting.map(pair => [pair.previous.id, pair.current.id])).toEqual([['p1', 'desktop']]);
+    expect(comparison.new).toEqual([]);
+    expect(comparison.fixed).toEqual([]);
+  });
+
+  test('treats findings without a fingerprint as unmatched', () => {
+    const previous = [{ id: 'legacy', fingerprint: null }];
+    const current = [{ id: 'unresolved', fingerprint: null }];
+
+    const comparison = compareFindings(previous, current);
+    expect(comparison.new.map(finding => finding.id)).toEqual(['unresolved']);
+    expect(comparison.fixed.map(finding => finding.id)).toEqual(['legacy']);
+    expect(comparison.persisting).toEqual([]);
+  });
+});
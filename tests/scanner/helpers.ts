@@ -0,0 +1,83 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+async function listen(server: ReturnType<typeof createServer>): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const closer = (server: ReturnType<typeof createServer>) => () =>
+  new Promise<void>(resolve => server.close(() => resolve()));
+
+/**
+ * Serve fixed HTML pages by path; everything else (robots.txt, images) is a 404
+ */
+export async function serveSite(pages: Record<string, string>): Promise<TestServer> {
+  const server = createServer((req, res) => {
+    const html = pages[new URL(req.url || '/', 'http://site').pathname];
+    if (html === undefined) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(html);
+  });
+  return { url: await listen(server), close: closer(server) };
+}
+
+export interface FakeSupabase extends TestServer {
+  // Rows inserted into a table through the REST API, in order
+  inserted(table: string): Array<Record<string, unknown>>;
+}
+
+/**
+ * Just enough of Supabase's REST API for the scanner: inserts are recorded
+ * and echoed back with an id, reads return the recorded rows matching
+ * their column=eq.value filters
+ */
+export async function startFakeSupabase(): Promise<FakeSupabase> {
+  const rows = new Map<string, Array<Record<string, unknown>>>();
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://supabase');
+    const table = url.pathname.replace(/^\/rest\/v1\//, '');
+    // .single() asks for one object rather than an array
+    const single = (req.headers.accept || '').includes('vnd.pgrst.object');
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.method === 'GET') {
+        const filters = [...url.searchParams].filter(([, value]) => value.startsWith('eq.'));
+        const found = (rows.get(table) || [])
+          .filter(row => filters.every(([column, value]) => String(row[column]) === value.slice(3)));
+        if (single && found.length !== 1) {
+          res.writeHead(406, { 'Content-Type': 'application/json' }).end(JSON.stringify({ message: `${found.length} rows` }));
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(single ? found[0] : found));
+        return;
+      }
+      if (req.method !== 'POST') {
+        res.writeHead(204).end();
+        return;
+      }
+
+      const inserted = ([] as Array<Record<string, unknown>>).concat(JSON.parse(body || '[]'))
+        .map(row => ({ id: randomUUID(), ...row }));
+      rows.set(table, [...(rows.get(table) || []), ...inserted]);
+      res.writeHead(201, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify(single ? inserted[0] : inserted));
+    });
+  });
+
+  return {
+    url: await listen(server),
+    close: closer(server),
+    inserted: table => rows.get(table) || []
+  };
+}
@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { PageSnapshot, SNAPSHOT_MAX_AGE_MS, reusableSnapshot, rulesetKey, snapshotKey } from '../../lib/scanner/page-hash';
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+const SNAPSHOT: PageSnapshot<{ ruleId: string }> = {
+  pageUrl: 'https://shop.example/cart',
+  viewport: 'desktop',
+  ruleset: '2.2:AA:interactive',
+  contentHash: 'abc123',
+  scanId: 'scan-1',
+  analyzedAt: new Date(NOW - 60 * 60 * 1000).toISOString(),
+  findings: [{ ruleId: 'label' }]
+};
+
+test.describe('rulesetKey', () => {
+  test('joins the version, level and depth, defaulting to WCAG 2.2', () => {
+    expect(rulesetKey({ wcagLevel: 'AA', depth: 'interactive' })).toBe('2.2:AA:interactive');
+    expect(rulesetKey({ wcagVersion: '2.1', wcagLevel: 'AAA', depth: 'basic' })).toBe('2.1:AAA:basic');
+  });
+
+  test('tells form probing runs apart', () => {
+    expect(rulesetKey({ wcagLevel: 'AA', depth: 'interactive', probeForms: true })).toBe('2.2:AA:interactive:forms');
+    expect(rulesetKey({ wcagLevel: 'AA', depth: 'interactive', probeForms: false })).toBe('2.2:AA:interactive');
+  });
+});
+
+test.describe('snapshotKey', () => {
+  test('keys a page per viewport', () => {
+    expect(snapshotKey('https://shop.example/cart', 'phone')).not.toBe(snapshotKey('https://shop.example/cart', 'desktop'));
+  });
+});
+
+test.describe('reusableSnapshot', () => {
+  test('reuses a recent snapshot of the same content under the same rules', () => {
+    expect(reusableSnapshot(SNAPSHOT, 'abc123', '2.2:AA:interactive', NOW)).toBe(SNAPSHOT);
+  });
+
+  test('re-analyzes changed content or a different rule set', () => {
+    expect(reusableSnapshot(SNAPSHOT, 'def456', '2.2:AA:interactive', NOW)).toBeNull();
+    expect(reusableSnapshot(SNAPSHOT, 'abc123', '2.2:AA:interactive:forms', NOW)).toBeNull();
+  });
+
+  test('re-analyzes once the snapshot is older than the maximum age', () => {
+    const analyzedAt = (age: number) => ({ ...SNAPSHOT, analyzedAt: new Date(NOW - age).toISOString() });
+    expect(reusableSnapshot(analyzedAt(SNAPSHOT_MAX_AGE_MS), 'abc123', '2.2:AA:interactive', NOW)).not.toBeNull();
+    expect(reusableSnapshot(analyzedAt(SNAPSHOT_MAX_AGE_MS + 1), 'abc123', '2.2:AA:interactive', NOW)).toBeNull();
+  });
+
+  test('has nothing to reuse without a snapshot', () => {
+    expect(reusableSnapshot(undefined, 'abc123', '2.2:AA:interactive', NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+import { deflateSync } from 'node:zlib';
+import { decodePNG } from '../../lib/scanner/png';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// decodePNG doesn't verify CRCs, so they are left zero
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]);
+}
+
+function header(width: number, height: number, { bitDepth = 8, colorType = 6, interlace = 0 } = {}): Buffer {
+  const data = Buffer.alloc(13);
+  data.writeUInt32BE(width, 0);
+  data.writeUInt32BE(height, 4);
+  data[8] = bitDepth;
+  data[9] = colorType;
+  data[12] = interlace;
+  return chunk('IHDR', data);
+}
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+};
+
+// Scanlines with the given filter per row (0 none, 1 sub, 2 up, 3 average, 4 paeth)
+function filterRows(rows: number[][], channels: number, filters: number[]): Buffer {
+  return Buffer.concat(rows.map((row, y) => {
+    const previous = y > 0 ? rows[y - 1] : row.map(() => 0);
+    const filtered = row.map((value, x) => {
+      const left = x >= channels ? row[x - channels] : 0;
+      const up = previous[x];
+      const upLeft = x >= channels ? previous[x - channels] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filters[y]];
+      return (value - predictor) & 0xff;
+    });
+    return Buffer.from([filters[y], ...filtered]);
+  }));
+}
+
+function encodePNG(width: number, rows: number[][], { channels = 4, filters = rows.map(() => 0), idatChunks = 1 } = {}): Buffer {
+  const compressed = deflateSync(filterRows(rows, channels, filters));
+  const size = Math.ceil(compressed.length / idatChunks);
+  const idat = Array.from({ length: idatChunks }, (_, index) => chunk('IDAT', compressed.subarray(index * size, (index + 1) * size)));
+  return Buffer.concat([
+    SIGNATURE,
+    header(width, rows.length, { colorType: channels === 4 ? 6 : 2 }),
+    chunk('tEXt', Buffer.from('Software\0test', 'latin1')),
+    ...idat,
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+// Three RGBA pixels per row with values that make every predictor differ
+const RGBA_ROWS = [
+  [10, 200, 30, 255, 250, 5, 60, 128, 0, 0, 0, 0],
+  [20, 190, 35, 255, 245, 15, 70, 130, 255, 255, 255, 255],
+  [200, 10, 90, 64, 3, 250, 120, 200, 40, 80, 160, 255],
+  [199, 11, 91, 65, 128, 128, 128, 128, 1, 2, 3, 4],
+  [0, 255, 0, 255, 255, 0, 255, 0, 77, 66, 55, 44]
+];
+
+test.describe('decodePNG', () => {
+  test('undoes every scanline filter', () => {
+    const image = decodePNG(encodePNG(3, RGBA_ROWS, { filters: [0, 1, 2, 3, 4] }));
+    expect(image.width).toBe(3);
+    expect(image.height).toBe(5);
+    expect(Array.from(image.data)).toEqual(RGBA_ROWS.flat());
+  });
+
+  test('decodes the same pixels whichever filter a row uses', () => {
+    for (const filter of [1, 2, 3, 4]) {
+      const image = decodePNG(encodePNG(3, RGBA_ROWS, { filters: RGBA_ROWS.map(() => filter) }));
+      expect(Array.from(image.data), `filter ${filter}`).toEqual(RGBA_ROWS.flat());
+    }
+  });
+
+  test('expands RGB to opaque RGBA', () => {
+    const rows = [[255, 0, 0, 0, 255, 0], [0, 0, 255, 12, 34, 56]];
+    const image = decodePNG(encodePNG(2, rows, { channels: 3, filters: [1, 4] }));
+    expect(Array.from(image.data)).toEqual([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 12, 34, 56, 255]);
+  });
+
+  test('joins image data split across IDAT chunks', () => {
+    const image = decodePNG(encodePNG(3, RGBA_ROWS, { filters: [4, 3, 2, 1, 0], idatChunks: 3 }));
+    expect(Array.from(image.data)).toEqual(RGBA_ROWS.flat());
+  });
+
+  test('rejects anything but 8-bit non-interlaced RGB or RGBA', () => {
+    expect(() => decodePNG(Buffer.from('GIF89a'))).toThrow('Not a PNG image');
+
+    const unsupported = (options: { bitDepth?: number; colorType?: number; interlace?: number }) =>
+      () => decodePNG(Buffer.concat([SIGNATURE, header(1, 1, options), chunk('IEND', Buffer.alloc(0))]));
+    expect(unsupported({ colorType: 3 })).toThrow('Unsupported PNG format (bit depth 8, color type 3, interlace 0)');
+    expect(unsupported({ bitDepth: 16 })).toThrow('Unsupported PNG format');
+    expect(unsupported({ interlace: 1 })).toThrow('Unsupported PNG format');
+  });
+});
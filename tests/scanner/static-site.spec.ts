@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { deflateRawSync } from 'node:zlib';
+import { extractZipBundle } from '../../lib/scanner/static-site';
+
+interface ZipEntry {
+  name: string;
+  data: string;
+  deflate?: boolean;
+  // Uncompressed size written to the headers, when it should lie
+  declaredSize?: number;
+}
+
+// extractZipBundle doesn't verify CRCs, so they are left zero
+function zip(entries: ZipEntry[], { entryCount = entries.length } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const raw = Buffer.from(entry.data, 'utf8');
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entryCount, 8);
+  end.writeUInt16LE(entryCount, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+test.describe('extractZipBundle', () => {
+  let dest: string;
+
+  test.beforeEach(async () => {
+    dest = await mkdtemp(path.join(os.tmpdir(), 'equalshield-bundle-'));
+  });
+
+  test.afterEach(async () => {
+    await rm(dest, { recursive: true, force: true });
+  });
+
+  test('extracts stored and deflated entries', async () => {
+    await extractZipBundle(zip([
+      { name: 'index.html', data: '<h1>Home</h1>' },
+      { name: 'docs/', data: '' },
+      { name: 'docs/guide.html', data: '<h1>Guide</h1>'.repeat(50), deflate: true }
+    ]), dest);
+
+    expect(await readFile(path.join(dest, 'index.html'), 'utf8')).toBe('<h1>Home</h1>');
+    expect(await readFile(path.join(dest, 'docs/guide.html'), 'utf8')).toBe('<h1>Guide</h1>'.repeat(50));
+  });
+
+  test('unwraps a build folder zipped at the top', async () => {
+    await extractZipBundle(zip([
+      { name: 'dist/index.html', data: 'home' },
+      { name: 'dist/about/index.html', data: 'about' }
+    ]), dest);
+
+    expect((await readdir(dest)).sort()).toEqual(['about', 'index.html']);
+  });
+
+  test('rejects entries that would land outside the bundle', async () => {
+    for (const name of ['../escaped.html', 'pages/../../escaped.html', '..\\escaped.html', '/tmp/escaped.html']) {
+      await expect(extractZipBundle(zip([{ name: 'index.html', data: 'home' }, { name, data: 'x' }]), dest), name)
+        .rejects.toThrow('Zip entry escapes the bundle');
+    }
+    expect(await readdir(path.dirname(dest))).not.toContain('escaped.html');
+  });
+
+  test('rejects bundles over the size limit before inflating them', async () => {
+    const huge = 300 * 1024 * 1024;
+    await expect(extractZipBundle(zip([
+      { name: 'a.js', data: 'a', declaredSize: huge },
+      { name: 'b.js', data: 'b', declaredSize: huge }
+    ]), dest)).rejects.toThrow('Zip contents exceed the upload size limit');
+    expect(await readdir(dest)).toEqual([]);
+  });
+
+  test('rejects an entry that inflates past its declared size', async () => {
+    await expect(extractZipBundle(zip([
+      { name: 'bomb.html', data: '0'.repeat(100000), deflate: true, declaredSize: 100 }
+    ]), dest)).rejects.toThrow('Corrupt zip entry: bomb.html');
+  });
+
+  test('rejects archives with too many entries, zip64 and anything but a zip', async () => {
+    await expect(extractZipBundle(zip([], { entryCount: 10001 }), dest)).rejects.toThrow('Zip has more than 10000 entries');
+    await expect(extractZipBundle(zip([], { entryCount: 0xffff }), dest)).rejects.toThrow('Zip64 archives are not supported');
+    await expect(extractZipBundle(Buffer.from('<html>not a zip</html>'.repeat(3)), dest)).rejects.toThrow('Upload is not a zip archive');
+  });
+});
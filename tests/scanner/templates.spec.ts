@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+import { ComponentLocation, clusterViolations, summarizeClusters } from '../../lib/scanner/templates';
+
+const FOOTER: ComponentLocation = { region: 'footer', fingerprint: 'f00t', path: 'form > input', markup: 'm1' };
+const PRODUCT: ComponentLocation = { region: 'main', fingerprint: 'pr0d', path: 'div > img', markup: 'm2' };
+
+const finding = (pageUrl: string, component: ComponentLocation | null, extra: Record<string, string> = {}) => ({
+  ruleId: 'label',
+  pageUrl,
+  elementSelector: `${pageUrl} input`,
+  component,
+  ...extra
+});
+
+test.describe('clusterViolations', () => {
+  test('collapses a shared region element across pages into one site-wide issue', () => {
+    const [cluster, ...rest] = clusterViolations([
+      finding('/a', FOOTER),
+      finding('/b', FOOTER),
+      finding('/c', FOOTER)
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(cluster).toMatchObject({ scope: 'site-wide', region: 'footer', pageCount: 3 });
+    expect(cluster.representative.pageUrl).toBe('/a');
+    expect(cluster.occurrences.map(occurrence => occurrence.pageUrl)).toEqual(['/a', '/b', '/c']);
+  });
+
+  test('clusters page content only when the template, path and markup match', () => {
+    const clusters = clusterViolations([
+      finding('/shoes/1', PRODUCT),
+      finding('/shoes/2', PRODUCT),
+      finding('/shoes/3', { ...PRODUCT, markup: 'other' })
+    ]);
+
+    expect(clusters.map(cluster => [cluster.scope, cluster.pageCount])).toEqual([['template', 2], ['page', 1]]);
+  });
+
+  test('keeps the same element on one page a page issue', () => {
+    const [cluster] = clusterViolations([finding('/a', FOOTER), finding('/a', FOOTER, { viewport: 'desktop' })]);
+    expect(cluster).toMatchObject({ scope: 'page', pageCount: 1 });
+    expect(cluster.occurrences).toHaveLength(2);
+  });
+
+  test('keeps rules and viewports apart', () => {
+    const clusters = clusterViolations([
+      finding('/a', FOOTER),
+      finding('/b', FOOTER, { ruleId: 'color-contrast' }),
+      finding('/c', FOOTER, { viewport: 'phone' }),
+      finding('/d', FOOTER, { viewport: 'desktop' })
+    ]);
+
+    expect(clusters.map(cluster => cluster.occurrences.map(occurrence => occurrence.pageUrl)))
+      .toEqual([['/a', '/d'], ['/b'], ['/c']]);
+  });
+
+  test('falls back to the page and selector for findings without a location', () => {
+    const clusters = clusterViolations([finding('/a', null), finding('/a', null), finding('/b', null)]);
+    expect(clusters.map(cluster => [cluster.region, cluster.occurrences.length])).toEqual([[null, 2], [null, 1]]);
+  });
+});
+
+test.describe('summarizeClusters', () => {
+  test('counts unique issues, instances and shared ones', () => {
+    const clusters = clusterViolations([
+      finding('/a', FOOTER),
+      finding('/b', FOOTER),
+      finding('/shoes/1', PRODUCT),
+      finding('/shoes/2', PRODUCT),
+      finding('/c', null)
+    ]);
+
+    expect(summarizeClusters(clusters)).toEqual({ uniqueIssues: 3, instances: 5, siteWideIssues: 1, templateIssues: 1 });
+  });
+});
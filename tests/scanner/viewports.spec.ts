@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import { dedupeAcrossViewports, partitionByViewport, resolveViewports } from '../../lib/scanner/viewports';
+
+const finding = (viewport: 'desktop' | 'tablet' | 'phone', selector: string, criterion = '1.4.10') => ({
+  viewport,
+  pageUrl: 'https://shop.example/cart',
+  wcagCriterion: criterion,
+  elementSelector: selector
+});
+
+test.describe('partitionByViewport', () => {
+  test('counts findings per viewport', () => {
+    const { byViewport } = partitionByViewport([
+      finding('desktop', '#a'),
+      finding('phone', '#a'),
+      finding('phone', '#b'),
+      { pageUrl: 'https://shop.example/', wcagCriterion: '1.1.1', elementSelector: 'img' }
+    ], ['desktop', 'phone']);
+    expect(byViewport).toEqual({ desktop: 2, phone: 2 });
+  });
+
+  test('splits findings seen on only one side of desktop', () => {
+    const { mobileOnly, desktopOnly } = partitionByViewport([
+      finding('desktop', '#everywhere'),
+      finding('phone', '#everywhere'),
+      finding('desktop', '#wide-table'),
+      finding('phone', '#hamburger'),
+      finding('tablet', '#hamburger')
+    ], ['desktop', 'tablet', 'phone']);
+
+    expect(mobileOnly.map(f => f.elementSelector)).toEqual(['#hamburger']);
+    expect(desktopOnly.map(f => f.elementSelector)).toEqual(['#wide-table']);
+  });
+
+  test('tells findings apart by page, criterion and element', () => {
+    const { mobileOnly } = partitionByViewport([
+      finding('desktop', '#menu', '2.4.7'),
+      finding('phone', '#menu', '2.5.8'),
+      { ...finding('phone', '#menu', '2.4.7'), pageUrl: 'https://shop.example/checkout' }
+    ], ['desktop', 'phone']);
+    expect(mobileOnly.map(f => [f.pageUrl, f.wcagCriterion])).toEqual([
+      ['https://shop.example/cart', '2.5.8'],
+      ['https://shop.example/checkout', '2.4.7']
+    ]);
+  });
+
+  test('reports nothing as mobile-only when desktop was not scanned', () => {
+    const { mobileOnly, desktopOnly } = partitionByViewport([
+      finding('phone', '#hamburger'),
+      finding('tablet', '#carousel')
+    ], ['tablet', 'phone']);
+    expect(mobileOnly).toEqual([]);
+    expect(desktopOnly).toEqual([]);
+  });
+
+  test('reports nothing as desktop-only when no mobile viewport was scanned', () => {
+    const { desktopOnly } = partitionByViewport([finding('desktop', '#wide-table')], ['desktop']);
+    expect(desktopOnly).toEqual([]);
+  });
+
+  test('treats findings without a viewport as desktop', () => {
+    const { mobileOnly, desktopOnly } = partitionByViewport([
+      { pageUrl: 'https://shop.example/', wcagCriterion: '1.1.1', elementSelector: 'img' },
+      finding('phone', '#hamburger')
+    ], ['desktop', 'phone']);
+    expect(desktopOnly.map(f => f.elementSelector)).toEqual(['img']);
+    expect(mobileOnly.map(f => f.elementSelector)).toEqual(['#hamburger']);
+  });
+});
+
+test.describe('dedupeAcrossViewports', () => {
+  test('keeps the first occurrence of a finding', () => {
+    const kept = dedupeAcrossViewports([finding('desktop', '#a'), finding('phone', '#a'), finding('phone', '#b')]);
+    expect(kept.map(f => [f.viewport, f.elementSelector])).toEqual([['desktop', '#a'], ['phone', '#b']]);
+  });
+});
+
+test.describe('resolveViewports', () => {
+  test('puts desktop first and drops unknown and repeated names', () => {
+    expect(resolveViewports(['phone', 'watch', 'desktop', 'phone']).map(v => v.name)).toEqual(['desktop', 'phone']);
+    expect(resolveViewports().map(v => v.name)).toEqual(['desktop']);
+    expect(resolveViewports(['watch']).map(v => v.name)).toEqual(['desktop']);
+  });
+});
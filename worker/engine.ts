@@ -0,0 +1,9 @@
+// Bundle entry for the queue worker (npm run build -> dist/engine.js)
+// The worker runs the app's scan engine and flow runner rather than its own copy
+export { ComplianceScanner } from '@/src/scanner/engine';
+export { loadFlowDefinitions, runFlow, saveFlowRuns } from '@/src/scanner/flows';
+export { CRAWL_LIMITS } from '@/lib/security/url-guard';
+export { BrowserPool } from '@/lib/scanner/browser-pool';
+export { collectSecrets, loadAuthProfile, redactSecrets } from '@/lib/scanner/auth';
+export { dedupeAcrossViewports, partitionByViewport } from '@/lib/scanner/viewports';
+export { loadPageSnapshots, rulesetKey, savePageSnapshots } from '@/lib/scanner/page-hash';
@@ -3,6 +3,22 @@ import { createClient } from '@supabase/supabase-js';
 import { chromium } from 'playwright';
 import OpenAI from 'openai';
 import { randomUUID } from 'node:crypto';
+import {
+  BrowserPool,
+  ComplianceScanner,
+  CRAWL_LIMITS,
+  loadAuthProfile,
+  loadFlowDefinitions,
+  runFlow,
+  saveFlowRuns,
+  collectSecrets,
+  redactSecrets,
+  dedupeAcrossViewports,
+  partitionByViewport,
+  loadPageSnapshots,
+  rulesetKey,
+  savePageSnapshots
+} from './dist/engine.js';
 
 // Initialize services
 const supabase = createClient(
@@ -18,6 +34,30 @@ const openai = new OpenAI({
 const WORKER_ID = process.env.WORKER_ID || `railway-${randomUUID()}`;
 const POLL_INTERVAL_MS = process.env.POLL_INTERVAL_MS || 5000;
 const MAX_RETRIES = 3;
+// Jobs processed at once; their pages share the browser pool below
+const MAX_CONCURRENT_JOBS = parseInt(process.env.WORKER_MAX_JOBS || '2');
+
+// One browser for every job, relaunched if it crashes
+const pool = new BrowserPool({
+  launch: launchBrowser,
+  maxContexts: parseInt(process.env.WORKER_MAX_CONTEXTS || '4'),
+  maxPerHost: parseInt(process.env.WORKER_MAX_PER_HOST || '2'),
+  pageTimeoutMs: parseInt(process.env.WORKER_PAGE_TIMEOUT_MS || '90000')
+});
+const activeJobs = new Set();
+
+async function launchBrowser() {
+  const browserlessWS = process.env.BROWSERLESS_WS_URL;
+  if (browserlessWS) {
+    console.log('🔗 Connecting to Browserless...');
+    return chromium.connectOverCDP(browserlessWS);
+  }
+  console.log('🚀 Launching local Chromium...');
+  return chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+  });
+}
 
 console.log(`🚀 EqualShield Queue Worker Started`);
 console.log(`📡 Worker ID: ${WORKER_ID}`);
@@ -34,6 +74,8 @@ createServer((req, res) => {
     res.end(JSON.stringify({ 
       status: 'healthy', 
       worker: WORKER_ID,
+      activeJobs: activeJobs.size,
+      pool: pool.metrics(),
       timestamp: new Date().toISOString()
     }));
   } else {
@@ -63,10 +105,48 @@ async function claimJob() {
   }
 }
 
+// Job depths map onto the engine's scan depths
+const SCAN_DEPTHS = {
+  quick: 'surface',
+  standard: 'interactive',
+  deep: 'exhaustive'
+};
+
+// Crawl limits follow the organization's plan, as for scans run by the app
+async function organizationTier(orgId) {
+  const { data } = await supabase
+    .from('organizations')
+    .select('subscription_tier')
+    .eq('id', orgId)
+    .single();
+
+  const tier = data?.subscription_tier;
+  return typeof tier === 'string' && tier in CRAWL_LIMITS ? tier : 'free';
+}
+
+// Jobs queued without a scan record get one, so evidence has a scan to belong to
+async function createScanRecord(job) {
+  const { data: scan, error } = await supabase
+    .from('scans')
+    .insert({
+      org_id: String(job.org_id),
+      team_id: parseInt(job.org_id),
+      url: job.url,
+      domain: new URL(job.url).hostname,
+      status: 'processing'
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create scan: ${error.message}`);
+  }
+  return scan.id;
+}
+
 // Process a single scan job
 async function processScanJob(job) {
   const startTime = Date.now();
-  let browser;
 
   try {
     console.log(`🔄 Processing job ${job.id}: ${job.url}`);
@@ -77,121 +157,33 @@ async function processScanJob(job) {
       .update({ status: 'processing' })
       .eq('id', job.id);
 
-    // Launch browser
-    console.log(`🌐 Launching browser for ${job.url}`);
-    const browserlessWS = process.env.BROWSERLESS_WS_URL;
-    
-    if (browserlessWS) {
-      console.log('🔗 Connecting to Browserless...');
-      browser = await chromium.connectOverCDP(browserlessWS);
-    } else {
-      console.log('🚀 Launching local Chromium...');
-      browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
-      });
-    }
-
-    const context = await browser.newContext({
-      viewport: { width: 1920, height: 1080 },
-      userAgent: 'Mozilla/5.0 (compatible; EqualShield/2.0; +https://equalshield.com/bot)'
-    });
-
-    const page = await context.newPage();
-
-    // Navigate with timeout
-    await page.goto(job.url, {
-      waitUntil: 'networkidle',
-      timeout: 30000
-    });
-
-    console.log(`📸 Extracting page structure for ${job.url}`);
-
-    // Extract page structure (simplified from your existing code)
-    const pageData = await page.evaluate(() => {
-      return {
-        title: document.title,
-        url: window.location.href,
-        headings: Array.from(document.querySelectorAll('h1,h2,h3,h4,h5,h6')).map(h => ({
-          level: parseInt(h.tagName[1]),
-          text: h.textContent.trim()
-        })),
-        images: Array.from(document.querySelectorAll('img')).map(img => ({
-          src: img.src,
-          alt: img.alt || '',
-          hasAlt: !!img.alt
-        })),
-        links: Array.from(document.querySelectorAll('a[href]')).map(a => ({
-          text: a.textContent.trim(),
-          href: a.href
-        })),
-        forms: Array.from(document.querySelectorAll('form')).map(form => ({
-          inputs: Array.from(form.querySelectorAll('input,select,textarea')).map(input => ({
-            type: input.type || input.tagName.toLowerCase(),
-            hasLabel: !!document.querySelector(`label[for="${input.id}"]`) || !!input.getAttribute('aria-label')
-          }))
-        }))
-      };
-    });
-
-    // Run basic accessibility analysis
-    const violations = [];
-    
-    // Check images without alt text
-    pageData.images.forEach((img, idx) => {
-      if (!img.hasAlt && img.src && !img.src.includes('data:')) {
-        violations.push({
-          wcagCriterion: '1.1.1',
-          severity: 'critical',
-          elementType: 'image',
-          description: 'Image missing alt text',
-          impact: 'Screen readers cannot describe this image',
-          fixDescription: 'Add descriptive alt text to the image'
-        });
-      }
-    });
-
-    // Check form inputs without labels
-    pageData.forms.forEach(form => {
-      form.inputs.forEach(input => {
-        if (!input.hasLabel && input.type !== 'hidden' && input.type !== 'submit') {
-          violations.push({
-            wcagCriterion: '3.3.2',
-            severity: 'serious',
-            elementType: 'form',
-            description: 'Form input missing label',
-            impact: 'Users cannot determine the purpose of this input field',
-            fixDescription: 'Add a label for this input field'
-          });
-        }
-      });
-    });
-
-    // Check heading hierarchy
-    let lastLevel = 0;
-    pageData.headings.forEach((heading, idx) => {
-      if (idx === 0 && heading.level !== 1) {
-        violations.push({
-          wcagCriterion: '1.3.1',
-          severity: 'moderate',
-          elementType: 'heading',
-          description: 'Page should start with H1',
-          impact: 'Document structure is confusing for screen readers',
-          fixDescription: 'Start page with an H1 heading'
-        });
-      }
-      if (heading.level - lastLevel > 1) {
-        violations.push({
-          wcagCriterion: '1.3.1',
-          severity: 'minor',
-          elementType: 'heading',
-          description: `Heading hierarchy skip from H${lastLevel} to H${heading.level}`,
-          impact: 'Breaks logical document structure',
-          fixDescription: 'Use proper heading hierarchy'
-        });
-      }
-      lastLevel = heading.level;
+    // Evidence (screenshots, transcripts) is stored against the job's scan
+    const scanId = job.scan_id ?? await createScanRecord(job);
+
+    // Load per-site credentials for authenticated scans (only the job's organization's profiles)
+    const authProfile = job.auth_profile_id
+      ? await loadAuthProfile(job.auth_profile_id, job.org_id, job.url)
+      : undefined;
+
+    // Unchanged pages reuse the organization's last findings for them unless the job forces a full rescan
+    const depth = SCAN_DEPTHS[job.depth] || 'interactive';
+    const ruleset = rulesetKey({ wcagLevel: 'AA', depth });
+    const previousPages = job.force_full_rescan ? [] : await loadPageSnapshots(String(job.org_id), job.url, ruleset);
+
+    // Crawl the site and scan each page once per viewport in the shared pool;
+    // the engine redacts the profile's credentials from its results
+    const scanner = new ComplianceScanner(await organizationTier(job.org_id), scanId, pool);
+    const result = await scanner.scanWebsite({
+      url: job.url,
+      depth,
+      wcagLevel: 'AA',
+      auth: authProfile,
+      viewports: job.viewports || undefined,
+      previousPages,
+      forceFullRescan: job.force_full_rescan
     });
+    const violations = result.violations;
+    const scannedViewports = [...new Set(result.pages.map(page => page.viewport || 'desktop'))];
 
     // GPT-5 Analysis (if API key available)
     let aiAnalysis = null;
@@ -234,50 +226,66 @@ Provide a brief analysis in JSON format:
       }
     }
 
-    // Calculate scores
-    const criticalCount = violations.filter(v => v.severity === 'critical').length;
-    const seriousCount = violations.filter(v => v.severity === 'serious').length;
-    const moderateCount = violations.filter(v => v.severity === 'moderate').length;
-    const minorCount = violations.filter(v => v.severity === 'minor').length;
+    // Calculate scores (an issue repeated across pages or viewports counts once)
+    const uniqueViolations = dedupeAcrossViewports(result.issues.map(issue => issue.representative));
+    const criticalCount = uniqueViolations.filter(v => v.severity === 'critical').length;
+    const seriousCount = uniqueViolations.filter(v => v.severity === 'serious').length;
+    const moderateCount = uniqueViolations.filter(v => v.severity === 'moderate').length;
+    const minorCount = uniqueViolations.filter(v => v.severity === 'minor').length;
 
     const wcagScore = Math.max(0, 100 - (criticalCount * 15) - (seriousCount * 8) - (moderateCount * 3) - (minorCount * 1));
     const adaRiskScore = Math.min(100, (criticalCount * 20) + (seriousCount * 10) + (moderateCount * 3));
     const lawsuitProbability = Math.min(95, 5 + (criticalCount * 12) + (seriousCount * 6));
 
-    console.log(`📊 Analysis complete: Score ${wcagScore}, ${violations.length} violations`);
+    console.log(`📊 Analysis complete: Score ${wcagScore}, ${uniqueViolations.length} violations`);
 
     // Save scan results to main database
-    const { data: scan, error: scanError } = await supabase
+    const { byViewport, mobileOnly } = partitionByViewport(violations, scannedViewports);
+    const { error: scanError } = await supabase
       .from('scans')
-      .insert({
-        team_id: parseInt(job.org_id),
-        url: job.url,
+      .update({
         domain: new URL(job.url).hostname,
         wcag_score: wcagScore,
         ada_risk_score: adaRiskScore,
         lawsuit_probability: lawsuitProbability.toString(),
-        total_violations: violations.length,
+        total_violations: uniqueViolations.length,
         critical_violations: criticalCount,
         serious_violations: seriousCount,
         moderate_violations: moderateCount,
         minor_violations: minorCount,
         violations: violations,
+        viewport_summary: { scanned: scannedViewports, byViewport, mobileOnly: mobileOnly.length },
+        reused_pages: result.reusedPages,
         ai_analysis: aiAnalysis,
         status: 'complete',
         processing_time_ms: Date.now() - startTime,
         completed_at: new Date().toISOString()
       })
-      .select('id')
-      .single();
+      .eq('id', scanId);
 
     if (scanError) {
       throw new Error(`Failed to save scan: ${scanError.message}`);
     }
 
+    await savePageSnapshots(String(job.org_id), scanId, job.url, ruleset, result.pages);
+
+    // Replay scripted journeys attached to this site; a broken flow never fails the scan
+    try {
+      const flowDefinitions = await loadFlowDefinitions(job.org_id, job.url);
+      const flowRuns = await Promise.all(flowDefinitions.map(async (definition) => {
+        console.log(`🧭 Running flow "${definition.name}" (${definition.steps.length} steps)`);
+        const run = await runFlow(pool, definition, authProfile, job.url);
+        return { ...run, issues: redactSecrets(run.issues, collectSecrets(authProfile)) };
+      }));
+      await saveFlowRuns(scanId, flowRuns);
+    } catch (error) {
+      console.error('❌ Flow runs failed:', error);
+    }
+
     // Mark job as complete
     await supabase.rpc('complete_job', { 
       p_job_id: job.id, 
-      p_scan_id: scan.id 
+      p_scan_id: scanId 
     });
 
     console.log(`✅ Job ${job.id} completed successfully in ${Date.now() - startTime}ms`);
@@ -300,15 +308,10 @@ Provide a brief analysis in JSON format:
     });
     
     return false;
-
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
   }
 }
 
-// Main worker loop
+// Main worker loop: keeps up to MAX_CONCURRENT_JOBS jobs in flight
 async function runWorkerLoop() {
   let idleMs = 1000;
   
@@ -320,13 +323,18 @@ async function runWorkerLoop() {
         p_jobs_processed: null
       });
 
-      // Try to claim and process a job
-      const job = await claimJob();
+      // Try to claim and process a job while there is capacity
+      const job = activeJobs.size < MAX_CONCURRENT_JOBS ? await claimJob() : null;
       
       if (job) {
-        console.log(`📋 Claimed job ${job.id}: ${job.url} (${job.depth})`);
-        const success = await processScanJob(job);
-        idleMs = success ? 100 : 2000; // Reset backoff on success
+        console.log(`📋 Claimed job ${job.id}: ${job.url} (${job.depth}), ${activeJobs.size + 1}/${MAX_CONCURRENT_JOBS} active`);
+        const running = processScanJob(job).finally(() => activeJobs.delete(running));
+        activeJobs.add(running);
+        idleMs = 100; // Look for more work right away
+      } else if (activeJobs.size >= MAX_CONCURRENT_JOBS) {
+        // At capacity: wait for a job to finish
+        await Promise.race(activeJobs);
+        idleMs = 100;
       } else {
         console.log('😴 No jobs available, waiting...');
         idleMs = Math.min(POLL_INTERVAL_MS, idleMs * 1.2); // Gradual backoff
@@ -342,13 +350,15 @@ async function runWorkerLoop() {
 }
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('👋 Worker shutting down gracefully...');
+  await pool.close();
   process.exit(0);
 });
 
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.log('👋 Worker interrupted, shutting down...');
+  await pool.close();
   process.exit(0);
 });
 